@@ -5,6 +5,8 @@ import { HostSetup } from './pages/host-setup';
 import { JoinGame } from './pages/join-game';
 import { HostDashboard } from './pages/host-dashboard';
 import { PlayerGame } from './pages/player-game';
+import { CallerDisplay } from './pages/caller-display';
+import { StreamOverlay } from './pages/stream-overlay';
 
 function App() {
   console.log('🚀 App component rendering');
@@ -18,6 +20,8 @@ function App() {
         <Route path="/join" element={<JoinGame />} />
         <Route path="/host/:roomCode" element={<HostDashboard />} />
         <Route path="/play/:roomCode" element={<PlayerGame />} />
+        <Route path="/display/:roomCode" element={<CallerDisplay />} />
+        <Route path="/overlay/:roomCode" element={<StreamOverlay />} />
       </Routes>
       </div>
     </Router>
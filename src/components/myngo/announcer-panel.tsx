@@ -0,0 +1,130 @@
+// Announcer Panel Component - Voice, speed and phrases for reading calls aloud
+// Created: Shared by the host dashboard and the player's game page
+
+import { useEffect, useState } from 'react';
+import { GlassCard } from '../ui/glass-card';
+import {
+  announcer,
+  isSpeechSupported,
+  AnnouncerSettings,
+  ANNOUNCER_RATE_MIN,
+  ANNOUNCER_RATE_MAX
+} from '../../lib/announcer';
+import { getCallAnnouncement } from '../../utils/call-phrases';
+import { Volume2, VolumeX } from 'lucide-react';
+
+interface AnnouncerPanelProps {
+  settings: AnnouncerSettings;
+  onChange: (changes: Partial<AnnouncerSettings>) => void;
+  className?: string;
+}
+
+// Voices load asynchronously in most browsers
+function useSpeechVoices(): SpeechSynthesisVoice[] {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => (
+    isSpeechSupported() ? window.speechSynthesis.getVoices() : []
+  ));
+
+  useEffect(() => {
+    if (!isSpeechSupported()) return;
+    const loadVoices = () => setVoices(window.speechSynthesis.getVoices());
+    window.speechSynthesis.addEventListener('voiceschanged', loadVoices);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+  }, []);
+
+  return voices;
+}
+
+export function AnnouncerPanel({ settings, onChange, className = '' }: AnnouncerPanelProps) {
+  const voices = useSpeechVoices();
+
+  if (!isSpeechSupported()) {
+    return (
+      <GlassCard className={`p-4 ${className}`}>
+        <div className="flex items-center gap-2">
+          <VolumeX className="w-4 h-4 text-white/50" />
+          <p className="text-white/60 text-xs">This browser can't read calls aloud.</p>
+        </div>
+      </GlassCard>
+    );
+  }
+
+  const testVoice = () => {
+    announcer.cancel();
+    announcer.announce(getCallAnnouncement({ letter: 'G', number: 52 }, settings.usePhrases), settings);
+  };
+
+  return (
+    <GlassCard className={`p-4 ${className}`}>
+      <label className="flex items-center justify-between gap-3 cursor-pointer">
+        <span className="flex items-center gap-2">
+          {settings.enabled ? (
+            <Volume2 className="w-4 h-4 text-purple-300" />
+          ) : (
+            <VolumeX className="w-4 h-4 text-white/50" />
+          )}
+          <span className="text-white font-semibold text-sm">Read Calls Aloud</span>
+        </span>
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ enabled: e.target.checked })}
+          className="w-5 h-5 text-purple-500 rounded focus:ring-purple-500"
+        />
+      </label>
+
+      {settings.enabled && (
+        <div className="space-y-3 mt-3">
+          <div>
+            <label className="block text-white/70 text-xs mb-1">Voice</label>
+            <select
+              value={settings.voiceURI ?? ''}
+              onChange={(e) => onChange({ voiceURI: e.target.value || null })}
+              className="w-full px-2 py-1.5 bg-white/10 border border-white/20 rounded-lg text-white text-sm
+                       focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+            >
+              <option value="" className="text-gray-900">Browser default</option>
+              {voices.map(voice => (
+                <option key={voice.voiceURI} value={voice.voiceURI} className="text-gray-900">
+                  {voice.name} ({voice.lang})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-white/70 text-xs mb-1">
+              Speed: {settings.rate.toFixed(1)}×
+            </label>
+            <input
+              type="range"
+              min={ANNOUNCER_RATE_MIN}
+              max={ANNOUNCER_RATE_MAX}
+              step="0.1"
+              value={settings.rate}
+              onChange={(e) => onChange({ rate: parseFloat(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-white text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.usePhrases}
+              onChange={(e) => onChange({ usePhrases: e.target.checked })}
+              className="w-4 h-4 text-purple-500 rounded focus:ring-purple-500"
+            />
+            Traditional call phrases ("Danny La Rue. G… fifty-two")
+          </label>
+
+          <button
+            onClick={testVoice}
+            className="text-purple-300 hover:text-purple-200 text-sm underline"
+          >
+            Test voice
+          </button>
+        </div>
+      )}
+    </GlassCard>
+  );
+}
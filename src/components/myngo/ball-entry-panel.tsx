@@ -0,0 +1,110 @@
+// Ball Entry Panel - Calling for rooms that draw from a physical ball cage
+// Created: The host types the drawn ball or taps it on a 75-number grid
+
+import { useState } from 'react';
+import { CalledNumber } from '../../types/myngo';
+import { getLetterForNumber, parseBallEntry, MYNGO_COLUMNS } from '../../utils/myngo-utils';
+import { GradientButton } from '../ui/gradient-button';
+
+interface BallEntryPanelProps {
+  calledNumbers: CalledNumber[];
+  onCall: (number: number) => Promise<void>;
+  disabled?: boolean;
+}
+
+export function BallEntryPanel({ calledNumbers, onCall, disabled = false }: BallEntryPanelProps) {
+  const [entry, setEntry] = useState('');
+  const [entryError, setEntryError] = useState<string | null>(null);
+  const [isCalling, setIsCalling] = useState(false);
+  const calledSet = new Set(calledNumbers.map(call => call.number));
+
+  const call = async (number: number) => {
+    setIsCalling(true);
+    setEntryError(null);
+    try {
+      await onCall(number);
+      setEntry('');
+    } catch (error) {
+      setEntryError(error instanceof Error ? error.message : 'Could not call that number');
+    } finally {
+      setIsCalling(false);
+    }
+  };
+
+  const submitEntry = () => {
+    const parsed = parseBallEntry(entry, calledNumbers);
+    if ('error' in parsed) {
+      setEntryError(parsed.error);
+      return;
+    }
+    call(parsed.number);
+  };
+
+  const isLocked = disabled || isCalling;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={entry}
+          onChange={(e) => {
+            setEntry(e.target.value);
+            setEntryError(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') submitEntry();
+          }}
+          placeholder="G-52"
+          disabled={isLocked}
+          className="flex-1 min-w-0 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white font-mono uppercase
+                   focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-500/50
+                   transition-all duration-200 disabled:opacity-50"
+          maxLength={5}
+        />
+        <GradientButton
+          variant="purple"
+          size="sm"
+          onClick={submitEntry}
+          disabled={isLocked || !entry.trim()}
+        >
+          Call
+        </GradientButton>
+      </div>
+
+      {entryError && <p className="text-red-300 text-xs">{entryError}</p>}
+
+      {/* 75-number grid, one column per letter */}
+      <div className="grid grid-cols-5 gap-1">
+        {MYNGO_COLUMNS.map(({ letter, color, numbers }) => (
+          <div key={letter} className="flex flex-col gap-1">
+            <div
+              className="text-center text-white font-bold text-sm rounded py-0.5"
+              style={{ background: color }}
+            >
+              {letter}
+            </div>
+            {numbers.map(number => {
+              const isCalled = calledSet.has(number);
+              return (
+                <button
+                  key={number}
+                  onClick={() => call(number)}
+                  disabled={isLocked || isCalled}
+                  title={isCalled ? `${getLetterForNumber(number)}-${number} has been called` : `Call ${getLetterForNumber(number)}-${number}`}
+                  className={`rounded py-1 text-xs font-mono transition-colors ${
+                    isCalled
+                      ? 'bg-purple-500/40 text-white/50 line-through cursor-not-allowed'
+                      : 'bg-white/10 text-white hover:bg-white/25 disabled:opacity-50 disabled:cursor-not-allowed'
+                  }`}
+                >
+                  {number}
+                </button>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
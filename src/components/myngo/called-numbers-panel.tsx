@@ -1,36 +1,29 @@
 // Called Numbers Panel - Display of called numbers with timestamps
 // Created: Side panel showing called numbers history with visual indicators
+// Updated: Highlights numbers across all of a player's cards
 
 import React from 'react';
-import { CalledNumber } from '../../types/myngo';
+import { CalledNumber, PlayerCard } from '../../types/myngo';
 import { formatCalledNumber } from '../../utils/myngo-utils';
 import { GlassCard } from '../ui/glass-card';
 import { Clock } from 'lucide-react';
 
 interface CalledNumbersPanelProps {
   calledNumbers: CalledNumber[];
-  playerCard?: any;
-  markedNumbers?: number[];
+  playerCards?: Pick<PlayerCard, 'card' | 'markedNumbers'>[];
   className?: string;
 }
 
 export function CalledNumbersPanel({ 
   calledNumbers, 
-  playerCard, 
-  markedNumbers = [],
+  playerCards = [],
   className = '' 
 }: CalledNumbersPanelProps) {
-  const markedSet = new Set(markedNumbers);
-
-  // Get all numbers from player's card for checking
-  const cardNumbers = playerCard ? [
-    ...playerCard.M,
-    ...playerCard.Y,
-    ...playerCard.N,
-    ...playerCard.G,
-    ...playerCard.O
-  ] : [];
-  const cardNumbersSet = new Set(cardNumbers);
+  // Cards holding each number - a number only counts as marked once it is
+  // marked on every card it appears on
+  const cardsWithNumber = (number: number) => playerCards.filter(({ card }) => (
+    [...card.M, ...card.Y, ...card.N, ...card.G, ...card.O].includes(number)
+  ));
 
   const formatTime = (timestamp: string) => {
     const date = new Date(timestamp);
@@ -72,8 +65,9 @@ export function CalledNumbersPanel({
               <div className="text-white/70 text-xs mb-2">History</div>
               <div className="flex-1 overflow-y-auto pr-2 space-y-1">
                 {calledNumbers.slice(1).map((calledNumber, index) => {
-                  const isOnCard = cardNumbersSet.has(calledNumber.number);
-                  const isMarked = markedSet.has(calledNumber.number);
+                  const holdingCards = cardsWithNumber(calledNumber.number);
+                  const isOnCard = holdingCards.length > 0;
+                  const isMarked = isOnCard && holdingCards.every(({ markedNumbers }) => markedNumbers.includes(calledNumber.number));
                   
                   return (
                     <div
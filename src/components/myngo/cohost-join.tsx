@@ -0,0 +1,87 @@
+// Co-host Join Component - What a co-host invite opens before the dashboard
+// Created: The invited co-host picks a name and gets their own host token
+
+import { useState } from 'react';
+import { GlassCard } from '../ui/glass-card';
+import { GradientButton } from '../ui/gradient-button';
+import { backend } from '../../lib/backend';
+import { UserPlus } from 'lucide-react';
+
+interface CohostJoinProps {
+  roomId: string;
+  roomCode: string;
+  inviteToken: string;
+  onJoined: () => void;
+  onLeave: () => void;
+}
+
+export function CohostJoin({ roomId, roomCode, inviteToken, onJoined, onLeave }: CohostJoinProps) {
+  const [name, setName] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
+  const [joinError, setJoinError] = useState<string | null>(null);
+
+  const join = async () => {
+    if (!name.trim()) return;
+
+    setIsJoining(true);
+    setJoinError(null);
+    try {
+      await backend.joinAsCohost(roomId, inviteToken, name);
+      onJoined();
+    } catch (error) {
+      setJoinError(error instanceof Error ? error.message : 'Could not join as co-host');
+      setIsJoining(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-fuchsia-900 via-fuchsia-800 to-cyan-900 flex items-center justify-center">
+      <GlassCard className="p-8 text-center max-w-md w-full mx-4">
+        <div className="w-16 h-16 bg-cyan-500/20 rounded-full flex items-center justify-center mx-auto mb-6">
+          <UserPlus className="w-8 h-8 text-cyan-300" />
+        </div>
+
+        <h2 className="text-white text-xl font-semibold mb-4">Co-host Room {roomCode}</h2>
+        <p className="text-white/70 text-sm mb-6">
+          You've been invited to help run this game. Co-hosts can call numbers, pause, view cards and
+          check claims - only the owner can cancel or end the game.
+        </p>
+
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') join();
+          }}
+          placeholder="Your name"
+          className="w-full px-4 py-3 mb-4 bg-white/10 border border-white/20 rounded-lg text-white
+                   focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-purple-500/50
+                   transition-all duration-200"
+          maxLength={30}
+        />
+
+        {joinError && <p className="text-red-300 text-sm mb-4">{joinError}</p>}
+
+        <GradientButton
+          variant="cyan"
+          size="md"
+          onClick={join}
+          disabled={isJoining || !name.trim()}
+          className="w-full mb-3"
+        >
+          {isJoining ? 'Joining...' : 'Join as Co-host'}
+        </GradientButton>
+
+        <GradientButton
+          variant="red"
+          size="sm"
+          onClick={onLeave}
+          className="w-full"
+        >
+          Back to Home
+        </GradientButton>
+      </GlassCard>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+// Fairness Panel Component - Seed commitment during the game, verification after
+// Created: Lets players check their card and the call order against the revealed seed
+// Updated: Ball cage games are checked on the seed and cards only
+
+import { useMemo } from 'react';
+import { CalledNumber, MyngoCard, MyngoRoom } from '../../types/myngo';
+import { GlassCard } from '../ui/glass-card';
+import { verifyGame } from '../../utils/fairness';
+import { isCageCalling } from '../../utils/myngo-utils';
+import { ShieldCheck, ShieldAlert, Lock } from 'lucide-react';
+
+interface FairnessPanelProps {
+  room: MyngoRoom;
+  // Cards to check - the player's own, or every card for the host
+  cards: { playerId: string; card: MyngoCard }[];
+  calledNumbers: CalledNumber[];
+  className?: string;
+}
+
+function shortHash(value: string): string {
+  return `${value.slice(0, 12)}…${value.slice(-6)}`;
+}
+
+export function FairnessPanel({ room, cards, calledNumbers, className = '' }: FairnessPanelProps) {
+  const isCageGame = isCageCalling(room.config);
+  const report = useMemo(() => {
+    if (!room.seed || !room.seed_hash) return null;
+    // Called numbers arrive newest first
+    const callsInOrder = [...calledNumbers].reverse().map(call => call.number);
+    return verifyGame(room.seed, room.seed_hash, cards, isCageGame ? null : callsInOrder);
+  }, [room.seed, room.seed_hash, cards, calledNumbers, isCageGame]);
+
+  if (!room.seed_hash) return null;
+
+  if (!room.seed || !report) {
+    return (
+      <GlassCard className={`p-4 ${className}`}>
+        <div className="flex items-center gap-2 mb-2">
+          <Lock className="w-4 h-4 text-purple-300" />
+          <h3 className="text-white font-semibold text-sm">Fair Draw</h3>
+        </div>
+        <p className="text-white/60 text-xs mb-1">
+          {isCageGame ? 'Cards come' : 'Cards and calls come'} from a secret seed, revealed when the game ends. Its fingerprint:
+        </p>
+        <code className="block text-purple-200 text-xs break-all" title={room.seed_hash}>
+          {shortHash(room.seed_hash)}
+        </code>
+      </GlassCard>
+    );
+  }
+
+  const checks = [
+    { ok: report.seedMatchesCommitment, label: 'Seed matches the fingerprint published at the start' },
+    {
+      ok: report.mismatchedCards.length === 0,
+      label: cards.length === 1
+        ? 'Your card was dealt from the seed'
+        : `${cards.length - report.mismatchedCards.length}/${cards.length} cards dealt from the seed`
+    },
+    {
+      ok: report.firstOffOrderCall === null,
+      label: isCageGame
+        ? 'Numbers were drawn from a ball cage, not the seed'
+        : report.firstOffOrderCall === null
+          ? `All ${calledNumbers.length} calls followed the seeded order`
+          : `Call #${report.firstOffOrderCall + 1} broke the seeded order`
+    }
+  ];
+
+  return (
+    <GlassCard className={`p-4 ${className}`}>
+      <div className="flex items-center gap-2 mb-2">
+        {report.isFair ? (
+          <ShieldCheck className="w-5 h-5 text-green-400" />
+        ) : (
+          <ShieldAlert className="w-5 h-5 text-red-400" />
+        )}
+        <h3 className="text-white font-semibold text-sm">
+          {report.isFair ? 'Fair Draw Verified' : 'Fair Draw Check Failed'}
+        </h3>
+      </div>
+
+      <ul className="space-y-1 mb-2">
+        {checks.map(check => (
+          <li key={check.label} className={`text-xs ${check.ok ? 'text-green-300' : 'text-red-300'}`}>
+            {check.ok ? '✓' : '✗'} {check.label}
+          </li>
+        ))}
+      </ul>
+
+      <div className="text-white/50 text-xs">Seed</div>
+      <code className="block text-purple-200 text-xs break-all">{room.seed}</code>
+    </GlassCard>
+  );
+}
@@ -0,0 +1,64 @@
+// Join QR Code Component - Scannable join link for a room
+// Created: Drawn in the browser as an SVG, no outside QR service involved
+
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { getJoinLink } from '../../utils/myngo-utils';
+
+interface JoinQrCodeProps {
+  roomCode: string;
+  // Rendered width and height in pixels
+  size?: number;
+  // Show the link with a copy button under the code
+  showLink?: boolean;
+  className?: string;
+}
+
+export function JoinQrCode({ roomCode, size = 160, showLink = true, className = '' }: JoinQrCodeProps) {
+  const [svg, setSvg] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const joinLink = getJoinLink(roomCode);
+
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toString(joinLink, { type: 'svg', margin: 1, errorCorrectionLevel: 'M' })
+      .then(markup => {
+        if (!cancelled) setSvg(markup);
+      })
+      .catch(error => {
+        console.error('❌ Failed to draw join QR code:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [joinLink]);
+
+  const copyJoinLink = async () => {
+    await navigator.clipboard.writeText(joinLink);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  return (
+    <div className={`flex flex-col items-center gap-2 ${className}`}>
+      <div className="bg-white rounded-lg p-2" style={{ width: size, height: size }}>
+        {svg && (
+          <img
+            src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+            alt={`QR code to join room ${roomCode}`}
+            className="w-full h-full"
+          />
+        )}
+      </div>
+      {showLink && (
+        <button
+          onClick={copyJoinLink}
+          className="text-purple-300 hover:text-purple-200 text-sm underline break-all"
+        >
+          {linkCopied ? 'Join link copied!' : joinLink.replace(/^https?:\/\//, '')}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 // MYNGO Card Component - Interactive game card with win detection
-// Updated: Replaced "So Close" with "MYNGO" win button when player has winning pattern
+// Updated: Hosts checking a claim see marks that were never called
 
 import React from 'react';
-import { MyngoCard as MyngoCardType } from '../../types/myngo';
-import { checkWin, isCloseToWin } from '../../utils/myngo-utils';
+import { MyngoCard as MyngoCardType, WinPattern } from '../../types/myngo';
+import { cardToArray, checkWin, getNearWinCells } from '../../utils/myngo-utils';
+import { getPatternCells, getWinPattern } from '../../utils/win-patterns';
 import { GlassCard } from '../ui/glass-card';
 
 interface MyngoCardProps {
@@ -14,6 +15,9 @@ interface MyngoCardProps {
   canMark?: boolean;
   showWinButton?: boolean;
   onWin?: () => void;
+  winPattern?: WinPattern;
+  // Claim checking: flag marks that were never called and calls left unmarked
+  highlightCalls?: boolean;
 }
 
 export function MyngoCard({ 
@@ -23,12 +27,20 @@ export function MyngoCard({
   onMarkNumber, 
   canMark = true,
   showWinButton = false,
-  onWin 
+  onWin,
+  winPattern = getWinPattern(),
+  highlightCalls = false
 }: MyngoCardProps) {
   const markedSet = new Set(markedNumbers);
   const calledSet = new Set(calledNumbers);
-  const winCheck = checkWin(card, markedNumbers);
-  const isClose = isCloseToWin(card, markedNumbers);
+  const winCheck = checkWin(card, markedNumbers, winPattern);
+  const nearWinCells = new Set(getNearWinCells(card, markedNumbers, winPattern));
+  const isClose = nearWinCells.size > 0;
+  const winningCells = new Set(winCheck.cells || []);
+
+  // Outline the shape being played unless it covers the whole card (lines, blackout)
+  const patternCells = getPatternCells(winPattern);
+  const showPatternOutline = patternCells.size < 25;
 
   // Enhanced logging for win detection
   console.log('🎴 MyngoCard render:', {
@@ -41,23 +53,7 @@ export function MyngoCard({
   });
 
   // Convert card to array for rendering
-  const cardArray: (number | 'WILD')[][] = [];
-  for (let row = 0; row < 5; row++) {
-    cardArray[row] = [];
-    cardArray[row][0] = card.M[row]; // M column
-    cardArray[row][1] = card.Y[row]; // Y column
-    
-    // N column - WILD in center (row 2)
-    if (row === 2) {
-      cardArray[row][2] = 'WILD';
-    } else {
-      const nIndex = row < 2 ? row : row - 1;
-      cardArray[row][2] = card.N[nIndex];
-    }
-    
-    cardArray[row][3] = card.G[row]; // G column
-    cardArray[row][4] = card.O[row]; // O column
-  }
+  const cardArray = cardToArray(card);
 
   const handleCellClick = (cell: number | 'WILD') => {
     if (cell === 'WILD' || !canMark) return;
@@ -105,6 +101,14 @@ export function MyngoCard({
       {/* MYNGO Card */}
       <GlassCard className="p-3 sm:p-4 md:p-6 lg:p-8 xl:p-12 w-full max-w-xs sm:max-w-sm md:max-w-lg lg:max-w-2xl xl:max-w-4xl">
         <div className="flex flex-col items-center gap-4">
+          {/* Active Pattern */}
+          <div className="text-center">
+            <div className="text-white font-semibold text-sm md:text-base lg:text-lg">
+              Pattern: {winPattern.name}
+            </div>
+            <div className="text-white/60 text-xs md:text-sm">{winPattern.description}</div>
+          </div>
+
           {/* Header */}
           <div className="grid grid-cols-5 gap-1 sm:gap-2 md:gap-3 lg:gap-4 xl:gap-6 text-center w-full">
             {['M', 'Y', 'N', 'G', 'O'].map((letter, index) => (
@@ -132,6 +136,12 @@ export function MyngoCard({
                 const isMarked = isWild || markedSet.has(number);
                 const isCalled = isWild || calledSet.has(number);
                 const canClick = canMark && !isWild && isCalled && !isMarked;
+                const cellIndex = rowIndex * 5 + colIndex;
+                const isWinningCell = winningCells.has(cellIndex);
+                const isNearWinCell = !winCheck.hasWin && nearWinCells.has(cellIndex);
+                const isPatternCell = showPatternOutline && patternCells.has(cellIndex);
+                const isBadMark = highlightCalls && isMarked && !isCalled;
+                const isMissedCall = highlightCalls && isCalled && !isMarked;
 
                 return (
                   <button
@@ -142,13 +152,25 @@ export function MyngoCard({
                       aspect-square rounded-lg border-2 font-bold text-xs sm:text-sm md:text-base lg:text-xl xl:text-2xl
                       transition-all duration-200 ease-out
                       min-h-[40px] sm:min-h-[48px] md:min-h-[56px] lg:min-h-[72px] xl:min-h-[88px]
-                      ${isMarked 
+                      ${isBadMark
+                        ? 'bg-red-500/70 border-red-300 text-white scale-95'
+                        : isMarked
                         ? 'bg-gradient-to-br from-purple-500 to-pink-500 border-purple-400 text-white scale-95' 
                         : isCalled
                           ? 'bg-white/10 border-white/30 text-white hover:bg-white/20 hover:scale-105 cursor-pointer'
                           : 'bg-black/30 border-white/10 text-white/50 cursor-not-allowed'
                       }
                       ${canClick ? 'hover:shadow-lg hover:shadow-purple-500/30' : ''}
+                      ${isWinningCell
+                        ? 'ring-2 ring-yellow-400 shadow-lg shadow-yellow-400/40'
+                        : isMissedCall
+                          ? 'ring-2 ring-green-400'
+                        : isNearWinCell
+                          ? 'ring-2 ring-orange-400 animate-pulse'
+                          : isPatternCell
+                            ? 'ring-1 ring-cyan-300/60'
+                            : ''
+                      }
                     `}
                   >
                     {isWild ? 'WILD' : number}
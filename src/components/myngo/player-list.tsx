@@ -1,20 +1,36 @@
 // Player List Component - Display of all players in the game
-// Created: Real-time player list with status indicators and card preview
+// Updated: Hosts see how many marks each player tried on uncalled numbers
 
 import React from 'react';
-import { MyngoPlayer } from '../../types/myngo';
+import { MyngoPlayer, PrizeStage, WinPattern } from '../../types/myngo';
 import { GlassCard } from '../ui/glass-card';
-import { Users, Bot, Crown, Eye } from 'lucide-react';
-import { isCloseToWin, checkWin } from '../../utils/myngo-utils';
+import { Users, Bot, Crown, Eye, WifiOff } from 'lucide-react';
+import { isCloseToWin, checkWin, getPlayerCards } from '../../utils/myngo-utils';
+import { getWinPattern } from '../../utils/win-patterns';
 
 interface PlayerListProps {
   players: MyngoPlayer[];
   calledNumbers: number[];
   onViewCard?: (player: MyngoPlayer) => void;
+  winPattern?: WinPattern;
+  prizes?: PrizeStage[];
+  // Shown on disconnected players - how long they keep their seat
+  disconnectGraceMinutes?: number;
+  // False marks that stop a player claiming (0 = no limit)
+  falseMarkLimit?: number;
   className?: string;
 }
 
-export function PlayerList({ players, calledNumbers, onViewCard, className = '' }: PlayerListProps) {
+export function PlayerList({
+  players,
+  calledNumbers,
+  onViewCard,
+  winPattern = getWinPattern(),
+  prizes = [],
+  disconnectGraceMinutes,
+  falseMarkLimit = 0,
+  className = ''
+}: PlayerListProps) {
   const humanPlayers = players.filter(p => !p.is_bot);
   const botPlayers = players.filter(p => p.is_bot);
 
@@ -26,7 +42,7 @@ export function PlayerList({ players, calledNumbers, onViewCard, className = ''
       // Only show as winner if they've actually pressed the MYNGO button
       if (player.is_winner === true) return 'winner';
       
-      if (player.card && player.marked_numbers && isCloseToWin(player.card, player.marked_numbers)) {
+      if (player.card && getPlayerCards(player).some(({ card, markedNumbers }) => isCloseToWin(card, markedNumbers, winPattern))) {
         return 'close';
       }
       
@@ -37,9 +53,22 @@ export function PlayerList({ players, calledNumbers, onViewCard, className = ''
     }
   };
 
+  // Names of the prizes a player has won, in stage order
+  const getPrizeNames = (player: MyngoPlayer) => {
+    return prizes
+      .filter(prize => player.prizes_won?.includes(prize.id))
+      .map(prize => prize.name);
+  };
+
   const PlayerItem = ({ player }: { player: MyngoPlayer }) => {
     const status = getPlayerStatus(player);
-    const markedCount = player.marked_numbers.length;
+    // Progress on the player's best card
+    const cards = getPlayerCards(player);
+    const markedCount = Math.max(...cards.map(({ markedNumbers }) => markedNumbers.length));
+    const prizeNames = getPrizeNames(player);
+    const isDisconnected = !!player.disconnected_at;
+    const falseMarks = player.false_marks ?? 0;
+    const claimsDisabled = falseMarkLimit > 0 && falseMarks >= falseMarkLimit;
     
     return (
       <div
@@ -53,7 +82,11 @@ export function PlayerList({ players, calledNumbers, onViewCard, className = ''
               : 'bg-white/5 border-white/10 hover:bg-white/10'
           }
           ${onViewCard ? 'cursor-pointer hover:scale-[1.02] hover:shadow-lg hover:shadow-purple-500/20' : ''}
+          ${isDisconnected ? 'opacity-50 grayscale' : ''}
         `}
+        title={isDisconnected
+          ? `Disconnected${disconnectGraceMinutes ? ` - removed if not back within ${disconnectGraceMinutes} min` : ''}`
+          : undefined}
         onClick={(e) => {
           e.preventDefault();
           e.stopPropagation();
@@ -68,8 +101,29 @@ export function PlayerList({ players, calledNumbers, onViewCard, className = ''
         <div className="flex items-center gap-3 flex-1 min-w-0 overflow-hidden">
           <div className="flex items-center gap-2 min-w-0 flex-shrink-0">
             {player.is_bot && <Bot className="w-4 h-4 text-cyan-400" />}
+            {isDisconnected && <WifiOff className="w-4 h-4 text-white/60" />}
             {player.is_winner === true && <Crown className="w-4 h-4 text-yellow-400" />}
             <span className="text-white font-medium truncate max-w-[120px]">{player.name}</span>
+            {player.used_auto_daub && (
+              <span
+                className="px-1.5 py-0.5 rounded bg-cyan-500/20 border border-cyan-500/30 text-cyan-300 text-[10px] font-semibold"
+                title={player.auto_daub ? 'Auto-daub is on' : 'Used auto-daub earlier in this game'}
+              >
+                AUTO
+              </span>
+            )}
+            {falseMarks > 0 && (
+              <span
+                className={`px-1.5 py-0.5 rounded border text-[10px] font-semibold ${
+                  claimsDisabled
+                    ? 'bg-red-500/30 border-red-500/50 text-red-200'
+                    : 'bg-orange-500/20 border-orange-500/30 text-orange-300'
+                }`}
+                title={`${falseMarks} ${falseMarks === 1 ? 'mark' : 'marks'} on numbers that weren't called${claimsDisabled ? ' - claims disabled' : ''}`}
+              >
+                ✗{falseMarks}
+              </span>
+            )}
           </div>
           
           {status === 'close' && (
@@ -79,15 +133,15 @@ export function PlayerList({ players, calledNumbers, onViewCard, className = ''
           )}
           
           {player.is_winner === true && (
-            <span className="text-green-400 text-xs font-semibold animate-pulse">
-              WINNER! 🎉
+            <span className="text-green-400 text-xs font-semibold animate-pulse truncate">
+              {prizes.length > 1 && prizeNames.length > 0 ? `WON ${prizeNames.join(', ')}` : 'WINNER! 🎉'}
             </span>
           )}
         </div>
 
         <div className="flex items-center gap-2 flex-shrink-0">
           <span className="text-white/70 text-sm">
-            {markedCount}/24
+            {markedCount}/24{cards.length > 1 && ` · ${cards.length} cards`}
           </span>
           {onViewCard && (
             <Eye className="w-4 h-4 text-purple-400" />
@@ -0,0 +1,72 @@
+// Prize Ladder Component - Staged prizes with their winners and the prize in play
+// Created: Shown on the host dashboard and player screen for multi-prize games
+
+import { MyngoPlayer, PrizeStage } from '../../types/myngo';
+import { GlassCard } from '../ui/glass-card';
+import { WinPatternPreview } from './win-pattern-preview';
+import { getPrizeWinners } from '../../utils/win-patterns';
+import { Trophy, Crown } from 'lucide-react';
+
+interface PrizeLadderProps {
+  prizes: PrizeStage[];
+  currentIndex: number;
+  players: MyngoPlayer[];
+  gameOver?: boolean;
+  highlightPlayerId?: string;
+  className?: string;
+}
+
+export function PrizeLadder({ prizes, currentIndex, players, gameOver = false, highlightPlayerId, className = '' }: PrizeLadderProps) {
+  const stages = getPrizeWinners(prizes, players);
+
+  return (
+    <GlassCard className={`p-4 ${className}`}>
+      <div className="flex items-center gap-2 mb-3">
+        <Trophy className="w-5 h-5 text-yellow-400" />
+        <h3 className="text-white font-semibold">Prizes</h3>
+        <span className="text-white/50 text-sm">
+          ({stages.filter(stage => stage.winners.length > 0).length}/{prizes.length} won)
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {stages.map(({ prize, winners }, index) => {
+          const isCurrent = index === currentIndex && !gameOver && winners.length === 0;
+          const isWon = winners.length > 0;
+
+          return (
+            <div
+              key={prize.id}
+              className={`flex items-center gap-3 p-2 rounded-lg border ${
+                isCurrent
+                  ? 'bg-purple-500/20 border-purple-400/50'
+                  : isWon
+                    ? 'bg-green-500/15 border-green-500/30'
+                    : 'bg-white/5 border-white/10 opacity-70'
+              }`}
+            >
+              <WinPatternPreview pattern={prize.winPattern} size="sm" className="flex-shrink-0" />
+              <div className="min-w-0 flex-1">
+                <div className="text-white text-sm font-semibold truncate">
+                  {index + 1}. {prize.name}
+                </div>
+                {isWon ? (
+                  <div className="flex items-center gap-1 text-green-300 text-xs truncate">
+                    <Crown className="w-3 h-3 text-yellow-400 flex-shrink-0" />
+                    {winners.map(winner => (
+                      winner.id === highlightPlayerId ? 'You' : winner.name
+                    )).join(', ')}
+                  </div>
+                ) : (
+                  <div className="text-white/50 text-xs">
+                    {isCurrent ? 'Playing now' : prize.winPattern.name}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </GlassCard>
+  );
+}
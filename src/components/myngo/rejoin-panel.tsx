@@ -0,0 +1,48 @@
+// Rejoin Panel Component - The player's rejoin PIN and link for switching devices
+// Created: Opening the link, or entering the nickname and PIN, moves the card to another device
+
+import { useState } from 'react';
+import { GlassCard } from '../ui/glass-card';
+import { PlayerRejoin, getRejoinLink } from '../../lib/player-credentials';
+import { Smartphone } from 'lucide-react';
+
+interface RejoinPanelProps {
+  rejoin: PlayerRejoin;
+  className?: string;
+}
+
+export function RejoinPanel({ rejoin, className = '' }: RejoinPanelProps) {
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const copyRejoinLink = async () => {
+    await navigator.clipboard.writeText(getRejoinLink(rejoin));
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  return (
+    <GlassCard className={`p-4 ${className}`}>
+      <div className="flex items-center gap-2 mb-2">
+        <Smartphone className="w-4 h-4 text-purple-300" />
+        <h3 className="text-white font-semibold text-sm">Play on Another Device</h3>
+      </div>
+      <p className="text-white/60 text-xs mb-2">
+        Open this game on another device with your nickname and PIN. Your card and marks move with
+        you, and this device stops playing it.
+      </p>
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <div className="text-white/50 text-xs">Rejoin PIN</div>
+          <code className="text-purple-200 text-xl font-mono tracking-widest">{rejoin.pin}</code>
+        </div>
+        <button
+          onClick={copyRejoinLink}
+          className="text-purple-300 hover:text-purple-200 text-sm underline"
+        >
+          {linkCopied ? 'Rejoin link copied!' : 'Copy rejoin link'}
+        </button>
+      </div>
+      <p className="text-white/40 text-xs mt-2">Keep these to yourself - they open your card.</p>
+    </GlassCard>
+  );
+}
@@ -0,0 +1,89 @@
+// Sound Panel Component - Mute, volume and sound pack for game events
+// Created: Shared by the host dashboard and the player's game page
+
+import { useEffect, useState } from 'react';
+import { GlassCard } from '../ui/glass-card';
+import { useMyngoStore } from '../../store/myngo-store';
+import { soundPlayer, SoundPackInfo } from '../../lib/sound-player';
+import { Music, VolumeX } from 'lucide-react';
+
+interface SoundPanelProps {
+  className?: string;
+}
+
+export function SoundPanel({ className = '' }: SoundPanelProps) {
+  const { soundEnabled, soundVolume, soundPack, setSoundEnabled, setSoundVolume, setSoundPack } = useMyngoStore();
+  const [packs, setPacks] = useState<SoundPackInfo[]>([]);
+
+  useEffect(() => {
+    soundPlayer.listPacks().then(setPacks);
+  }, []);
+
+  return (
+    <GlassCard className={`p-4 ${className}`}>
+      <label className="flex items-center justify-between gap-3 cursor-pointer">
+        <span className="flex items-center gap-2">
+          {soundEnabled ? (
+            <Music className="w-4 h-4 text-purple-300" />
+          ) : (
+            <VolumeX className="w-4 h-4 text-white/50" />
+          )}
+          <span className="text-white font-semibold text-sm">Game Sounds</span>
+        </span>
+        <input
+          type="checkbox"
+          checked={soundEnabled}
+          onChange={(e) => setSoundEnabled(e.target.checked)}
+          className="w-5 h-5 text-purple-500 rounded focus:ring-purple-500"
+        />
+      </label>
+
+      {soundEnabled && (
+        <div className="space-y-3 mt-3">
+          <div>
+            <label className="block text-white/70 text-xs mb-1">
+              Volume: {Math.round(soundVolume * 100)}%
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={soundVolume}
+              onChange={(e) => setSoundVolume(parseFloat(e.target.value))}
+              className="w-full"
+            />
+          </div>
+
+          {packs.length > 0 && (
+            <div>
+              <label className="block text-white/70 text-xs mb-1">Sound pack</label>
+              <select
+                value={soundPack}
+                onChange={(e) => {
+                  setSoundPack(e.target.value);
+                  soundPlayer.play(e.target.value, 'numberCalled', soundVolume);
+                }}
+                className="w-full px-2 py-1.5 bg-white/10 border border-white/20 rounded-lg text-white text-sm
+                         focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+              >
+                {packs.map(pack => (
+                  <option key={pack.id} value={pack.id} className="text-gray-900">
+                    {pack.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <button
+            onClick={() => soundPlayer.play(soundPack, 'winClaimed', soundVolume)}
+            className="text-purple-300 hover:text-purple-200 text-sm underline"
+          >
+            Test sounds
+          </button>
+        </div>
+      )}
+    </GlassCard>
+  );
+}
@@ -0,0 +1,32 @@
+// Win Pattern Preview - Miniature 5x5 grid showing a win pattern's shape
+// Updated: Multi-mask patterns preview every mask they require
+
+import { WinPattern } from '../../types/myngo';
+import { getRequiredMasks } from '../../utils/win-patterns';
+
+interface WinPatternPreviewProps {
+  pattern: WinPattern;
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+export function WinPatternPreview({ pattern, size = 'md', className = '' }: WinPatternPreviewProps) {
+  // Multi-mask patterns (lines, stamps) preview the first mask - or the
+  // first few when several must be completed (two lines)
+  const cells = new Set(pattern.masks.slice(0, getRequiredMasks(pattern)).flat());
+
+  return (
+    <div className={`grid grid-cols-5 gap-0.5 ${size === 'sm' ? 'w-8 h-8' : 'w-12 h-12'} ${className}`}>
+      {Array.from({ length: 25 }, (_, index) => (
+        <div
+          key={index}
+          className={`rounded-[2px] ${
+            cells.has(index)
+              ? 'bg-gradient-to-br from-purple-400 to-pink-400'
+              : 'bg-white/15'
+          }`}
+        />
+      ))}
+    </div>
+  );
+}
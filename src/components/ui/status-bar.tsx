@@ -1,5 +1,5 @@
 // Status Bar Component - Display game status and host connection state
-// Updated: Enhanced status display with active game tracking and detailed status messages
+// Updated: A host who lost connection shows as reconnecting, with the game paused
 
 import React from 'react';
 import { GlassCard } from './glass-card';
@@ -8,6 +8,7 @@ interface StatusBarProps {
   isGameActive: boolean;
   isAutoCalling: boolean;
   autoCallFrequency?: number;
+  nextCallIn?: number | null;
   isHostDisconnected: boolean;
   isHostPaused: boolean;
   roomStatus?: string;
@@ -19,6 +20,7 @@ export function StatusBar({
   isGameActive, 
   isAutoCalling, 
   autoCallFrequency, 
+  nextCallIn,
   isHostDisconnected, 
   isHostPaused, 
   roomStatus,
@@ -29,6 +31,7 @@ export function StatusBar({
     isGameActive,
     isAutoCalling,
     autoCallFrequency,
+    nextCallIn,
     isHostDisconnected,
     isHostPaused,
     roomStatus,
@@ -60,7 +63,7 @@ export function StatusBar({
     if (isHostDisconnected) {
       return {
         icon: '🔴',
-        text: 'Connection lost - Checking...',
+        text: 'Host reconnecting - Game paused',
         bgColor: 'bg-red-500/20',
         borderColor: 'border-red-500/30',
         textColor: 'text-red-300'
@@ -77,7 +80,9 @@ export function StatusBar({
       if (isAutoCalling && autoCallFrequency) {
         return {
           icon: '🟢',
-          text: `Game Active - Auto-calling every ${autoCallFrequency} seconds`,
+          text: nextCallIn !== null && nextCallIn !== undefined
+            ? `Game Active - Next number in ${nextCallIn}s`
+            : `Game Active - Auto-calling every ${autoCallFrequency} seconds`,
           bgColor: 'bg-green-500/20',
           borderColor: 'border-green-500/30',
           textColor: 'text-green-300'
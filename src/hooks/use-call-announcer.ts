@@ -0,0 +1,37 @@
+// Call Announcer Hook - Reads each new call aloud in this tab
+// Created: Host and player pages keep their own announcer settings
+// Updated: New calls come from useNewCalls(), shared with the game sounds
+
+import { useCallback, useEffect, useState } from 'react';
+import { CalledNumber } from '../types/myngo';
+import {
+  announcer,
+  getAnnouncerSettings,
+  saveAnnouncerSettings,
+  AnnouncerAudience,
+  AnnouncerSettings
+} from '../lib/announcer';
+import { getCallAnnouncement } from '../utils/call-phrases';
+import { useNewCalls } from './use-new-calls';
+
+// Pass `ready` once the room has loaded - see useNewCalls()
+export function useCallAnnouncer(calledNumbers: CalledNumber[], audience: AnnouncerAudience, ready: boolean) {
+  const [settings, setSettings] = useState<AnnouncerSettings>(() => getAnnouncerSettings(audience));
+
+  useNewCalls(calledNumbers, ready, newCalls => {
+    if (!settings.enabled) return;
+    newCalls.forEach(call => announcer.announce(getCallAnnouncement(call, settings.usePhrases), settings));
+  });
+
+  // Stop talking when the page goes away
+  useEffect(() => () => announcer.cancel(), []);
+
+  const updateSettings = useCallback((changes: Partial<AnnouncerSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveAnnouncerSettings(audience, next);
+    if (!next.enabled) announcer.cancel();
+  }, [audience, settings]);
+
+  return { settings, updateSettings };
+}
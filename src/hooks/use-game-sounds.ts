@@ -0,0 +1,42 @@
+// Game Sounds Hook - Plays game events with the player's sound pack
+// Created: Mute, volume and pack come from the persisted store
+
+import { useCallback, useEffect, useRef } from 'react';
+import { CalledNumber } from '../types/myngo';
+import { useMyngoStore } from '../store/myngo-store';
+import { soundPlayer, SoundEvent } from '../lib/sound-player';
+import { useNewCalls } from './use-new-calls';
+
+// The last seconds before an automatic call tick
+const COUNTDOWN_TICK_SECONDS = 3;
+
+// Returns playSound(event), silent while sound is muted
+export function useGameSounds() {
+  const soundEnabled = useMyngoStore(state => state.soundEnabled);
+  const soundVolume = useMyngoStore(state => state.soundVolume);
+  const soundPack = useMyngoStore(state => state.soundPack);
+
+  return useCallback((event: SoundEvent) => {
+    if (!soundEnabled) return;
+    soundPlayer.play(soundPack, event, soundVolume);
+  }, [soundEnabled, soundVolume, soundPack]);
+}
+
+// Sounds both pages share: each new call, and ticks as the next automatic
+// call comes up. Pass `ready` once the room has loaded - see useNewCalls()
+export function useCallSounds(calledNumbers: CalledNumber[], nextCallCountdown: number | null, ready: boolean) {
+  const playSound = useGameSounds();
+  const lastTickRef = useRef<number | null>(null);
+
+  useNewCalls(calledNumbers, ready, () => playSound('numberCalled'));
+
+  useEffect(() => {
+    if (nextCallCountdown === lastTickRef.current) return;
+    lastTickRef.current = nextCallCountdown;
+    if (nextCallCountdown !== null && nextCallCountdown > 0 && nextCallCountdown <= COUNTDOWN_TICK_SECONDS) {
+      playSound('countdownTick');
+    }
+  }, [nextCallCountdown, playSound]);
+
+  return playSound;
+}
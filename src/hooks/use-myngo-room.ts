@@ -1,16 +1,16 @@
 // MYNGO Room Hook - Real-time room state management with proper subscriptions
-// Updated: Added active game status calculation and improved subscription cleanup
+// Updated: Read-only viewers never send host heartbeats
 
 import { useEffect, useState, useRef, useMemo } from 'react';
-import { SupabaseService } from '../lib/supabase-service';
+import { backend } from '../lib/backend';
 import { MyngoRoom, MyngoPlayer, CalledNumber } from '../types/myngo';
-import { supabase } from '../lib/supabase';
 
-export function useMyngoRoom(roomCode: string) {
+// `readOnly` is for screens that only watch the room, such as the projector
+// display - they must not keep the host present from a host's browser
+export function useMyngoRoom(roomCode: string, { readOnly = false }: { readOnly?: boolean } = {}) {
   const [room, setRoom] = useState<MyngoRoom | null>(null);
   const [players, setPlayers] = useState<MyngoPlayer[]>([]);
   const [calledNumbers, setCalledNumbers] = useState<CalledNumber[]>([]);
-  const [hostDisconnected, setHostDisconnected] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(true);
@@ -21,15 +21,17 @@ export function useMyngoRoom(roomCode: string) {
     room?: any;
     players?: any;
     numbers?: any;
-    hostPresence?: any;
   }>({});
   const pageVisibleRef = useRef(true);
-  const hostGracePeriodTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   
   // Track if we're currently initializing to prevent race conditions
   const initializingRef = useRef(false);
   const mountedRef = useRef(true);
 
+  // The backend marks the host away once their heartbeat stops; the game is
+  // paused until they, or a co-host taking over, come back
+  const hostDisconnected = !!room?.host_away_since && (room.status === 'waiting' || room.status === 'active');
+
   // Calculate active game status
   const isGameActive = useMemo(() => {
     console.log('🎮 HOOK: Calculating isGameActive with:', {
@@ -142,7 +144,7 @@ export function useMyngoRoom(roomCode: string) {
 
         // Get room data
         console.log(`📡 Fetching room data for: ${roomCode}`);
-        const roomData = await SupabaseService.getRoomByCode(roomCode);
+        const roomData = await backend.getRoomByCode(roomCode);
         if (!roomData) {
           console.error(`❌ Room not found: ${roomCode}`);
           setError(`Room "${roomCode}" not found. Please check the room code and try again.`);
@@ -172,8 +174,8 @@ export function useMyngoRoom(roomCode: string) {
         // Get initial data
         console.log(`📡 Fetching initial data for room: ${roomData.id}`);
         const [playersData, numbersData] = await Promise.all([
-          SupabaseService.getPlayersInRoom(roomData.id),
-          SupabaseService.getCalledNumbers(roomData.id)
+          backend.getPlayersInRoom(roomData.id),
+          backend.getCalledNumbers(roomData.id)
         ]);
 
         // Check if component is still mounted
@@ -193,7 +195,7 @@ export function useMyngoRoom(roomCode: string) {
         try {
           // Room subscription
           console.log('🏠 Setting up room subscription');
-          subscriptionsRef.current.room = SupabaseService.subscribeToRoom(roomData.id, (payload) => {
+          subscriptionsRef.current.room = backend.subscribeToRoom(roomData.id, (payload) => {
             if (!mountedRef.current) return;
             
             console.log('🏠 Room update in hook:', payload);
@@ -239,7 +241,7 @@ export function useMyngoRoom(roomCode: string) {
 
           // Players subscription
           console.log('👥 Setting up players subscription');
-          subscriptionsRef.current.players = SupabaseService.subscribeToPlayers(roomData.id, (payload) => {
+          subscriptionsRef.current.players = backend.subscribeToPlayers(roomData.id, (payload) => {
             if (!mountedRef.current) return;
             
             console.log('👥 Players update in hook:', payload);
@@ -291,7 +293,7 @@ export function useMyngoRoom(roomCode: string) {
 
           // Called numbers subscription
           console.log('🎱 Setting up called numbers subscription');
-          subscriptionsRef.current.numbers = SupabaseService.subscribeToCalledNumbers(roomData.id, (payload) => {
+          subscriptionsRef.current.numbers = backend.subscribeToCalledNumbers(roomData.id, (payload) => {
             if (!mountedRef.current) return;
             
             console.log('🎱 Called numbers update in hook:', payload);
@@ -303,6 +305,11 @@ export function useMyngoRoom(roomCode: string) {
               console.log('🎯 Number details - Letter:', payload.new.letter, 'Number:', payload.new.number);
               setCalledNumbers(prev => [payload.new, ...prev]);
               console.log('🎯 Called numbers state after INSERT should be updated');
+            } else if (payload.eventType === 'DELETE') {
+              // The host took the call back - numbers are never called twice
+              // in a room, so the number finds it
+              console.log('↩️ Call undone:', payload.old);
+              setCalledNumbers(prev => prev.filter(call => call.number !== payload.old.number));
             }
           });
 
@@ -310,28 +317,6 @@ export function useMyngoRoom(roomCode: string) {
 
           console.log('✅ HOOK: All subscriptions set up successfully');
           
-          // Set up host presence tracking if we have room and host info
-          if (roomData.host_id) {
-            console.log('👁️ HOOK: Host presence tracking disabled for MVP demo');
-            // Host presence tracking disabled for MVP demo
-            // try {
-            //   subscriptionsRef.current.hostPresence = SupabaseService.subscribeToHostPresence(
-            //     roomData.id,
-            //     roomData.host_id,
-            //     () => {
-            //       console.log('🚫 HOOK: Host presence leave event detected, starting grace period');
-            //       if (mountedRef.current) {
-            //         setHostDisconnected(true);
-            //         // Grace period logic disabled for MVP
-            //       }
-            //     }
-            //   );
-            //   console.log('✅ HOOK: Host presence tracking set up successfully');
-            // } catch (presenceError) {
-            //   console.error('❌ HOOK: Failed to set up host presence tracking:', presenceError);
-            // }
-          }
-          
           setIsConnected(true);
           setLoading(false);
         } catch (subscriptionError) {
@@ -360,12 +345,6 @@ export function useMyngoRoom(roomCode: string) {
       initializingRef.current = false;
       setIsConnected(false);
       
-      // Clear grace period timeout
-      if (hostGracePeriodTimeoutRef.current) {
-        clearTimeout(hostGracePeriodTimeoutRef.current);
-        hostGracePeriodTimeoutRef.current = null;
-      }
-      
       if (subscriptionsRef.current.room) {
         console.log('🏠 HOOK: Unsubscribing from room updates');
         try {
@@ -390,51 +369,21 @@ export function useMyngoRoom(roomCode: string) {
           console.error('❌ HOOK: Error unsubscribing from numbers:', error);
         }
       }
-      if (subscriptionsRef.current.hostPresence) {
-        console.log('👁️ HOOK: Unsubscribing from host presence updates');
-        try {
-          SupabaseService.untrackPlayerPresence(subscriptionsRef.current.hostPresence, room?.host_id || 'unknown');
-        } catch (error) {
-          console.error('❌ HOOK: Error unsubscribing from host presence:', error);
-        }
-      }
-      
       subscriptionsRef.current = {};
     };
   }, [roomCode]);
   
-  // Handle page visibility changes for host presence re-tracking
+  // A host tab coming back into view sends a heartbeat straight away, which
+  // also ends a host-away pause (player tabs have no host token and skip it)
   useEffect(() => {
+    if (readOnly) return;
+
     const handleVisibilityChange = () => {
-      if (!document.hidden && room?.id && room?.host_id) {
-        console.log('👁️ HOOK: Page visible again, updating host activity and re-tracking presence');
-        
-        // Reset host disconnected state since host is back
-        setHostDisconnected(false);
-        
-        // Clear any existing grace period timeout
-        if (hostGracePeriodTimeoutRef.current) {
-          clearTimeout(hostGracePeriodTimeoutRef.current);
-          hostGracePeriodTimeoutRef.current = null;
-        }
-        
-        // Update host activity in database
-        SupabaseService.updateHostActivity(room.id).catch(error => {
+      if (!document.hidden && room?.id) {
+        console.log('👁️ HOOK: Page visible again, updating host activity');
+        backend.updateHostActivity(room.id).catch(error => {
           console.error('❌ HOOK: Failed to update host activity on visibility change:', error);
         });
-        
-        // Re-track presence if channel exists
-        if (subscriptionsRef.current.hostPresence) {
-          subscriptionsRef.current.hostPresence.track({
-            user_id: room.host_id,
-            host_id: room.host_id,
-            user_name: 'Host',
-            role: 'host',
-            online_at: new Date().toISOString()
-          }).catch(error => {
-            console.error('❌ HOOK: Failed to re-track host presence:', error);
-          });
-        }
       }
     };
     
@@ -443,7 +392,7 @@ export function useMyngoRoom(roomCode: string) {
     return () => {
       document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, [room?.id, room?.host_id]);
+  }, [room?.id, readOnly]);
   
   return { 
     room, 
@@ -0,0 +1,35 @@
+// New Calls Hook - Runs a callback for calls made while the page is open
+// Created: Shared by the announcer and game sounds
+
+import { useEffect, useRef } from 'react';
+import { CalledNumber } from '../types/myngo';
+
+// Calls arrive newest first. Pass `ready` once the room's first snapshot has
+// loaded - numbers called before the page opened never reach the callback.
+// Calls that came in together are given oldest first; an undone call
+// uncovers an older one, which isn't given again.
+export function useNewCalls(calledNumbers: CalledNumber[], ready: boolean, onNewCalls: (calls: CalledNumber[]) => void) {
+  // Newest call already handled; undefined until the first snapshot
+  const handledCallRef = useRef<CalledNumber | null | undefined>(undefined);
+  const onNewCallsRef = useRef(onNewCalls);
+  onNewCallsRef.current = onNewCalls;
+
+  useEffect(() => {
+    if (!ready) return;
+
+    const latestCall = calledNumbers[0];
+    if (handledCallRef.current === undefined) {
+      handledCallRef.current = latestCall ?? null;
+      return;
+    }
+
+    const handledCall = handledCallRef.current;
+    const newCalls = calledNumbers
+      .filter(call => !handledCall || call.called_at > handledCall.called_at)
+      .reverse();
+    if (newCalls.length === 0) return;
+    handledCallRef.current = latestCall;
+
+    onNewCallsRef.current(newCalls);
+  }, [calledNumbers, ready]);
+}
@@ -0,0 +1,27 @@
+// Next Call Countdown Hook - Seconds until the backend's next automatic call
+// Created: Host and players count down to the same room.next_call_at
+
+import { useEffect, useState } from 'react';
+
+function secondsUntil(nextCallAt: string): number {
+  return Math.max(0, Math.ceil((new Date(nextCallAt).getTime() - Date.now()) / 1000));
+}
+
+// Returns null while no call is scheduled (manual mode, paused, game over)
+export function useNextCallCountdown(nextCallAt?: string | null): number | null {
+  const [countdown, setCountdown] = useState<number | null>(() => nextCallAt ? secondsUntil(nextCallAt) : null);
+
+  useEffect(() => {
+    if (!nextCallAt) {
+      setCountdown(null);
+      return;
+    }
+
+    setCountdown(secondsUntil(nextCallAt));
+    const interval = setInterval(() => setCountdown(secondsUntil(nextCallAt)), 250);
+
+    return () => clearInterval(interval);
+  }, [nextCallAt]);
+
+  return countdown;
+}
@@ -0,0 +1,115 @@
+// Call Announcer - Reads calls aloud with the browser's speech synthesis
+// Created: One queue per tab so quick calls are read one after another
+
+import { readStoredJson, writeStoredJson } from './browser-storage';
+
+export type AnnouncerAudience = 'host' | 'player';
+
+export interface AnnouncerSettings {
+  enabled: boolean;
+  // SpeechSynthesisVoice.voiceURI, or null for the browser's default voice
+  voiceURI: string | null;
+  rate: number;
+  usePhrases: boolean;
+}
+
+const STORAGE_KEY = 'myngo_announcer';
+
+export const ANNOUNCER_RATE_MIN = 0.5;
+export const ANNOUNCER_RATE_MAX = 2;
+
+// Players usually hear the host in the meeting, so only the host's tab
+// speaks until someone turns it on
+const DEFAULT_SETTINGS: Record<AnnouncerAudience, AnnouncerSettings> = {
+  host: { enabled: true, voiceURI: null, rate: 1, usePhrases: false },
+  player: { enabled: false, voiceURI: null, rate: 1, usePhrases: false }
+};
+
+// Calls waiting beyond this are dropped, oldest first, so a burst after a
+// reconnect doesn't keep the announcer talking long after the game moved on
+const MAX_QUEUED = 3;
+// Some browsers never fire 'end' for an utterance; move on after this long
+const MAX_UTTERANCE_MS = 15000;
+
+function readAllSettings(): Partial<Record<AnnouncerAudience, Partial<AnnouncerSettings>>> {
+  return readStoredJson<Partial<Record<AnnouncerAudience, Partial<AnnouncerSettings>>>>(STORAGE_KEY, {});
+}
+
+// Settings are kept per browser, separately for hosting and playing
+export function getAnnouncerSettings(audience: AnnouncerAudience): AnnouncerSettings {
+  const saved = readAllSettings()[audience] ?? {};
+  const settings = { ...DEFAULT_SETTINGS[audience], ...saved };
+  return {
+    ...settings,
+    rate: Math.max(ANNOUNCER_RATE_MIN, Math.min(ANNOUNCER_RATE_MAX, Number(settings.rate) || 1))
+  };
+}
+
+export function saveAnnouncerSettings(audience: AnnouncerAudience, settings: AnnouncerSettings): void {
+  writeStoredJson(STORAGE_KEY, { ...readAllSettings(), [audience]: settings });
+}
+
+export function isSpeechSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window && typeof SpeechSynthesisUtterance !== 'undefined';
+}
+
+interface Announcement {
+  text: string;
+  voiceURI: string | null;
+  rate: number;
+}
+
+class CallAnnouncer {
+  private queue: Announcement[] = [];
+  private current: SpeechSynthesisUtterance | null = null;
+
+  // Queues the text; it is spoken once everything before it has finished
+  announce(text: string, settings: Pick<AnnouncerSettings, 'voiceURI' | 'rate'>): void {
+    if (!isSpeechSupported()) return;
+
+    this.queue.push({ text, voiceURI: settings.voiceURI, rate: settings.rate });
+    if (this.queue.length > MAX_QUEUED) {
+      this.queue.splice(0, this.queue.length - MAX_QUEUED);
+    }
+    this.speakNext();
+  }
+
+  // Stops the current announcement and forgets the queued ones
+  cancel(): void {
+    this.queue = [];
+    this.current = null;
+    if (isSpeechSupported()) window.speechSynthesis.cancel();
+  }
+
+  private speakNext(): void {
+    if (this.current) return;
+    const next = this.queue.shift();
+    if (!next) return;
+
+    const utterance = new SpeechSynthesisUtterance(next.text);
+    this.current = utterance;
+    utterance.rate = next.rate;
+    const voice = next.voiceURI
+      ? window.speechSynthesis.getVoices().find(candidate => candidate.voiceURI === next.voiceURI)
+      : undefined;
+    if (voice) {
+      utterance.voice = voice;
+      utterance.lang = voice.lang;
+    }
+
+    const finish = () => {
+      clearTimeout(fallback);
+      // Already finished, or dropped by cancel()
+      if (this.current !== utterance) return;
+      this.current = null;
+      this.speakNext();
+    };
+    const fallback = setTimeout(finish, MAX_UTTERANCE_MS);
+    utterance.onend = finish;
+    utterance.onerror = finish;
+
+    window.speechSynthesis.speak(utterance);
+  }
+}
+
+export const announcer = new CallAnnouncer();
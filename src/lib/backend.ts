@@ -0,0 +1,31 @@
+// Backend Selection - The GameBackend instance used by every page and hook
+// Created: Picks Supabase or the local in-browser backend from VITE_MYNGO_BACKEND
+
+import { GameBackend } from './game-backend';
+import { LocalBackend } from './local-backend';
+import { SupabaseService } from './supabase-service';
+import { isSupabaseConfigured } from './supabase';
+
+// 'supabase' or 'local'; when unset, Supabase is used if it is configured
+function createBackend(): GameBackend {
+  const requested = import.meta.env.VITE_MYNGO_BACKEND;
+
+  if (requested === 'local') {
+    return new LocalBackend();
+  }
+
+  if (requested && requested !== 'supabase') {
+    console.warn(`⚠️ Unknown VITE_MYNGO_BACKEND "${requested}", falling back to supabase`);
+  }
+
+  if (!requested && !isSupabaseConfigured()) {
+    console.warn('⚠️ Supabase is not configured - running MYNGO on the local in-browser backend');
+    return new LocalBackend();
+  }
+
+  return new SupabaseService();
+}
+
+export const backend: GameBackend = createBackend();
+
+console.log('🔌 MYNGO backend:', backend.name);
@@ -0,0 +1,27 @@
+// Browser Storage - Safe localStorage access for settings and credentials
+// Created: Shared by the host and player credentials and the announcer
+
+// localStorage, or null where it is missing or blocked (private mode,
+// sandboxed frames) - callers then simply don't remember anything
+export function getStorage(): Storage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+// A JSON value saved under `key`, or the fallback when there is none or it
+// can't be read
+export function readStoredJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = getStorage()?.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function writeStoredJson(key: string, value: unknown): void {
+  getStorage()?.setItem(key, JSON.stringify(value));
+}
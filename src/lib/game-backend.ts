@@ -0,0 +1,147 @@
+// Game Backend - Storage and realtime contract shared by every MYNGO backend
+// Updated: Hosts can take back the latest call
+
+import {
+  MyngoRoom,
+  MyngoPlayer,
+  CalledNumber,
+  GameStats,
+  HostRole,
+  RoomCohost,
+  RoomConfig,
+  WinClaimResult,
+  WinPattern
+} from '../types/myngo';
+
+// Row change delivered by a realtime subscription - mirrors the shape of
+// Supabase postgres_changes payloads so handlers work with either backend
+export interface RealtimeChange<T> {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: T;
+  old: Partial<T>;
+}
+
+export interface RealtimeSubscription {
+  unsubscribe(): unknown;
+}
+
+// Presence handle returned when a client announces itself in a room
+export interface PresenceHandle extends RealtimeSubscription {
+  track(payload: Record<string, unknown>): Promise<unknown>;
+  untrack(): Promise<unknown>;
+}
+
+export interface GameBackend {
+  // Short identifier shown in logs ('supabase', 'local')
+  readonly name: string;
+
+  // Throws when the backend cannot be reached
+  checkConnection(): Promise<void>;
+
+  // Rooms
+  // Also issues the room's host token and saves it in this browser (see
+  // host-credentials); status, config, calling and ending the game need it
+  createRoom(hostId: string, config: RoomConfig): Promise<MyngoRoom>;
+  getRoomByCode(code: string): Promise<MyngoRoom | null>;
+  // Whether this browser holds a host token for the room, the owner's or a
+  // co-host's
+  verifyHost(roomId: string): Promise<boolean>;
+  // Which host this browser is, or null without a token
+  getHostRole(roomId: string): Promise<HostRole | null>;
+  // 'cancelled' and 'finished' are owner-only
+  updateRoomStatus(roomId: string, status: string, reason?: string): Promise<void>;
+  // Merged into the stored config; keys the backend owns (waiting claims,
+  // pauses, the auto-caller, the current prize, the peak player count) are
+  // ignored, so a stale copy is safe to send
+  updateRoomConfig(roomId: string, config: RoomConfig): Promise<void>;
+  // The host's heartbeat; a returning host also lifts the pause from going
+  // away. Quietly does nothing in tabs without the host token
+  updateHostActivity(roomId: string): Promise<void>;
+  // Owner-only
+  endGame(roomId: string, winnerName?: string): Promise<void>;
+  // For beforeunload: marks the host away without waiting for an answer, so
+  // the game pauses for the reconnect grace period instead of ending. Does
+  // nothing while another host is still there
+  sendHostLeaving(roomId: string): void;
+
+  // Co-hosts
+  // Owner-only: issues the room's co-host invite (see host-credentials),
+  // replacing any earlier one; one invite lets any number of co-hosts join
+  createCohostInvite(roomId: string): Promise<string>;
+  // Issues this browser its own co-host token and saves it like a host token
+  joinAsCohost(roomId: string, inviteToken: string, name: string): Promise<void>;
+  // Host-only
+  getCohosts(roomId: string): Promise<RoomCohost[]>;
+  // Owner-only: the co-host's dashboard loses its controls
+  removeCohost(roomId: string, cohostId: string): Promise<void>;
+  // Co-host-only, once the owner has been away: makes this browser the
+  // owner; called numbers, auto-calling and players carry on unchanged
+  takeOverRoom(roomId: string): Promise<void>;
+
+  // Players
+  // cardCount is capped by the room's maxCardsPerPlayer. Also issues the
+  // player's token and rejoin PIN and saves them in this browser (see
+  // player-credentials); marks, auto-daub, claims and leaving need the token
+  joinRoom(roomCode: string, playerName: string, cardCount?: number): Promise<MyngoPlayer>;
+  // Reopens a player's card in this browser; the device that had it loses it
+  rejoinRoom(roomCode: string, playerName: string, pin: string): Promise<MyngoPlayer>;
+  // Whether this browser still holds the player's current token
+  verifyPlayer(playerId: string): Promise<boolean>;
+  getPlayersInRoom(roomId: string): Promise<MyngoPlayer[]>;
+  // Only called numbers are kept; returns the refused ones, which count as false marks
+  updatePlayerMarkedNumbers(playerId: string, markedNumbers: number[], cardIndex?: number): Promise<number[]>;
+  // Ignored (both switched off) unless the room allows auto-daub
+  updatePlayerAutoDaub(playerId: string, autoDaub: boolean, autoClaim: boolean): Promise<void>;
+  removePlayer(playerId: string): Promise<void>;
+  // For beforeunload: marks the player disconnected without waiting for an
+  // answer, so the grace period starts now but a reload keeps the card
+  sendPlayerLeaving(playerId: string): void;
+  // In a manual-claims room a card that checks out comes back pending and
+  // pauses the game until a host decides
+  claimWin(playerId: string, roomId: string, cardIndex?: number): Promise<WinClaimResult>;
+  // Host-only: approves or rejects one of config.pendingClaims; a rejection
+  // locks the player out for the room's claimLockoutSeconds
+  resolveClaim(roomId: string, claimId: string, approve: boolean): Promise<WinClaimResult>;
+  // Host-only: players missing from onlinePlayerIds are marked disconnected,
+  // the rest reconnected
+  updatePlayersPresence(roomId: string, onlinePlayerIds: string[]): Promise<void>;
+  // Host-only: removes players disconnected for longer than the room's grace
+  // period; quietly does nothing in tabs without the host token
+  cleanupStalePlayersInRoom(roomId: string): Promise<void>;
+
+  // Demo bots
+  addDemoBots(roomId: string): Promise<void>;
+  autoBotMarkNumber(roomId: string, calledNumber: number, isDemoMode?: boolean, winPattern?: WinPattern): Promise<void>;
+
+  // Called numbers
+  callNumber(roomId: string, number: number, letter: string): Promise<CalledNumber>;
+  // Calls the next number in the room's seeded order; null once all 75 are out
+  callNextNumber(roomId: string): Promise<number | null>;
+  // Takes back the latest call within UNDO_CALL_WINDOW_SECONDS and unmarks it everywhere
+  undoLastCall(roomId: string): Promise<CalledNumber>;
+  getCalledNumbers(roomId: string): Promise<CalledNumber[]>;
+
+  // Auto-calling runs on the backend and sets room.next_call_at, so it keeps
+  // going without the host's tab and every client counts down to the same time
+  startAutoCalling(roomId: string): Promise<void>;
+  stopAutoCalling(roomId: string): Promise<void>;
+  pauseAutoCalling(roomId: string): Promise<void>;
+  resumeAutoCalling(roomId: string): Promise<void>;
+
+  // History, stats and housekeeping
+  getGameStats(): Promise<GameStats>;
+  cleanupDemoGames(): Promise<void>;
+  closeInactiveRooms(): Promise<void>;
+  cancelGamesWithInactiveHosts(): Promise<void>;
+
+  // Realtime
+  subscribeToRoom(roomId: string, callback: (change: RealtimeChange<MyngoRoom>) => void): RealtimeSubscription;
+  subscribeToPlayers(roomId: string, callback: (change: RealtimeChange<MyngoPlayer>) => void): RealtimeSubscription;
+  // An undone call arrives as a DELETE; its `old` always has the number, not
+  // always the id
+  subscribeToCalledNumbers(roomId: string, callback: (change: RealtimeChange<CalledNumber>) => void): RealtimeSubscription;
+  trackPlayerPresence(roomId: string, playerId: string, playerName: string): Promise<PresenceHandle>;
+  // Reports the ids of the players on the room's presence channel whenever it changes
+  watchPlayerPresence(roomId: string, onSync: (onlinePlayerIds: string[]) => void): RealtimeSubscription;
+  untrackPlayerPresence(channel: PresenceHandle, playerId: string): Promise<void>;
+}
@@ -0,0 +1,76 @@
+// Host Credentials - Secret host tokens kept in this browser, one per room
+// Updated: Co-host invites are kept apart from the tokens that run a dashboard
+
+import { createRandomHex } from '../utils/fairness';
+import { readStoredJson, writeStoredJson } from './browser-storage';
+
+const STORAGE_KEY = 'myngo_host_tokens';
+const INVITE_KEY = 'myngo_cohost_invites';
+const LINK_PARAM = 'token';
+const INVITE_LINK_PARAM = 'cohost';
+
+// Tokens by room id - localStorage, so a closed tab can still reopen its
+// dashboard. The owner's and a co-host's token are kept the same way.
+function readTokens(key: string = STORAGE_KEY): Record<string, string> {
+  return readStoredJson<Record<string, string>>(key, {});
+}
+
+function writeTokens(tokens: Record<string, string>, key: string = STORAGE_KEY): void {
+  writeStoredJson(key, tokens);
+}
+
+// New 256-bit host token as 64 hex characters
+export function createHostToken(): string {
+  return createRandomHex();
+}
+
+export function getHostToken(roomId: string): string | null {
+  return readTokens()[roomId] ?? null;
+}
+
+export function saveHostToken(roomId: string, token: string): void {
+  writeTokens({ ...readTokens(), [roomId]: token });
+}
+
+export function forgetHostToken(roomId: string): void {
+  const tokens = readTokens();
+  delete tokens[roomId];
+  writeTokens(tokens);
+}
+
+// Opens the dashboard on another device; the token rides in the URL fragment
+// so it is never sent to a server or kept in server logs
+export function getHostRecoveryLink(roomCode: string, token: string): string {
+  return `${window.location.origin}/host/${roomCode}#${LINK_PARAM}=${encodeURIComponent(token)}`;
+}
+
+// Token from a recovery link's fragment ('#token=...'), if there is one
+export function readHostTokenFromHash(hash: string): string | null {
+  return new URLSearchParams(hash.replace(/^#/, '')).get(LINK_PARAM);
+}
+
+// Co-host invites by room id - the owner keeps the one they issued so the
+// link they copy stays the same, an invited co-host keeps it until they join
+export function getCohostInvite(roomId: string): string | null {
+  return readTokens(INVITE_KEY)[roomId] ?? null;
+}
+
+export function saveCohostInvite(roomId: string, token: string): void {
+  writeTokens({ ...readTokens(INVITE_KEY), [roomId]: token }, INVITE_KEY);
+}
+
+export function forgetCohostInvite(roomId: string): void {
+  const tokens = readTokens(INVITE_KEY);
+  delete tokens[roomId];
+  writeTokens(tokens, INVITE_KEY);
+}
+
+// Invites someone to co-host; any number of co-hosts can join with one link
+export function getCohostInviteLink(roomCode: string, token: string): string {
+  return `${window.location.origin}/host/${roomCode}#${INVITE_LINK_PARAM}=${encodeURIComponent(token)}`;
+}
+
+// Invite from a co-host link's fragment ('#cohost=...'), if there is one
+export function readCohostInviteFromHash(hash: string): string | null {
+  return new URLSearchParams(hash.replace(/^#/, '')).get(INVITE_LINK_PARAM);
+}
@@ -0,0 +1,1748 @@
+// Local Backend - In-browser MYNGO backend shared between tabs
+// Updated: Player tabs heartbeat their presence, so closed or crashed tabs drop off
+
+import {
+  ExtraCard,
+  MyngoRoom,
+  MyngoPlayer,
+  CalledNumber,
+  GameHistory,
+  GameStats,
+  HostRole,
+  PendingClaim,
+  RoomCohost,
+  RoomConfig,
+  WinClaimResult,
+  WinPattern
+} from '../types/myngo';
+import { GameBackend, PresenceHandle, RealtimeChange, RealtimeSubscription } from './game-backend';
+import {
+  HOST_AWAY_AFTER_SECONDS,
+  HOST_RECONNECT_GRACE_MINUTES,
+  checkWin,
+  generateRoomCode,
+  getClaimLockoutSeconds,
+  getDisconnectGraceMinutes,
+  hasTooManyFalseMarks,
+  isCageCalling,
+  UNDO_CALL_WINDOW_SECONDS,
+  getLetterForNumber,
+  getMaxCardsPerPlayer,
+  getPlayerCards
+} from '../utils/myngo-utils';
+import { createGameSeed, dealUniqueCard, getCardKey, getNextSeededNumber, hashSeed, sha256Hex } from '../utils/fairness';
+import {
+  createHostToken,
+  forgetCohostInvite,
+  forgetHostToken,
+  getHostToken,
+  saveCohostInvite,
+  saveHostToken
+} from './host-credentials';
+import {
+  createPlayerToken,
+  createRejoinPin,
+  forgetPlayerToken,
+  forgetRejoinDetails,
+  getPlayerToken,
+  savePlayerToken,
+  saveRejoinDetails
+} from './player-credentials';
+import { getStorage } from './browser-storage';
+import { getCurrentPrizeIndex, getRoomPrizes } from '../utils/win-patterns';
+
+const STORAGE_KEY = 'myngo_local_backend';
+const CHANNEL_NAME = 'myngo-local-backend';
+const CALLER_LEASE_KEY = 'myngo_local_backend_caller';
+const CALLER_LEASE_MS = 3000;
+const CALLER_TICK_MS = 1000;
+const DEMO_BOT_NAMES = ['MYNGO', 'LuckyCharm', 'MainPlay'];
+const REJOIN_MAX_FAILURES = 5;
+const REJOIN_LOCK_MS = 10 * 60 * 1000;
+// Player tabs heartbeat this often; a player not heard from for the timeout
+// has dropped off (closed, crashed or suspended without a beforeunload)
+const PRESENCE_HEARTBEAT_MS = 5000;
+const PRESENCE_TIMEOUT_MS = 15000;
+// Config keys only the backend writes - same list as myngo_server_config_keys()
+const SERVER_CONFIG_KEYS: (keyof RoomConfig)[] = [
+  'pendingClaims',
+  'pausedForClaim',
+  'isPaused',
+  'autoCall',
+  'currentPrizeIndex',
+  'pausedForHost',
+  'maxPlayersEver'
+];
+
+// Mirrors the win_claims table kept by the Supabase backend
+interface LocalWinClaim {
+  id: string;
+  room_id: string;
+  player_id: string;
+  player_name: string;
+  accepted: boolean;
+  reason: string;
+  pattern?: string;
+  prize_id?: string;
+  line?: number;
+  card_index: number;
+  auto_daub: boolean;
+  marked_numbers: number[];
+  balls_called_count: number;
+  created_at: string;
+}
+
+// Mirrors the call_corrections table - calls a host took back
+interface LocalCallCorrection {
+  id: string;
+  room_id: string;
+  number: number;
+  letter: string;
+  called_at: string;
+  undone_at: string;
+  host_role: HostRole;
+  host_name: string | null;
+}
+
+// Mirrors the room_seeds table - the secret behind rooms.seed_hash
+interface LocalRoomSeed {
+  id: string;
+  room_id: string;
+  seed: string;
+}
+
+// Mirrors the room_host_tokens table - only the tokens' hashes are stored
+interface LocalHostToken {
+  id: string;
+  room_id: string;
+  token_hash: string;
+  invite_hash?: string | null;
+}
+
+// Mirrors the room_cohosts table - each co-host's own token, hashed
+interface LocalCohost extends RoomCohost {
+  room_id: string;
+  token_hash: string;
+  created_at: string;
+}
+
+// Mirrors the player_tokens table - bots have no token
+interface LocalPlayerToken {
+  id: string;
+  player_id: string;
+  token_hash: string;
+  rejoin_hash: string;
+  rejoin_failures: number;
+  rejoin_locked_until: string | null;
+}
+
+interface LocalTables {
+  rooms: MyngoRoom[];
+  room_seeds: LocalRoomSeed[];
+  room_host_tokens: LocalHostToken[];
+  room_cohosts: LocalCohost[];
+  players: MyngoPlayer[];
+  player_tokens: LocalPlayerToken[];
+  called_numbers: CalledNumber[];
+  game_history: GameHistory[];
+  win_claims: LocalWinClaim[];
+  call_corrections: LocalCallCorrection[];
+}
+
+type TableName = keyof LocalTables;
+type TableRow<K extends TableName> = LocalTables[K][number];
+
+// A row change published to this tab and, via BroadcastChannel, every other tab
+interface LocalChange {
+  table: TableName;
+  change: RealtimeChange<unknown>;
+}
+
+// A player tab saying it is still open, or that it is leaving the room
+interface LocalPresenceBeat {
+  presence: {
+    roomId: string;
+    playerId: string;
+    left: boolean;
+  };
+}
+
+function emptyTables(): LocalTables {
+  return {
+    rooms: [],
+    room_seeds: [],
+    room_host_tokens: [],
+    room_cohosts: [],
+    players: [],
+    player_tokens: [],
+    called_numbers: [],
+    game_history: [],
+    win_claims: [],
+    call_corrections: []
+  };
+}
+
+function createId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `local-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+// Same rule as myngo_call_frequency(): callFrequency seconds, at least 5
+function nextCallAt(config: RoomConfig): string {
+  return new Date(Date.now() + Math.max(config.callFrequency || 20, 5) * 1000).toISOString();
+}
+
+// Tables live in localStorage so every tab (host, players, display) sees the
+// same game; without localStorage (private mode) they stay in memory
+class LocalStore {
+  private memory: LocalTables = emptyTables();
+  private listeners = new Set<(message: LocalChange) => void>();
+  private presenceListeners = new Set<(beat: LocalPresenceBeat) => void>();
+  private channel: BroadcastChannel | null = null;
+
+  constructor() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<LocalChange | LocalPresenceBeat>) => {
+        if ('presence' in event.data) {
+          this.notifyPresence(event.data);
+        } else {
+          this.notify(event.data);
+        }
+      };
+    }
+  }
+
+  private get storage(): Storage | null {
+    return getStorage();
+  }
+
+  read(): LocalTables {
+    const storage = this.storage;
+    if (!storage) return this.memory;
+
+    try {
+      const raw = storage.getItem(STORAGE_KEY);
+      return raw ? { ...emptyTables(), ...JSON.parse(raw) } : emptyTables();
+    } catch (error) {
+      console.error('❌ Local backend: unreadable saved state, starting fresh:', error);
+      return emptyTables();
+    }
+  }
+
+  private write(tables: LocalTables): void {
+    this.memory = tables;
+    this.storage?.setItem(STORAGE_KEY, JSON.stringify(tables));
+  }
+
+  private notify(message: LocalChange): void {
+    this.listeners.forEach(listener => listener(message));
+  }
+
+  private notifyPresence(beat: LocalPresenceBeat): void {
+    this.presenceListeners.forEach(listener => listener(beat));
+  }
+
+  // Apply a mutation against the latest saved state and publish its changes.
+  // Local listeners are called asynchronously, like a realtime event would be.
+  private mutate(apply: (tables: LocalTables) => LocalChange[]): void {
+    const tables = this.read();
+    const changes = apply(tables);
+    this.write(tables);
+
+    changes.forEach(message => {
+      this.channel?.postMessage(message);
+      setTimeout(() => this.notify(message), 0);
+    });
+  }
+
+  select<K extends TableName>(table: K, match: (row: TableRow<K>) => boolean = () => true): TableRow<K>[] {
+    return (this.read()[table] as TableRow<K>[]).filter(match);
+  }
+
+  insert<K extends TableName>(table: K, row: TableRow<K>): TableRow<K> {
+    this.mutate(tables => {
+      (tables[table] as TableRow<K>[]).push(row);
+      return [{ table, change: { eventType: 'INSERT', new: row, old: {} } }];
+    });
+    return row;
+  }
+
+  update<K extends TableName>(
+    table: K,
+    match: (row: TableRow<K>) => boolean,
+    patch: Partial<TableRow<K>> | ((row: TableRow<K>) => Partial<TableRow<K>>)
+  ): TableRow<K>[] {
+    const updated: TableRow<K>[] = [];
+    this.mutate(tables => {
+      const rows = tables[table] as TableRow<K>[];
+      rows.forEach((row, index) => {
+        if (!match(row)) return;
+        const next = { ...row, ...(typeof patch === 'function' ? patch(row) : patch) };
+        rows[index] = next;
+        updated.push(next);
+      });
+      return updated.map(row => ({ table, change: { eventType: 'UPDATE', new: row, old: { id: row.id } } }));
+    });
+    return updated;
+  }
+
+  remove<K extends TableName>(table: K, match: (row: TableRow<K>) => boolean): TableRow<K>[] {
+    const removed: TableRow<K>[] = [];
+    this.mutate(tables => {
+      const rows = tables[table] as TableRow<K>[];
+      (tables[table] as TableRow<K>[]) = rows.filter(row => {
+        if (!match(row)) return true;
+        removed.push(row);
+        return false;
+      });
+      return removed.map(row => ({ table, change: { eventType: 'DELETE', new: null, old: row } }));
+    });
+    return removed;
+  }
+
+  // Only one tab may act as the server for scheduled work. The holder renews
+  // its lease every tick; if that tab closes, another takes over on expiry.
+  holdLease(owner: string, ttlMs: number): boolean {
+    const storage = this.storage;
+    if (!storage) return true;
+
+    try {
+      const lease = JSON.parse(storage.getItem(CALLER_LEASE_KEY) || 'null') as { owner: string; expires: number } | null;
+      if (lease && lease.owner !== owner && lease.expires > Date.now()) {
+        return false;
+      }
+    } catch {
+      // Unreadable lease - take it over
+    }
+
+    storage.setItem(CALLER_LEASE_KEY, JSON.stringify({ owner, expires: Date.now() + ttlMs }));
+    return true;
+  }
+
+  subscribe(listener: (message: LocalChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Presence beats aren't saved - they only go to the tabs open right now
+  publishPresence(beat: LocalPresenceBeat): void {
+    this.channel?.postMessage(beat);
+    setTimeout(() => this.notifyPresence(beat), 0);
+  }
+
+  subscribePresence(listener: (beat: LocalPresenceBeat) => void): () => void {
+    this.presenceListeners.add(listener);
+    return () => {
+      this.presenceListeners.delete(listener);
+    };
+  }
+}
+
+// A player tab's presence: heartbeats over the store's BroadcastChannel
+// until the player leaves or the tab goes away
+class LocalPresence implements PresenceHandle {
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private store: LocalStore,
+    private roomId: string,
+    private playerId: string
+  ) {}
+
+  async track(): Promise<void> {
+    if (this.heartbeat) return;
+    const beat = () => this.store.publishPresence({ presence: { roomId: this.roomId, playerId: this.playerId, left: false } });
+    beat();
+    this.heartbeat = setInterval(beat, PRESENCE_HEARTBEAT_MS);
+  }
+
+  async untrack(): Promise<void> {
+    if (!this.heartbeat) return;
+    clearInterval(this.heartbeat);
+    this.heartbeat = null;
+    this.store.publishPresence({ presence: { roomId: this.roomId, playerId: this.playerId, left: true } });
+  }
+
+  async unsubscribe(): Promise<void> {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+}
+
+// The host's view of a room's presence, like a Supabase presence sync:
+// reports the players heard from within PRESENCE_TIMEOUT_MS whenever that
+// set changes. The first report waits one timeout, so every open tab has
+// had a chance to beat before anyone is counted as gone.
+class LocalPresenceWatcher implements RealtimeSubscription {
+  private lastSeen = new Map<string, number>();
+  private synced = false;
+  private sweep: ReturnType<typeof setInterval>;
+  private stopListening: () => void;
+
+  constructor(
+    store: LocalStore,
+    private roomId: string,
+    private onSync: (onlinePlayerIds: string[]) => void
+  ) {
+    const startedAt = Date.now();
+    this.stopListening = store.subscribePresence(({ presence }) => {
+      if (presence.roomId !== this.roomId) return;
+      const wasOnline = this.lastSeen.has(presence.playerId);
+      if (presence.left) {
+        this.lastSeen.delete(presence.playerId);
+      } else {
+        this.lastSeen.set(presence.playerId, Date.now());
+      }
+      if (this.synced && wasOnline !== !presence.left) this.report();
+    });
+
+    this.sweep = setInterval(() => {
+      const cutoff = Date.now() - PRESENCE_TIMEOUT_MS;
+      let dropped = false;
+      this.lastSeen.forEach((seenAt, playerId) => {
+        if (seenAt < cutoff) {
+          this.lastSeen.delete(playerId);
+          dropped = true;
+        }
+      });
+
+      if (!this.synced && Date.now() - startedAt >= PRESENCE_TIMEOUT_MS) {
+        this.synced = true;
+        this.report();
+      } else if (this.synced && dropped) {
+        this.report();
+      }
+    }, PRESENCE_HEARTBEAT_MS);
+  }
+
+  private report(): void {
+    this.onSync([...this.lastSeen.keys()]);
+  }
+
+  unsubscribe(): void {
+    clearInterval(this.sweep);
+    this.stopListening();
+  }
+}
+
+export class LocalBackend implements GameBackend {
+  readonly name = 'local';
+  private store = new LocalStore();
+  private tabId = createId();
+
+  constructor() {
+    // Stands in for the database's once-a-second auto-caller job
+    setInterval(() => this.runAutoCaller(), CALLER_TICK_MS);
+  }
+
+  async checkConnection(): Promise<void> {
+    // Always reachable - state lives in this browser
+  }
+
+  // Rooms
+
+  async createRoom(hostId: string, config: RoomConfig): Promise<MyngoRoom> {
+    console.log('💾 Local backend: creating room with config:', config);
+
+    const existingCodes = new Set(this.store.select('rooms').map(room => room.code));
+    let code = generateRoomCode();
+    while (existingCodes.has(code)) {
+      code = generateRoomCode();
+    }
+
+    const createdAt = now();
+    const roomId = createId();
+    const seed = createGameSeed();
+    this.store.insert('room_seeds', { id: createId(), room_id: roomId, seed });
+
+    const hostToken = createHostToken();
+    this.store.insert('room_host_tokens', { id: createId(), room_id: roomId, token_hash: sha256Hex(hostToken) });
+    saveHostToken(roomId, hostToken);
+
+    const room = this.store.insert('rooms', {
+      id: roomId,
+      code,
+      host_id: hostId,
+      config: {
+        ...config,
+        autoCall: {
+          enabled: config.autoCall?.enabled ?? false,
+          ...config.autoCall
+        },
+        isPaused: false
+      },
+      status: 'waiting',
+      seed_hash: hashSeed(seed),
+      seed: null,
+      host_seen_at: createdAt,
+      host_away_since: null,
+      owner_seen_at: createdAt,
+      created_at: createdAt,
+      updated_at: createdAt
+    });
+
+    const gameNumbers = this.store.select('game_history').map(history => history.game_number);
+    this.store.insert('game_history', {
+      id: createId(),
+      game_number: Math.max(0, ...gameNumbers) + 1,
+      players_start: 0,
+      players_end: null,
+      players_drop: 0,
+      winners: [],
+      ending_status: 'active',
+      balls_called_count: 0,
+      is_demo_game: config.demoMode || false,
+      room_code: code,
+      seed_hash: room.seed_hash,
+      seed: null,
+      created_at: createdAt
+    });
+
+    console.log('✅ Local backend: room created:', room.code);
+    return room;
+  }
+
+  async getRoomByCode(code: string): Promise<MyngoRoom | null> {
+    return this.store.select('rooms', room => room.code === code)[0] ?? null;
+  }
+
+  async verifyHost(roomId: string): Promise<boolean> {
+    return this.hostRole(roomId, getHostToken(roomId)) !== null;
+  }
+
+  async getHostRole(roomId: string): Promise<HostRole | null> {
+    return this.hostRole(roomId, getHostToken(roomId));
+  }
+
+  // Same as host_role()
+  private hostRole(roomId: string, hostToken: string | null): HostRole | null {
+    if (!hostToken) return null;
+    const tokenHash = sha256Hex(hostToken);
+    if (this.store.select('room_host_tokens', row => row.room_id === roomId && row.token_hash === tokenHash).length > 0) {
+      return 'owner';
+    }
+    if (this.store.select('room_cohosts', row => row.room_id === roomId && row.token_hash === tokenHash).length > 0) {
+      return 'cohost';
+    }
+    return null;
+  }
+
+  // Same check as myngo_require_host()
+  private async requireHost(roomId: string, action: string): Promise<void> {
+    if (!(await this.verifyHost(roomId))) {
+      throw new Error(`Failed to ${action}: only the host of this room can do that`);
+    }
+  }
+
+  // Same check as myngo_require_owner()
+  private async requireOwner(roomId: string, action: string): Promise<void> {
+    if ((await this.getHostRole(roomId)) !== 'owner') {
+      throw new Error(`Failed to ${action}: only the owner of this room can do that`);
+    }
+  }
+
+  async verifyPlayer(playerId: string): Promise<boolean> {
+    return this.holdsPlayerToken(playerId);
+  }
+
+  private holdsPlayerToken(playerId: string): boolean {
+    const playerToken = getPlayerToken(playerId);
+    if (!playerToken) return false;
+    return this.store.select('player_tokens', row => row.player_id === playerId && row.token_hash === sha256Hex(playerToken)).length > 0;
+  }
+
+  // Same check as myngo_require_player()
+  private requirePlayer(playerId: string, action: string): void {
+    if (!this.holdsPlayerToken(playerId)) {
+      throw new Error(`Failed to ${action}: only this player can do that`);
+    }
+  }
+
+  private getRoom(roomId: string): MyngoRoom | null {
+    return this.store.select('rooms', room => room.id === roomId)[0] ?? null;
+  }
+
+  private getSeed(roomId: string): string {
+    const roomSeed = this.store.select('room_seeds', row => row.room_id === roomId)[0];
+    if (!roomSeed) {
+      throw new Error(`Room ${roomId} has no seed`);
+    }
+    return roomSeed.seed;
+  }
+
+  // Same rules as the deal_seeded_card trigger: seeded cards, each redealt
+  // until it is far enough from every card already in the room
+  private dealCards(
+    room: MyngoRoom,
+    playerId: string,
+    cardCount: number = 1
+  ): Pick<MyngoPlayer, 'card' | 'card_deal' | 'card_fingerprint' | 'card_count' | 'extra_cards' | 'extra_marked_numbers'> {
+    const seed = this.getSeed(room.id);
+    const count = Math.min(Math.max(cardCount, 1), getMaxCardsPerPlayer(room.config));
+    const existingCards = this.store
+      .select('players', player => player.room_id === room.id)
+      .flatMap(player => getPlayerCards(player).map(playerCard => playerCard.card));
+
+    const dealt = Array.from({ length: count }, (_, index) => {
+      const dealtCard = dealUniqueCard(seed, getCardKey(playerId, index), existingCards, room.config?.minCardDifference);
+      existingCards.push(dealtCard.card);
+      return dealtCard;
+    });
+
+    const [first, ...extras] = dealt;
+    return {
+      card: first.card,
+      card_deal: first.deal,
+      card_fingerprint: first.fingerprint,
+      card_count: count,
+      extra_cards: extras.map((extra): ExtraCard => ({ card: extra.card, deal: extra.deal, fingerprint: extra.fingerprint })),
+      extra_marked_numbers: extras.map(() => [])
+    };
+  }
+
+  // Publish the seed once the game is over, on the room and in its history
+  private revealSeed(room: MyngoRoom): void {
+    const seed = this.store.select('room_seeds', row => row.room_id === room.id)[0]?.seed;
+    if (!seed) return;
+
+    this.store.update('rooms', row => row.id === room.id && !row.seed, { seed });
+    this.store.update(
+      'game_history',
+      history => history.room_code === room.code && history.seed_hash === room.seed_hash && !history.seed,
+      { seed }
+    );
+  }
+
+  async updateRoomStatus(roomId: string, status: string, reason?: string): Promise<void> {
+    console.log('💾 Local backend: updating room status:', roomId, 'to:', status, 'reason:', reason);
+    if (status === 'cancelled' || status === 'finished') {
+      await this.requireOwner(roomId, 'update room status');
+    } else {
+      await this.requireHost(roomId, 'update room status');
+    }
+    this.setRoomStatus(roomId, status, reason);
+  }
+
+  // Housekeeping closes abandoned rooms without a host token
+  private setRoomStatus(roomId: string, status: string, reason?: string): void {
+    const [room] = this.store.update('rooms', row => row.id === roomId, {
+      status: status as MyngoRoom['status'],
+      ...(status === 'finished' || status === 'cancelled' ? { next_call_at: null } : {}),
+      updated_at: now()
+    });
+    if (!room) {
+      throw new Error(`Failed to update room status: room ${roomId} not found`);
+    }
+
+    if (status === 'finished' || status === 'cancelled') {
+      this.revealSeed(room);
+    }
+
+    if (status === 'cancelled') {
+      this.finalizeGameHistory(room, status, reason);
+      this.deleteRoom(roomId);
+    }
+  }
+
+  // Same merge as host_update_room_config(): the host's copy may be stale, so
+  // it never overwrites the keys the backend owns
+  async updateRoomConfig(roomId: string, config: RoomConfig): Promise<void> {
+    await this.requireHost(roomId, 'update room config');
+    const hostConfig: Partial<RoomConfig> = { ...config };
+    SERVER_CONFIG_KEYS.forEach(key => delete hostConfig[key]);
+    const [room] = this.store.update('rooms', row => row.id === roomId, row => ({
+      config: { ...row.config, ...hostConfig },
+      updated_at: now()
+    }));
+    if (!room) {
+      throw new Error(`Failed to update room config: room ${roomId} not found`);
+    }
+  }
+
+  // Same as host_touch_room()
+  async updateHostActivity(roomId: string): Promise<void> {
+    const hostToken = getHostToken(roomId);
+    const role = this.hostRole(roomId, hostToken);
+    if (!hostToken || !role) return;
+
+    if (role === 'owner') {
+      this.store.update('rooms', row => row.id === roomId, { updated_at: now(), host_seen_at: now(), owner_seen_at: now() });
+    } else {
+      this.store.update('rooms', row => row.id === roomId, { updated_at: now(), host_seen_at: now() });
+      this.store.update('room_cohosts', row => row.room_id === roomId && row.token_hash === sha256Hex(hostToken), {
+        last_seen_at: now()
+      });
+    }
+    this.setHostBack(roomId);
+  }
+
+  // Same as myngo_set_host_away()
+  private setHostAway(roomId: string): void {
+    this.store.update(
+      'rooms',
+      room => room.id === roomId && !room.host_away_since && (room.status === 'waiting' || room.status === 'active'),
+      room => ({
+        host_away_since: now(),
+        config: { ...room.config, isPaused: true, pausedForHost: !room.config.isPaused },
+        next_call_at: null
+      })
+    );
+  }
+
+  // Same as myngo_set_host_back() - only lifts a pause that going away put there
+  private setHostBack(roomId: string): void {
+    this.store.update('rooms', room => room.id === roomId && !!room.host_away_since, room => {
+      const { pausedForHost, ...config } = room.config;
+      return {
+        host_away_since: null,
+        config: pausedForHost ? { ...config, isPaused: false } : config,
+        next_call_at: pausedForHost && config.autoCall?.enabled ? nextCallAt(config) : room.next_call_at
+      };
+    });
+  }
+
+  // Same as myngo_check_hosts()
+  private checkHosts(): void {
+    const awayCutoff = Date.now() - HOST_AWAY_AFTER_SECONDS * 1000;
+    const graceCutoff = Date.now() - HOST_RECONNECT_GRACE_MINUTES * 60 * 1000;
+    const openRooms = this.store.select('rooms', room => room.status === 'waiting' || room.status === 'active');
+
+    openRooms.forEach(room => {
+      if (!room.host_away_since) {
+        if (room.host_seen_at && new Date(room.host_seen_at).getTime() < awayCutoff) {
+          this.setHostAway(room.id);
+        }
+      } else if (new Date(room.host_away_since).getTime() < graceCutoff) {
+        this.setRoomStatus(room.id, 'cancelled', 'Host did not return');
+      }
+    });
+  }
+
+  async endGame(roomId: string, winnerName?: string): Promise<void> {
+    console.log('💾 Local backend: ending game:', roomId, 'winner:', winnerName);
+    await this.requireOwner(roomId, 'end game');
+
+    const room = this.getRoom(roomId);
+    if (!room) return;
+
+    this.finalizeGameHistory(room, 'finished', 'Host ended game');
+    this.revealSeed(room);
+    this.deleteRoom(roomId);
+  }
+
+  // localStorage writes finish before the page goes, so no beacon is needed.
+  // Same rules as host_left() - nobody else seen lately means the room is away
+  sendHostLeaving(roomId: string): void {
+    const hostToken = getHostToken(roomId);
+    const role = this.hostRole(roomId, hostToken);
+    if (!hostToken || !role) return;
+
+    const tokenHash = sha256Hex(hostToken);
+    const othersSeenAt = [
+      role === 'cohost' ? this.getRoom(roomId)?.owner_seen_at : null,
+      ...this.store.select('room_cohosts', row => row.room_id === roomId && row.token_hash !== tokenHash).map(row => row.last_seen_at)
+    ];
+    const awayCutoff = Date.now() - HOST_AWAY_AFTER_SECONDS * 1000;
+
+    if (!othersSeenAt.some(seenAt => seenAt && new Date(seenAt).getTime() >= awayCutoff)) {
+      this.setHostAway(roomId);
+    }
+  }
+
+  // Co-hosts
+
+  async createCohostInvite(roomId: string): Promise<string> {
+    await this.requireOwner(roomId, 'create co-host invite');
+    const inviteToken = createHostToken();
+    this.store.update('room_host_tokens', row => row.room_id === roomId, { invite_hash: sha256Hex(inviteToken) });
+    saveCohostInvite(roomId, inviteToken);
+    return inviteToken;
+  }
+
+  // Same rules as join_as_cohost()
+  async joinAsCohost(roomId: string, inviteToken: string, name: string): Promise<void> {
+    console.log('💾 Local backend: joining as co-host:', roomId, 'as:', name);
+    const isInvited = this.store.select('room_host_tokens', row => row.room_id === roomId && row.invite_hash === sha256Hex(inviteToken)).length > 0;
+    if (!isInvited) {
+      throw new Error('Failed to join as co-host: this co-host invite is not valid any more');
+    }
+
+    const room = this.getRoom(roomId);
+    if (!room || (room.status !== 'waiting' && room.status !== 'active')) {
+      throw new Error('Failed to join as co-host: this game is no longer running');
+    }
+
+    const trimmedName = name.trim();
+    if (trimmedName.length < 1 || trimmedName.length > 30) {
+      throw new Error('Failed to join as co-host: co-host names need 1 to 30 characters');
+    }
+
+    const cohostToken = createHostToken();
+    this.store.insert('room_cohosts', {
+      id: createId(),
+      room_id: roomId,
+      name: trimmedName,
+      token_hash: sha256Hex(cohostToken),
+      last_seen_at: now(),
+      created_at: now()
+    });
+
+    saveHostToken(roomId, cohostToken);
+    forgetCohostInvite(roomId);
+  }
+
+  async getCohosts(roomId: string): Promise<RoomCohost[]> {
+    await this.requireHost(roomId, 'get co-hosts');
+    return this.store
+      .select('room_cohosts', row => row.room_id === roomId)
+      .map(({ id, name, last_seen_at }) => ({ id, name, last_seen_at }));
+  }
+
+  async removeCohost(roomId: string, cohostId: string): Promise<void> {
+    await this.requireOwner(roomId, 'remove co-host');
+    this.store.remove('room_cohosts', row => row.id === cohostId && row.room_id === roomId);
+  }
+
+  // Same rules as take_over_room()
+  async takeOverRoom(roomId: string): Promise<void> {
+    console.log('💾 Local backend: taking over room:', roomId);
+    const room = this.getRoom(roomId);
+    if (!room || (room.status !== 'waiting' && room.status !== 'active')) {
+      throw new Error('Failed to take over room: this game is no longer running');
+    }
+
+    const cohostToken = getHostToken(roomId);
+    if (!cohostToken || this.hostRole(roomId, cohostToken) !== 'cohost') {
+      throw new Error('Failed to take over room: only a co-host of this room can do that');
+    }
+    if (room.owner_seen_at && new Date(room.owner_seen_at).getTime() > Date.now() - HOST_AWAY_AFTER_SECONDS * 1000) {
+      throw new Error('Failed to take over room: the owner is still running this game');
+    }
+
+    const hostToken = createHostToken();
+    this.store.update('room_host_tokens', row => row.room_id === roomId, { token_hash: sha256Hex(hostToken) });
+    this.store.remove('room_cohosts', row => row.room_id === roomId && row.token_hash === sha256Hex(cohostToken));
+    this.store.update('rooms', row => row.id === roomId, {
+      host_id: `host_${Date.now()}`,
+      host_seen_at: now(),
+      owner_seen_at: now(),
+      updated_at: now()
+    });
+    this.setHostBack(roomId);
+
+    saveHostToken(roomId, hostToken);
+  }
+
+  // Players and called numbers go with the room, like the database cascade
+  private deleteRoom(roomId: string): void {
+    const playerIds = new Set(this.store.select('players', player => player.room_id === roomId).map(player => player.id));
+    this.store.remove('player_tokens', playerToken => playerIds.has(playerToken.player_id));
+    this.store.remove('players', player => player.room_id === roomId);
+    this.store.remove('called_numbers', call => call.room_id === roomId);
+    this.store.remove('call_corrections', correction => correction.room_id === roomId);
+    this.store.remove('room_seeds', roomSeed => roomSeed.room_id === roomId);
+    this.store.remove('room_host_tokens', hostToken => hostToken.room_id === roomId);
+    this.store.remove('room_cohosts', cohost => cohost.room_id === roomId);
+    this.store.remove('rooms', room => room.id === roomId);
+    forgetHostToken(roomId);
+    forgetCohostInvite(roomId);
+  }
+
+  // Players
+
+  async joinRoom(roomCode: string, playerName: string, cardCount: number = 1): Promise<MyngoPlayer> {
+    console.log('💾 Local backend: joining room:', roomCode, 'as:', playerName, 'cards:', cardCount);
+
+    const room = await this.getRoomByCode(roomCode);
+    if (!room) {
+      throw new Error(`Room "${roomCode}" not found`);
+    }
+    if (room.config?.roomClosed) {
+      throw new Error('This room is currently closed to new players');
+    }
+    if (room.status === 'cancelled') {
+      throw new Error('This game has been cancelled');
+    }
+    if (room.status === 'finished') {
+      throw new Error('This game has already finished');
+    }
+
+    const players = await this.getPlayersInRoom(room.id);
+    if (players.some(player => player.name === playerName)) {
+      throw new Error('This nickname is already taken in this room. Please choose a different one.');
+    }
+
+    // Same as the record_peak_players trigger
+    const newPlayerCount = players.length + 1;
+    this.store.update('rooms', row => row.id === room.id && newPlayerCount > (row.config?.maxPlayersEver || 0), row => ({
+      config: { ...row.config, maxPlayersEver: newPlayerCount }
+    }));
+
+    const playerId = createId();
+    const playerToken = createPlayerToken();
+    const rejoinPin = createRejoinPin();
+    this.store.insert('player_tokens', {
+      id: createId(),
+      player_id: playerId,
+      token_hash: sha256Hex(playerToken),
+      rejoin_hash: sha256Hex(`${playerId}:${rejoinPin}`),
+      rejoin_failures: 0,
+      rejoin_locked_until: null
+    });
+    savePlayerToken(playerId, playerToken);
+    saveRejoinDetails({ playerId, roomCode: room.code, name: playerName, pin: rejoinPin });
+
+    const player = this.store.insert('players', {
+      id: playerId,
+      room_id: room.id,
+      name: playerName,
+      ...this.dealCards(room, playerId, cardCount),
+      marked_numbers: [],
+      is_bot: false,
+      is_winner: false,
+      prizes_won: [],
+      joined_at: now()
+    });
+
+    this.updateHistory(room.code, history => ({
+      players_start: Math.max(history.players_start || 0, newPlayerCount)
+    }));
+
+    console.log('✅ Local backend: player joined:', player.name);
+    return player;
+  }
+
+  // Same rules as the rejoin_room database function
+  async rejoinRoom(roomCode: string, playerName: string, pin: string): Promise<MyngoPlayer> {
+    console.log('💾 Local backend: rejoining room:', roomCode, 'as:', playerName);
+
+    const room = await this.getRoomByCode(roomCode);
+    const player = room
+      ? this.store.select('players', row => row.room_id === room.id && row.name === playerName && !row.is_bot)[0]
+      : undefined;
+    const tokens = player && this.store.select('player_tokens', row => row.player_id === player.id)[0];
+    if (!player || !tokens) {
+      throw new Error('Nobody with that nickname is playing in this room');
+    }
+
+    if (tokens.rejoin_locked_until && new Date(tokens.rejoin_locked_until).getTime() > Date.now()) {
+      throw new Error('Too many wrong PINs - try again in a few minutes');
+    }
+
+    if (tokens.rejoin_hash !== sha256Hex(`${player.id}:${pin}`)) {
+      const locked = tokens.rejoin_failures + 1 >= REJOIN_MAX_FAILURES;
+      this.store.update('player_tokens', row => row.player_id === player.id, {
+        rejoin_failures: locked ? 0 : tokens.rejoin_failures + 1,
+        rejoin_locked_until: locked ? new Date(Date.now() + REJOIN_LOCK_MS).toISOString() : null
+      });
+      throw new Error('That PIN is not right');
+    }
+
+    // The new device's token replaces the old one
+    const playerToken = createPlayerToken();
+    this.store.update('player_tokens', row => row.player_id === player.id, {
+      token_hash: sha256Hex(playerToken),
+      rejoin_failures: 0,
+      rejoin_locked_until: null
+    });
+    const [rejoined] = this.store.update('players', row => row.id === player.id, { rejoined_at: now() });
+
+    savePlayerToken(player.id, playerToken);
+    saveRejoinDetails({ playerId: player.id, roomCode, name: player.name, pin });
+    return rejoined;
+  }
+
+  async getPlayersInRoom(roomId: string): Promise<MyngoPlayer[]> {
+    return this.store
+      .select('players', player => player.room_id === roomId)
+      .sort((a, b) => a.joined_at.localeCompare(b.joined_at));
+  }
+
+  // Same rules as update_player_marks()
+  async updatePlayerMarkedNumbers(playerId: string, markedNumbers: number[], cardIndex: number = 0): Promise<number[]> {
+    this.requirePlayer(playerId, 'update marked numbers');
+    const player = this.store.select('players', row => row.id === playerId)[0];
+    if (!player) {
+      throw new Error(`Failed to update marked numbers: player ${playerId} not found`);
+    }
+    if (cardIndex < 0 || cardIndex >= (player.card_count ?? 1)) {
+      throw new Error(`Failed to update marked numbers: player has no card ${cardIndex + 1}`);
+    }
+
+    const called = new Set((await this.getCalledNumbers(player.room_id)).map(call => call.number));
+    const marked = markedNumbers.filter(number => called.has(number));
+    const rejected = markedNumbers.filter(number => !called.has(number));
+
+    if (rejected.length > 0) {
+      this.store.update('players', row => row.id === playerId, row => ({
+        false_marks: (row.false_marks ?? 0) + rejected.length
+      }));
+    }
+
+    if (cardIndex === 0) {
+      this.store.update('players', row => row.id === playerId, { marked_numbers: marked });
+      return rejected;
+    }
+
+    this.store.update('players', row => row.id === playerId, row => ({
+      extra_marked_numbers: (row.extra_cards || []).map((_, position) => (
+        position === cardIndex - 1 ? marked : row.extra_marked_numbers?.[position] || []
+      ))
+    }));
+    return rejected;
+  }
+
+  // Same rules as the guard_auto_daub trigger
+  async updatePlayerAutoDaub(playerId: string, autoDaub: boolean, autoClaim: boolean): Promise<void> {
+    this.requirePlayer(playerId, 'update auto-daub');
+    const player = this.store.select('players', row => row.id === playerId)[0];
+    if (!player) {
+      throw new Error(`Failed to update auto-daub: player ${playerId} not found`);
+    }
+
+    const allowed = this.getRoom(player.room_id)?.config?.allowAutoDaub ?? false;
+    const autoDaubOn = allowed && autoDaub;
+    this.store.update('players', row => row.id === playerId, row => ({
+      auto_daub: autoDaubOn,
+      auto_claim: autoDaubOn && autoClaim,
+      used_auto_daub: !!row.used_auto_daub || autoDaubOn
+    }));
+  }
+
+  async removePlayer(playerId: string): Promise<void> {
+    console.log('💾 Local backend: removing player:', playerId);
+    this.requirePlayer(playerId, 'remove player');
+    this.removePlayers(player => player.id === playerId);
+    forgetPlayerToken(playerId);
+    forgetRejoinDetails(playerId);
+  }
+
+  // Same rules as player_left(); trackPlayerPresence clears the disconnect
+  // again when the player comes back
+  sendPlayerLeaving(playerId: string): void {
+    if (!this.holdsPlayerToken(playerId)) return;
+
+    const [player] = this.store.update('players', row => row.id === playerId, row => ({
+      disconnected_at: row.disconnected_at ?? now()
+    }));
+    const room = player && this.getRoom(player.room_id);
+    if (room) {
+      this.removeStalePlayers(room);
+    }
+  }
+
+  async claimWin(playerId: string, roomId: string, cardIndex: number = 0): Promise<WinClaimResult> {
+    this.requirePlayer(playerId, 'submit win claim');
+    return this.judgeClaim(playerId, roomId, cardIndex);
+  }
+
+  // Same rules as myngo_claim_win(): the card is judged against the current
+  // prize and only called numbers may be marked
+  private async judgeClaim(playerId: string, roomId: string, cardIndex: number = 0): Promise<WinClaimResult> {
+    const player = this.store.select('players', row => row.id === playerId)[0];
+    if (!player) {
+      return { accepted: false, reason: 'Player not found' };
+    }
+
+    const playerCard = getPlayerCards(player)[cardIndex];
+    if (!playerCard) {
+      return { accepted: false, reason: 'Card not found' };
+    }
+
+    const room = this.getRoom(player.room_id) ?? this.getRoom(roomId);
+    if (!room) {
+      return { accepted: false, reason: 'Player not found' };
+    }
+
+    const prizes = getRoomPrizes(room.config);
+    const prizeIndex = getCurrentPrizeIndex(room.config);
+    const prize = prizes[prizeIndex];
+
+    if (player.prizes_won?.includes(prize.id)) {
+      return { accepted: true, reason: 'Already won this prize', prize: prize.id };
+    }
+
+    if (player.claim_locked_until && new Date(player.claim_locked_until).getTime() > Date.now()) {
+      const seconds = Math.ceil((new Date(player.claim_locked_until).getTime() - Date.now()) / 1000);
+      return { accepted: false, reason: `You can claim again in ${seconds} seconds`, lockedUntil: player.claim_locked_until };
+    }
+
+    if (hasTooManyFalseMarks(player, room.config)) {
+      return {
+        accepted: false,
+        claimsDisabled: true,
+        reason: `Claiming is disabled after ${player.false_marks} marks on numbers that were never called`
+      };
+    }
+
+    if (room.config.pendingClaims?.some(claim => claim.playerId === player.id)) {
+      return { accepted: false, pending: true, reason: 'Your claim is waiting for the host' };
+    }
+
+    const called = new Set((await this.getCalledNumbers(room.id)).map(call => call.number));
+    const reject = (reason: string, lockOut: boolean): WinClaimResult => {
+      this.recordClaim(room, player, playerCard.markedNumbers, called.size, {
+        accepted: false,
+        reason,
+        prize_id: prize.id,
+        pattern: prize.winPattern.id,
+        card_index: cardIndex
+      });
+      return { accepted: false, reason, lockedUntil: lockOut ? this.lockClaims(player.id, room.config) : undefined };
+    };
+
+    if (room.status === 'finished' || room.status === 'cancelled') {
+      return reject('The game is already over', false);
+    }
+
+    const uncalled = playerCard.markedNumbers.filter(number => !called.has(number)).sort((a, b) => a - b);
+    if (uncalled.length > 0) {
+      return reject(`Marked numbers that were never called: ${uncalled.join(', ')}`, true);
+    }
+
+    const winCheck = checkWin(playerCard.card, playerCard.markedNumbers, prize.winPattern);
+    if (!winCheck.hasWin) {
+      return reject('No winning pattern on this card yet', true);
+    }
+
+    // The card checks out; in a manual-claims room it waits for a host
+    if (room.config.manualClaims) {
+      const claim: PendingClaim = {
+        id: createId(),
+        playerId: player.id,
+        playerName: player.name,
+        cardIndex,
+        prizeIndex,
+        prizeId: prize.id,
+        line: winCheck.line,
+        markedNumbers: playerCard.markedNumbers,
+        ballsCalled: called.size,
+        claimedAt: now()
+      };
+      this.store.update('rooms', row => row.id === room.id, row => ({
+        config: {
+          ...row.config,
+          pendingClaims: [...(row.config.pendingClaims || []), claim],
+          isPaused: true,
+          pausedForClaim: row.config.pausedForClaim ?? !row.config.isPaused
+        },
+        next_call_at: null,
+        updated_at: now()
+      }));
+      return { accepted: false, pending: true, reason: 'Waiting for the host to check your card', prize: prize.id };
+    }
+
+    return this.awardPrize(room.id, player.id, prizeIndex, cardIndex, playerCard.markedNumbers, called.size, winCheck.line, 'Winner declared');
+  }
+
+  // Same rules as host_resolve_claim()
+  async resolveClaim(roomId: string, claimId: string, approve: boolean): Promise<WinClaimResult> {
+    await this.requireHost(roomId, 'resolve claim');
+
+    const room = this.getRoom(roomId);
+    const claim = room?.config.pendingClaims?.find(pending => pending.id === claimId);
+    if (!room || !claim) {
+      throw new Error('Failed to resolve claim: this claim has already been decided');
+    }
+
+    this.dropPendingClaim(roomId, claimId);
+
+    const player = this.store.select('players', row => row.id === claim.playerId)[0];
+    if (!player) {
+      return { accepted: false, reason: 'Player not found' };
+    }
+
+    if (!approve) {
+      this.recordClaim(room, player, claim.markedNumbers, claim.ballsCalled, {
+        accepted: false,
+        reason: 'Rejected by the host',
+        prize_id: claim.prizeId,
+        card_index: claim.cardIndex
+      });
+      return { accepted: false, reason: 'Rejected by the host', lockedUntil: this.lockClaims(player.id, room.config) };
+    }
+
+    const result = this.awardPrize(
+      roomId,
+      player.id,
+      claim.prizeIndex,
+      claim.cardIndex,
+      claim.markedNumbers,
+      claim.ballsCalled,
+      claim.line,
+      'Approved by the host'
+    );
+
+    // Claims still waiting can't win once the last prize is gone
+    if (result.gameOver) {
+      this.store.update('rooms', row => row.id === roomId, row => ({
+        config: { ...row.config, pendingClaims: undefined, pausedForClaim: undefined }
+      }));
+    }
+
+    return result;
+  }
+
+  // Same as myngo_lock_claims() - the penalty for a rejected claim
+  private lockClaims(playerId: string, config: RoomConfig): string | null {
+    const lockoutSeconds = getClaimLockoutSeconds(config);
+    if (lockoutSeconds === 0) return null;
+
+    const lockedUntil = new Date(Date.now() + lockoutSeconds * 1000).toISOString();
+    this.store.update('players', row => row.id === playerId, { claim_locked_until: lockedUntil });
+    return lockedUntil;
+  }
+
+  // Same as myngo_award_prize()
+  private awardPrize(
+    roomId: string,
+    playerId: string,
+    prizeIndex: number,
+    cardIndex: number,
+    markedNumbers: number[],
+    ballsCalled: number,
+    line: number | undefined,
+    reason: string
+  ): WinClaimResult {
+    const room = this.getRoom(roomId)!;
+    const player = this.store.select('players', row => row.id === playerId)[0];
+    const prizes = getRoomPrizes(room.config);
+    const prize = prizes[prizeIndex];
+
+    if (player.prizes_won?.includes(prize.id)) {
+      return { accepted: true, reason: 'Already won this prize', prize: prize.id };
+    }
+
+    this.store.update('players', row => row.id === player.id, row => ({
+      is_winner: true,
+      prizes_won: [...(row.prizes_won || []), prize.id]
+    }));
+
+    // A second winner of a shared prize doesn't move the game on again
+    const gameOver = prizeIndex >= prizes.length - 1;
+    if (gameOver) {
+      this.store.update('rooms', row => row.id === room.id, { status: 'finished', next_call_at: null, updated_at: now() });
+      this.revealSeed(room);
+    } else if (getCurrentPrizeIndex(room.config) <= prizeIndex) {
+      this.store.update('rooms', row => row.id === room.id, row => ({
+        config: { ...row.config, currentPrizeIndex: prizeIndex + 1 },
+        updated_at: now()
+      }));
+    }
+
+    this.updateHistory(room.code, history => ({
+      winners: [...(history.winners || []), {
+        prize_id: prize.id,
+        prize_name: prize.name,
+        player_id: player.id,
+        player_name: player.name,
+        card_index: cardIndex,
+        auto_daub: !!player.used_auto_daub,
+        balls_called_count: ballsCalled,
+        won_at: now()
+      }]
+    }));
+    this.recordClaim(room, player, markedNumbers, ballsCalled, {
+      accepted: true,
+      reason,
+      prize_id: prize.id,
+      pattern: prize.winPattern.id,
+      line,
+      card_index: cardIndex
+    });
+
+    if (gameOver) {
+      this.recordFinalStats(room);
+    }
+
+    console.log('✅ Local backend: claim accepted for', player.name, 'prize:', prize.id);
+    return { accepted: true, pattern: prize.winPattern.id, line, prize: prize.id, card: cardIndex, gameOver };
+  }
+
+  // Same as myngo_drop_pending_claim() - the last one resumes a game it paused
+  private dropPendingClaim(roomId: string, claimId: string): void {
+    this.store.update('rooms', row => row.id === roomId, row => {
+      const { pendingClaims = [], pausedForClaim, ...config } = row.config;
+      const remaining = pendingClaims.filter(claim => claim.id !== claimId);
+
+      if (remaining.length > 0) {
+        return { config: { ...row.config, pendingClaims: remaining } };
+      }
+      if (!pausedForClaim) {
+        return { config };
+      }
+
+      const isOpen = row.status === 'waiting' || row.status === 'active';
+      return {
+        config: { ...config, isPaused: false },
+        next_call_at: isOpen && config.autoCall?.enabled ? nextCallAt(config) : row.next_call_at
+      };
+    });
+  }
+
+  private recordClaim(
+    room: MyngoRoom,
+    player: MyngoPlayer,
+    markedNumbers: number[],
+    ballsCalled: number,
+    outcome: Pick<LocalWinClaim, 'accepted' | 'reason' | 'prize_id' | 'pattern' | 'line' | 'card_index'>
+  ): void {
+    this.store.insert('win_claims', {
+      id: createId(),
+      room_id: room.id,
+      player_id: player.id,
+      player_name: player.name,
+      auto_daub: !!player.used_auto_daub,
+      marked_numbers: markedNumbers,
+      balls_called_count: ballsCalled,
+      created_at: now(),
+      ...outcome
+    });
+  }
+
+  // Same rules as host_set_players_presence()
+  async updatePlayersPresence(roomId: string, onlinePlayerIds: string[]): Promise<void> {
+    await this.requireHost(roomId, 'update player presence');
+    const online = new Set(onlinePlayerIds);
+
+    this.store.update('players', player => player.room_id === roomId && !player.is_bot && !player.disconnected_at && !online.has(player.id), {
+      disconnected_at: now()
+    });
+    this.store.update('players', player => player.room_id === roomId && !!player.disconnected_at && online.has(player.id), {
+      disconnected_at: null
+    });
+  }
+
+  // Same rules as host_remove_stale_players()
+  async cleanupStalePlayersInRoom(roomId: string): Promise<void> {
+    if (!(await this.verifyHost(roomId))) return;
+
+    const room = this.getRoom(roomId);
+    if (room) {
+      this.removeStalePlayers(room);
+    }
+  }
+
+  // Players disconnected for longer than the room's grace period; winners stay
+  private removeStalePlayers(room: MyngoRoom): void {
+    const cutoff = Date.now() - getDisconnectGraceMinutes(room.config) * 60 * 1000;
+    const removed = this.removePlayers(player =>
+      player.room_id === room.id &&
+      !player.is_bot &&
+      !player.is_winner &&
+      !!player.disconnected_at &&
+      new Date(player.disconnected_at).getTime() < cutoff
+    );
+    if (removed.length > 0) {
+      console.log('🧹 Local backend: removed', removed.length, 'stale players from room:', room.id);
+    }
+  }
+
+  // Players leaving a room that carries on - each one counts as a drop,
+  // like the record_player_drop trigger
+  private removePlayers(match: (player: MyngoPlayer) => boolean): MyngoPlayer[] {
+    const removed = this.store.remove('players', match);
+    removed.forEach(player => {
+      this.store.remove('player_tokens', playerToken => playerToken.player_id === player.id);
+      const room = this.getRoom(player.room_id);
+      if (room) {
+        this.updateHistory(room.code, history => ({ players_drop: (history.players_drop || 0) + 1 }));
+      }
+    });
+    return removed;
+  }
+
+  // Demo bots
+
+  async addDemoBots(roomId: string): Promise<void> {
+    await this.requireHost(roomId, 'add demo bots');
+    const room = this.getRoom(roomId);
+    if (!room) {
+      throw new Error(`Failed to add demo bots: room ${roomId} not found`);
+    }
+
+    DEMO_BOT_NAMES.forEach(name => {
+      const botId = createId();
+      this.store.insert('players', {
+        id: botId,
+        room_id: roomId,
+        name,
+        ...this.dealCards(room, botId),
+        marked_numbers: [],
+        is_bot: true,
+        is_winner: false,
+        prizes_won: [],
+        joined_at: now()
+      });
+    });
+  }
+
+  async autoBotMarkNumber(roomId: string, calledNumber: number, isDemoMode: boolean = false, winPattern?: WinPattern): Promise<void> {
+    if (!isDemoMode) return;
+
+    // Same checks as host_mark_bots()
+    if (!(await this.verifyHost(roomId))) {
+      console.error('❌ Local backend: only the host can mark numbers for bots');
+      return;
+    }
+    if (!this.store.select('called_numbers', call => call.room_id === roomId && call.number === calledNumber).length) {
+      console.error('❌ Local backend: number', calledNumber, 'has not been called');
+      return;
+    }
+
+    // Only one prize can be won per call, as with the Supabase backend
+    let prizeClaimed = false;
+    const bots = this.store.select('players', player => player.room_id === roomId && player.is_bot);
+
+    for (const bot of bots) {
+      const cardNumbers = [...bot.card.M, ...bot.card.Y, ...bot.card.N, ...bot.card.G, ...bot.card.O];
+      if (!cardNumbers.includes(calledNumber) || bot.marked_numbers.includes(calledNumber)) continue;
+
+      const markedNumbers = [...bot.marked_numbers, calledNumber];
+      this.store.update('players', row => row.id === bot.id, { marked_numbers: markedNumbers });
+
+      if (!prizeClaimed && checkWin(bot.card, markedNumbers, winPattern).hasWin) {
+        // Bots hold no player token - the host claims for them (host_claim_bot_win)
+        const claim = await this.judgeClaim(bot.id, roomId);
+        prizeClaimed = claim.accepted;
+      }
+    }
+  }
+
+  // Called numbers
+
+  // Same checks as host_call_number()
+  async callNumber(roomId: string, number: number): Promise<CalledNumber> {
+    await this.requireHost(roomId, 'call number');
+    if (!Number.isInteger(number) || number < 1 || number > 75) {
+      throw new Error('Failed to call number: numbers go from 1 to 75');
+    }
+    const room = this.getRoom(roomId);
+    if (!room || (room.status !== 'waiting' && room.status !== 'active')) {
+      throw new Error('Failed to call number: the game is over');
+    }
+    // Like the database, the letter always follows from the number
+    return this.insertCall(roomId, number, getLetterForNumber(number));
+  }
+
+  private insertCall(roomId: string, number: number, letter: string): CalledNumber {
+    const alreadyCalled = this.store.select('called_numbers', call => call.room_id === roomId && call.number === number);
+    if (alreadyCalled.length > 0) {
+      throw new Error(`Failed to call number: ${letter}-${number} has already been called`);
+    }
+
+    const call = this.store.insert('called_numbers', {
+      id: createId(),
+      room_id: roomId,
+      number,
+      letter: letter as CalledNumber['letter'],
+      called_at: now()
+    });
+
+    // Any call, auto or manual, restarts the countdown to the next one
+    const callCount = this.store.select('called_numbers', row => row.room_id === roomId).length;
+    this.store.update('rooms', room => room.id === roomId && !!room.next_call_at, room => ({
+      next_call_at: (room.status === 'waiting' || room.status === 'active') && callCount < 75
+        ? nextCallAt(room.config)
+        : null
+    }));
+
+    return call;
+  }
+
+  async callNextNumber(roomId: string): Promise<number | null> {
+    await this.requireHost(roomId, 'call next number');
+    if (isCageCalling(this.getRoom(roomId)?.config)) {
+      throw new Error('Failed to call next number: this room draws its numbers from a ball cage');
+    }
+    return this.callNextSeededNumber(roomId);
+  }
+
+  // Shared by the host and the auto-caller, like myngo_call_next_number()
+  private callNextSeededNumber(roomId: string): number | null {
+    const called = this.store.select('called_numbers', call => call.room_id === roomId).map(call => call.number);
+    const number = getNextSeededNumber(this.getSeed(roomId), called);
+    if (number === null) {
+      this.store.update('rooms', row => row.id === roomId, { next_call_at: null });
+      return null;
+    }
+
+    this.insertCall(roomId, number, getLetterForNumber(number));
+    return number;
+  }
+
+  // Same rules as host_undo_last_call()
+  async undoLastCall(roomId: string): Promise<CalledNumber> {
+    await this.requireHost(roomId, 'undo last call');
+
+    const room = this.getRoom(roomId);
+    if (!room || (room.status !== 'waiting' && room.status !== 'active')) {
+      throw new Error('Failed to undo last call: the game is over');
+    }
+
+    const [call] = await this.getCalledNumbers(roomId);
+    if (!call) {
+      throw new Error('Failed to undo last call: no number has been called yet');
+    }
+    if (Date.now() - new Date(call.called_at).getTime() > UNDO_CALL_WINDOW_SECONDS * 1000) {
+      throw new Error(`Failed to undo last call: only a call from the last ${UNDO_CALL_WINDOW_SECONDS} seconds can be undone`);
+    }
+    if ((room.config.pendingClaims?.length ?? 0) > 0) {
+      throw new Error('Failed to undo last call: decide the waiting claims before undoing a call');
+    }
+    const wonSince = this.store.select('win_claims', claim =>
+      claim.room_id === roomId && claim.accepted && claim.created_at >= call.called_at
+    );
+    if (wonSince.length > 0) {
+      throw new Error(`Failed to undo last call: a prize was won after ${call.letter}-${call.number} was called`);
+    }
+
+    this.store.remove('called_numbers', row => row.id === call.id);
+
+    // Marks must stay on called numbers, so the number comes off every card
+    const unmark = (marks: number[]) => marks.filter(number => number !== call.number);
+    this.store.update('players', row =>
+      row.room_id === roomId && getPlayerCards(row).some(playerCard => playerCard.markedNumbers.includes(call.number)),
+      row => ({
+        marked_numbers: unmark(row.marked_numbers),
+        extra_marked_numbers: row.extra_marked_numbers?.map(unmark)
+      })
+    );
+
+    const hostToken = getHostToken(roomId);
+    const cohost = this.store.select('room_cohosts', row => row.room_id === roomId && row.token_hash === sha256Hex(hostToken || ''))[0];
+    this.store.insert('call_corrections', {
+      id: createId(),
+      room_id: roomId,
+      number: call.number,
+      letter: call.letter,
+      called_at: call.called_at,
+      undone_at: now(),
+      host_role: this.hostRole(roomId, hostToken)!,
+      host_name: cohost?.name ?? null
+    });
+
+    // Same as after a call: the auto-caller waits a full interval
+    this.store.update('rooms', row => row.id === roomId && !!row.next_call_at, row => ({ next_call_at: nextCallAt(row.config) }));
+
+    console.log('↩️ Local backend: call undone:', call.letter, call.number);
+    return call;
+  }
+
+  async getCalledNumbers(roomId: string): Promise<CalledNumber[]> {
+    // Newest first - rows are stored in call order
+    return this.store.select('called_numbers', call => call.room_id === roomId).reverse();
+  }
+
+  // Auto-calling
+
+  private runAutoCaller(): void {
+    if (!this.store.holdLease(this.tabId, CALLER_LEASE_MS)) return;
+
+    this.checkHosts();
+
+    const dueRooms = this.store.select('rooms', room =>
+      !!room.next_call_at && new Date(room.next_call_at).getTime() <= Date.now()
+    );
+
+    dueRooms.forEach(room => {
+      const isOpen = room.status === 'waiting' || room.status === 'active';
+      if (!isOpen || !room.config.autoCall?.enabled || room.config.isPaused) {
+        this.store.update('rooms', row => row.id === room.id, { next_call_at: null });
+        return;
+      }
+
+      try {
+        this.callNextSeededNumber(room.id);
+      } catch (error) {
+        console.error('❌ Local backend: auto-call failed:', error);
+      }
+    });
+  }
+
+  async startAutoCalling(roomId: string): Promise<void> {
+    await this.requireHost(roomId, 'start auto-caller');
+    if (isCageCalling(this.getRoom(roomId)?.config)) {
+      throw new Error('Failed to start auto-caller: this room draws its numbers from a ball cage');
+    }
+    this.store.update('rooms', room => room.id === roomId && (room.status === 'waiting' || room.status === 'active'), room => ({
+      config: { ...room.config, autoCall: { ...room.config.autoCall, enabled: true }, isPaused: false },
+      next_call_at: nextCallAt(room.config),
+      updated_at: now()
+    }));
+  }
+
+  async stopAutoCalling(roomId: string): Promise<void> {
+    await this.requireHost(roomId, 'stop auto-caller');
+    this.store.update('rooms', room => room.id === roomId, room => ({
+      config: { ...room.config, autoCall: { ...room.config.autoCall, enabled: false } },
+      next_call_at: null,
+      updated_at: now()
+    }));
+  }
+
+  async pauseAutoCalling(roomId: string): Promise<void> {
+    await this.requireHost(roomId, 'pause auto-caller');
+    this.store.update('rooms', room => room.id === roomId, room => ({
+      config: { ...room.config, isPaused: true },
+      next_call_at: null,
+      updated_at: now()
+    }));
+  }
+
+  async resumeAutoCalling(roomId: string): Promise<void> {
+    await this.requireHost(roomId, 'resume auto-caller');
+    this.store.update('rooms', room => room.id === roomId && (room.status === 'waiting' || room.status === 'active'), room => ({
+      config: { ...room.config, isPaused: false },
+      next_call_at: room.config.autoCall?.enabled ? nextCallAt(room.config) : null,
+      updated_at: now()
+    }));
+  }
+
+  // History, stats and housekeeping
+
+  private updateHistory(roomCode: string, patch: (history: GameHistory) => Partial<GameHistory>): void {
+    this.store.update(
+      'game_history',
+      history => history.room_code === roomCode && history.ending_status === 'active',
+      patch
+    );
+  }
+
+  private getGameSummary(room: MyngoRoom) {
+    // players_drop is counted as players leave (removePlayers)
+    const players = this.store.select('players', player => player.room_id === room.id);
+    return {
+      players_end: players.length,
+      duration: Math.round((Date.now() - new Date(room.created_at).getTime()) / (1000 * 60)),
+      balls_called_count: this.store.select('called_numbers', call => call.room_id === room.id).length
+    };
+  }
+
+  private recordFinalStats(room: MyngoRoom): void {
+    const summary = this.getGameSummary(room);
+    this.updateHistory(room.code, history => ({
+      ...summary,
+      players_start: Math.max(history.players_start || 0, room.config?.maxPlayersEver || 0),
+      ending_status: 'Winner Declared'
+    }));
+  }
+
+  private finalizeGameHistory(room: MyngoRoom, endingStatus: string, reason?: string): void {
+    const status = endingStatus === 'finished' ? 'Completed Game' : endingStatus;
+    const summary = this.getGameSummary(room);
+
+    // Games already closed out by a final winner are marked completed as well
+    this.store.update(
+      'game_history',
+      history => history.room_code === room.code && (history.ending_status === 'active' || history.ending_status === 'Winner Declared'),
+      history => ({
+        ...summary,
+        players_start: Math.max(history.players_start || 0, summary.players_end),
+        ending_status: status + (reason ? ` (${reason})` : '')
+      })
+    );
+  }
+
+  async getGameStats(): Promise<GameStats> {
+    const activeRooms = this.store.select('rooms', room => room.status === 'waiting' || room.status === 'active');
+    const activeIds = new Set(activeRooms.map(room => room.id));
+    const playersOnline = this.store.select('players', player => activeIds.has(player.room_id)).length;
+    const history = this.store.select('game_history');
+
+    return {
+      activeGames: activeRooms.length,
+      playersOnline,
+      spotsAvailable: Math.max(0, 1000 - playersOnline),
+      peakGames: Math.max(activeRooms.length, Math.ceil(history.length / 10)),
+      peakPlayers: Math.max(playersOnline, ...history.map(game => game.players_start || 0))
+    };
+  }
+
+  async cleanupDemoGames(): Promise<void> {
+    const cutoff = Date.now() - 60 * 60 * 1000;
+    this.store
+      .select('rooms', room => !!room.config?.demoMode && new Date(room.created_at).getTime() < cutoff)
+      .forEach(room => this.deleteRoom(room.id));
+  }
+
+  async closeInactiveRooms(): Promise<void> {
+    const cutoff = Date.now() - 2 * 60 * 60 * 1000;
+    const oldRooms = this.store.select('rooms', room =>
+      (room.status === 'waiting' || room.status === 'active') && new Date(room.created_at).getTime() < cutoff
+    );
+    for (const room of oldRooms) {
+      this.setRoomStatus(room.id, 'cancelled', 'Auto-closed due to inactivity');
+    }
+  }
+
+  async cancelGamesWithInactiveHosts(): Promise<void> {
+    const cutoff = Date.now() - 6 * 60 * 60 * 1000;
+    const inactiveRooms = this.store.select('rooms', room =>
+      (room.status === 'waiting' || room.status === 'active') && new Date(room.updated_at).getTime() < cutoff
+    );
+    for (const room of inactiveRooms) {
+      this.setRoomStatus(room.id, 'cancelled', 'Host inactive for 6+ hours (backup cleanup)');
+    }
+  }
+
+  // Realtime
+
+  private subscribeToTable<T>(
+    table: TableName,
+    belongsToRoom: (row: Partial<T>) => boolean,
+    callback: (change: RealtimeChange<T>) => void
+  ): RealtimeSubscription {
+    const unsubscribe = this.store.subscribe(({ table: changedTable, change }) => {
+      if (changedTable !== table) return;
+      const row = (change.eventType === 'DELETE' ? change.old : change.new) as Partial<T>;
+      if (belongsToRoom(row)) {
+        callback(change as RealtimeChange<T>);
+      }
+    });
+    return { unsubscribe };
+  }
+
+  subscribeToRoom(roomId: string, callback: (change: RealtimeChange<MyngoRoom>) => void): RealtimeSubscription {
+    return this.subscribeToTable<MyngoRoom>('rooms', room => room.id === roomId, callback);
+  }
+
+  subscribeToPlayers(roomId: string, callback: (change: RealtimeChange<MyngoPlayer>) => void): RealtimeSubscription {
+    return this.subscribeToTable<MyngoPlayer>('players', player => player.room_id === roomId, callback);
+  }
+
+  subscribeToCalledNumbers(roomId: string, callback: (change: RealtimeChange<CalledNumber>) => void): RealtimeSubscription {
+    return this.subscribeToTable<CalledNumber>('called_numbers', call => call.room_id === roomId, callback);
+  }
+
+  // Opening the game again clears a disconnect left by sendPlayerLeaving
+  async trackPlayerPresence(roomId: string, playerId: string): Promise<PresenceHandle> {
+    this.store.update('players', player => player.room_id === roomId && player.id === playerId && !!player.disconnected_at, {
+      disconnected_at: null
+    });
+    const presence = new LocalPresence(this.store, roomId, playerId);
+    await presence.track();
+    return presence;
+  }
+
+  // Tabs that stop heartbeating drop off, whether or not they said goodbye
+  watchPlayerPresence(roomId: string, onSync: (onlinePlayerIds: string[]) => void): RealtimeSubscription {
+    return new LocalPresenceWatcher(this.store, roomId, onSync);
+  }
+
+  async untrackPlayerPresence(channel: PresenceHandle): Promise<void> {
+    await channel.untrack();
+    await channel.unsubscribe();
+  }
+}
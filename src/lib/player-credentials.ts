@@ -0,0 +1,95 @@
+// Player Credentials - Secret player tokens kept in this browser, one per player
+// Updated: Rejoin PINs and links reopen a card on another device
+
+import { createRandomHex } from '../utils/fairness';
+import { readStoredJson, writeStoredJson } from './browser-storage';
+
+const STORAGE_KEY = 'myngo_player_tokens';
+const REJOIN_KEY = 'myngo_player_rejoins';
+
+// What a player needs to reopen their card - the nickname and the PIN
+export interface PlayerRejoin {
+  playerId: string;
+  roomCode: string;
+  name: string;
+  pin: string;
+}
+
+function readMap<T>(key: string): Record<string, T> {
+  return readStoredJson<Record<string, T>>(key, {});
+}
+
+function writeMap<T>(key: string, map: Record<string, T>): void {
+  writeStoredJson(key, map);
+}
+
+// Tokens by player id
+function readTokens(): Record<string, string> {
+  return readMap<string>(STORAGE_KEY);
+}
+
+function writeTokens(tokens: Record<string, string>): void {
+  writeMap(STORAGE_KEY, tokens);
+}
+
+// New 256-bit player token as 64 hex characters
+export function createPlayerToken(): string {
+  return createRandomHex();
+}
+
+export function getPlayerToken(playerId: string): string | null {
+  return readTokens()[playerId] ?? null;
+}
+
+export function savePlayerToken(playerId: string, token: string): void {
+  writeTokens({ ...readTokens(), [playerId]: token });
+}
+
+export function forgetPlayerToken(playerId: string): void {
+  const tokens = readTokens();
+  delete tokens[playerId];
+  writeTokens(tokens);
+}
+
+// New 6-digit rejoin PIN
+export function createRejoinPin(): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return (value % 1000000).toString().padStart(6, '0');
+}
+
+export function getRejoinDetails(playerId: string): PlayerRejoin | null {
+  return readMap<PlayerRejoin>(REJOIN_KEY)[playerId] ?? null;
+}
+
+// Saved rejoin details for a room, newest first - lets this browser reopen
+// a card after its tab was closed
+export function findRejoinDetails(roomCode: string): PlayerRejoin[] {
+  return Object.values(readMap<PlayerRejoin>(REJOIN_KEY))
+    .filter(rejoin => rejoin.roomCode === roomCode)
+    .reverse();
+}
+
+export function saveRejoinDetails(rejoin: PlayerRejoin): void {
+  writeMap(REJOIN_KEY, { ...readMap<PlayerRejoin>(REJOIN_KEY), [rejoin.playerId]: rejoin });
+}
+
+export function forgetRejoinDetails(playerId: string): void {
+  const rejoins = readMap<PlayerRejoin>(REJOIN_KEY);
+  delete rejoins[playerId];
+  writeMap(REJOIN_KEY, rejoins);
+}
+
+// Opens the card on another device; like the host link, the PIN rides in the
+// URL fragment so it is never sent to a server
+export function getRejoinLink(rejoin: PlayerRejoin): string {
+  const params = new URLSearchParams({ name: rejoin.name, pin: rejoin.pin });
+  return `${window.location.origin}/play/${rejoin.roomCode}#${params.toString()}`;
+}
+
+// Nickname and PIN from a rejoin link's fragment, if there are both
+export function readRejoinFromHash(hash: string): { name: string; pin: string } | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const name = params.get('name');
+  const pin = params.get('pin');
+  return name && pin ? { name, pin } : null;
+}
@@ -0,0 +1,124 @@
+// Sound Player - Plays game events from the sound packs in public/sounds
+// Created: Each pack's manifest maps events to audio files or synthesized tones
+
+export type SoundEvent =
+  | 'numberCalled'
+  | 'numberMarked'
+  | 'oneAway'
+  | 'winClaimed'
+  | 'gameCancelled'
+  | 'countdownTick';
+
+// A pack lives in public/sounds/<id>/manifest.json and is listed in
+// public/sounds/packs.json. Each event is either an audio file next to the
+// manifest or a run of tones played one after another:
+//   { "src": "ding.mp3" }
+//   { "tones": [{ "frequency": 880, "duration": 0.2, "type": "sine", "gain": 1 }] }
+export interface SoundTone {
+  frequency: number;
+  // Seconds
+  duration: number;
+  type?: OscillatorType;
+  // 0-1, multiplied by the player's volume
+  gain?: number;
+}
+
+export type SoundDefinition = { src: string } | { tones: SoundTone[] };
+
+export interface SoundPackManifest {
+  name: string;
+  sounds: Partial<Record<SoundEvent, SoundDefinition>>;
+}
+
+export interface SoundPackInfo {
+  id: string;
+  name: string;
+}
+
+export const DEFAULT_SOUND_PACK = 'classic';
+
+const SOUNDS_PATH = '/sounds';
+
+class SoundPlayer {
+  private manifests = new Map<string, Promise<SoundPackManifest | null>>();
+  private packList: Promise<SoundPackInfo[]> | null = null;
+  private audioContext: AudioContext | null = null;
+
+  // Bundled packs from public/sounds/packs.json
+  listPacks(): Promise<SoundPackInfo[]> {
+    if (!this.packList) {
+      this.packList = fetch(`${SOUNDS_PATH}/packs.json`)
+        .then(response => (response.ok ? response.json() : []))
+        .catch(error => {
+          console.error('❌ Failed to load sound packs:', error);
+          this.packList = null;
+          return [];
+        });
+    }
+    return this.packList;
+  }
+
+  // Plays the event at volume 0-1; events a pack leaves out are silent
+  async play(packId: string, event: SoundEvent, volume: number): Promise<void> {
+    if (volume <= 0) return;
+
+    const manifest = await this.loadManifest(packId);
+    const sound = manifest?.sounds[event];
+    if (!sound) return;
+
+    try {
+      if ('src' in sound) {
+        const audio = new Audio(`${SOUNDS_PATH}/${packId}/${sound.src}`);
+        audio.volume = Math.min(1, volume);
+        await audio.play();
+      } else {
+        this.playTones(sound.tones, volume);
+      }
+    } catch {
+      // Browsers refuse audio until the page has been interacted with
+    }
+  }
+
+  private loadManifest(packId: string): Promise<SoundPackManifest | null> {
+    let manifest = this.manifests.get(packId);
+    if (!manifest) {
+      manifest = fetch(`${SOUNDS_PATH}/${packId}/manifest.json`)
+        .then(response => (response.ok ? response.json() : null))
+        .catch(error => {
+          console.error('❌ Failed to load sound pack:', packId, error);
+          this.manifests.delete(packId);
+          return null;
+        });
+      this.manifests.set(packId, manifest);
+    }
+    return manifest;
+  }
+
+  private playTones(tones: SoundTone[], volume: number): void {
+    if (typeof AudioContext === 'undefined') return;
+    if (!this.audioContext) this.audioContext = new AudioContext();
+    const context = this.audioContext;
+    if (context.state === 'suspended') context.resume().catch(() => {});
+
+    let startAt = context.currentTime;
+    tones.forEach(tone => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = tone.type ?? 'sine';
+      oscillator.frequency.value = tone.frequency;
+
+      // Short fade in and out so tones don't click
+      const peak = Math.min(1, volume * (tone.gain ?? 1)) * 0.3;
+      gain.gain.setValueAtTime(0, startAt);
+      gain.gain.linearRampToValueAtTime(peak, startAt + 0.01);
+      gain.gain.exponentialRampToValueAtTime(0.0001, startAt + tone.duration);
+
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(startAt);
+      oscillator.stop(startAt + tone.duration);
+      startAt += tone.duration;
+    });
+  }
+}
+
+export const soundPlayer = new SoundPlayer();
@@ -1,13 +1,48 @@
 // Supabase Service - Real-time database operations for MYNGO
-// Updated: Fixed game history creation to handle nullable players_end column
+// Updated: Win claims need the player token; the host claims for bots
+
+import { getCleanupUrl, getSupabase } from './supabase';
+import { GameBackend, PresenceHandle, RealtimeChange, RealtimeSubscription } from './game-backend';
+import { MyngoRoom, MyngoPlayer, CalledNumber, GameStats, HostRole, RoomCohost, RoomConfig, MyngoCard, WinClaimResult, WinPattern } from '../types/myngo';
+import { generateRoomCode } from '../utils/myngo-utils';
+import {
+  createHostToken,
+  forgetCohostInvite,
+  forgetHostToken,
+  getHostToken,
+  saveCohostInvite,
+  saveHostToken
+} from './host-credentials';
+import {
+  createPlayerToken,
+  createRejoinPin,
+  forgetPlayerToken,
+  forgetRejoinDetails,
+  getPlayerToken,
+  savePlayerToken,
+  saveRejoinDetails
+} from './player-credentials';
+
+export class SupabaseService implements GameBackend {
+  readonly name = 'supabase';
+
+  // Lightweight query to confirm the database is reachable
+  async checkConnection(): Promise<void> {
+    console.log('🔍 Testing Supabase connection...');
+    const { error } = await getSupabase()
+      .from('rooms')
+      .select('count')
+      .limit(1);
 
-import { supabase } from './supabase';
-import { MyngoRoom, MyngoPlayer, CalledNumber, GameStats, RoomConfig, MyngoCard } from '../types/myngo';
-import { generateMyngoCard, generateRoomCode } from '../utils/myngo-utils';
+    if (error) {
+      console.error('❌ Supabase connection test failed:', error);
+      throw new Error(`Database connection failed: ${error.message}`);
+    }
+    console.log('✅ Supabase connection test passed');
+  }
 
-export class SupabaseService {
   // Create a new room
-  static async createRoom(hostId: string, config: RoomConfig): Promise<MyngoRoom> {
+  async createRoom(hostId: string, config: RoomConfig): Promise<MyngoRoom> {
     console.log('📡 Creating room with config:', config);
     console.log('🔧 Supabase URL:', import.meta.env.VITE_SUPABASE_URL);
     console.log('🔧 Supabase Key exists:', !!import.meta.env.VITE_SUPABASE_ANON_KEY);
@@ -26,13 +61,17 @@ export class SupabaseService {
     
     const roomCode = generateRoomCode();
     console.log('🎲 Generated room code:', roomCode);
+
+    // Only its hash is kept - the store_host_token trigger clears the column
+    const hostToken = createHostToken();
     
     try {
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('rooms')
       .insert({
         code: roomCode,
         host_id: hostId,
+        host_token: hostToken,
         config: roomConfig,
         status: 'waiting'
       })
@@ -51,34 +90,9 @@ export class SupabaseService {
     }
 
     console.log('✅ Room created successfully:', data);
+    saveHostToken(data.id, hostToken);
 
-    // Create initial game history record with proper nullable handling
-    // CRITICAL: Create initial game history record - if this fails, room creation fails
-    console.log('📊 Creating initial game history record for room:', roomCode);
-    try {
-      await this.createGameHistoryRecord({
-      room_code: roomCode,
-      players_start: 0, // Start with 0, will be updated as players join
-      players_end: null, // Nullable - will be set when game ends
-      players_drop: 0,
-      winner_name: null,
-      duration: null,
-      ending_status: 'active',
-      balls_called_count: 0,
-      is_demo_game: roomConfig.demoMode || false
-      });
-    } catch (historyError) {
-      console.error('❌ Failed to create game history record:', historyError);
-      // Clean up the room if history creation fails
-      try {
-        await supabase.from('rooms').delete().eq('id', data.id);
-        console.log('🧹 Cleaned up room after history creation failure');
-      } catch (cleanupError) {
-        console.error('❌ Failed to cleanup room after history error:', cleanupError);
-      }
-      throw new Error(`Failed to create game history: ${historyError.message}`);
-    }
-    console.log('✅ Initial game history record created successfully');
+    // The record_room_history trigger has already opened the game history row
 
     return data;
     } catch (outerError) {
@@ -88,10 +102,10 @@ export class SupabaseService {
   }
 
   // Get room by code
-  static async getRoomByCode(code: string): Promise<MyngoRoom | null> {
+  async getRoomByCode(code: string): Promise<MyngoRoom | null> {
     console.log('📡 Getting room by code:', code);
     
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('rooms')
       .select('*')
       .eq('code', code)
@@ -110,9 +124,58 @@ export class SupabaseService {
     return data;
   }
 
+  // Check this browser's host token against the room's (verify_host_token)
+  async verifyHost(roomId: string): Promise<boolean> {
+    const hostToken = getHostToken(roomId);
+    if (!hostToken) return false;
+
+    const { data, error } = await getSupabase().rpc('verify_host_token', { p_room_id: roomId, p_host_token: hostToken });
+
+    if (error) {
+      console.error('❌ Failed to verify host:', error);
+      throw new Error(`Failed to verify host: ${error.message}`);
+    }
+
+    return data === true;
+  }
+
+  // Which host this browser's token belongs to (host_role)
+  async getHostRole(roomId: string): Promise<HostRole | null> {
+    const hostToken = getHostToken(roomId);
+    if (!hostToken) return null;
+
+    const { data, error } = await getSupabase().rpc('host_role', { p_room_id: roomId, p_host_token: hostToken });
+
+    if (error) {
+      console.error('❌ Failed to get host role:', error);
+      throw new Error(`Failed to get host role: ${error.message}`);
+    }
+
+    return data === 'owner' || data === 'cohost' ? data : null;
+  }
+
+  // The host token for a host-only operation - without one the database
+  // would refuse it anyway, so fail before the round trip
+  private requireHostToken(roomId: string, action: string): string {
+    const hostToken = getHostToken(roomId);
+    if (!hostToken) {
+      throw new Error(`Failed to ${action}: only the host of this room can do that`);
+    }
+    return hostToken;
+  }
+
+  // The player token for a player-only operation, as requireHostToken
+  private requirePlayerToken(playerId: string, action: string): string {
+    const playerToken = getPlayerToken(playerId);
+    if (!playerToken) {
+      throw new Error(`Failed to ${action}: only this player can do that`);
+    }
+    return playerToken;
+  }
+
   // Join a room
-  static async joinRoom(roomCode: string, playerName: string): Promise<MyngoPlayer> {
-    console.log('🚪 PLAYER COUNT LOGGING: Joining room:', roomCode, 'as:', playerName);
+  async joinRoom(roomCode: string, playerName: string, cardCount: number = 1): Promise<MyngoPlayer> {
+    console.log('🚪 PLAYER COUNT LOGGING: Joining room:', roomCode, 'as:', playerName, 'cards:', cardCount);
     
     // Retry mechanism for eventual consistency
     let room = null;
@@ -248,7 +311,7 @@ export class SupabaseService {
 
     // Check for duplicate player names in this room
     console.log('🔍 Checking for duplicate player names in room:', room.id);
-    const { data: existingPlayers, error: duplicateCheckError } = await supabase
+    const { data: existingPlayers, error: duplicateCheckError } = await getSupabase()
       .from('players')
       .select('name')
       .eq('room_id', room.id)
@@ -266,38 +329,21 @@ export class SupabaseService {
 
     console.log('✅ Player name is unique in room:', playerName);
 
-    // Get current player count before adding new player
-    const currentPlayers = await this.getPlayersInRoom(room.id);
-    const newPlayerCount = currentPlayers.length + 1;
-    
-    // Update maxPlayersEver in room config if this is a new peak
-    const currentMax = room.config?.maxPlayersEver || 0;
-    if (newPlayerCount > currentMax) {
-      console.log('📊 PEAK PLAYERS: New peak detected:', newPlayerCount, 'previous:', currentMax);
-      const updatedConfig = {
-        ...room.config,
-        maxPlayersEver: newPlayerCount
-      };
-      
-      try {
-        await this.updateRoomConfig(room.id, updatedConfig);
-        console.log('✅ PEAK PLAYERS: Updated maxPlayersEver to:', newPlayerCount);
-      } catch (error) {
-        console.error('❌ PEAK PLAYERS: Failed to update maxPlayersEver:', error);
-        // Don't fail join if this update fails
-      }
-    }
-    // Generate MYNGO card
-    const card = generateMyngoCard();
-    console.log('🎴 Generated card for player:', playerName);
-
-    // Create player
-    const { data, error } = await supabase
+    // Create player - the deal_seeded_card trigger deals the cards from the room
+    // seed and caps the count at the room's maxCardsPerPlayer, and
+    // record_peak_players keeps maxPlayersEver and the history's peak up to
+    // date. Only the hashes of the player token and rejoin PIN are kept
+    // (store_player_token).
+    const playerToken = createPlayerToken();
+    const rejoinPin = createRejoinPin();
+    const { data, error } = await getSupabase()
       .from('players')
       .insert({
         room_id: room.id,
         name: playerName,
-        card,
+        player_token: playerToken,
+        rejoin_pin: rejoinPin,
+        card_count: cardCount,
         marked_numbers: [],
         is_bot: false,
         is_winner: false
@@ -310,24 +356,62 @@ export class SupabaseService {
       throw new Error(`Failed to join room: ${error.message}`);
     }
 
-    // Update game history with new player count
-    try {
-      console.log('🚪 PLAYER COUNT LOGGING: About to update game history after player join - roomCode:', roomCode, 'playerName:', playerName);
-      await this.updateGameHistoryPlayerCount(room.code);
-      console.log('✅ Game history player count updated after join');
-    } catch (historyError) {
-      console.error('⚠️ Failed to update game history player count:', historyError);
-      // Don't fail the join if history update fails
-    }
+    savePlayerToken(data.id, playerToken);
+    saveRejoinDetails({ playerId: data.id, roomCode: room.code, name: data.name, pin: rejoinPin });
     console.log('✅ Player joined successfully:', data);
     return data;
   }
 
+  // Reopen a player's card on this device - rejoin_room checks the PIN and
+  // swaps in this device's token, locking out the device that had it
+  async rejoinRoom(roomCode: string, playerName: string, pin: string): Promise<MyngoPlayer> {
+    console.log('🔑 Rejoining room:', roomCode, 'as:', playerName);
+    const playerToken = createPlayerToken();
+
+    const { data, error } = await getSupabase().rpc('rejoin_room', {
+      p_room_code: roomCode,
+      p_player_name: playerName,
+      p_rejoin_pin: pin,
+      p_player_token: playerToken
+    });
+
+    if (error) {
+      console.error('❌ Failed to rejoin room:', error);
+      throw new Error(`Failed to rejoin room: ${error.message}`);
+    }
+
+    const result = data as { accepted: boolean; reason?: string; player?: MyngoPlayer };
+    if (!result.accepted || !result.player) {
+      console.log('🚫 Rejoin rejected:', result.reason);
+      throw new Error(result.reason || 'Could not rejoin this room');
+    }
+
+    savePlayerToken(result.player.id, playerToken);
+    saveRejoinDetails({ playerId: result.player.id, roomCode, name: result.player.name, pin });
+    console.log('✅ Rejoined room as player:', result.player.id);
+    return result.player;
+  }
+
+  // Check this browser's player token against the player's (verify_player_token)
+  async verifyPlayer(playerId: string): Promise<boolean> {
+    const playerToken = getPlayerToken(playerId);
+    if (!playerToken) return false;
+
+    const { data, error } = await getSupabase().rpc('verify_player_token', { p_player_id: playerId, p_player_token: playerToken });
+
+    if (error) {
+      console.error('❌ Failed to verify player:', error);
+      throw new Error(`Failed to verify player: ${error.message}`);
+    }
+
+    return data === true;
+  }
+
   // Get players in room
-  static async getPlayersInRoom(roomId: string): Promise<MyngoPlayer[]> {
+  async getPlayersInRoom(roomId: string): Promise<MyngoPlayer[]> {
     console.log('📡 Getting players in room:', roomId);
     
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('players')
       .select('*')
       .eq('room_id', roomId)
@@ -342,19 +426,16 @@ export class SupabaseService {
     return data || [];
   }
 
-  // Call a number
-  static async callNumber(roomId: string, number: number, letter: string): Promise<CalledNumber> {
+  // Call a number (host_call_number fills in the letter)
+  async callNumber(roomId: string, number: number, letter: string): Promise<CalledNumber> {
     console.log('📡 Calling number:', letter, number, 'in room:', roomId);
+    const hostToken = this.requireHostToken(roomId, 'call number');
     
-    const { data, error } = await supabase
-      .from('called_numbers')
-      .insert({
-        room_id: roomId,
-        number,
-        letter
-      })
-      .select()
-      .single();
+    const { data, error } = await getSupabase().rpc('host_call_number', {
+      p_room_id: roomId,
+      p_host_token: hostToken,
+      p_number: number
+    });
 
     if (error) {
       console.error('❌ Failed to call number:', error);
@@ -365,11 +446,44 @@ export class SupabaseService {
     return data;
   }
 
+  // Call the next number in the room's seeded order (host_call_next_number)
+  async callNextNumber(roomId: string): Promise<number | null> {
+    console.log('📡 Calling next seeded number in room:', roomId);
+    const hostToken = this.requireHostToken(roomId, 'call next number');
+
+    const { data, error } = await getSupabase().rpc('host_call_next_number', { p_room_id: roomId, p_host_token: hostToken });
+
+    if (error) {
+      console.error('❌ Failed to call next number:', error);
+      throw new Error(`Failed to call next number: ${error.message}`);
+    }
+
+    console.log('✅ Next number called:', data);
+    return data ?? null;
+  }
+
+  // Take back the latest call (host_undo_last_call) - the deleted row reaches
+  // players through the called numbers subscription
+  async undoLastCall(roomId: string): Promise<CalledNumber> {
+    console.log('📡 Undoing last call in room:', roomId);
+    const hostToken = this.requireHostToken(roomId, 'undo last call');
+
+    const { data, error } = await getSupabase().rpc('host_undo_last_call', { p_room_id: roomId, p_host_token: hostToken });
+
+    if (error) {
+      console.error('❌ Failed to undo last call:', error);
+      throw new Error(`Failed to undo last call: ${error.message}`);
+    }
+
+    console.log('↩️ Call undone:', data);
+    return data;
+  }
+
   // Get called numbers
-  static async getCalledNumbers(roomId: string): Promise<CalledNumber[]> {
+  async getCalledNumbers(roomId: string): Promise<CalledNumber[]> {
     console.log('📡 Getting called numbers for room:', roomId);
     
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
       .from('called_numbers')
       .select('*')
       .eq('room_id', roomId)
@@ -384,354 +498,214 @@ export class SupabaseService {
     return data || [];
   }
 
-  // Update player marked numbers
-  static async updatePlayerMarkedNumbers(playerId: string, markedNumbers: number[]): Promise<void> {
-    console.log('📡 Updating marked numbers for player:', playerId, 'count:', markedNumbers.length);
-    
-    const { error } = await supabase
-      .from('players')
-      .update({ marked_numbers: markedNumbers })
-      .eq('id', playerId);
+  // Auto-calling - pg_cron runs myngo_run_auto_caller() every second and
+  // calls a number in each room whose next_call_at has passed
+  private async controlAutoCaller(action: 'start' | 'stop' | 'pause' | 'resume', roomId: string): Promise<void> {
+    console.log(`📡 Auto-caller ${action} for room:`, roomId);
+    const hostToken = this.requireHostToken(roomId, `${action} auto-caller`);
+
+    const { error } = await getSupabase().rpc(`${action}_auto_caller`, { p_room_id: roomId, p_host_token: hostToken });
+
+    if (error) {
+      console.error(`❌ Failed to ${action} auto-caller:`, error);
+      throw new Error(`Failed to ${action} auto-caller: ${error.message}`);
+    }
+
+    console.log(`✅ Auto-caller ${action} sent`);
+  }
+
+  async startAutoCalling(roomId: string): Promise<void> {
+    await this.controlAutoCaller('start', roomId);
+  }
+
+  async stopAutoCalling(roomId: string): Promise<void> {
+    await this.controlAutoCaller('stop', roomId);
+  }
+
+  async pauseAutoCalling(roomId: string): Promise<void> {
+    await this.controlAutoCaller('pause', roomId);
+  }
+
+  async resumeAutoCalling(roomId: string): Promise<void> {
+    await this.controlAutoCaller('resume', roomId);
+  }
+
+  // Update player marked numbers - card 0 is `marked_numbers`, later cards
+  // live in `extra_marked_numbers` (update_player_marks)
+  // update_player_marks only keeps called numbers and counts the rest as false marks
+  async updatePlayerMarkedNumbers(playerId: string, markedNumbers: number[], cardIndex: number = 0): Promise<number[]> {
+    console.log('📡 Updating marked numbers for player:', playerId, 'card:', cardIndex, 'count:', markedNumbers.length);
+    const playerToken = this.requirePlayerToken(playerId, 'update marked numbers');
+
+    const { data, error } = await getSupabase().rpc('update_player_marks', {
+      p_player_id: playerId,
+      p_player_token: playerToken,
+      p_marked_numbers: markedNumbers,
+      p_card_index: cardIndex
+    });
 
     if (error) {
       console.error('❌ Failed to update marked numbers:', error);
       throw new Error(`Failed to update marked numbers: ${error.message}`);
     }
 
+    const rejected = (data as number[] | null) ?? [];
+    if (rejected.length > 0) {
+      console.log('⚠️ Marks refused, numbers not called:', rejected);
+    }
+
     console.log('✅ Marked numbers updated successfully');
+    return rejected;
   }
 
-  // Mark player as winner
-  static async markPlayerAsWinner(playerId: string, roomId: string): Promise<void> {
-    console.log('📡 Marking player as winner:', playerId);
-    
-    // Get player and room data for history recording
-    const [playerResult, roomResult] = await Promise.all([
-      supabase.from('players').select('*').eq('id', playerId).single(),
-      supabase.from('rooms').select('*').eq('id', roomId).single()
-    ]);
-
-    if (playerResult.error || roomResult.error) {
-      console.error('❌ Failed to get player/room data:', playerResult.error || roomResult.error);
-      throw new Error('Failed to get game data for winner recording');
+  // Switch auto-daub on or off - the guard_auto_daub trigger turns both off
+  // when the room doesn't allow it and remembers that auto-daub was used
+  async updatePlayerAutoDaub(playerId: string, autoDaub: boolean, autoClaim: boolean): Promise<void> {
+    console.log('📡 Updating auto-daub for player:', playerId, 'autoDaub:', autoDaub, 'autoClaim:', autoClaim);
+    const playerToken = this.requirePlayerToken(playerId, 'update auto-daub');
+
+    const { error } = await getSupabase().rpc('update_player_auto_daub', {
+      p_player_id: playerId,
+      p_player_token: playerToken,
+      p_auto_daub: autoDaub,
+      p_auto_claim: autoClaim
+    });
+
+    if (error) {
+      console.error('❌ Failed to update auto-daub:', error);
+      throw new Error(`Failed to update auto-daub: ${error.message}`);
     }
 
-    const player = playerResult.data;
-    const room = roomResult.data;
+    console.log('✅ Auto-daub updated successfully');
+  }
 
-    // Mark player as winner
-    const { error } = await supabase
-      .from('players')
-      .update({ is_winner: true })
-      .eq('id', playerId);
+  // Claim a win - the claim_win database function checks the player token,
+  // re-checks the card against the room's called numbers and is the only
+  // path that can set is_winner
+  async claimWin(playerId: string, roomId: string, cardIndex: number = 0): Promise<WinClaimResult> {
+    console.log('📡 Submitting win claim for player:', playerId, 'in room:', roomId, 'card:', cardIndex);
+    const playerToken = this.requirePlayerToken(playerId, 'submit win claim');
+
+    const { data, error } = await getSupabase().rpc('claim_win', {
+      p_player_id: playerId,
+      p_player_token: playerToken,
+      p_card_index: cardIndex
+    });
 
     if (error) {
-      console.error('❌ Failed to mark player as winner:', error);
-      throw new Error(`Failed to mark player as winner: ${error.message}`);
+      console.error('❌ Failed to submit win claim:', error);
+      throw new Error(`Failed to submit win claim: ${error.message}`);
     }
 
-    // CRITICAL: Update room status to 'finished' when winner is declared
-    // This ensures the game state is preserved across refreshes
-    console.log('🏁 Updating room status to finished for winner');
-    await this.updateRoomStatus(roomId, 'finished', 'Winner declared');
-    
-    // Immediately record complete game statistics with accurate dropped count
-    try {
-      console.log('📊 Recording complete game statistics for winner');
-      await this.recordWinnerGameStats(room, player);
-    } catch (statsError) {
-      console.error('❌ Failed to record winner stats:', statsError);
-      // Don't fail the winner marking if stats recording fails
+    const result = data as WinClaimResult;
+
+    if (result.pending) {
+      console.log('⏳ Win claim waiting for the host:', result.reason);
+      return result;
     }
 
-    console.log('✅ Player marked as winner successfully');
-  }
+    if (!result.accepted) {
+      console.log('🚫 Win claim rejected:', result.reason);
+      return result;
+    }
 
-  // Record complete game statistics when winner is declared
-  static async recordWinnerGameStats(room: any, winner: any): Promise<void> {
-    console.log('📊 Recording winner game statistics');
-    
-    try {
-      // Get current game data
-      const [players, calledNumbers] = await Promise.all([
-        this.getPlayersInRoom(room.id),
-        this.getCalledNumbers(room.id)
-      ]);
-
-      // Get the most up-to-date room data to ensure we have latest maxPlayersEver
-      const { data: latestRoom, error: roomError } = await supabase
-        .from('rooms')
-        .select('*')
-        .eq('id', room.id)
-        .single();
+    // Staged games carry on after each prize - claim_win adds each winner to
+    // the history and record_final_stats closes it out after the last prize
+    if (!result.gameOver) {
+      console.log('✅ Prize claim accepted:', result.prize, 'pattern:', result.pattern);
+      return result;
+    }
 
-      if (roomError) {
-        console.error('❌ Failed to get latest room data:', roomError);
-        throw roomError;
-      }
-      // Calculate game duration
-      const createdAt = new Date(latestRoom.created_at);
-      const now = new Date();
-      const durationMinutes = Math.round((now.getTime() - createdAt.getTime()) / (1000 * 60));
-
-      // Calculate accurate dropped players using maxPlayersEver
-      const peakPlayers = latestRoom.config?.maxPlayersEver || players.length;
-      const currentPlayers = players.length;
-      const droppedPlayers = Math.max(0, peakPlayers - currentPlayers);
-      
-      console.log('📊 DROPPED PLAYERS CALCULATION:', {
-        peakPlayers,
-        currentPlayers,
-        droppedPlayers,
-        roomCode: latestRoom.code
-      });
-      // Get or update existing game history record
-      const { data: existingHistory, error: historyError } = await supabase
-        .from('game_history')
-        .select('*')
-        .eq('room_code', latestRoom.code)
-        .eq('ending_status', 'active')
-        .single();
-
-      const gameStats = {
-        room_code: latestRoom.code,
-        players_start: peakPlayers, // Use the tracked peak
-        players_end: players.length,
-        players_drop: droppedPlayers, // Use calculated dropped count
-        winner_name: winner.name,
-        duration: durationMinutes,
-        ending_status: 'Winner Declared',
-        balls_called_count: calledNumbers.length,
-        is_demo_game: latestRoom.config?.demoMode || false
-      };
+    console.log('✅ Win claim accepted:', result.pattern, 'line:', result.line);
+    return result;
+  }
 
-      console.log('📊 FINAL GAME STATS:', gameStats);
-      if (historyError || !existingHistory) {
-        console.log('⚠️ No active history record found for winner recording - room:', latestRoom.code);
-        console.log('⚠️ This should not happen - history should exist from room creation');
-        return;
-      } else {
-        // Update existing record with winner info
-        console.log('📊 Updating existing game history with winner info');
-        const { error: updateError } = await supabase
-          .from('game_history')
-          .update({
-            players_start: gameStats.players_start, // Ensure peak is recorded
-            players_end: gameStats.players_end,
-            players_drop: gameStats.players_drop,
-            winner_name: gameStats.winner_name,
-            duration: gameStats.duration,
-            ending_status: gameStats.ending_status,
-            balls_called_count: gameStats.balls_called_count
-          })
-          .eq('id', existingHistory.id);
-
-        if (updateError) {
-          console.error('❌ Failed to update game history with winner:', updateError);
-          throw updateError;
-        }
-      }
+  // Approve or reject a waiting claim (host_resolve_claim) - approving
+  // declares the prize the player claimed, rejecting applies the lockout
+  async resolveClaim(roomId: string, claimId: string, approve: boolean): Promise<WinClaimResult> {
+    console.log('📡 Resolving claim:', claimId, 'approve:', approve);
+    const hostToken = this.requireHostToken(roomId, 'resolve claim');
+
+    const { data, error } = await getSupabase().rpc('host_resolve_claim', {
+      p_room_id: roomId,
+      p_host_token: hostToken,
+      p_claim_id: claimId,
+      p_approve: approve
+    });
 
-      console.log('✅ Winner game statistics recorded successfully');
-    } catch (error) {
-      console.error('❌ Error recording winner game stats:', error);
-      throw error;
+    if (error) {
+      console.error('❌ Failed to resolve claim:', error);
+      throw new Error(`Failed to resolve claim: ${error.message}`);
     }
+
+    console.log('✅ Claim resolved:', data);
+    return data as WinClaimResult;
   }
 
-  // Remove player
-  static async removePlayer(playerId: string): Promise<void> {
+  // Remove player - leave_room checks the player token, and the history
+  // keeps its peak so the departure counts as a drop
+  async removePlayer(playerId: string): Promise<void> {
     console.log('📡 PLAYER COUNT LOGGING: Removing player:', playerId);
-    
-    // Get player info before deletion for history tracking
-    const { data: player, error: getError } = await supabase
-      .from('players')
-      .select('room_id, name')
-      .eq('id', playerId)
-      .single();
+    const playerToken = this.requirePlayerToken(playerId, 'remove player');
 
-    if (getError) {
-      console.error('❌ Failed to get player info before removal:', getError);
-    }
-
-    const { error } = await supabase
-      .from('players')
-      .delete()
-      .eq('id', playerId);
+    const { error } = await getSupabase().rpc('leave_room', { p_player_id: playerId, p_player_token: playerToken });
 
     if (error) {
       console.error('❌ Failed to remove player:', error);
       throw new Error(`Failed to remove player: ${error.message}`);
     }
 
-    // Update game history if we have player info
-    if (player) {
-      try {
-        // Get room code for history update
-        const { data: room } = await supabase
-          .from('rooms')
-          .select('code')
-          .eq('id', player.room_id)
-          .single();
-
-        if (room) {
-          console.log('📡 PLAYER COUNT LOGGING: About to update game history after player removal - playerId:', playerId, 'roomCode:', room.code);
-          await this.updateGameHistoryPlayerCount(room.code);
-          console.log('✅ Game history updated after player removal');
-        }
-      } catch (historyError) {
-        console.error('⚠️ Failed to update game history after player removal:', historyError);
-      }
-    }
+    forgetPlayerToken(playerId);
+    forgetRejoinDetails(playerId);
     console.log('✅ Player removed successfully');
   }
 
-  // Update game history player count - tracks peak players
-  static async updateGameHistoryPlayerCount(roomCode: string): Promise<void> {
-    console.log('📊 PLAYER COUNT LOGGING: === Starting updateGameHistoryPlayerCount ===');
-    console.log('📊 PLAYER COUNT LOGGING: roomCode:', roomCode);
-    
-    try {
-      // Get current active players in this room
-      const { data: room, error: roomError } = await supabase
-        .from('rooms')
-        .select('id')
-        .eq('code', roomCode)
-        .single();
-
-      if (roomError || !room) {
-        console.error('❌ PLAYER COUNT LOGGING: Failed to get room for player count update:', roomError);
-        return;
-      }
-
-      console.log('📊 PLAYER COUNT LOGGING: Found room with ID:', room.id);
-      
-      const currentPlayers = await this.getPlayersInRoom(room.id);
-      const currentPlayerCount = currentPlayers.length;
-      
-      console.log('📊 PLAYER COUNT LOGGING: currentPlayerCount:', currentPlayerCount);
-      console.log('📊 PLAYER COUNT LOGGING: currentPlayers details:', currentPlayers.map(p => ({ id: p.id, name: p.name, is_bot: p.is_bot })));
+  // The cleanup edge function calls player_left with the token; the token
+  // and rejoin details stay in case this is only a reload
+  sendPlayerLeaving(playerId: string): void {
+    const playerToken = getPlayerToken(playerId);
+    if (!playerToken) return;
 
-      // Get existing game history record
-      const { data: existingHistory, error: historyError } = await supabase
-        .from('game_history')
-        .select('*')
-        .eq('room_code', roomCode)
-        .eq('ending_status', 'active')
-        .single();
-
-      console.log('📊 PLAYER COUNT LOGGING: existingHistory query result:', {
-        found: !!existingHistory,
-        error: historyError?.message || 'none',
-        historyId: existingHistory?.id,
-        currentPlayersStart: existingHistory?.players_start,
-        endingStatus: existingHistory?.ending_status
-      });
+    this.sendLeaveBeacon({ action: 'player_left', playerId, playerToken });
+  }
 
-      if (historyError || !existingHistory) {
-        console.warn('⚠️ PLAYER COUNT LOGGING: No active history record found for room:', roomCode);
-        console.warn('⚠️ PLAYER COUNT LOGGING: This indicates the initial history creation failed or record was prematurely finalized');
-        console.warn('⚠️ PLAYER COUNT LOGGING: Skipping player count update to prevent duplicate records');
-        return;
-      } else {
-        // Update existing record - keep the maximum player count as players_start
-        const newPlayersStart = Math.max(existingHistory.players_start || 0, currentPlayerCount);
-        
-        console.log('📊 PLAYER COUNT LOGGING: Updating existing history record calculation:', {
-          oldPlayersStart: existingHistory.players_start,
-          currentPlayerCount,
-          newPlayersStart,
-          willUpdate: newPlayersStart > (existingHistory.players_start || 0)
-        });
+  // A page that is closing can't wait for a response, so the tokens ride in
+  // a beacon to the cleanup edge function instead
+  private sendLeaveBeacon(fields: Record<string, string>): void {
+    if (!navigator.sendBeacon) return;
 
-        if (newPlayersStart > (existingHistory.players_start || 0)) {
-          console.log('📊 PLAYER COUNT LOGGING: Executing UPDATE query - setting players_start to:', newPlayersStart, 'for history ID:', existingHistory.id);
-          
-          const { error: updateError } = await supabase
-            .from('game_history')
-            .update({
-              players_start: newPlayersStart
-            })
-            .eq('id', existingHistory.id);
-
-          if (updateError) {
-            console.error('❌ PLAYER COUNT LOGGING: Failed to update game history player count:', updateError);
-            console.error('❌ PLAYER COUNT LOGGING: Update error details:', updateError.message, updateError.details, updateError.hint);
-          } else {
-            console.log('✅ PLAYER COUNT LOGGING: Game history players_start updated successfully to:', newPlayersStart);
-            
-            // Verify the update by querying the record again
-            const { data: verifyData, error: verifyError } = await supabase
-              .from('game_history')
-              .select('players_start')
-              .eq('id', existingHistory.id)
-              .single();
-            
-            if (verifyError) {
-              console.error('❌ PLAYER COUNT LOGGING: Failed to verify update:', verifyError);
-            } else {
-              console.log('✅ PLAYER COUNT LOGGING: Verification - players_start is now:', verifyData.players_start);
-            }
-          }
-        } else {
-          console.log('📊 PLAYER COUNT LOGGING: Current count not higher than peak, no update needed');
-        }
-      }
-      
-      console.log('📊 PLAYER COUNT LOGGING: === Finished updateGameHistoryPlayerCount ===');
-    } catch (error) {
-      console.error('❌ PLAYER COUNT LOGGING: Error updating game history player count:', error);
-      console.error('❌ PLAYER COUNT LOGGING: Error details:', error.message, error.stack);
-      // Don't throw - this is tracking, shouldn't break main flow
-    }
+    const formData = new FormData();
+    Object.entries(fields).forEach(([name, value]) => formData.append(name, value));
+    navigator.sendBeacon(getCleanupUrl(), formData);
   }
 
-  // Update room status
-  static async updateRoomStatus(roomId: string, status: string, reason?: string): Promise<void> {
+  // Update room status - cancelling also closes out the game history and
+  // deletes the room (host_update_room_status)
+  async updateRoomStatus(roomId: string, status: string, reason?: string): Promise<void> {
     console.log('📡 Updating room status:', roomId, 'to:', status, 'reason:', reason);
-    
-    try {
-      // Get current room data
-      const { data: room, error: roomError } = await supabase
-        .from('rooms')
-        .select('*')
-        .eq('id', roomId)
-        .single();
-
-      if (roomError) {
-        console.error('❌ Failed to get room for status update:', roomError);
-        throw roomError;
-      }
-
-      // Update room status
-      const { error: updateError } = await supabase
-        .from('rooms')
-        .update({ status })
-        .eq('id', roomId);
+    const hostToken = this.requireHostToken(roomId, 'update room status');
 
-      if (updateError) {
-        console.error('❌ Failed to update room status:', updateError);
-        throw updateError;
-      }
-
-      // If cancelling, update game history and clean up
-      // If finishing (winner declared), keep everything for state persistence
-      if (status === 'cancelled') {
-        await this.finalizeGameHistory(roomId, status, reason);
-      } else if (status === 'finished') {
-        console.log('🏁 Game finished with winner - preserving all data for state persistence');
-        // Don't clean up data yet - let host manually end the game
-      }
+    const { error } = await getSupabase().rpc('host_update_room_status', {
+      p_room_id: roomId,
+      p_host_token: hostToken,
+      p_status: status,
+      p_reason: reason ?? null
+    });
 
-      console.log('✅ Room status updated successfully');
-    } catch (error) {
+    if (error) {
       console.error('❌ Failed to update room status:', error);
-      throw error;
+      throw new Error(`Failed to update room status: ${error.message}`);
+    }
+
+    if (status === 'cancelled') {
+      forgetHostToken(roomId);
+      forgetCohostInvite(roomId);
     }
+    console.log('✅ Room status updated successfully');
   }
 
   // Update room config
-  static async updateRoomConfig(roomId: string, config: RoomConfig): Promise<void> {
+  async updateRoomConfig(roomId: string, config: RoomConfig): Promise<void> {
     console.log('📡 Updating room config:', roomId);
     console.log('📡 New config:', JSON.stringify(config, null, 2));
     console.log('🔧 ROOM OPEN DEBUG: updateRoomConfig called', {
@@ -740,10 +714,12 @@ export class SupabaseService {
       fullConfig: config
     });
     
-    const { error } = await supabase
-      .from('rooms')
-      .update({ config })
-      .eq('id', roomId);
+    const hostToken = this.requireHostToken(roomId, 'update room config');
+    const { error } = await getSupabase().rpc('host_update_room_config', {
+      p_room_id: roomId,
+      p_host_token: hostToken,
+      p_config: config
+    });
 
     if (error) {
       console.error('❌ Failed to update room config:', error);
@@ -763,183 +739,135 @@ export class SupabaseService {
     });
   }
 
-  // End game
-  static async endGame(roomId: string, winnerName?: string): Promise<void> {
+  // End game - host_end_game records the history as a completed game and
+  // deletes the room with its players and calls
+  async endGame(roomId: string, winnerName?: string): Promise<void> {
     console.log('📡 Ending game:', roomId, 'winner:', winnerName);
-    
-    try {
-      // Finalize game history and immediately clean up all data (host-ended games)
-      await this.finalizeGameHistory(roomId, 'finished', 'Host ended game');
-      
-      // For host-ended games, immediately delete the room and all data
-      console.log('🧹 Host ended game - immediately cleaning up all data');
-      const { error: deleteError } = await supabase
-        .from('rooms')
-        .delete()
-        .eq('id', roomId);
+    const hostToken = this.requireHostToken(roomId, 'end game');
 
-      if (deleteError) {
-        console.error('❌ Failed to delete room after host ended game:', deleteError);
-      } else {
-        console.log('✅ Room and associated data cleaned up successfully after host ended game');
-      }
-      
-      console.log('✅ Game ended successfully');
-    } catch (error) {
+    const { error } = await getSupabase().rpc('host_end_game', { p_room_id: roomId, p_host_token: hostToken });
+
+    if (error) {
       console.error('❌ Failed to end game:', error);
-      throw error;
+      throw new Error(`Failed to end game: ${error.message}`);
     }
+
+    forgetHostToken(roomId);
+    forgetCohostInvite(roomId);
+    console.log('✅ Game ended successfully');
   }
 
-  // Finalize game history
-  static async finalizeGameHistory(roomId: string, endingStatus: string, reason?: string): Promise<void> {
-    console.log('📊 Finalizing game history for room:', roomId, 'status:', endingStatus);
-    
-    try {
-      // Get room data
-      const { data: room, error: roomError } = await supabase
-        .from('rooms')
-        .select('*')
-        .eq('id', roomId)
-        .single();
+  // The cleanup edge function marks the host away through host_left
+  sendHostLeaving(roomId: string): void {
+    const hostToken = getHostToken(roomId);
+    if (!hostToken) return;
 
-      if (roomError) {
-        console.error('❌ Failed to get room for history finalization:', roomError);
-        return; // Don't throw, just log
-      }
+    this.sendLeaveBeacon({ action: 'host_left', roomId, hostToken });
+  }
 
-      // Get current players
-      const players = await this.getPlayersInRoom(roomId);
-      const playersEnd = players.length;
+  // Issue a co-host invite (host_set_cohost_invite) - only its hash is stored
+  async createCohostInvite(roomId: string): Promise<string> {
+    const hostToken = this.requireHostToken(roomId, 'create co-host invite');
+    const inviteToken = createHostToken();
 
-      // Get called numbers count
-      const calledNumbers = await this.getCalledNumbers(roomId);
-      const ballsCalledCount = calledNumbers.length;
+    const { error } = await getSupabase().rpc('host_set_cohost_invite', {
+      p_room_id: roomId,
+      p_host_token: hostToken,
+      p_invite_token: inviteToken
+    });
 
-      // Find winner
-      const winner = players.find(p => p.is_winner);
-      const winnerName = winner?.name || null;
+    if (error) {
+      console.error('❌ Failed to create co-host invite:', error);
+      throw new Error(`Failed to create co-host invite: ${error.message}`);
+    }
 
-      // Calculate duration (rough estimate based on creation time)
-      const createdAt = new Date(room.created_at);
-      const now = new Date();
-      const durationMinutes = Math.round((now.getTime() - createdAt.getTime()) / (1000 * 60));
+    saveCohostInvite(roomId, inviteToken);
+    return inviteToken;
+  }
 
-      // Update ending status text - change "finished" to "Completed Game"
-      let finalEndingStatus = endingStatus;
-      if (endingStatus === 'finished') {
-        finalEndingStatus = 'Completed Game';
-      }
-      
-      // Get initial game history record to update
-      const { data: existingHistory, error: historyError } = await supabase
-        .from('game_history')
-        .select('*')
-        .eq('room_code', room.code)
-        .eq('ending_status', 'active')
-        .single();
-
-      if (historyError || !existingHistory) {
-        console.log('⚠️ No active history record found for finalization - room:', room.code);
-        console.log('⚠️ This should not happen - history should exist from room creation');
-        return;
-      } else {
-        console.log('📊 Updating existing history record');
-        // Update existing record
-        const playersStart = Math.max(existingHistory.players_start || 0, playersEnd);
-        const playersDrop = Math.max(0, playersStart - playersEnd);
-
-        const { error: updateError } = await supabase
-          .from('game_history')
-          .update({
-            players_end: playersEnd,
-            players_drop: playersDrop,
-            winner_name: winnerName,
-            duration: durationMinutes,
-            ending_status: finalEndingStatus + (reason ? ` (${reason})` : ''),
-            balls_called_count: ballsCalledCount
-          })
-          .eq('id', existingHistory.id);
-
-        if (updateError) {
-          console.error('❌ Failed to update game history:', updateError);
-        } else {
-          console.log('✅ Game history updated successfully');
-        }
-      }
-      
-      // After successfully recording the game history, clean up the room
-      // This will cascade delete all associated players and called_numbers
-      // Only clean up if this is a cancellation or host-ended game
-      if (endingStatus === 'cancelled' || reason === 'Host ended game') {
-        console.log('🧹 Cleaning up room and associated data after history recorded');
-        try {
-          const { error: deleteError } = await supabase
-            .from('rooms')
-            .delete()
-            .eq('id', roomId);
-
-          if (deleteError) {
-            console.error('❌ Failed to delete room after history finalization:', deleteError);
-          } else {
-            console.log('✅ Room and associated data cleaned up successfully');
-            console.log('🗑️ Deleted room, players, and called numbers for room:', room.code);
-          }
-        } catch (cleanupError) {
-          console.error('❌ Error during room cleanup:', cleanupError);
-        }
-      } else {
-        console.log('🏁 Game finished with winner - preserving data for state persistence');
-      }
-    } catch (error) {
-      console.error('❌ Failed to finalize game history:', error);
-      // Don't throw - this is cleanup, shouldn't break the main flow
+  // Join as a co-host (join_as_cohost) - the new token is this browser's
+  // host token from now on, and the invite is no longer needed
+  async joinAsCohost(roomId: string, inviteToken: string, name: string): Promise<void> {
+    console.log('🤝 Joining as co-host:', roomId, 'as:', name);
+    const cohostToken = createHostToken();
+
+    const { error } = await getSupabase().rpc('join_as_cohost', {
+      p_room_id: roomId,
+      p_invite_token: inviteToken,
+      p_cohost_token: cohostToken,
+      p_name: name
+    });
+
+    if (error) {
+      console.error('❌ Failed to join as co-host:', error);
+      throw new Error(`Failed to join as co-host: ${error.message}`);
     }
+
+    saveHostToken(roomId, cohostToken);
+    forgetCohostInvite(roomId);
+    console.log('✅ Joined as co-host:', roomId);
   }
 
-  // Create game history record
-  static async createGameHistoryRecord(record: {
-    room_code: string;
-    players_start: number;
-    players_end: number | null;
-    players_drop?: number;
-    winner_name?: string | null;
-    duration?: number | null;
-    ending_status: string;
-    balls_called_count?: number;
-    is_demo_game?: boolean;
-  }): Promise<void> {
-    console.log('📊 Creating game history record:', record);
-    
-    const { error } = await supabase
-      .from('game_history')
-      .insert({
-        room_code: record.room_code,
-        players_start: record.players_start,
-        players_end: record.players_end, // Now nullable
-        players_drop: record.players_drop || 0,
-        winner_name: record.winner_name || null,
-        duration: record.duration || null,
-        ending_status: record.ending_status,
-        balls_called_count: record.balls_called_count || 0,
-        is_demo_game: record.is_demo_game || false
-      });
+  // List the room's co-hosts (host_list_cohosts)
+  async getCohosts(roomId: string): Promise<RoomCohost[]> {
+    const hostToken = this.requireHostToken(roomId, 'get co-hosts');
+
+    const { data, error } = await getSupabase().rpc('host_list_cohosts', { p_room_id: roomId, p_host_token: hostToken });
 
     if (error) {
-      console.error('❌ Error creating game history record:', error);
-      throw error;
+      console.error('❌ Failed to get co-hosts:', error);
+      throw new Error(`Failed to get co-hosts: ${error.message}`);
     }
 
-    console.log('✅ Game history record created successfully');
+    return data || [];
+  }
+
+  // Remove a co-host (host_remove_cohost) - their token stops working
+  async removeCohost(roomId: string, cohostId: string): Promise<void> {
+    const hostToken = this.requireHostToken(roomId, 'remove co-host');
+
+    const { error } = await getSupabase().rpc('host_remove_cohost', {
+      p_room_id: roomId,
+      p_host_token: hostToken,
+      p_cohost_id: cohostId
+    });
+
+    if (error) {
+      console.error('❌ Failed to remove co-host:', error);
+      throw new Error(`Failed to remove co-host: ${error.message}`);
+    }
+  }
+
+  // Take over from an away owner (take_over_room) - this browser's co-host
+  // token proves who is asking, and a new owner token replaces the old one
+  async takeOverRoom(roomId: string): Promise<void> {
+    console.log('🔑 Taking over room:', roomId);
+    const cohostToken = this.requireHostToken(roomId, 'take over room');
+    const hostToken = createHostToken();
+
+    const { error } = await getSupabase().rpc('take_over_room', {
+      p_room_id: roomId,
+      p_cohost_token: cohostToken,
+      p_host_token: hostToken,
+      p_host_id: `host_${Date.now()}`
+    });
+
+    if (error) {
+      console.error('❌ Failed to take over room:', error);
+      throw new Error(`Failed to take over room: ${error.message}`);
+    }
+
+    saveHostToken(roomId, hostToken);
+    console.log('✅ Took over room:', roomId);
   }
 
   // Get game statistics
-  static async getGameStats(): Promise<GameStats> {
+  async getGameStats(): Promise<GameStats> {
     console.log('📊 Getting game statistics');
     
     try {
       // Get active games count
-      const { data: activeRooms, error: roomsError } = await supabase
+      const { data: activeRooms, error: roomsError } = await getSupabase()
         .from('rooms')
         .select('id')
         .in('status', ['waiting', 'active']);
@@ -955,7 +883,7 @@ export class SupabaseService {
       let playersOnline = 0;
       if (activeGames > 0) {
         const roomIds = activeRooms.map(room => room.id);
-        const { data: players, error: playersError } = await supabase
+        const { data: players, error: playersError } = await getSupabase()
           .from('players')
           .select('id')
           .in('room_id', roomIds);
@@ -971,7 +899,7 @@ export class SupabaseService {
       const spotsAvailable = Math.max(0, 1000 - playersOnline);
 
       // Get peak statistics from game history
-      const { data: peakData, error: peakError } = await supabase
+      const { data: peakData, error: peakError } = await getSupabase()
         .from('game_history')
         .select('players_start')
         .order('created_at', { ascending: false })
@@ -1012,41 +940,24 @@ export class SupabaseService {
     }
   }
 
-  // Add demo bots to a room
-  static async addDemoBots(roomId: string): Promise<void> {
+  // Add demo bots to a room - bots are dealt seeded cards by the database,
+  // like everyone else (host_add_demo_bots)
+  async addDemoBots(roomId: string): Promise<void> {
     console.log('🤖 Adding demo bots to room:', roomId);
-    
-    const botNames = ['MYNGO', 'LuckyCharm', 'MainPlay'];
-    
-    try {
-      for (const botName of botNames) {
-        const card = generateMyngoCard();
-        
-        const { error } = await supabase
-          .from('players')
-          .insert({
-            room_id: roomId,
-            name: botName,
-            card,
-            marked_numbers: [],
-            is_bot: true,
-            is_winner: false
-          });
-
-        if (error) {
-          console.error(`❌ Failed to add bot ${botName}:`, error);
-        } else {
-          console.log(`✅ Bot ${botName} added successfully`);
-        }
-      }
-    } catch (error) {
+    const hostToken = this.requireHostToken(roomId, 'add demo bots');
+
+    const { error } = await getSupabase().rpc('host_add_demo_bots', { p_room_id: roomId, p_host_token: hostToken });
+
+    if (error) {
       console.error('❌ Failed to add demo bots:', error);
-      throw error;
+      throw new Error(`Failed to add demo bots: ${error.message}`);
     }
+
+    console.log('✅ Demo bots added successfully');
   }
 
   // Auto-mark numbers for bots (demo mode)
-  static async autoBotMarkNumber(roomId: string, calledNumber: number, isDemoMode: boolean = false): Promise<void> {
+  async autoBotMarkNumber(roomId: string, calledNumber: number, isDemoMode: boolean = false, winPattern?: WinPattern): Promise<void> {
     if (!isDemoMode) {
       console.log('🤖 Not in demo mode, skipping bot auto-mark');
       return;
@@ -1055,62 +966,35 @@ export class SupabaseService {
     console.log('🤖 Auto-marking number for bots:', calledNumber, 'in room:', roomId);
     
     try {
-      // Get all bots in the room
-      const { data: bots, error: botsError } = await supabase
-        .from('players')
-        .select('*')
-        .eq('room_id', roomId)
-        .eq('is_bot', true);
-
-      if (botsError) {
-        console.error('❌ Failed to get bots:', botsError);
+      // host_mark_bots marks the number on every bot card that has it and
+      // returns just those bots
+      const hostToken = this.requireHostToken(roomId, 'mark bot numbers');
+      const { data: bots, error: markError } = await getSupabase().rpc('host_mark_bots', {
+        p_room_id: roomId,
+        p_host_token: hostToken,
+        p_number: calledNumber
+      });
+
+      if (markError) {
+        console.error('❌ Failed to mark bots:', markError);
         return;
       }
 
       if (!bots || bots.length === 0) {
-        console.log('🤖 No bots found in room');
+        console.log('🤖 No bots had number', calledNumber);
         return;
       }
 
-      // For each bot, check if they have the called number and mark it
-      for (const bot of bots) {
-        // Skip if bot is already a winner
-        if (bot.is_winner) {
-          console.log('🤖 Bot', bot.name, 'is already a winner, skipping');
-          continue;
-        }
-        
-        const cardNumbers = [
-          ...bot.card.M,
-          ...bot.card.Y,
-          ...bot.card.N,
-          ...bot.card.G,
-          ...bot.card.O
-        ];
-
-        if (cardNumbers.includes(calledNumber)) {
-          // Bot has this number, mark it instantly in demo mode
-          const shouldMark = true; // 100% chance to mark in demo mode
-          
-          if (shouldMark && !bot.marked_numbers.includes(calledNumber)) {
-            const newMarkedNumbers = [...bot.marked_numbers, calledNumber];
-            
-            console.log('🤖 Bot', bot.name, 'marking number', calledNumber, 'new total:', newMarkedNumbers.length);
-            
-            const { error: updateError } = await supabase
-              .from('players')
-              .update({ marked_numbers: newMarkedNumbers })
-              .eq('id', bot.id);
-
-            if (updateError) {
-              console.error(`❌ Failed to update bot ${bot.name}:`, updateError);
-            } else {
-              console.log(`✅ Bot ${bot.name} marked number ${calledNumber}`);
-              
-              // Check if bot now has a winning pattern
-              await this.checkBotForWin(bot.id, bot.card, newMarkedNumbers, roomId);
-            }
-          }
+      // Only one prize can be won per call - once a bot takes it, the
+      // remaining bots are judged against the next prize on a later call
+      let prizeClaimed = false;
+
+      for (const bot of bots as MyngoPlayer[]) {
+        console.log(`✅ Bot ${bot.name} marked number ${calledNumber}, new total:`, bot.marked_numbers.length);
+
+        // Check if bot now has a winning pattern
+        if (!prizeClaimed) {
+          prizeClaimed = await this.checkBotForWin(bot.id, bot.card, bot.marked_numbers, roomId, winPattern);
         }
       }
     } catch (error) {
@@ -1118,24 +1002,29 @@ export class SupabaseService {
     }
   }
 
-  // Check if a bot has achieved a winning pattern and auto-declare win
-  static async checkBotForWin(botId: string, card: any, markedNumbers: number[], roomId: string): Promise<void> {
+  // Check if a bot has achieved a winning pattern and auto-claim the current
+  // prize - resolves true when the claim was accepted
+  async checkBotForWin(botId: string, card: any, markedNumbers: number[], roomId: string, winPattern?: WinPattern): Promise<boolean> {
     try {
       // Import win checking utility
       const { checkWin } = await import('../utils/myngo-utils');
       
       console.log('🤖 Checking bot for win with', markedNumbers.length, 'marked numbers');
       
-      const winCheck = checkWin(card, markedNumbers);
+      const winCheck = checkWin(card, markedNumbers, winPattern);
       
       if (winCheck.hasWin) {
         console.log('🏆 DEMO BOT WIN DETECTED! Bot has winning pattern:', winCheck.pattern, 'line:', winCheck.line);
         
-        // Instantly declare bot as winner in demo mode
+        // Instantly claim the win for the bot in demo mode
         try {
-          console.log('🤖 Auto-declaring bot as winner instantly');
-          await this.markPlayerAsWinner(botId, roomId);
-          console.log('✅ Demo bot automatically declared as winner!');
+          console.log('🤖 Auto-claiming win for bot instantly');
+          const claim = await this.claimBotWin(botId, roomId);
+          if (claim.accepted) {
+            console.log('✅ Demo bot automatically won prize:', claim.prize);
+            return true;
+          }
+          console.log('🚫 Demo bot claim rejected:', claim.reason);
         } catch (error) {
           console.error('❌ Failed to auto-declare bot winner:', error);
         }
@@ -1145,147 +1034,109 @@ export class SupabaseService {
     } catch (error) {
       console.error('❌ Error checking bot for win:', error);
     }
+    return false;
   }
 
-  // Cleanup operations
-  static async cleanupDemoGames(): Promise<void> {
-    console.log('🧹 Starting demo game cleanup process...');
-    
-    try {
-      // Delete demo games older than 1 hour
-      const cutoffTime = new Date(Date.now() - 60 * 60 * 1000).toISOString();
-      console.log('🧹 Demo cleanup cutoff time:', cutoffTime);
+  // Bots hold no player token, so the host claims for them (host_claim_bot_win)
+  private async claimBotWin(botId: string, roomId: string): Promise<WinClaimResult> {
+    const hostToken = this.requireHostToken(roomId, 'claim for bot');
 
-      const { error } = await supabase
-        .from('rooms')
-        .delete()
-        .eq('config->demoMode', true)
-        .lt('created_at', cutoffTime);
+    const { data, error } = await getSupabase().rpc('host_claim_bot_win', {
+      p_room_id: roomId,
+      p_host_token: hostToken,
+      p_bot_id: botId
+    });
 
-      if (error) {
-        console.error('❌ Failed to cleanup demo games:', error);
-      } else {
-        console.log('✅ Demo games cleanup completed');
-      }
-    } catch (error) {
-      console.error('❌ Error during demo cleanup:', error);
+    if (error) {
+      console.error('❌ Failed to claim for bot:', error);
+      throw new Error(`Failed to claim for bot: ${error.message}`);
     }
+
+    return data as WinClaimResult;
   }
 
-  static async closeInactiveRooms(): Promise<void> {
-    console.log('🔍 Checking for inactive rooms to close...');
-    
+  // Cleanup operations - the database picks the rooms, so any client can
+  // run these without touching rooms it doesn't host
+  private async runHousekeeping(fn: string, description: string): Promise<void> {
     try {
-      // Close rooms older than 2 hours that are still waiting/active
-      const cutoffTime = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
-      console.log('🔍 Inactive room cutoff time:', cutoffTime);
-
-      const { data: oldRooms, error: selectError } = await supabase
-        .from('rooms')
-        .select('id, code')
-        .in('status', ['waiting', 'active'])
-        .lt('created_at', cutoffTime);
-
-      if (selectError) {
-        console.error('❌ Failed to find old rooms:', selectError);
-        return;
-      }
-
-      if (!oldRooms || oldRooms.length === 0) {
-        console.log('🧹 No old rooms found for cleanup');
-        return;
-      }
-
-      console.log(`🧹 Found ${oldRooms.length} old rooms to close`);
+      const { data, error } = await getSupabase().rpc(fn);
 
-      for (const room of oldRooms) {
-        await this.updateRoomStatus(room.id, 'cancelled', 'Auto-closed due to inactivity');
+      if (error) {
+        console.error(`❌ Failed to ${description}:`, error);
+      } else {
+        console.log(`✅ Housekeeping ${fn} completed, rooms affected:`, data ?? 0);
       }
-
-      console.log('✅ Inactive rooms cleanup completed');
     } catch (error) {
-      console.error('❌ Error during inactive rooms cleanup:', error);
+      console.error(`❌ Error during ${description}:`, error);
     }
   }
 
-  static async cancelGamesWithInactiveHosts(): Promise<void> {
-    console.log('🔍 Checking for games with inactive hosts...');
-    
-    try {
-      // Find rooms where host hasn't been active for 6 hours (backup safety net only)
-      const cutoffTime = new Date(Date.now() - 6 * 60 * 60 * 1000).toISOString();
-
-      const { data: inactiveRooms, error: selectError } = await supabase
-        .from('rooms')
-        .select('id, code, updated_at')
-        .in('status', ['waiting', 'active'])
-        .lt('updated_at', cutoffTime);
+  // Delete demo games older than 1 hour
+  async cleanupDemoGames(): Promise<void> {
+    console.log('🧹 Starting demo game cleanup process...');
+    await this.runHousekeeping('cleanup_demo_rooms', 'clean up demo games');
+  }
 
-      if (selectError) {
-        console.error('❌ Failed to find inactive host rooms:', selectError);
-        return;
-      }
+  // Cancel waiting/active rooms older than 2 hours
+  async closeInactiveRooms(): Promise<void> {
+    console.log('🔍 Checking for inactive rooms to close...');
+    await this.runHousekeeping('close_inactive_rooms', 'close inactive rooms');
+  }
 
-      if (!inactiveRooms || inactiveRooms.length === 0) {
-        console.log('🔍 No rooms inactive for 6+ hours found');
-        return;
-      }
+  // Cancel rooms whose host hasn't been active for 6 hours (backup safety net only)
+  async cancelGamesWithInactiveHosts(): Promise<void> {
+    console.log('🔍 Checking for games with inactive hosts...');
+    await this.runHousekeeping('cancel_rooms_with_inactive_hosts', 'cancel games with inactive hosts');
+  }
 
-      console.log(`🚫 Found ${inactiveRooms.length} rooms with hosts inactive for 6+ hours (backup cleanup)`);
+  // Mark players missing from the presence channel as disconnected
+  // (host_set_players_presence)
+  async updatePlayersPresence(roomId: string, onlinePlayerIds: string[]): Promise<void> {
+    const hostToken = this.requireHostToken(roomId, 'update player presence');
 
-      for (const room of inactiveRooms) {
-        await this.updateRoomStatus(room.id, 'cancelled', 'Host inactive for 6+ hours (backup cleanup)');
-      }
+    const { error } = await getSupabase().rpc('host_set_players_presence', {
+      p_room_id: roomId,
+      p_host_token: hostToken,
+      p_online_player_ids: onlinePlayerIds
+    });
 
-      console.log('✅ Long-term inactive host cleanup completed');
-    } catch (error) {
-      console.error('❌ Error during long-term inactive host cleanup:', error);
+    if (error) {
+      console.error('❌ Failed to update player presence:', error);
+      throw new Error(`Failed to update player presence: ${error.message}`);
     }
   }
 
-  // Clean up stale players in a room
-  static async cleanupStalePlayersInRoom(roomId: string): Promise<void> {
+  // Clean up stale players in a room - host_remove_stale_players removes
+  // those disconnected for longer than the grace period, and
+  // record_player_drop counts each one in the history
+  async cleanupStalePlayersInRoom(roomId: string): Promise<void> {
+    const hostToken = getHostToken(roomId);
+    if (!hostToken) return;
+
     console.log('🧹 Cleaning up stale players in room:', roomId);
     
     try {
-      // Get room code for history updates
-      const { data: room, error: roomError } = await supabase
-        .from('rooms')
-        .select('code')
-        .eq('id', roomId)
-        .single();
+      const { data, error } = await getSupabase().rpc('host_remove_stale_players', { p_room_id: roomId, p_host_token: hostToken });
 
-      if (roomError || !room) {
-        console.error('❌ Failed to get room for stale cleanup:', roomError);
+      if (error) {
+        console.error('❌ Failed to clean up stale players:', error);
         return;
       }
 
-      // Get current player count before cleanup
-      const { data: playersBefore, error: beforeError } = await supabase
-        .from('players')
-        .select('id')
-        .eq('room_id', roomId);
-
-      const countBefore = playersBefore?.length || 0;
-      console.log('🧹 Player count before cleanup:', countBefore);
-
-      // In a real implementation, you would identify and remove stale players here
-      // For now, we'll just update the game history with current accurate count
-      // await this.updateGameHistoryPlayerCount(room.code);
-      
-      console.log('🧹 Stale player cleanup completed for room:', roomId);
+      console.log('🧹 Stale player cleanup completed for room:', roomId, 'removed:', data ?? 0);
     } catch (error) {
       console.error('❌ Error during stale player cleanup:', error);
     }
   }
 
-  // Update host activity timestamp
-  static async updateHostActivity(roomId: string): Promise<void> {
+  // Update host activity timestamp (host_touch_room also ends a host-away
+  // pause) - player tabs have no token and skip it
+  async updateHostActivity(roomId: string): Promise<void> {
+    const hostToken = getHostToken(roomId);
+    if (!hostToken) return;
+
     try {
-      const { error } = await supabase
-        .from('rooms')
-        .update({ updated_at: new Date().toISOString() })
-        .eq('id', roomId);
+      const { error } = await getSupabase().rpc('host_touch_room', { p_room_id: roomId, p_host_token: hostToken });
 
       if (error) {
         console.error('❌ Failed to update host activity:', error);
@@ -1296,53 +1147,73 @@ export class SupabaseService {
   }
 
   // Real-time subscriptions
-  static subscribeToRoom(roomId: string, callback: (payload: any) => void) {
+  subscribeToRoom(roomId: string, callback: (change: RealtimeChange<MyngoRoom>) => void): RealtimeSubscription {
     console.log('🔄 Setting up room subscription for:', roomId);
     
-    return supabase
+    return getSupabase()
       .channel(`room-${roomId}`)
       .on('postgres_changes', {
         event: '*',
         schema: 'public',
         table: 'rooms',
         filter: `id=eq.${roomId}`
-      }, callback)
+      }, (payload) => callback(payload as unknown as RealtimeChange<MyngoRoom>))
       .subscribe();
   }
 
-  static subscribeToPlayers(roomId: string, callback: (payload: any) => void) {
+  subscribeToPlayers(roomId: string, callback: (change: RealtimeChange<MyngoPlayer>) => void): RealtimeSubscription {
     console.log('🔄 Setting up players subscription for room:', roomId);
     
-    return supabase
+    return getSupabase()
       .channel(`players-${roomId}`)
       .on('postgres_changes', {
         event: '*',
         schema: 'public',
         table: 'players',
         filter: `room_id=eq.${roomId}`
-      }, callback)
+      }, (payload) => callback(payload as unknown as RealtimeChange<MyngoPlayer>))
       .subscribe();
   }
 
-  static subscribeToCalledNumbers(roomId: string, callback: (payload: any) => void) {
+  // Realtime can't filter DELETEs by room, so an undo is picked up from its
+  // call_corrections row and passed on as a DELETE of that number
+  subscribeToCalledNumbers(roomId: string, callback: (change: RealtimeChange<CalledNumber>) => void): RealtimeSubscription {
     console.log('🔄 Setting up called numbers subscription for room:', roomId);
     
-    return supabase
+    return getSupabase()
       .channel(`called-numbers-${roomId}`)
       .on('postgres_changes', {
-        event: '*',
+        event: 'INSERT',
         schema: 'public',
         table: 'called_numbers',
         filter: `room_id=eq.${roomId}`
-      }, callback)
+      }, (payload) => callback(payload as unknown as RealtimeChange<CalledNumber>))
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'call_corrections',
+        filter: `room_id=eq.${roomId}`
+      }, (payload) => {
+        const correction = payload.new as Pick<CalledNumber, 'room_id' | 'number' | 'letter' | 'called_at'>;
+        callback({
+          eventType: 'DELETE',
+          new: null as unknown as CalledNumber,
+          old: {
+            room_id: correction.room_id,
+            number: correction.number,
+            letter: correction.letter,
+            called_at: correction.called_at
+          }
+        });
+      })
       .subscribe();
   }
 
   // Player presence tracking
-  static async trackPlayerPresence(roomId: string, playerId: string, playerName: string) {
+  async trackPlayerPresence(roomId: string, playerId: string, playerName: string): Promise<PresenceHandle> {
     console.log('👁️ Setting up presence tracking for player:', playerName);
     
-    const channel = supabase.channel(`presence-${roomId}`, {
+    const channel = getSupabase().channel(`presence-${roomId}`, {
       config: {
         presence: {
           key: playerId,
@@ -1363,86 +1234,27 @@ export class SupabaseService {
     return channel;
   }
 
-  static async untrackPlayerPresence(channel: any, playerId: string) {
+  // Presence keys are player ids, so the channel's state lists who is online
+  watchPlayerPresence(roomId: string, onSync: (onlinePlayerIds: string[]) => void): RealtimeSubscription {
+    console.log('👁️ Watching player presence for room:', roomId);
+
+    const channel = getSupabase().channel(`presence-${roomId}`);
+    channel.on('presence', { event: 'sync' }, () => {
+      onSync(Object.keys(channel.presenceState()));
+    });
+    channel.subscribe();
+
+    return channel;
+  }
+
+  async untrackPlayerPresence(channel: PresenceHandle, playerId: string): Promise<void> {
     console.log('👁️ Cleaning up presence tracking for player:', playerId);
     
     try {
-      // Clear heartbeat interval if it exists
-      if ((channel as any)._heartbeatInterval) {
-        console.log('🔄 Clearing presence heartbeat interval');
-        clearInterval((channel as any)._heartbeatInterval);
-        delete (channel as any)._heartbeatInterval;
-      }
-      
       await channel.untrack();
       await channel.unsubscribe();
     } catch (error) {
       console.error('❌ Error cleaning up presence:', error);
     }
   }
-
-  // Host presence tracking with disconnect detection
-  static subscribeToHostPresence(roomId: string, hostId: string, onHostDisconnect: () => void) {
-    console.log('👁️ Setting up host presence tracking for room:', roomId, 'host:', hostId);
-    
-    const channel = supabase.channel(`host-presence-${roomId}`, {
-      config: {
-        presence: {
-          key: hostId,
-        },
-      },
-    });
-
-    // Track when host leaves (disconnects)
-    channel.on('presence', { event: 'leave' }, ({ leftPresences }) => {
-      console.log('🚨 HOST LEAVE EVENT DETECTED - Room:', roomId, 'Host:', hostId);
-      
-      // Check if the host left
-      const hostLeft = leftPresences.some((presence: any) => 
-        presence.user_id === hostId || presence.host_id === hostId
-      );
-      
-      if (hostLeft) {
-        console.log('🚫 HOST DISCONNECTED - Host', hostId, 'left the presence channel');
-        onHostDisconnect();
-      }
-    });
-
-    // Subscribe and track host presence
-    channel.subscribe(async (status) => {
-      console.log('👁️ Host presence subscription status:', status);
-      
-      if (status === 'SUBSCRIBED') {
-        console.log('✅ Host successfully subscribed, now tracking host', hostId);
-        await channel.track({
-          user_id: hostId,
-          host_id: hostId,
-          user_name: 'Host',
-          role: 'host',
-          online_at: new Date().toISOString(),
-        });
-        
-        // Set up heartbeat to prevent false disconnects
-        (channel as any)._heartbeatInterval = setInterval(async () => {
-          try {
-            await channel.track({
-              user_id: hostId,
-              host_id: hostId,
-              user_name: 'Host',
-              role: 'host',
-              online_at: new Date().toISOString()
-            });
-            console.log('💓 Host presence heartbeat sent');
-          } catch (error) {
-            console.error('❌ Failed to send host presence heartbeat:', error);
-          }
-        }, 10000); // Every 10 seconds
-        
-        console.log('✅ Host tracking data sent successfully with heartbeat');
-      }
-    });
-    
-    console.log('👁️ Host presence channel setup complete for room:', roomId);
-    return channel;
-  }
 }
\ No newline at end of file
@@ -1,29 +1,47 @@
 // Supabase Client Configuration - Real-time database connection for MYNGO
-// Created: Supabase client setup with environment variables
+// Updated: Leave beacons go to the cleanup edge function
 
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-console.log('🔧 Supabase client initialization:', {
-  url: supabaseUrl,
-  hasKey: !!supabaseAnonKey,
-  keyLength: supabaseAnonKey?.length || 0
-});
+let client: SupabaseClient | null = null;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  console.error('❌ Missing Supabase environment variables:', {
-    hasUrl: !!supabaseUrl,
-    hasKey: !!supabaseAnonKey
-  });
-  throw new Error('Missing Supabase environment variables');
+export function isSupabaseConfigured(): boolean {
+  return !!supabaseUrl && !!supabaseAnonKey;
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    persistSession: false // Disable auth persistence for this app
+// Missing environment variables only fail when Supabase is actually used
+export function getSupabase(): SupabaseClient {
+  if (client) return client;
+
+  console.log('🔧 Supabase client initialization:', {
+    url: supabaseUrl,
+    hasKey: !!supabaseAnonKey,
+    keyLength: supabaseAnonKey?.length || 0
+  });
+
+  if (!isSupabaseConfigured()) {
+    console.error('❌ Missing Supabase environment variables:', {
+      hasUrl: !!supabaseUrl,
+      hasKey: !!supabaseAnonKey
+    });
+    throw new Error('Missing Supabase environment variables');
   }
-});
 
-console.log('✅ Supabase client created successfully');
\ No newline at end of file
+  client = createClient(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      persistSession: false // Disable auth persistence for this app
+    }
+  });
+
+  console.log('✅ Supabase client created successfully');
+  return client;
+}
+
+// The cleanup edge function (supabase/functions/cleanup) that receives the
+// beacon sent when a tab closes
+export function getCleanupUrl(): string {
+  return `${supabaseUrl}/functions/v1/cleanup`;
+}
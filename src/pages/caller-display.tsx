@@ -0,0 +1,172 @@
+// Caller Display Page - Read-only big screen for screen share or a projector
+// Created: Shows the calls, the board and the winners, never player cards
+// Updated: Attendees can scan a QR code on screen to join
+
+import { useMemo } from 'react';
+import { useParams } from 'react-router-dom';
+import { GlassCard } from '../components/ui/glass-card';
+import { JoinQrCode } from '../components/myngo/join-qr-code';
+import { useMyngoRoom } from '../hooks/use-myngo-room';
+import { formatCalledNumber, getLetterColor, MYNGO_COLUMNS } from '../utils/myngo-utils';
+import { getRoomPrizes, getCurrentPrizeIndex, getPrizeWinners, getLatestPrizeWin } from '../utils/win-patterns';
+import { Users, Trophy, Pause } from 'lucide-react';
+
+export function CallerDisplay() {
+  const { roomCode } = useParams<{ roomCode: string }>();
+  // Watch only - no host token is used and no heartbeat is sent
+  const { room, players, calledNumbers, hostDisconnected, loading, error } = useMyngoRoom(roomCode || '', { readOnly: true });
+
+  const calledSet = useMemo(() => new Set(calledNumbers.map(call => call.number)), [calledNumbers]);
+  const prizes = useMemo(() => getRoomPrizes(room?.config), [room?.config]);
+  const currentPrizeIndex = getCurrentPrizeIndex(room?.config);
+  const prizeWinners = useMemo(() => getPrizeWinners(prizes, players), [prizes, players]);
+
+  const finalWinners = prizeWinners[prizeWinners.length - 1]?.winners ?? [];
+  const latestPrizeWin = useMemo(() => getLatestPrizeWin(prizeWinners), [prizeWinners]);
+
+  const latestCall = calledNumbers[0];
+  const previousCalls = calledNumbers.slice(1, 6);
+  const isCancelled = room?.status === 'cancelled';
+  const isChecking = (room?.config?.pendingClaims?.length ?? 0) > 0;
+  const isPaused = !!room?.config?.isPaused || hostDisconnected;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-900 via-purple-800 to-cyan-900 flex items-center justify-center">
+        <div className="text-white text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-500 mx-auto mb-4"></div>
+          <p className="text-lg">Loading display...</p>
+          <p className="text-white/60 text-sm mt-2">Room: {roomCode}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !room) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-900 via-purple-800 to-cyan-900 flex items-center justify-center">
+        <div className="text-white text-center">
+          <p className="text-red-400 mb-2">Could not load room {roomCode}</p>
+          {error && <p className="text-white/60 text-sm">{error}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-purple-800 to-cyan-900 p-6 flex flex-col gap-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h1 className="text-white text-4xl font-bold tracking-wide">MYNGO</h1>
+        <div className="flex items-center gap-8 text-white">
+          {(room.status === 'waiting' || room.status === 'active') && (
+            <JoinQrCode roomCode={room.code} size={96} showLink={false} />
+          )}
+          <div className="text-2xl">
+            Join with code <span className="font-mono font-bold tracking-widest">{room.code}</span>
+          </div>
+          <div className="flex items-center gap-2 text-2xl">
+            <Users className="w-7 h-7" />
+            {players.length}
+          </div>
+        </div>
+      </div>
+
+      {/* Winner Banner */}
+      {finalWinners.length > 0 ? (
+        <GlassCard className="p-6 text-center bg-gradient-to-r from-yellow-500/30 to-orange-500/30 border-yellow-500/40">
+          <div className="flex items-center justify-center gap-4">
+            <Trophy className="w-12 h-12 text-yellow-300" />
+            <span className="text-white text-5xl font-bold">
+              🎉 {finalWinners.map(winner => winner.name).join(', ')} {finalWinners.length === 1 ? 'Wins' : 'Win'}! 🎉
+            </span>
+          </div>
+        </GlassCard>
+      ) : latestPrizeWin ? (
+        <GlassCard className="p-4 text-center bg-green-500/20 border-green-500/30">
+          <p className="text-green-200 text-3xl font-semibold">
+            🎉 {latestPrizeWin.winners.map(winner => winner.name).join(', ')} won {latestPrizeWin.prize.name}!
+          </p>
+          <p className="text-white/70 text-xl mt-1">Now playing for {prizes[currentPrizeIndex].name}</p>
+        </GlassCard>
+      ) : null}
+
+      <div className="flex-1 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Current Ball and Recent Calls */}
+        <GlassCard className="p-6 flex flex-col items-center justify-center gap-6">
+          {latestCall ? (
+            <>
+              <div
+                className="w-64 h-64 rounded-full flex flex-col items-center justify-center shadow-2xl border-8 border-white/80"
+                style={{ background: getLetterColor(latestCall.number) }}
+              >
+                <span className="text-white text-6xl font-bold">{latestCall.letter}</span>
+                <span className="text-white text-8xl font-bold leading-none">{latestCall.number}</span>
+              </div>
+              {previousCalls.length > 0 && (
+                <div className="w-full">
+                  <div className="text-white/70 text-lg text-center mb-3">Previous calls</div>
+                  <div className="flex justify-center gap-3">
+                    {previousCalls.map(call => (
+                      <div
+                        key={call.id}
+                        className="w-20 h-20 rounded-full flex items-center justify-center text-white text-xl font-bold border-4 border-white/40"
+                        style={{ background: getLetterColor(call.number) }}
+                      >
+                        {formatCalledNumber(call)}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="text-white/70 text-3xl text-center">
+              {isCancelled ? 'This game was cancelled' : 'Waiting for the first call'}
+            </div>
+          )}
+
+          {!isCancelled && finalWinners.length === 0 && (isChecking || isPaused) && (
+            <div className="flex items-center gap-2 text-yellow-200 text-2xl">
+              <Pause className="w-6 h-6" />
+              {isChecking ? 'Checking a claim...' : 'Paused'}
+            </div>
+          )}
+
+          <div className="text-white/60 text-xl">{calledNumbers.length}/75 called</div>
+        </GlassCard>
+
+        {/* Full Board */}
+        <GlassCard className="p-6 lg:col-span-2 flex flex-col justify-center gap-3">
+          {MYNGO_COLUMNS.map(({ letter, color, numbers }) => (
+            <div key={letter} className="flex items-center gap-2">
+              <div
+                className="w-14 h-14 shrink-0 rounded-lg flex items-center justify-center text-white text-3xl font-bold"
+                style={{ background: color }}
+              >
+                {letter}
+              </div>
+              <div className="flex-1 grid grid-cols-[repeat(15,minmax(0,1fr))] gap-1">
+                {numbers.map(number => {
+                  const isCalled = calledSet.has(number);
+                  const isLatest = latestCall?.number === number;
+                  return (
+                    <div
+                      key={number}
+                      className={`aspect-square rounded-md flex items-center justify-center text-xl font-bold transition-colors ${
+                        isCalled ? 'text-white' : 'bg-white/5 text-white/25'
+                      } ${isLatest ? 'ring-4 ring-white animate-pulse' : ''}`}
+                      style={isCalled ? { background: color } : undefined}
+                    >
+                      {number}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </GlassCard>
+      </div>
+    </div>
+  );
+}
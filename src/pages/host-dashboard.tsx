@@ -1,5 +1,5 @@
 // Host Dashboard - Complete game control interface with real-time management
-// Updated: Removed all console.log statements for production readiness
+// Updated: Players can join from a QR code on the dashboard
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
@@ -9,13 +9,49 @@ import { StatusBar } from '../components/ui/status-bar';
 import { PlayerList } from '../components/myngo/player-list';
 import { MyngoCard } from '../components/myngo/myngo-card';
 import { CalledNumbersPanel } from '../components/myngo/called-numbers-panel';
+import { PrizeLadder } from '../components/myngo/prize-ladder';
+import { FairnessPanel } from '../components/myngo/fairness-panel';
+import { CohostJoin } from '../components/myngo/cohost-join';
+import { AnnouncerPanel } from '../components/myngo/announcer-panel';
+import { SoundPanel } from '../components/myngo/sound-panel';
+import { JoinQrCode } from '../components/myngo/join-qr-code';
+import { BallEntryPanel } from '../components/myngo/ball-entry-panel';
 import { useMyngoRoom } from '../hooks/use-myngo-room';
-import { SupabaseService } from '../lib/supabase-service';
-import { getLetterForNumber, formatCalledNumber, isCloseToWin, checkWin, getAvailableNumbers } from '../utils/myngo-utils';
+import { useNextCallCountdown } from '../hooks/use-next-call-countdown';
+import { useCallAnnouncer } from '../hooks/use-call-announcer';
+import { useCallSounds } from '../hooks/use-game-sounds';
+import { backend } from '../lib/backend';
+import {
+  getCohostInvite,
+  getCohostInviteLink,
+  getHostRecoveryLink,
+  getHostToken,
+  readCohostInviteFromHash,
+  readHostTokenFromHash,
+  saveCohostInvite,
+  saveHostToken
+} from '../lib/host-credentials';
+import { CalledNumber, HostRole, PendingClaim, RoomCohost } from '../types/myngo';
+import {
+  formatCalledNumber,
+  isCloseToWin,
+  checkWin,
+  getAvailableNumbers,
+  getPlayerCards,
+  getDisconnectGraceMinutes,
+  getFalseMarkLimit,
+  getUndoDeadline,
+  DISCONNECT_GRACE_OPTIONS,
+  FALSE_MARK_LIMIT_OPTIONS,
+  HOST_AWAY_AFTER_SECONDS,
+  isOwnerAway,
+  isCageCalling,
+  getLetterForNumber
+} from '../utils/myngo-utils';
+import { getCardKey } from '../utils/fairness';
+import { getRoomWinPattern, getRoomPrizes, getCurrentPrizeIndex, getPrizeWinners, getLatestPrizeWin } from '../utils/win-patterns';
 import { 
   Users, 
-  Volume2, 
-  VolumeX, 
   Play, 
   Pause, 
   RotateCcw,
@@ -30,11 +66,18 @@ import {
   Zap,
   Clock,
   Trophy,
-  BarChart3
+  BarChart3,
+  Key,
+  UserPlus,
+  ClipboardCheck,
+  Undo2,
+  Monitor,
+  Video,
+  QrCode
 } from 'lucide-react';
 import confetti from 'canvas-confetti';
 
-export function HostDashboard() {
+function HostDashboardContent() {
   const { roomCode } = useParams<{ roomCode: string }>();
   const navigate = useNavigate();
   
@@ -46,45 +89,123 @@ export function HostDashboard() {
   const [autoInterval, setAutoInterval] = useState(20);
   const [isPaused, setIsPaused] = useState(false);
   const [roomOpen, setRoomOpen] = useState(true);
-  const [soundEnabled, setSoundEnabled] = useState(true);
   const [nextNumber, setNextNumber] = useState<number | null>(null);
-  const [countdown, setCountdown] = useState(0);
   const [showCancelModal, setShowCancelModal] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [hostLinkCopied, setHostLinkCopied] = useState(false);
+  const [cohostLinkCopied, setCohostLinkCopied] = useState(false);
+  const [overlayLinkCopied, setOverlayLinkCopied] = useState(false);
+  const [hostRole, setHostRole] = useState<HostRole | null>(null);
+  const [cohosts, setCohosts] = useState<RoomCohost[]>([]);
+  const [lostHostAccess, setLostHostAccess] = useState(false);
+  const [isTakingOver, setIsTakingOver] = useState(false);
   const [viewingPlayer, setViewingPlayer] = useState<any>(null);
+  const [viewingClaim, setViewingClaim] = useState<PendingClaim | null>(null);
+  const [isResolvingClaim, setIsResolvingClaim] = useState(false);
+  const [isUndoingCall, setIsUndoingCall] = useState(false);
+  const [undoError, setUndoError] = useState<string | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [hostPresenceChannel, setHostPresenceChannel] = useState<any>(null);
 
   // Ref hooks
   const isUpdatingConfigRef = useRef(false);
   const lastConfigUpdateRef = useRef<string>('');
   const roomOpenInitializedRef = useRef(false);
   const autoModeInitializedRef = useRef(false);
+  const botMarkedCallRef = useRef<CalledNumber | null | undefined>(undefined);
 
   // Custom hook - this must be called before any conditional returns
   const { room, players, calledNumbers, loading, error, isConnected, hostDisconnected, isGameActive, setPlayers, setCalledNumbers } = useMyngoRoom(roomCode!);
+  const nextCallCountdown = useNextCallCountdown(room?.next_call_at);
+  // Seconds left to take back the latest call
+  const undoCountdown = useNextCallCountdown(getUndoDeadline(calledNumbers[0]));
+  const { settings: announcerSettings, updateSettings: updateAnnouncerSettings } = useCallAnnouncer(calledNumbers, 'host', !loading);
+  const playSound = useCallSounds(calledNumbers, nextCallCountdown, !loading);
+  // Undefined until the room has loaded, so nothing plays for the state it loaded into
+  const soundStateRef = useRef<{ nearWinCount: number; claimCount: number; isCancelled: boolean } | undefined>(undefined);
 
   // Computed values - memoized and declared early to prevent ReferenceError
+  const winPattern = useMemo(() => getRoomWinPattern(room?.config), [room?.config]);
+  const prizes = useMemo(() => getRoomPrizes(room?.config), [room?.config]);
+  const currentPrizeIndex = getCurrentPrizeIndex(room?.config);
+  const prizeWinners = useMemo(() => getPrizeWinners(prizes, players), [prizes, players]);
+
   const nearWinPlayers = useMemo(() => {
     return players.filter(player => {
       try {
         if (!player.card || !player.marked_numbers) return false;
-        return isCloseToWin(player.card, player.marked_numbers);
+        return getPlayerCards(player).some(({ card, markedNumbers }) => isCloseToWin(card, markedNumbers, winPattern));
       } catch (error) {
         return false;
       }
     });
-  }, [players]);
+  }, [players, winPattern]);
 
-  // Only show winners who have actually pressed their MYNGO button - memoized
+  // The game is over once the final prize has a winner - earlier prize
+  // winners keep playing for the remaining prizes
   const winnerPlayers = useMemo(() => {
-    return players.filter(player => player.is_winner === true);
+    return prizeWinners[prizeWinners.length - 1]?.winners ?? [];
+  }, [prizeWinners]);
+
+  const latestPrizeWin = useMemo(() => getLatestPrizeWin(prizeWinners), [prizeWinners]);
+
+  // Every card in the room, checked against the seed once it is revealed
+  const playerCards = useMemo(() => {
+    return players.flatMap(player => getPlayerCards(player).map(playerCard => ({
+      playerId: getCardKey(player.id, playerCard.index),
+      card: playerCard.card,
+      deal: playerCard.deal
+    })));
   }, [players]);
 
+  // Winner names, flagging anyone who played with auto-daub
+  const winnerLabel = (player: { name: string; used_auto_daub?: boolean }) => (
+    player.used_auto_daub ? `${player.name} (auto-daub)` : player.name
+  );
+
+  // Co-hosts run the game too; cancelling and ending it stay with the owner
+  const isOwner = hostRole === 'owner';
+
+  // Claims waiting for a host to check the card - the game stays paused until they're decided
+  const pendingClaims = room?.config?.pendingClaims ?? [];
+  const hasPendingClaims = pendingClaims.length > 0;
+
+  // Cards of the player open in the card view; a claim shows the card as it was claimed
+  const viewingCards = viewingPlayer
+    ? getPlayerCards(viewingPlayer)
+        .filter(playerCard => !viewingClaim || playerCard.index === viewingClaim.cardIndex)
+        .map(playerCard => viewingClaim ? { ...playerCard, markedNumbers: viewingClaim.markedNumbers } : playerCard)
+    : [];
+  const viewingPattern = viewingClaim ? prizes[viewingClaim.prizeIndex]?.winPattern ?? winPattern : winPattern;
+
   // Helper functions that use state
   const availableNumbers = getAvailableNumbers(calledNumbers);
+  const isCageRoom = isCageCalling(room?.config);
+  const wonPrizeCount = prizeWinners.filter(stage => stage.winners.length > 0).length;
 
   // All useEffect hooks
+
+  // Sounds for the room as a whole: a player going one away, a claim
+  // waiting or a prize won, and the game being cancelled
+  useEffect(() => {
+    if (loading) return;
+
+    const current = {
+      nearWinCount: nearWinPlayers.length,
+      claimCount: wonPrizeCount + pendingClaims.length,
+      isCancelled: room?.status === 'cancelled'
+    };
+    const previous = soundStateRef.current;
+    soundStateRef.current = current;
+    if (!previous) return;
+
+    if (current.isCancelled && !previous.isCancelled) {
+      playSound('gameCancelled');
+    } else if (current.claimCount > previous.claimCount) {
+      playSound('winClaimed');
+    } else if (current.nearWinCount > previous.nearWinCount) {
+      playSound('oneAway');
+    }
+  }, [loading, nearWinPlayers.length, wonPrizeCount, pendingClaims.length, room?.status, playSound]);
   
   // Verify host session
   useEffect(() => {
@@ -121,17 +242,21 @@ export function HostDashboard() {
     const performRefresh = async () => {
       try {
         // Clean up stale players first
-        await SupabaseService.cleanupStalePlayersInRoom(room.id);
+        await backend.cleanupStalePlayersInRoom(room.id);
         
         // Then get fresh data
         const [freshPlayers, freshNumbers] = await Promise.all([
-          SupabaseService.getPlayersInRoom(room.id),
-          SupabaseService.getCalledNumbers(room.id)
+          backend.getPlayersInRoom(room.id),
+          backend.getCalledNumbers(room.id)
         ]);
         
         // Update players if data changed
-        const playersChanged = JSON.stringify(freshPlayers.map(p => ({ id: p.id, name: p.name, marked: p.marked_numbers?.length }))) !== 
-                              JSON.stringify(players.map(p => ({ id: p.id, name: p.name, marked: p.marked_numbers?.length })));
+        const markSummary = (list: typeof players) => JSON.stringify(list.map(p => ({
+          id: p.id,
+          name: p.name,
+          marked: getPlayerCards(p).map(playerCard => playerCard.markedNumbers.length)
+        })));
+        const playersChanged = markSummary(freshPlayers) !== markSummary(players);
         
         if (playersChanged) {
           setPlayers(freshPlayers);
@@ -156,29 +281,22 @@ export function HostDashboard() {
     return () => clearInterval(refreshInterval);
   }, [room?.id]); // Only depend on room.id
 
-  // Set up host presence tracking
+  // Watch the players' presence channel - players who drop off are marked
+  // disconnected, and the periodic refresh removes them after the grace period
   useEffect(() => {
-    if (!room?.id || !room.host_id || hostPresenceChannel) return;
-    
-    const setupHostPresence = async () => {
-      try {
-        const channel = await SupabaseService.trackPlayerPresence(
-          room.id,
-          room.host_id,
-          'Host'
-        );
-        setHostPresenceChannel(channel);
-      } catch (error) {
+    if (!room?.id) return;
+
+    const roomId = room.id;
+    const subscription = backend.watchPlayerPresence(roomId, onlinePlayerIds => {
+      backend.updatePlayersPresence(roomId, onlinePlayerIds).catch(() => {
         // Silent error handling
-      }
-    };
-    
-    setupHostPresence();
-    
+      });
+    });
+
     return () => {
-      // Cleanup will be handled in the beforeunload effect
+      subscription.unsubscribe();
     };
-  }, [room?.id, room?.host_id]);
+  }, [room?.id]);
 
   // Set up host presence heartbeat
   useEffect(() => {
@@ -187,7 +305,7 @@ export function HostDashboard() {
     // Update host activity every 15 seconds (more frequent to prevent false timeouts)
     const heartbeatInterval = setInterval(async () => {
       try {
-        await SupabaseService.updateHostActivity(room.id);
+        await backend.updateHostActivity(room.id);
       } catch (error) {
         // Silent error handling
       }
@@ -195,7 +313,7 @@ export function HostDashboard() {
 
     // Also update on user activity (mouse move, key press, etc.)
     const updateOnActivity = () => {
-      SupabaseService.updateHostActivity(room.id).catch(() => {});
+      backend.updateHostActivity(room.id).catch(() => {});
     };
 
     // Throttle activity updates to avoid too many requests
@@ -220,27 +338,42 @@ export function HostDashboard() {
     };
   }, [room?.id]);
 
+  // This dashboard's role and the room's co-hosts, checked again whenever the
+  // owner changes and every 15 seconds. A tab whose token stopped working -
+  // a co-host took over, or the owner removed this co-host - loses the game
+  useEffect(() => {
+    if (!room?.id || !roomCode) return;
+
+    const roomId = room.id;
+    const loadHosts = async () => {
+      try {
+        const role = await backend.getHostRole(roomId);
+        if (role) {
+          setHostRole(role);
+          setCohosts(await backend.getCohosts(roomId));
+        } else if (await backend.getRoomByCode(roomCode)) {
+          setLostHostAccess(true);
+        }
+      } catch {
+        // Silent error handling
+      }
+    };
+
+    loadHosts();
+    const hostsInterval = setInterval(loadHosts, 15000);
+
+    return () => clearInterval(hostsInterval);
+  }, [room?.id, room?.host_id, roomCode]);
+
   // Handle host cleanup when leaving
   useEffect(() => {
     if (!room?.id) return;
 
+    // A beacon outlives the page, unlike a normal request. The game pauses
+    // until the host is back or a co-host takes over
     const handleBeforeUnload = () => {
-      // Clean up host presence first
-      if (hostPresenceChannel && room?.host_id) {
-        SupabaseService.untrackPlayerPresence(hostPresenceChannel, room.host_id);
-      }
-      
       try {
-        // Use sendBeacon for more reliable cleanup on page unload
-        if (navigator.sendBeacon) {
-          const formData = new FormData();
-          formData.append('action', 'cancel_game');
-          formData.append('roomId', room.id);
-          navigator.sendBeacon('/cleanup', formData);
-        }
-        
-        // Also try direct cancellation (may not complete before page unloads)
-        SupabaseService.updateRoomStatus(room.id, 'cancelled').catch(() => {});
+        backend.sendHostLeaving(room.id);
       } catch (error) {
         // Silent error handling
       }
@@ -251,14 +384,7 @@ export function HostDashboard() {
         // Don't immediately cancel, let the heartbeat timeout handle it
         // This gives the host a chance to come back (e.g., switching tabs)
       } else {
-        SupabaseService.updateHostActivity(room.id).catch(() => {});
-      }
-    };
-
-    // Also clean up presence when component unmounts
-    const cleanup = () => {
-      if (hostPresenceChannel && room?.host_id) {
-        SupabaseService.untrackPlayerPresence(hostPresenceChannel, room.host_id);
+        backend.updateHostActivity(room.id).catch(() => {});
       }
     };
 
@@ -266,11 +392,10 @@ export function HostDashboard() {
     document.addEventListener('visibilitychange', handleVisibilityChange);
     
     return () => {
-      cleanup();
       window.removeEventListener('beforeunload', handleBeforeUnload);
       document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, [room?.id, hostPresenceChannel, room?.host_id]);
+  }, [room?.id]);
 
   // Initialize roomOpen state from room config when room loads - ONLY ONCE
   useEffect(() => {
@@ -355,7 +480,7 @@ export function HostDashboard() {
       lastConfigUpdateRef.current = configKey;
       
       // Update room config in Supabase
-      SupabaseService.updateRoomConfig(room.id, newConfig)
+      backend.updateRoomConfig(room.id, newConfig)
         .then(() => {
           // Silent success
         })
@@ -371,29 +496,42 @@ export function HostDashboard() {
     }
   }, [roomOpen, room?.id, room?.config?.roomClosed]);
 
-  // Auto-call timer
+  // Start the backend auto-caller when the host first opens an auto-call game.
+  // After that the backend owns the schedule, even with this tab closed.
   useEffect(() => {
-    if (!isAutoMode || isPaused || winnerPlayers.length > 0 || availableNumbers.length === 0) return;
+    if (!room?.id || autoModeInitializedRef.current) return;
+    autoModeInitializedRef.current = true;
 
-    const interval = setInterval(() => {
-      setCountdown(prev => {
-        if (prev <= 1) {
-          callNextNumber();
-          return autoInterval;
-        }
-        return prev - 1;
+    const isOpen = room.status === 'waiting' || room.status === 'active';
+    if (isOpen && !isCageCalling(room.config) && room.config.autoCall?.enabled && !room.config.isPaused && !room.next_call_at) {
+      backend.startAutoCalling(room.id).catch(error => {
+        console.error('Failed to start auto-calling:', error);
       });
-    }, 1000);
-
-    return () => clearInterval(interval);
-  }, [isAutoMode, isPaused, autoInterval, winnerPlayers.length, availableNumbers.length]);
+    }
+  }, [room]);
 
-  // Initialize countdown when auto mode starts
+  // Auto-mark for bots in demo mode whenever a new number comes in,
+  // whether the host or the backend auto-caller called it
   useEffect(() => {
-    if (isAutoMode && !isPaused && winnerPlayers.length === 0) {
-      setCountdown(autoInterval);
+    if (!room?.id || loading) return;
+
+    const latestCall = calledNumbers[0];
+    if (botMarkedCallRef.current === undefined) {
+      // Initial snapshot - those numbers were handled when they were called
+      botMarkedCallRef.current = latestCall ?? null;
+      return;
+    }
+    // An undone call uncovers an older one, which bots already marked
+    const handledCall = botMarkedCallRef.current;
+    if (!latestCall || (handledCall && latestCall.called_at <= handledCall.called_at)) return;
+    botMarkedCallRef.current = latestCall;
+
+    if (room.config?.demoMode) {
+      setTimeout(() => {
+        backend.autoBotMarkNumber(room.id, latestCall.number, true, winPattern).catch(() => {});
+      }, 500); // Reduced delay for demo mode responsiveness
     }
-  }, [isAutoMode, isPaused, autoInterval, winnerPlayers.length]);
+  }, [calledNumbers, room?.id, room?.config?.demoMode, loading, winPattern]);
 
   // Enhanced logging for winner detection
   useEffect(() => {
@@ -406,71 +544,64 @@ export function HostDashboard() {
     if (availableNumbers.length === 0) return;
     if (!room) return;
 
-    const randomIndex = Math.floor(Math.random() * availableNumbers.length);
-    const number = availableNumbers[randomIndex];
-    const letter = getLetterForNumber(number);
-
     try {
-      // Call number via Supabase
-      await SupabaseService.callNumber(room.id, number, letter);
-      
-      // Auto-mark for bots in demo mode
-      if (room.config?.demoMode) {
-        setTimeout(() => {
-          SupabaseService.autoBotMarkNumber(room.id, number, true).catch(() => {});
-        }, 500); // Reduced delay for demo mode responsiveness
-      }
+      // The backend picks the next number from the room's seeded call order
+      // and pushes back the next automatic call
+      await backend.callNextNumber(room.id);
     } catch (error) {
       // Silent error handling
     }
+  };
+
+  // Ball cage rooms: the host enters the ball they just drew
+  const callCageNumber = async (number: number) => {
+    if (!room) return;
+    await backend.callNumber(room.id, number, getLetterForNumber(number));
+  };
 
-    // Reset countdown for auto mode
-    if (isAutoMode) {
-      setCountdown(autoInterval);
+  // Takes back a mis-call; players and bots lose the mark with it
+  const undoLastCall = async () => {
+    if (!room) return;
+    setIsUndoingCall(true);
+    setUndoError(null);
+    try {
+      await backend.undoLastCall(room.id);
+    } catch (error) {
+      setUndoError(error instanceof Error ? error.message.replace('Failed to undo last call: ', '') : 'Could not undo the call');
+    } finally {
+      setIsUndoingCall(false);
     }
   };
 
+  // The backend owns the auto-call schedule - these only send commands
   const toggleAutoMode = async () => {
     setIsAutoMode(!isAutoMode);
-    if (!isAutoMode) {
-      setCountdown(autoInterval);
-    }
     
-    // Update room config in Supabase
     if (room?.id) {
-      const newConfig = {
-        ...room.config,
-        autoCall: {
-          ...room.config.autoCall,
-          enabled: !isAutoMode
-        }
-      };
-      
       try {
-        await SupabaseService.updateRoomConfig(room.id, newConfig);
+        if (isAutoMode) {
+          await backend.stopAutoCalling(room.id);
+        } else {
+          await backend.startAutoCalling(room.id);
+        }
       } catch (error) {
-        console.error('Failed to update auto mode in room config:', error);
+        console.error('Failed to update auto mode:', error);
       }
     }
   };
 
   const togglePause = async () => {
     setIsPaused(!isPaused);
-    if (isPaused) {
-      setCountdown(autoInterval);
-    }
     
-    // Update room config in Supabase
     if (room?.id) {
-      const newConfig = {
-        ...room.config,
-        isPaused: !isPaused
-      };
-      
       try {
-        await SupabaseService.updateRoomConfig(room.id, newConfig);
+        if (isPaused) {
+          await backend.resumeAutoCalling(room.id);
+        } else {
+          await backend.pauseAutoCalling(room.id);
+        }
       } catch (error) {
-        console.error('Failed to update pause status in room config:', error);
+        console.error('Failed to update pause status:', error);
       }
     }
   };
@@ -483,11 +614,86 @@ export function HostDashboard() {
     }
   };
 
+  // The host link opens this dashboard on another device
+  const copyHostLink = async () => {
+    const hostToken = room ? getHostToken(room.id) : null;
+    if (!room || !hostToken) return;
+    await navigator.clipboard.writeText(getHostRecoveryLink(room.code, hostToken));
+    setHostLinkCopied(true);
+    setTimeout(() => setHostLinkCopied(false), 2000);
+  };
+
+  // Browser source for OBS - the layout can be changed in its URL parameters
+  const copyOverlayLink = async () => {
+    if (!room) return;
+    await navigator.clipboard.writeText(`${window.location.origin}/overlay/${room.code}`);
+    setOverlayLinkCopied(true);
+    setTimeout(() => setOverlayLinkCopied(false), 2000);
+  };
+
+  // One invite link lets any number of co-hosts join, so the same link is
+  // copied each time
+  const copyCohostLink = async () => {
+    if (!room) return;
+    try {
+      const inviteToken = getCohostInvite(room.id) ?? await backend.createCohostInvite(room.id);
+      await navigator.clipboard.writeText(getCohostInviteLink(room.code, inviteToken));
+      setCohostLinkCopied(true);
+      setTimeout(() => setCohostLinkCopied(false), 2000);
+    } catch {
+      // Silent error handling
+    }
+  };
+
+  const removeCohost = async (cohostId: string) => {
+    if (!room) return;
+    try {
+      await backend.removeCohost(room.id, cohostId);
+      setCohosts(current => current.filter(cohost => cohost.id !== cohostId));
+    } catch {
+      // Silent error handling
+    }
+  };
+
+  // A co-host becomes the owner once the owner has been gone for a while
+  const takeOwnership = async () => {
+    if (!room) return;
+    setIsTakingOver(true);
+    try {
+      await backend.takeOverRoom(room.id);
+      setHostRole('owner');
+    } catch {
+      // Silent error handling
+    } finally {
+      setIsTakingOver(false);
+    }
+  };
+
+  // How long disconnected players keep their seat
+  const updateDisconnectGrace = async (minutes: number) => {
+    if (!room?.config) return;
+    try {
+      await backend.updateRoomConfig(room.id, { ...room.config, disconnectGraceMinutes: minutes });
+    } catch (error) {
+      // Silent error handling
+    }
+  };
+
+  // False marks that stop a player claiming
+  const updateFalseMarkLimit = async (limit: number) => {
+    if (!room?.config) return;
+    try {
+      await backend.updateRoomConfig(room.id, { ...room.config, falseMarkLimit: limit });
+    } catch {
+      // Silent error handling
+    }
+  };
+
   const handleCancelGame = (reason: string) => {
     if (!room) return;
     
     // Update room status in Supabase with reason - this will handle history and cleanup
-    SupabaseService.updateRoomStatus(room.id, 'cancelled', reason);
+    backend.updateRoomStatus(room.id, 'cancelled', reason);
     
     navigate('/');
   };
@@ -498,6 +704,28 @@ export function HostDashboard() {
 
   const closeCardView = () => {
     setViewingPlayer(null);
+    setViewingClaim(null);
+  };
+
+  const handleCheckClaim = (claim: PendingClaim) => {
+    const player = players.find(p => p.id === claim.playerId);
+    if (!player) return;
+    setViewingClaim(claim);
+    setViewingPlayer(player);
+  };
+
+  // Approving declares the winner; rejecting resumes play and locks the player out for a while
+  const resolveClaim = async (approve: boolean) => {
+    if (!room || !viewingClaim) return;
+    setIsResolvingClaim(true);
+    try {
+      await backend.resolveClaim(room.id, viewingClaim.id, approve);
+    } catch {
+      // Silent error handling
+    } finally {
+      setIsResolvingClaim(false);
+      closeCardView();
+    }
   };
 
   // Manual refresh function for the host
@@ -508,12 +736,12 @@ export function HostDashboard() {
     try {
       
       // Clean up stale players
-      await SupabaseService.cleanupStalePlayersInRoom(room.id);
+      await backend.cleanupStalePlayersInRoom(room.id);
       
       // Get fresh data
       const [freshPlayers, freshNumbers] = await Promise.all([
-        SupabaseService.getPlayersInRoom(room.id),
-        SupabaseService.getCalledNumbers(room.id)
+        backend.getPlayersInRoom(room.id),
+        backend.getCalledNumbers(room.id)
       ]);
       
       setPlayers(freshPlayers);
@@ -598,15 +826,7 @@ export function HostDashboard() {
             <GradientButton 
               variant="red"
               size="sm"
-              onClick={() => {
-                // Clear session storage
-                if (roomCode) {
-                  sessionStorage.removeItem(`myngo_host_${roomCode}`);
-                  sessionStorage.removeItem(`myngo_host_room_id`);
-                  sessionStorage.removeItem(`myngo_host_data`);
-                }
-                navigate('/');
-              }}
+              onClick={() => navigate('/')}
               className="w-full"
             >
               Back to Home
@@ -742,6 +962,33 @@ export function HostDashboard() {
     </div>
   );
 
+  // Shown once this dashboard's token stops working while the game goes on
+  const LostHostAccessModal = () => (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <GlassCard className="p-8 max-w-md w-full mx-4 text-center">
+        <div className="w-16 h-16 bg-purple-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Crown className="w-8 h-8 text-purple-300" />
+        </div>
+        <h2 className="text-2xl font-bold text-white mb-2">
+          {hostRole === 'cohost' ? 'Co-host Access Removed' : 'Game Handed Over'}
+        </h2>
+        <p className="text-white/70 mb-6">
+          {hostRole === 'cohost'
+            ? `The owner of room ${room?.code} removed you as a co-host.`
+            : `A co-host took over room ${room?.code} while you were away. The game carries on from their dashboard.`}
+        </p>
+        <GradientButton
+          variant="purple"
+          size="lg"
+          onClick={() => navigate('/')}
+          className="w-full"
+        >
+          Return to Home
+        </GradientButton>
+      </GlassCard>
+    </div>
+  );
+
   // Player card view modal
   const PlayerCardModal = () => (
     <div 
@@ -756,7 +1003,9 @@ export function HostDashboard() {
       <GlassCard className="p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between mb-6">
           <h3 className="text-white font-bold text-xl">
-            {viewingPlayer?.name}'s Card
+            {viewingClaim
+              ? `Check ${viewingClaim.playerName}'s Claim`
+              : `${viewingPlayer?.name}'s ${viewingCards.length > 1 ? `${viewingCards.length} Cards` : 'Card'}`}
           </h3>
           <button
             onClick={closeCardView}
@@ -767,21 +1016,66 @@ export function HostDashboard() {
         </div>
         
         <div className="flex flex-col items-center">
-          <MyngoCard
-            card={viewingPlayer?.card}
-            markedNumbers={viewingPlayer?.marked_numbers || []}
-            calledNumbers={calledNumbers.map(c => c.number)}
-            onMarkNumber={() => {}} // Read-only for host
-            canMark={false}
-          />
+          {viewingCards.map(playerCard => (
+            <div key={playerCard.index} className="flex flex-col items-center w-full mb-4">
+              {viewingCards.length > 1 && (
+                <div className="text-white/70 text-sm font-semibold mb-2">Card {playerCard.index + 1}</div>
+              )}
+              <MyngoCard
+                card={playerCard.card}
+                markedNumbers={playerCard.markedNumbers}
+                calledNumbers={calledNumbers.map(c => c.number)}
+                onMarkNumber={() => {}} // Read-only for host
+                canMark={false}
+                winPattern={viewingPattern}
+                highlightCalls={!!viewingClaim}
+              />
+            </div>
+          ))}
           
+          {viewingClaim && (
+            <div className="w-full bg-white/5 border border-white/10 rounded-lg p-4 text-center">
+              <p className="text-white/80 text-sm mb-1">
+                Claiming {prizes[viewingClaim.prizeIndex]?.name} ({viewingPattern.name}) after {viewingClaim.ballsCalled} calls
+              </p>
+              <p className="text-white/50 text-xs mb-4">
+                Red cells were marked but never called; green rings are called numbers left unmarked.
+              </p>
+              <div className="flex gap-3">
+                <GradientButton
+                  variant="green"
+                  size="md"
+                  onClick={() => resolveClaim(true)}
+                  disabled={isResolvingClaim}
+                  className="flex-1"
+                >
+                  Approve
+                </GradientButton>
+                <GradientButton
+                  variant="red"
+                  size="md"
+                  onClick={() => resolveClaim(false)}
+                  disabled={isResolvingClaim}
+                  className="flex-1"
+                >
+                  Reject
+                </GradientButton>
+              </div>
+            </div>
+          )}
+
           <div className="mt-4 text-center">
             <div className="text-white/70 text-sm">
-              Progress: {viewingPlayer?.marked_numbers?.length || 0}/24 marked
+              Progress: {viewingCards.map(playerCard => `${playerCard.markedNumbers.length}/24`).join(' · ')} marked
             </div>
             {viewingPlayer?.is_winner && (
               <div className="text-green-400 font-bold mt-2">
                 🏆 WINNER! 🏆
+                {prizes.length > 1 && (
+                  <div className="text-green-300 text-sm font-semibold mt-1">
+                    {prizes.filter(prize => viewingPlayer.prizes_won?.includes(prize.id)).map(prize => prize.name).join(', ')}
+                  </div>
+                )}
                 <div className="text-white/50 text-xs mt-1">
                   {new Date(calledNumbers[0].called_at).toLocaleTimeString()}
                 </div>
@@ -838,6 +1132,11 @@ export function HostDashboard() {
 
         {/* Right: Status */}
         <div className="flex items-center gap-3">
+          {hostRole === 'cohost' && (
+            <span className="px-2 py-1 rounded-full bg-cyan-500/20 text-cyan-200 text-xs font-semibold">
+              Co-host
+            </span>
+          )}
           <div className="flex items-center gap-2">
             <Users className="w-5 h-5 text-white/70" />
             <span className="text-white font-semibold">
@@ -885,8 +1184,20 @@ export function HostDashboard() {
             <div className="text-center">
               <Trophy className="w-12 h-12 text-yellow-400 mx-auto mb-4" />
               <h2 className="text-3xl font-bold text-white mb-2">
-                🎉 The Winner is {winnerPlayers[0].name} 🎉
+                {prizes.length > 1
+                  ? '🎉 All Prizes Won 🎉'
+                  : `🎉 The Winner is ${winnerLabel(winnerPlayers[0])} 🎉`}
               </h2>
+              {prizes.length > 1 && (
+                <div className="space-y-1 mt-4">
+                  {prizeWinners.map(({ prize, winners }) => (
+                    <div key={prize.id} className="text-white text-lg">
+                      <span className="text-white/70">{prize.name}:</span>{' '}
+                      <span className="font-semibold">{winners.map(winnerLabel).join(', ') || '—'}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
               <div className="text-white/70 text-xl font-mono tracking-wider mt-4 mb-6">
                 Room: {room?.code}
               </div>
@@ -920,22 +1231,103 @@ export function HostDashboard() {
               
               <div className="mt-6 space-y-4">
               
-                <GradientButton
-                  variant="green"
-                  size="lg"
-                  onClick={async () => {
-                    try {
-                      if (room?.id) {
-                        await SupabaseService.endGame(room.id, winnerPlayers[0].name);
+                {isOwner ? (
+                  <GradientButton
+                    variant="green"
+                    size="lg"
+                    onClick={async () => {
+                      try {
+                        if (room?.id) {
+                          await backend.endGame(room.id, winnerPlayers[0].name);
+                        }
+                        navigate('/');
+                      } catch (error) {
+                        navigate('/');
                       }
-                      navigate('/');
-                    } catch (error) {
-                      navigate('/');
-                    }
-                  }}
-                >
-                  End Game & Return Home
-                </GradientButton>
+                    }}
+                  >
+                    End Game & Return Home
+                  </GradientButton>
+                ) : (
+                  <p className="text-white/70 text-sm">Waiting for the owner to end the game.</p>
+                )}
+              </div>
+            </div>
+          </GlassCard>
+        </div>
+      )}
+
+      {/* Owner Away Alert - a co-host can take the game over */}
+      {hostRole === 'cohost' && isOwnerAway(room) && (
+        <div className="mb-6">
+          <GlassCard className="p-4 bg-gradient-to-r from-purple-500/20 to-fuchsia-500/20 border-purple-500/30">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+              <Crown className="w-6 h-6 text-yellow-300" />
+              <div className="flex-1">
+                <h3 className="text-white font-semibold">The Owner Is Away</h3>
+                <p className="text-white/70 text-sm">
+                  The owner hasn't been seen for over {HOST_AWAY_AFTER_SECONDS} seconds. Take ownership to be able
+                  to end or cancel the game.
+                </p>
+              </div>
+              <GradientButton
+                variant="purple"
+                size="sm"
+                onClick={takeOwnership}
+                disabled={isTakingOver}
+              >
+                {isTakingOver ? 'Taking Over...' : 'Take Ownership'}
+              </GradientButton>
+            </div>
+          </GlassCard>
+        </div>
+      )}
+
+      {/* Claims Alert - the game waits while a host checks each claimed card */}
+      {hasPendingClaims && (
+        <div className="mb-6">
+          <GlassCard className="p-4 bg-gradient-to-r from-cyan-500/20 to-blue-500/20 border-cyan-500/30">
+            <div className="flex items-center gap-3 mb-3">
+              <ClipboardCheck className="w-6 h-6 text-cyan-300" />
+              <div>
+                <h3 className="text-white font-semibold">Claims to Check</h3>
+                <p className="text-white/70 text-sm">The game is paused until every claim is approved or rejected.</p>
+              </div>
+            </div>
+            <div className="space-y-2">
+              {pendingClaims.map(claim => (
+                <div key={claim.id} className="flex items-center justify-between gap-3 bg-white/5 rounded-lg px-3 py-2">
+                  <span className="text-white text-sm">
+                    {claim.playerName} - {prizes[claim.prizeIndex]?.name}
+                  </span>
+                  <GradientButton
+                    variant="cyan"
+                    size="sm"
+                    onClick={() => handleCheckClaim(claim)}
+                  >
+                    <Eye className="w-4 h-4 mr-1" />
+                    Check Card
+                  </GradientButton>
+                </div>
+              ))}
+            </div>
+          </GlassCard>
+        </div>
+      )}
+
+      {/* Prize Won Alert */}
+      {latestPrizeWin && winnerPlayers.length === 0 && (
+        <div className="mb-6">
+          <GlassCard className="p-4 bg-gradient-to-r from-green-500/20 to-emerald-500/20 border-green-500/30">
+            <div className="flex items-center gap-3">
+              <Trophy className="w-6 h-6 text-yellow-400" />
+              <div>
+                <h3 className="text-white font-semibold">
+                  {latestPrizeWin.winners.map(winnerLabel).join(', ')} won {latestPrizeWin.prize.name}!
+                </h3>
+                <p className="text-white/70 text-sm">
+                  Play continues - now playing for {prizes[currentPrizeIndex].name} ({winPattern.name})
+                </p>
               </div>
             </div>
           </GlassCard>
@@ -951,7 +1343,7 @@ export function HostDashboard() {
               <div>
                 <h3 className="text-white font-semibold">Players Close to Winning!</h3>
                 <p className="text-white/70 text-sm">
-                  {nearWinPlayers.map(p => p.name).join(', ')} {nearWinPlayers.length === 1 ? 'is' : 'are'} one number away from MYNGO
+                  {nearWinPlayers.map(p => p.name).join(', ')} {nearWinPlayers.length === 1 ? 'is' : 'are'} one number away from {winPattern.name}
                 </p>
               </div>
             </div>
@@ -965,6 +1357,7 @@ export function HostDashboard() {
           isGameActive={isGameActive}
           isAutoCalling={room?.config?.autoCall?.enabled ?? false}
           autoCallFrequency={room?.config?.callFrequency}
+          nextCallIn={nextCallCountdown}
           isHostDisconnected={hostDisconnected}
           isHostPaused={room?.config?.isPaused ?? false}
           roomStatus={room?.status}
@@ -986,15 +1379,23 @@ export function HostDashboard() {
             {/* Auto Mode Controls */}
             <div className="space-y-4">
               {/* Manual Call Button - moved above Auto Mode */}
-              <GradientButton
-                variant="purple"
-                size="lg"
-                onClick={callNextNumber}
-                disabled={availableNumbers.length === 0}
-                className="w-full"
-              >
-                Call Next Number
-              </GradientButton>
+              {isCageRoom ? (
+                <BallEntryPanel
+                  calledNumbers={calledNumbers}
+                  onCall={callCageNumber}
+                  disabled={hasPendingClaims || (room?.status !== 'waiting' && room?.status !== 'active')}
+                />
+              ) : (
+                <GradientButton
+                  variant="purple"
+                  size="lg"
+                  onClick={callNextNumber}
+                  disabled={availableNumbers.length === 0 || hasPendingClaims}
+                  className="w-full"
+                >
+                  Call Next Number
+                </GradientButton>
+              )}
 
               {/* Latest Called Number - moved under Call Number button */}
               {calledNumbers.length > 0 && (
@@ -1005,6 +1406,19 @@ export function HostDashboard() {
                       {formatCalledNumber(calledNumbers[0])}
                     </div>
                   </div>
+                  {!!undoCountdown && (room?.status === 'waiting' || room?.status === 'active') && (
+                    <button
+                      onClick={undoLastCall}
+                      disabled={isUndoingCall || hasPendingClaims}
+                      className="w-full mt-2 flex items-center justify-center gap-2 px-3 py-1.5 rounded-lg border border-white/20
+                               bg-white/5 text-white/80 text-sm hover:bg-white/10 transition-colors
+                               disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Undo2 className="w-4 h-4" />
+                      {isUndoingCall ? 'Undoing...' : `Undo ${formatCalledNumber(calledNumbers[0])} (${undoCountdown}s)`}
+                    </button>
+                  )}
+                  {undoError && !!undoCountdown && <p className="text-red-300 text-xs text-center mt-2">{undoError}</p>}
                 </div>
               )}
 
@@ -1012,78 +1426,113 @@ export function HostDashboard() {
                 {availableNumbers.length} numbers remaining
               </div>
 
-              {/* Divider */}
-              <div className="border-t border-white/10 my-4"></div>
-
-              <div className="flex items-center justify-between">
-                <span className="text-white font-medium">Auto Mode</span>
-                <button
-                  onClick={toggleAutoMode}
-                  className={`w-12 h-6 rounded-full transition-colors ${
-                    isAutoMode ? 'bg-green-500' : 'bg-red-500'
-                  }`}
-                >
-                  <div className={`w-5 h-5 bg-white rounded-full transition-transform ${
-                    isAutoMode ? 'translate-x-6' : 'translate-x-0.5'
-                  }`} />
-                </button>
-              </div>
-
-              {isAutoMode && (
-                <div className="space-y-3">
-                  <div>
-                    <label className="block text-white/70 text-sm mb-2">
-                      Interval: {autoInterval}s
-                    </label>
-                    <input
-                      type="range"
-                      min="10"
-                      max="60"
-                      value={autoInterval}
-                      onChange={async (e) => {
-                        const newInterval = parseInt(e.target.value);
-                        setAutoInterval(newInterval);
-                        
-                        // Update room config in Supabase
-                        if (room?.id) {
-                          const newConfig = {
-                            ...room.config,
-                            callFrequency: newInterval
-                          };
-                          
-                          try {
-                            await SupabaseService.updateRoomConfig(room.id, newConfig);
-                          } catch (error) {
-                            console.error('Failed to update call frequency in room config:', error);
-                          }
-                        }
-                      }}
-                      className="w-full"
-                    />
-                  </div>
-
-                  <div className="flex gap-2">
-                    <GradientButton
-                      variant={isPaused ? "green" : "yellow"}
-                      size="sm"
-                      onClick={togglePause}
-                      className="flex-1"
+              {/* Auto Mode draws from the seed, so cage rooms don't have it */}
+              {!isCageRoom && (
+                <>
+                  {/* Divider */}
+                  <div className="border-t border-white/10 my-4"></div>
+
+                  <div className="flex items-center justify-between">
+                    <span className="text-white font-medium">Auto Mode</span>
+                    <button
+                      onClick={toggleAutoMode}
+                      className={`w-12 h-6 rounded-full transition-colors ${
+                        isAutoMode ? 'bg-green-500' : 'bg-red-500'
+                      }`}
                     >
-                      {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
-                    </GradientButton>
+                      <div className={`w-5 h-5 bg-white rounded-full transition-transform ${
+                        isAutoMode ? 'translate-x-6' : 'translate-x-0.5'
+                      }`} />
+                    </button>
                   </div>
 
-                  {!isPaused && (
-                    <div className="text-center">
-                      <div className="text-white/70 text-sm">Next call in</div>
-                      <div className="text-white font-bold text-xl">{countdown}s</div>
+                  {isAutoMode && (
+                    <div className="space-y-3">
+                      <div>
+                        <label className="block text-white/70 text-sm mb-2">
+                          Interval: {autoInterval}s
+                        </label>
+                        <input
+                          type="range"
+                          min="10"
+                          max="60"
+                          value={autoInterval}
+                          onChange={async (e) => {
+                            const newInterval = parseInt(e.target.value);
+                            setAutoInterval(newInterval);
+                        
+                            // Update room config in Supabase
+                            if (room?.id) {
+                              const newConfig = {
+                                ...room.config,
+                                callFrequency: newInterval
+                              };
+                          
+                              try {
+                                await backend.updateRoomConfig(room.id, newConfig);
+                              } catch (error) {
+                                console.error('Failed to update call frequency in room config:', error);
+                              }
+                            }
+                          }}
+                          className="w-full"
+                        />
+                      </div>
+
+                      <div className="flex gap-2">
+                        <GradientButton
+                          variant={isPaused ? "green" : "yellow"}
+                          size="sm"
+                          onClick={togglePause}
+                          disabled={hasPendingClaims}
+                          className="flex-1"
+                        >
+                          {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                        </GradientButton>
+                      </div>
+
+                      {!isPaused && nextCallCountdown !== null && (
+                        <div className="text-center">
+                          <div className="text-white/70 text-sm">Next call in</div>
+                          <div className="text-white font-bold text-xl">{nextCallCountdown}s</div>
+                        </div>
+                      )}
                     </div>
                   )}
-                </div>
+                </>
               )}
             </div>
           </GlassCard>
 
+          {/* Staged Prizes */}
+          {prizes.length > 1 && (
+            <PrizeLadder
+              prizes={prizes}
+              currentIndex={currentPrizeIndex}
+              players={players}
+              gameOver={winnerPlayers.length > 0}
+            />
+          )}
+
+          {room && (
+            <FairnessPanel room={room} cards={playerCards} calledNumbers={calledNumbers} />
+          )}
+
+          {/* Invite Players - scannable from a shared screen */}
+          {room && (
+            <GlassCard className="p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <QrCode className="w-5 h-5 text-purple-300" />
+                <h3 className="text-white font-semibold">Invite Players</h3>
+              </div>
+              <JoinQrCode roomCode={room.code} />
+            </GlassCard>
+          )}
+
+          <AnnouncerPanel settings={announcerSettings} onChange={updateAnnouncerSettings} />
+
+          <SoundPanel />
+
           {/* Game Settings */}
           <GlassCard className="p-6">
             <div className="flex items-center gap-2 mb-4">
@@ -1106,29 +1555,155 @@ export function HostDashboard() {
                 </button>
               </div>
 
-              <div className="flex items-center justify-between">
-                <span className="text-white font-medium">Sound</span>
-                <button
-                  onClick={() => setSoundEnabled(!soundEnabled)}
-                  className={`w-12 h-6 rounded-full transition-colors ${
-                    soundEnabled ? 'bg-green-500' : 'bg-red-500'
-                  }`}
+              <div>
+                <span className="text-white font-medium">Drop Offline Players After</span>
+                <div className="grid grid-cols-4 gap-2 mt-2">
+                  {DISCONNECT_GRACE_OPTIONS.map(minutes => (
+                    <button
+                      key={minutes}
+                      onClick={() => updateDisconnectGrace(minutes)}
+                      className={`px-2 py-1 rounded-lg border text-white text-sm transition-colors ${
+                        getDisconnectGraceMinutes(room?.config) === minutes
+                          ? 'bg-cyan-500/30 border-cyan-400/60'
+                          : 'bg-white/5 border-white/10 hover:bg-white/10'
+                      }`}
+                    >
+                      {minutes} min
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <span className="text-white font-medium">Stop Claims After False Marks</span>
+                <div className="grid grid-cols-4 gap-2 mt-2">
+                  {FALSE_MARK_LIMIT_OPTIONS.map(limit => (
+                    <button
+                      key={limit}
+                      onClick={() => updateFalseMarkLimit(limit)}
+                      className={`px-2 py-1 rounded-lg border text-white text-sm transition-colors ${
+                        getFalseMarkLimit(room?.config) === limit
+                          ? 'bg-cyan-500/30 border-cyan-400/60'
+                          : 'bg-white/5 border-white/10 hover:bg-white/10'
+                      }`}
+                    >
+                      {limit === 0 ? 'Never' : limit}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <GradientButton
+                  variant="purple"
+                  size="sm"
+                  onClick={copyHostLink}
+                  className="w-full"
                 >
-                  <div className={`w-5 h-5 bg-white rounded-full transition-transform ${
-                    soundEnabled ? 'translate-x-0.5' : 'translate-x-6'
-                  }`} />
-                </button>
+                  <div className="flex items-center gap-2">
+                    <Key className="w-4 h-4" />
+                    <span>{hostLinkCopied ? 'Host Link Copied!' : 'Copy Host Link'}</span>
+                  </div>
+                </GradientButton>
+                <p className="text-white/50 text-xs mt-2">
+                  Opens these controls on another device. Keep it private - anyone with it can run the game.
+                </p>
               </div>
 
-              <GradientButton
-                variant="red"
-                size="md"
-                onClick={() => setShowCancelModal(true)}
-                disabled={false}
-                className="w-full"
-              >
-                Cancel Game
-              </GradientButton>
+              <div>
+                <GradientButton
+                  variant="cyan"
+                  size="sm"
+                  onClick={() => window.open(`/display/${room?.code}`, '_blank')}
+                  className="w-full"
+                >
+                  <div className="flex items-center gap-2">
+                    <Monitor className="w-4 h-4" />
+                    <span>Open Big Screen</span>
+                  </div>
+                </GradientButton>
+                <p className="text-white/50 text-xs mt-2">
+                  The calls and board without any controls or cards, for screen sharing or a projector.
+                </p>
+              </div>
+
+              <div>
+                <GradientButton
+                  variant="purple"
+                  size="sm"
+                  onClick={copyOverlayLink}
+                  className="w-full"
+                >
+                  <div className="flex items-center gap-2">
+                    <Video className="w-4 h-4" />
+                    <span>{overlayLinkCopied ? 'Overlay Link Copied!' : 'Copy Stream Overlay Link'}</span>
+                  </div>
+                </GradientButton>
+                <p className="text-white/50 text-xs mt-2">
+                  Add it to OBS as a browser source to show the calls and winners over your video.
+                </p>
+              </div>
+
+              {isOwner && (
+                <div>
+                  <GradientButton
+                    variant="cyan"
+                    size="sm"
+                    onClick={copyCohostLink}
+                    className="w-full"
+                  >
+                    <div className="flex items-center gap-2">
+                      <UserPlus className="w-4 h-4" />
+                      <span>{cohostLinkCopied ? 'Invite Link Copied!' : 'Invite Co-hosts'}</span>
+                    </div>
+                  </GradientButton>
+                  <p className="text-white/50 text-xs mt-2">
+                    Co-hosts call numbers, pause and check cards from their own devices; only you can cancel
+                    or end the game. If you are gone for {HOST_AWAY_AFTER_SECONDS} seconds, a co-host can take over.
+                  </p>
+                </div>
+              )}
+
+              {cohosts.length > 0 && (
+                <div>
+                  <span className="text-white font-medium">Co-hosts</span>
+                  <div className="space-y-2 mt-2">
+                    {cohosts.map(cohost => {
+                      const isOnline = !!cohost.last_seen_at &&
+                        Date.now() - new Date(cohost.last_seen_at).getTime() < HOST_AWAY_AFTER_SECONDS * 1000;
+                      return (
+                        <div key={cohost.id} className="flex items-center justify-between gap-2 bg-white/5 rounded-lg px-3 py-2">
+                          <div className="flex items-center gap-2 min-w-0">
+                            <div className={`w-2 h-2 rounded-full ${isOnline ? 'bg-green-500' : 'bg-white/30'}`} />
+                            <span className="text-white text-sm truncate">{cohost.name}</span>
+                          </div>
+                          {isOwner && (
+                            <button
+                              onClick={() => removeCohost(cohost.id)}
+                              className="text-white/50 hover:text-red-300 transition-colors"
+                              title={`Remove ${cohost.name}`}
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {isOwner && (
+                <GradientButton
+                  variant="red"
+                  size="md"
+                  onClick={() => setShowCancelModal(true)}
+                  disabled={false}
+                  className="w-full"
+                >
+                  Cancel Game
+                </GradientButton>
+              )}
 
               {/* Manual Refresh Button */}
               <GradientButton
@@ -1160,6 +1735,10 @@ export function HostDashboard() {
             players={players}
             calledNumbers={calledNumbers.map(c => c.number)}
             onViewCard={handleViewCard}
+            winPattern={winPattern}
+            prizes={prizes}
+            disconnectGraceMinutes={getDisconnectGraceMinutes(room?.config)}
+            falseMarkLimit={getFalseMarkLimit(room?.config)}
             className="h-full"
           />
         </div>
@@ -1176,6 +1755,7 @@ export function HostDashboard() {
       {/* Modals */}
       {showCancelModal && <CancelModal />}
       {viewingPlayer && <PlayerCardModal />}
+      {lostHostAccess && <LostHostAccessModal />}
 
       {/* Powered By Footer */}
       <div className="flex flex-col items-center gap-4 mt-16">
@@ -1187,4 +1767,124 @@ export function HostDashboard() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+type HostCheck = 'checking' | 'host' | 'invited' | 'not-host' | 'no-room';
+
+// Only a browser holding a host token for the room (saved when the room was
+// created or a co-host joined, or brought over with a host link) gets the
+// dashboard; one holding a co-host invite joins as a co-host first
+export function HostDashboard() {
+  const { roomCode } = useParams<{ roomCode: string }>();
+  const navigate = useNavigate();
+  const [hostCheck, setHostCheck] = useState<HostCheck>('checking');
+  const [roomId, setRoomId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!roomCode) {
+      setHostCheck('no-room');
+      return;
+    }
+
+    let cancelled = false;
+    const checkHost = async () => {
+      try {
+        const room = await backend.getRoomByCode(roomCode);
+        if (!room) {
+          if (!cancelled) setHostCheck('no-room');
+          return;
+        }
+
+        // Host links and co-host invites carry the token in the fragment - keep
+        // it, then drop it from the address bar so it isn't shared by accident
+        const linkToken = readHostTokenFromHash(window.location.hash);
+        const inviteToken = readCohostInviteFromHash(window.location.hash);
+        if (linkToken) {
+          saveHostToken(room.id, linkToken);
+        }
+        if (inviteToken) {
+          saveCohostInvite(room.id, inviteToken);
+        }
+        if (linkToken || inviteToken) {
+          window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        }
+
+        const isHost = await backend.verifyHost(room.id);
+        if (cancelled) return;
+        setRoomId(room.id);
+        setHostCheck(isHost ? 'host' : getCohostInvite(room.id) ? 'invited' : 'not-host');
+      } catch {
+        // Let the dashboard surface connection problems
+        if (!cancelled) setHostCheck('no-room');
+      }
+    };
+
+    checkHost();
+    return () => {
+      cancelled = true;
+    };
+  }, [roomCode]);
+
+  if (hostCheck === 'checking') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-fuchsia-900 via-fuchsia-800 to-cyan-900 flex items-center justify-center">
+        <GlassCard className="p-8 text-center">
+          <div className="w-8 h-8 border-2 border-white/30 border-t-white rounded-full animate-spin mx-auto mb-4"></div>
+          <div className="text-white">Checking host access...</div>
+        </GlassCard>
+      </div>
+    );
+  }
+
+  const inviteToken = roomId ? getCohostInvite(roomId) : null;
+  if (hostCheck === 'invited' && roomId && inviteToken) {
+    return (
+      <CohostJoin
+        roomId={roomId}
+        roomCode={roomCode!}
+        inviteToken={inviteToken}
+        onJoined={() => setHostCheck('host')}
+        onLeave={() => navigate('/')}
+      />
+    );
+  }
+
+  if (hostCheck === 'not-host') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-fuchsia-900 via-fuchsia-800 to-cyan-900 flex items-center justify-center">
+        <GlassCard className="p-8 text-center max-w-md w-full mx-4">
+          <div className="w-16 h-16 bg-red-500/20 rounded-full flex items-center justify-center mx-auto mb-6">
+            <Key className="w-8 h-8 text-red-400" />
+          </div>
+
+          <h2 className="text-white text-xl font-semibold mb-4">Host Access Required</h2>
+          <p className="text-white/70 text-sm mb-6">
+            Only the room's hosts can run room {roomCode}. To host from this device, open a host link
+            or co-host invite copied from the dashboard.
+          </p>
+
+          <div className="space-y-3">
+            <GradientButton
+              variant="purple"
+              size="md"
+              onClick={() => navigate('/join')}
+              className="w-full"
+            >
+              Join as a Player
+            </GradientButton>
+            <GradientButton
+              variant="red"
+              size="sm"
+              onClick={() => navigate('/')}
+              className="w-full"
+            >
+              Back to Home
+            </GradientButton>
+          </div>
+        </GlassCard>
+      </div>
+    );
+  }
+
+  return <HostDashboardContent />;
+}
@@ -1,22 +1,68 @@
 // Host Setup Page - Three-step room creation process
-// Updated: Improved layout, larger text, removed analytics, added auto-close policy
+// Updated: The new room's join link is shown as a QR code
 
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { GlassCard } from '../components/ui/glass-card';
 import { GradientButton } from '../components/ui/gradient-button';
 import { LoadingSpinner } from '../components/ui/loading-spinner';
-import { calculateCallFrequency, calculateCallsNeeded, calculateSecondsBetweenCalls, generateRoomCode } from '../utils/myngo-utils';
-import { SupabaseService } from '../lib/supabase-service';
-import { HelpCircle, Copy, Check, Sparkles, ArrowLeft, AlertTriangle, X } from 'lucide-react';
+import { WinPatternPreview } from '../components/myngo/win-pattern-preview';
+import { JoinQrCode } from '../components/myngo/join-qr-code';
+import {
+  calculateCallFrequency,
+  calculateCallsNeeded,
+  calculateSecondsBetweenCalls,
+  generateRoomCode,
+  MAX_CARDS_PER_PLAYER,
+  DEFAULT_DISCONNECT_GRACE_MINUTES,
+  DISCONNECT_GRACE_OPTIONS,
+  CLAIM_LOCKOUT_OPTIONS,
+  FALSE_MARK_LIMIT_OPTIONS
+} from '../utils/myngo-utils';
+import { backend } from '../lib/backend';
+import { getHostRecoveryLink, getHostToken } from '../lib/host-credentials';
+import { WIN_PATTERNS, DEFAULT_WIN_PATTERN_ID, getWinPattern, createPrizeStage } from '../utils/win-patterns';
+import { HelpCircle, Copy, Check, Sparkles, ArrowLeft, AlertTriangle, X, Plus } from 'lucide-react';
 import confetti from 'canvas-confetti';
 
+// A prize as edited in setup - an empty name falls back to the pattern name
+interface PrizeStageSettings {
+  name: string;
+  patternId: string;
+}
+
 interface GameSettings {
   expectedPlayers: number;
   meetingDuration: number;
   demoMode: boolean;
+  prizeStages: PrizeStageSettings[];
+  minCardDifference: number;
+  maxCardsPerPlayer: number;
+  allowAutoDaub: boolean;
+  disconnectGraceMinutes: number;
+  manualClaims: boolean;
+  claimLockoutSeconds: number;
+  falseMarkLimit: number;
+  useBallCage: boolean;
 }
 
+const MAX_PRIZE_STAGES = 5;
+
+// How many numbers each new card must not share with every other card.
+// Random cards differ by about 16 of their 24 numbers on average.
+const CARD_SPREAD_OPTIONS = [
+  { value: 1, label: 'Unique', description: 'No two players get the same card' },
+  { value: 8, label: 'Varied', description: 'Every card differs from the others by at least 8 numbers' },
+  { value: 12, label: 'Very varied', description: 'Every card differs from the others by at least 12 numbers, so ties are rare' }
+];
+
+// Classic webinar ladder: first line, then two lines, then a full card
+const STAGED_PRIZE_PRESET: PrizeStageSettings[] = [
+  { name: 'First Line', patternId: 'line' },
+  { name: 'Two Lines', patternId: 'two-lines' },
+  { name: 'Full House', patternId: 'blackout' }
+];
+
 export function HostSetup() {
   const navigate = useNavigate();
   const [step, setStep] = useState(1);
@@ -25,13 +71,24 @@ export function HostSetup() {
   const [isCreating, setIsCreating] = useState(false);
   const [createdRoom, setCreatedRoom] = useState<any>(null);
   const [copied, setCopied] = useState(false);
+  const [hostLinkCopied, setHostLinkCopied] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isNavigating, setIsNavigating] = useState(false);
+  const [activePrizeIndex, setActivePrizeIndex] = useState(0);
   
   const [settings, setSettings] = useState<GameSettings>({
     expectedPlayers: 25,
     meetingDuration: 30,
-    demoMode: false
+    demoMode: false,
+    prizeStages: [{ name: '', patternId: DEFAULT_WIN_PATTERN_ID }],
+    minCardDifference: 1,
+    maxCardsPerPlayer: 1,
+    allowAutoDaub: false,
+    disconnectGraceMinutes: DEFAULT_DISCONNECT_GRACE_MINUTES,
+    manualClaims: false,
+    claimLockoutSeconds: 0,
+    falseMarkLimit: 3,
+    useBallCage: false
   });
 
   // Debug logging
@@ -56,6 +113,47 @@ export function HostSetup() {
     setSettings(prev => ({ ...prev, [field]: checked }));
   };
 
+  const updatePrizeStage = (index: number, changes: Partial<PrizeStageSettings>) => {
+    setSettings(prev => ({
+      ...prev,
+      prizeStages: prev.prizeStages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage))
+    }));
+  };
+
+  const handlePatternChange = (patternId: string) => {
+    updatePrizeStage(activePrizeIndex, { patternId });
+  };
+
+  const addPrizeStage = () => {
+    if (settings.prizeStages.length >= MAX_PRIZE_STAGES) return;
+    setSettings(prev => ({
+      ...prev,
+      prizeStages: [...prev.prizeStages, { name: '', patternId: 'blackout' }]
+    }));
+    setActivePrizeIndex(settings.prizeStages.length);
+  };
+
+  const removePrizeStage = (index: number) => {
+    if (settings.prizeStages.length <= 1) return;
+    setSettings(prev => ({
+      ...prev,
+      prizeStages: prev.prizeStages.filter((_, i) => i !== index)
+    }));
+    setActivePrizeIndex(prev => Math.max(0, prev >= index ? prev - 1 : prev));
+  };
+
+  const applyPrizePreset = () => {
+    setSettings(prev => ({ ...prev, prizeStages: STAGED_PRIZE_PRESET }));
+    setActivePrizeIndex(0);
+  };
+
+  const prizes = settings.prizeStages.map((stage, index) =>
+    createPrizeStage(index, stage.name, getWinPattern(stage.patternId))
+  );
+  const isStagedGame = prizes.length > 1;
+  const activeStage = settings.prizeStages[activePrizeIndex];
+  const selectedPattern = getWinPattern(activeStage.patternId);
+
   const createRoom = async () => {
     console.log('🏗️ Creating room with settings:', settings);
     setIsCreating(true);
@@ -74,30 +172,30 @@ export function HostSetup() {
         meetingDuration: settings.meetingDuration,
         demoMode: settings.demoMode,
         autoCall: {
-          enabled: true // Set to true as intended
+          enabled: !settings.useBallCage // A cage room only calls what the host enters
         },
+        callingMode: settings.useBallCage ? 'cage' as const : 'seeded' as const,
         isPaused: false,  // Initialize pause state
         autoClose: true,
         autoCloseMinutes: 120,
-        callFrequency
+        callFrequency,
+        prizes,
+        currentPrizeIndex: 0,
+        minCardDifference: settings.minCardDifference,
+        maxCardsPerPlayer: settings.maxCardsPerPlayer,
+        allowAutoDaub: settings.allowAutoDaub,
+        disconnectGraceMinutes: settings.disconnectGraceMinutes,
+        manualClaims: settings.manualClaims,
+        claimLockoutSeconds: settings.claimLockoutSeconds,
+        falseMarkLimit: settings.falseMarkLimit
       };
 
-      console.log('🏗️ Creating room with autoCall.enabled = true:', roomConfig);
+      console.log('🏗️ Creating room with autoCall.enabled =', roomConfig.autoCall.enabled, roomConfig);
       
-      // Test Supabase connection first
-      console.log('🔍 Testing Supabase connection...');
-      const { data: testData, error: testError } = await supabase
-        .from('rooms')
-        .select('count')
-        .limit(1);
-      
-      if (testError) {
-        console.error('❌ Supabase connection test failed:', testError);
-        throw new Error(`Database connection failed: ${testError.message}`);
-      }
-      console.log('✅ Supabase connection test passed');
+      // Test the backend connection first
+      await backend.checkConnection();
       
-      const room = await SupabaseService.createRoom(hostId, roomConfig);
+      const room = await backend.createRoom(hostId, roomConfig);
       console.log('🏗️ Room created successfully:', room);
       
       // Validate room creation
@@ -112,7 +210,7 @@ export function HostSetup() {
       if (settings.demoMode) {
         console.log('🏗️ Adding demo bots...');
         try {
-          await SupabaseService.addDemoBots(room.id);
+          await backend.addDemoBots(room.id);
           console.log('✅ Demo bots added successfully');
         } catch (botError) {
           console.error('⚠️ Failed to add demo bots (non-critical):', botError);
@@ -157,6 +255,15 @@ export function HostSetup() {
     setTimeout(() => setCopied(false), 2000);
   };
 
+  // Same host link as the dashboard's - for running the game from another device
+  const copyHostLink = async () => {
+    const hostToken = createdRoom ? getHostToken(createdRoom.id) : null;
+    if (!createdRoom || !hostToken) return;
+    await navigator.clipboard.writeText(getHostRecoveryLink(createdRoom.code, hostToken));
+    setHostLinkCopied(true);
+    setTimeout(() => setHostLinkCopied(false), 2000);
+  };
+
   const startDashboard = () => {
     if (!createdRoom) return;
     
@@ -166,14 +273,7 @@ export function HostSetup() {
     
     setIsNavigating(true);
     
-    // Store host session info
-    sessionStorage.setItem(`myngo_host_${createdRoom.code}`, 'true');
-    sessionStorage.setItem(`myngo_host_room_id`, createdRoom.id);
-    sessionStorage.setItem(`myngo_host_data`, JSON.stringify(createdRoom));
-    
-    console.log('🏗️ Session storage set, navigating immediately');
-    
-    // Navigate immediately - no delay needed
+    // The host token was saved by createRoom - navigate immediately
     navigate(`/host/${createdRoom.code}`);
   };
 
@@ -364,6 +464,266 @@ export function HostSetup() {
                     </div>
                   </div>
 
+                  {/* Prizes & Win Pattern */}
+                  <div>
+                    <label className="block text-white font-medium mb-3 text-lg">
+                      {isStagedGame ? 'Prizes' : 'Which pattern wins?'}
+                    </label>
+
+                    {/* Prize stages - the game continues until the last prize is won */}
+                    <div className="flex flex-wrap items-center gap-2 mb-3">
+                      {isStagedGame && prizes.map((prize, index) => (
+                        <div
+                          key={prize.id}
+                          className={`flex items-center rounded-lg border text-sm transition-all duration-200
+                            ${activePrizeIndex === index
+                              ? 'bg-purple-500/30 border-purple-400/60'
+                              : 'bg-white/5 border-white/10 hover:bg-white/10'
+                            }`}
+                        >
+                          <button
+                            onClick={() => setActivePrizeIndex(index)}
+                            className="px-3 py-1.5 text-white font-medium"
+                          >
+                            {index + 1}. {prize.name}
+                          </button>
+                          <button
+                            onClick={() => removePrizeStage(index)}
+                            className="pr-2 text-white/50 hover:text-white transition-colors"
+                            aria-label={`Remove ${prize.name}`}
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                      {settings.prizeStages.length < MAX_PRIZE_STAGES && (
+                        <button
+                          onClick={addPrizeStage}
+                          className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-dashed border-white/20 text-white/70 text-sm hover:text-white hover:border-white/40 transition-colors"
+                        >
+                          <Plus className="w-4 h-4" />
+                          {isStagedGame ? 'Add prize' : 'Add another prize'}
+                        </button>
+                      )}
+                      {!isStagedGame && (
+                        <button
+                          onClick={applyPrizePreset}
+                          className="px-3 py-1.5 rounded-lg border border-white/10 text-white/70 text-sm hover:text-white hover:bg-white/10 transition-colors"
+                        >
+                          Line → Two Lines → Full House
+                        </button>
+                      )}
+                    </div>
+
+                    {isStagedGame && (
+                      <input
+                        type="text"
+                        value={activeStage.name}
+                        onChange={(e) => updatePrizeStage(activePrizeIndex, { name: e.target.value })}
+                        placeholder={selectedPattern.name}
+                        maxLength={30}
+                        className="w-full mb-3 px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-purple-400"
+                      />
+                    )}
+
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                      {WIN_PATTERNS.map((pattern) => (
+                        <button
+                          key={pattern.id}
+                          onClick={() => handlePatternChange(pattern.id)}
+                          className={`flex flex-col items-center gap-2 p-3 rounded-lg border transition-all duration-200
+                            ${activeStage.patternId === pattern.id
+                              ? 'bg-purple-500/30 border-purple-400/60 shadow-lg shadow-purple-500/20'
+                              : 'bg-white/5 border-white/10 hover:bg-white/10 hover:border-white/20'
+                            }`}
+                        >
+                          <WinPatternPreview pattern={pattern} />
+                          <span className="text-white text-sm font-medium text-center">{pattern.name}</span>
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-white/60 text-base mt-3">{selectedPattern.description}</p>
+                  </div>
+
+                  {/* Card Spread */}
+                  <div>
+                    <label className="block text-white font-medium mb-3 text-lg">
+                      How different should the cards be?
+                    </label>
+                    <div className="grid grid-cols-3 gap-3">
+                      {CARD_SPREAD_OPTIONS.map(option => (
+                        <button
+                          key={option.value}
+                          onClick={() => handleSliderChange('minCardDifference', option.value)}
+                          className={`px-3 py-2 rounded-lg border text-white text-sm font-medium transition-all duration-200
+                            ${settings.minCardDifference === option.value
+                              ? 'bg-purple-500/30 border-purple-400/60 shadow-lg shadow-purple-500/20'
+                              : 'bg-white/5 border-white/10 hover:bg-white/10 hover:border-white/20'
+                            }`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-white/60 text-base mt-3">
+                      {CARD_SPREAD_OPTIONS.find(option => option.value === settings.minCardDifference)?.description}
+                    </p>
+                  </div>
+
+                  {/* Cards Per Player */}
+                  <div>
+                    <label className="block text-white font-medium mb-3 text-lg">
+                      Cards per player
+                    </label>
+                    <div className="grid grid-cols-4 gap-3">
+                      {Array.from({ length: MAX_CARDS_PER_PLAYER }, (_, index) => index + 1).map(count => (
+                        <button
+                          key={count}
+                          onClick={() => handleSliderChange('maxCardsPerPlayer', count)}
+                          className={`px-3 py-2 rounded-lg border text-white text-sm font-medium transition-all duration-200
+                            ${settings.maxCardsPerPlayer === count
+                              ? 'bg-purple-500/30 border-purple-400/60 shadow-lg shadow-purple-500/20'
+                              : 'bg-white/5 border-white/10 hover:bg-white/10 hover:border-white/20'
+                            }`}
+                        >
+                          {count === 1 ? '1 card' : `Up to ${count}`}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-white/60 text-base mt-3">
+                      {settings.maxCardsPerPlayer === 1
+                        ? 'Everyone plays a single card'
+                        : `Players choose 1 to ${settings.maxCardsPerPlayer} cards when they join`}
+                    </p>
+                  </div>
+
+                  {/* Disconnect Grace Period */}
+                  <div>
+                    <label className="block text-white font-medium mb-3 text-lg">
+                      Drop offline players after
+                    </label>
+                    <div className="grid grid-cols-4 gap-3">
+                      {DISCONNECT_GRACE_OPTIONS.map(minutes => (
+                        <button
+                          key={minutes}
+                          onClick={() => handleSliderChange('disconnectGraceMinutes', minutes)}
+                          className={`px-3 py-2 rounded-lg border text-white text-sm font-medium transition-all duration-200
+                            ${settings.disconnectGraceMinutes === minutes
+                              ? 'bg-purple-500/30 border-purple-400/60 shadow-lg shadow-purple-500/20'
+                              : 'bg-white/5 border-white/10 hover:bg-white/10 hover:border-white/20'
+                            }`}
+                        >
+                          {minutes} min
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-white/60 text-base mt-3">
+                      Players who lose their connection are greyed out and keep their card for {settings.disconnectGraceMinutes} {settings.disconnectGraceMinutes === 1 ? 'minute' : 'minutes'}, so they can rejoin
+                    </p>
+                  </div>
+
+                  {/* Claim Lockout */}
+                  <div>
+                    <label className="block text-white font-medium mb-3 text-lg">
+                      After a rejected claim, wait
+                    </label>
+                    <div className="grid grid-cols-4 gap-3">
+                      {CLAIM_LOCKOUT_OPTIONS.map(seconds => (
+                        <button
+                          key={seconds}
+                          onClick={() => handleSliderChange('claimLockoutSeconds', seconds)}
+                          className={`px-3 py-2 rounded-lg border text-white text-sm font-medium transition-all duration-200
+                            ${settings.claimLockoutSeconds === seconds
+                              ? 'bg-purple-500/30 border-purple-400/60 shadow-lg shadow-purple-500/20'
+                              : 'bg-white/5 border-white/10 hover:bg-white/10 hover:border-white/20'
+                            }`}
+                        >
+                          {seconds === 0 ? 'No wait' : `${seconds}s`}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-white/60 text-base mt-3">
+                      {settings.claimLockoutSeconds === 0
+                        ? 'Players can claim again straight after a rejected claim'
+                        : `Players who make a false claim can't claim again for ${settings.claimLockoutSeconds} seconds`}
+                    </p>
+                  </div>
+
+                  {/* False Mark Limit */}
+                  <div>
+                    <label className="block text-white font-medium mb-3 text-lg">
+                      Stop claims after false marks
+                    </label>
+                    <div className="grid grid-cols-4 gap-3">
+                      {FALSE_MARK_LIMIT_OPTIONS.map(limit => (
+                        <button
+                          key={limit}
+                          onClick={() => handleSliderChange('falseMarkLimit', limit)}
+                          className={`px-3 py-2 rounded-lg border text-white text-sm font-medium transition-all duration-200
+                            ${settings.falseMarkLimit === limit
+                              ? 'bg-purple-500/30 border-purple-400/60 shadow-lg shadow-purple-500/20'
+                              : 'bg-white/5 border-white/10 hover:bg-white/10 hover:border-white/20'
+                            }`}
+                        >
+                          {limit === 0 ? 'Never' : limit}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-white/60 text-base mt-3">
+                      {settings.falseMarkLimit === 0
+                        ? 'Marks on numbers that were never called are refused and shown to you, but never stop a player claiming'
+                        : `Marks on numbers that were never called are refused; after ${settings.falseMarkLimit} the player's MYNGO button is switched off`}
+                    </p>
+                  </div>
+
+                  {/* Auto-Daub */}
+                  <div className="flex items-center justify-between pt-4">
+                    <div>
+                      <div className="flex items-center gap-3">
+                        <label className="text-white font-medium text-lg">Allow auto-daub</label>
+                        <input
+                          type="checkbox"
+                          checked={settings.allowAutoDaub}
+                          onChange={(e) => handleCheckboxChange('allowAutoDaub', e.target.checked)}
+                          className="w-5 h-5 text-purple-500 rounded focus:ring-purple-500"
+                        />
+                      </div>
+                      <p className="text-white/60 text-base">Players can choose to have called numbers marked for them, and to claim wins automatically. Helpful for accessibility and for anyone multitasking in the meeting. Prizes won this way are labelled for you.</p>
+                    </div>
+                  </div>
+
+                  {/* Ball Cage */}
+                  <div className="flex items-center justify-between pt-4">
+                    <div>
+                      <div className="flex items-center gap-3">
+                        <label className="text-white font-medium text-lg">Draw from a physical ball cage</label>
+                        <input
+                          type="checkbox"
+                          checked={settings.useBallCage}
+                          onChange={(e) => handleCheckboxChange('useBallCage', e.target.checked)}
+                          className="w-5 h-5 text-purple-500 rounded focus:ring-purple-500"
+                        />
+                      </div>
+                      <p className="text-white/60 text-base">You draw the balls yourself and enter each one on the dashboard by typing it or tapping it on the board. Nothing is called automatically, and the fairness check covers the cards but not the order of the calls.</p>
+                    </div>
+                  </div>
+
+                  {/* Manual Claims */}
+                  <div className="flex items-center justify-between pt-4">
+                    <div>
+                      <div className="flex items-center gap-3">
+                        <label className="text-white font-medium text-lg">Check claims myself</label>
+                        <input
+                          type="checkbox"
+                          checked={settings.manualClaims}
+                          onChange={(e) => handleCheckboxChange('manualClaims', e.target.checked)}
+                          className="w-5 h-5 text-purple-500 rounded focus:ring-purple-500"
+                        />
+                      </div>
+                      <p className="text-white/60 text-base">When a player calls MYNGO the game pauses and you look over their card before approving or rejecting the win. Cards that don't match the called numbers are still rejected automatically.</p>
+                    </div>
+                  </div>
+
                   {/* Demo Mode */}
                   <div className="flex items-center justify-between pt-4">
                     <div>
@@ -474,6 +834,53 @@ export function HostSetup() {
                     <h3 className="text-white font-semibold mb-2 text-lg">Demo Mode</h3>
                     <p className="text-white/70 text-base">{settings.demoMode ? 'Enabled' : 'Disabled'}</p>
                   </div>
+                  <div>
+                    <h3 className="text-white font-semibold mb-2 text-lg">Card Spread</h3>
+                    <p className="text-white/70 text-base">
+                      {CARD_SPREAD_OPTIONS.find(option => option.value === settings.minCardDifference)?.label}
+                    </p>
+                  </div>
+                  <div>
+                    <h3 className="text-white font-semibold mb-2 text-lg">Auto-Daub</h3>
+                    <p className="text-white/70 text-base">{settings.allowAutoDaub ? 'Allowed' : 'Off'}</p>
+                  </div>
+                  <div>
+                    <h3 className="text-white font-semibold mb-2 text-lg">Cards per Player</h3>
+                    <p className="text-white/70 text-base">
+                      {settings.maxCardsPerPlayer === 1 ? '1 card' : `Up to ${settings.maxCardsPerPlayer} cards`}
+                    </p>
+                  </div>
+                  <div>
+                    <h3 className="text-white font-semibold mb-2 text-lg">Offline Players</h3>
+                    <p className="text-white/70 text-base">Dropped after {settings.disconnectGraceMinutes} min</p>
+                  </div>
+                  <div>
+                    <h3 className="text-white font-semibold mb-2 text-lg">Calling</h3>
+                    <p className="text-white/70 text-base">{settings.useBallCage ? 'From your ball cage' : 'Seeded random draw'}</p>
+                  </div>
+                  <div>
+                    <h3 className="text-white font-semibold mb-2 text-lg">Claims</h3>
+                    <p className="text-white/70 text-base">
+                      {settings.manualClaims ? 'Checked by you' : 'Checked automatically'}
+                      {settings.claimLockoutSeconds > 0 && `, ${settings.claimLockoutSeconds}s wait after a false claim`}
+                      {settings.falseMarkLimit > 0 && `, off after ${settings.falseMarkLimit} false marks`}
+                    </p>
+                  </div>
+                  <div>
+                    <h3 className="text-white font-semibold mb-2 text-lg">
+                      {isStagedGame ? 'Prizes' : 'Win Pattern'}
+                    </h3>
+                    <div className="space-y-2">
+                      {prizes.map((prize, index) => (
+                        <div key={prize.id} className="flex items-center gap-3">
+                          <WinPatternPreview pattern={prize.winPattern} size={isStagedGame ? 'sm' : 'md'} />
+                          <p className="text-white/70 text-base">
+                            {isStagedGame ? `${index + 1}. ${prize.name} (${prize.winPattern.name})` : prize.winPattern.name}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
                 </div>
               </div>
 
@@ -531,7 +938,7 @@ export function HostSetup() {
                 Room Created! 🎉
               </h1>
               <p className="text-white/70 px-4 leading-relaxed text-lg">
-                Share this code with your participants
+                Share the code, or let participants scan the QR code to join
               </p>
             </div>
 
@@ -551,6 +958,24 @@ export function HostSetup() {
                 </GradientButton>
               </div>
 
+              {createdRoom?.code && (
+                <div className="mb-6">
+                  <JoinQrCode roomCode={createdRoom.code} size={200} />
+                </div>
+              )}
+
+              <div className="mb-6">
+                <button
+                  onClick={copyHostLink}
+                  className="text-purple-300 hover:text-purple-200 text-sm underline"
+                >
+                  {hostLinkCopied ? 'Host link copied!' : 'Copy private host link'}
+                </button>
+                <p className="text-white/50 text-xs mt-1">
+                  Opens your host controls on another device - don't share it with players
+                </p>
+              </div>
+
               <div className="border-t border-white/10 pt-6">
                 {/* Error Display for Step 3 */}
                 {error && (
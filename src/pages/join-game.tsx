@@ -1,22 +1,34 @@
 // Join Game Page - Player entry point with room code validation
-// Updated: Auto-focus room code input for better user experience
+// Updated: Join links and QR codes fill in the room code
 
 import React, { useState, useEffect, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { GlassCard } from '../components/ui/glass-card';
 import { GradientButton } from '../components/ui/gradient-button';
 import { LoadingSpinner } from '../components/ui/loading-spinner';
-import { SupabaseService } from '../lib/supabase-service';
+import { backend } from '../lib/backend';
+import { getMaxCardsPerPlayer } from '../utils/myngo-utils';
 import { Users, Sparkles, ArrowLeft } from 'lucide-react';
 
+// Room codes are 6 letters and digits; anything else is dropped as typed
+function normalizeRoomCode(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
 export function JoinGame() {
   const navigate = useNavigate();
-  const [roomCode, setRoomCode] = useState('');
+  const [searchParams] = useSearchParams();
+  // A join link or QR code (/join?code=ABC234) brings the code along
+  const [roomCode, setRoomCode] = useState(() => normalizeRoomCode(searchParams.get('code') ?? '').slice(0, 6));
+  const [codeFromLink, setCodeFromLink] = useState(() => /^[A-Z0-9]{6}$/.test(normalizeRoomCode(searchParams.get('code') ?? '')));
   const [nickname, setNickname] = useState('');
   const [isJoining, setIsJoining] = useState(false);
   const [error, setError] = useState('');
   const [suggestedNicknames, setSuggestedNicknames] = useState<string[]>([]);
+  const [maxCards, setMaxCards] = useState(1);
+  const [cardCount, setCardCount] = useState(1);
   const roomCodeInputRef = useRef<HTMLInputElement>(null);
+  const nicknameInputRef = useRef<HTMLInputElement>(null);
 
   // Generate random unique nicknames on component mount
   useEffect(() => {
@@ -36,19 +48,45 @@ export function JoinGame() {
     setSuggestedNicknames(shuffled.slice(0, 6));
   }, []);
 
-  // Auto-focus the room code input when component mounts
+  // Auto-focus the room code input, or the nickname when a link brought the code
   useEffect(() => {
-    if (roomCodeInputRef.current) {
+    if (codeFromLink) {
+      nicknameInputRef.current?.focus();
+    } else if (roomCodeInputRef.current) {
       roomCodeInputRef.current.focus();
     }
-  }, []);
+  }, [codeFromLink]);
 
   const isValidRoomCode = (code: string) => {
     return code.length === 6 && /^[A-Z0-9]+$/.test(code);
   };
 
+  // Look up the room's card limit once a full code has been entered
+  useEffect(() => {
+    if (!/^[A-Z0-9]{6}$/.test(roomCode)) {
+      setMaxCards(1);
+      return;
+    }
+
+    let cancelled = false;
+    backend.getRoomByCode(roomCode)
+      .then(room => {
+        if (cancelled) return;
+        const limit = getMaxCardsPerPlayer(room?.config);
+        setMaxCards(limit);
+        setCardCount(count => Math.min(count, limit));
+      })
+      .catch(() => {
+        // Silent error handling - joining reports a missing room
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomCode]);
+
   const handleRoomCodeChange = (value: string) => {
-    const upperValue = value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    const upperValue = normalizeRoomCode(value);
     if (upperValue.length <= 6) {
       setRoomCode(upperValue);
       setError('');
@@ -83,7 +121,7 @@ export function JoinGame() {
       console.log('🚪 Attempting to join room:', roomCode, 'as:', nickname.trim());
       
       // Join room via Supabase
-      const player = await SupabaseService.joinRoom(roomCode, nickname.trim());
+      const player = await backend.joinRoom(roomCode, nickname.trim(), Math.min(cardCount, maxCards));
       console.log('✅ Successfully joined room, player:', player);
       
       // Store player ID in session storage for this tab
@@ -132,41 +170,58 @@ export function JoinGame() {
               Join a MYNGO Game
             </h1>
             <p className="text-white/70 px-4 leading-relaxed">
-              Enter the room code shared by your host
+              {codeFromLink ? 'Pick a nickname to join' : 'Enter the room code shared by your host'}
             </p>
           </div>
 
           <GlassCard className="p-8 space-y-6">
-            {/* Room Code Input */}
+            {/* Room Code Input - a join link skips straight to the nickname */}
             <div>
-              <label className="block text-white font-medium mb-3">
-                Room Code
-              </label>
-              <input
-                ref={roomCodeInputRef}
-                type="text"
-                value={roomCode}
-                onChange={(e) => handleRoomCodeChange(e.target.value)}
-                placeholder="Enter 6-character code"
-                className={`
-                  w-full px-4 py-3 bg-white/10 border rounded-lg text-white text-center text-2xl font-mono tracking-widest
-                  focus:outline-none focus:ring-2 transition-all duration-200
-                  ${isValidRoomCode(roomCode) 
-                    ? 'border-green-500/50 focus:ring-green-500/50 bg-green-500/10' 
-                    : 'border-white/20 focus:ring-purple-500/50'
-                  }
-                `}
-                maxLength={6}
-                autoFocus
-              />
-              {roomCode && (
-                <div className="mt-2 text-center">
-                  {isValidRoomCode(roomCode) ? (
-                    <span className="text-green-400 text-sm">✓ Valid format</span>
-                  ) : (
-                    <span className="text-yellow-400 text-sm">Enter 6 characters</span>
-                  )}
+              {codeFromLink ? (
+                <div className="flex items-center justify-between bg-green-500/10 border border-green-500/30 rounded-lg px-4 py-3">
+                  <div>
+                    <div className="text-white/70 text-sm">Joining room</div>
+                    <div className="text-white text-2xl font-mono font-bold tracking-widest">{roomCode}</div>
+                  </div>
+                  <button
+                    onClick={() => setCodeFromLink(false)}
+                    className="text-purple-300 hover:text-purple-200 text-sm underline"
+                  >
+                    Change
+                  </button>
                 </div>
+              ) : (
+                <>
+                  <label className="block text-white font-medium mb-3">
+                    Room Code
+                  </label>
+                  <input
+                    ref={roomCodeInputRef}
+                    type="text"
+                    value={roomCode}
+                    onChange={(e) => handleRoomCodeChange(e.target.value)}
+                    placeholder="Enter 6-character code"
+                    className={`
+                      w-full px-4 py-3 bg-white/10 border rounded-lg text-white text-center text-2xl font-mono tracking-widest
+                      focus:outline-none focus:ring-2 transition-all duration-200
+                      ${isValidRoomCode(roomCode) 
+                        ? 'border-green-500/50 focus:ring-green-500/50 bg-green-500/10' 
+                        : 'border-white/20 focus:ring-purple-500/50'
+                      }
+                    `}
+                    maxLength={6}
+                    autoFocus
+                  />
+                  {roomCode && (
+                    <div className="mt-2 text-center">
+                      {isValidRoomCode(roomCode) ? (
+                        <span className="text-green-400 text-sm">✓ Valid format</span>
+                      ) : (
+                        <span className="text-yellow-400 text-sm">Enter 6 characters</span>
+                      )}
+                    </div>
+                  )}
+                </>
               )}
             </div>
 
@@ -176,6 +231,7 @@ export function JoinGame() {
                 Choose Your Nickname ({nickname.length}/20)
               </label>
               <input
+                ref={nicknameInputRef}
                 type="text"
                 value={nickname}
                 onChange={(e) => handleNicknameChange(e.target.value)}
@@ -207,6 +263,33 @@ export function JoinGame() {
               </div>
             </div>
 
+            {/* Card Count - only when the host allows more than one */}
+            {maxCards > 1 && (
+              <div>
+                <label className="block text-white font-medium mb-3">
+                  How many cards?
+                </label>
+                <div className="grid grid-cols-4 gap-2">
+                  {Array.from({ length: maxCards }, (_, index) => index + 1).map(count => (
+                    <button
+                      key={count}
+                      onClick={() => setCardCount(count)}
+                      className={`px-3 py-2 rounded-lg border text-sm font-semibold transition-all duration-200 ${
+                        cardCount === count
+                          ? 'bg-purple-500/30 border-purple-400 text-white'
+                          : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10 hover:border-white/20'
+                      }`}
+                    >
+                      {count} {count === 1 ? 'card' : 'cards'}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-white/50 text-xs mt-2">
+                  The host allows up to {maxCards} cards per player. Each card is marked and claimed on its own.
+                </p>
+              </div>
+            )}
+
             {/* Error Message */}
             {error && (
               <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-3">
@@ -225,7 +308,7 @@ export function JoinGame() {
               {isJoining ? (
                 <div className="flex items-center gap-3">
                   <LoadingSpinner size="sm" />
-                  <span>Generating your card...</span>
+                  <span>{cardCount > 1 ? 'Generating your cards...' : 'Generating your card...'}</span>
                 </div>
               ) : (
                 'Join Game'
@@ -243,7 +326,7 @@ export function JoinGame() {
                   <li className="leading-relaxed">• We'll generate your unique MYNGO card</li>
                   <li className="leading-relaxed">• You'll join the game room with other players</li>
                   <li className="leading-relaxed">• Mark numbers as they're called by the host</li>
-                  <li className="leading-relaxed">• First to complete a horizontal, vertical, or diagonal row wins!</li>
+                  <li className="leading-relaxed">• First to complete the host's winning pattern wins!</li>
                 </ul>
               </div>
             </div>
@@ -6,7 +6,7 @@ import { useNavigate } from 'react-router-dom';
 import { FloatingBubbles } from '../components/ui/floating-bubbles';
 import { GlassCard } from '../components/ui/glass-card';
 import { GradientButton } from '../components/ui/gradient-button';
-import { SupabaseService } from '../lib/supabase-service';
+import { backend } from '../lib/backend';
 import { Play, Users, Target, BarChart3, ExternalLink } from 'lucide-react';
 
 export function LandingPage() {
@@ -39,14 +39,14 @@ export function LandingPage() {
         // Run cleanup operations before loading stats
         console.log('🧹 Running cleanup operations...');
         await Promise.all([
-          SupabaseService.cleanupDemoGames(),
-          SupabaseService.closeInactiveRooms(),
-          SupabaseService.cancelGamesWithInactiveHosts()
+          backend.cleanupDemoGames(),
+          backend.closeInactiveRooms(),
+          backend.cancelGamesWithInactiveHosts()
         ]);
         console.log('✅ Cleanup operations completed');
         
         // Load fresh stats after cleanup
-        const stats = await SupabaseService.getGameStats();
+        const stats = await backend.getGameStats();
         setGameStats(stats);
       } catch (error) {
         console.error('Failed to load game stats or run cleanup:', error);
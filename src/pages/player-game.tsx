@@ -1,35 +1,73 @@
 // Player Game Page - Interactive MYNGO gameplay interface with real-time updates
-// Updated: Removed all console.log statements for production readiness
+// Updated: Game events play the player's sound pack
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { MyngoCard } from '../components/myngo/myngo-card';
 import { CalledNumbersPanel } from '../components/myngo/called-numbers-panel';
+import { PrizeLadder } from '../components/myngo/prize-ladder';
+import { FairnessPanel } from '../components/myngo/fairness-panel';
+import { RejoinPanel } from '../components/myngo/rejoin-panel';
+import { AnnouncerPanel } from '../components/myngo/announcer-panel';
+import { SoundPanel } from '../components/myngo/sound-panel';
 import { GlassCard } from '../components/ui/glass-card';
 import { GradientButton } from '../components/ui/gradient-button';
 import { StatusBar } from '../components/ui/status-bar';
 import { useMyngoRoom } from '../hooks/use-myngo-room';
-import { SupabaseService } from '../lib/supabase-service';
-import { checkWin } from '../utils/myngo-utils';
-import { Wifi, WifiOff, Users, Trophy, X } from 'lucide-react';
+import { useNextCallCountdown } from '../hooks/use-next-call-countdown';
+import { useCallAnnouncer } from '../hooks/use-call-announcer';
+import { useCallSounds } from '../hooks/use-game-sounds';
+import { backend } from '../lib/backend';
+import { findRejoinDetails, getRejoinDetails, readRejoinFromHash } from '../lib/player-credentials';
+import { HOST_RECONNECT_GRACE_MINUTES, checkWin, getPlayerCards, hasTooManyFalseMarks, isCloseToWin } from '../utils/myngo-utils';
+import { getCardKey } from '../utils/fairness';
+import { getRoomWinPattern, getRoomPrizes, getCurrentPrizeIndex, getPrizeWinners, getLatestPrizeWin } from '../utils/win-patterns';
+import { Wifi, WifiOff, Users, Trophy, X, Smartphone } from 'lucide-react';
 import confetti from 'canvas-confetti';
 
+// Same marks on every card, ignoring the order they were made in
+function sameMarks(a: number[][], b: number[][]): boolean {
+  return a.length === b.length && a.every((marks, index) => {
+    const other = new Set(b[index]);
+    return marks.length === other.size && marks.every(number => other.has(number));
+  });
+}
+
 export function PlayerGame() {
   const { roomCode } = useParams<{ roomCode: string }>();
   const navigate = useNavigate();
   
   const { room, players, calledNumbers, loading, error, isConnected, hostDisconnected, isGameActive, gameFinished } = useMyngoRoom(roomCode!);
+  const nextCallCountdown = useNextCallCountdown(room?.next_call_at);
+  const { settings: announcerSettings, updateSettings: updateAnnouncerSettings } = useCallAnnouncer(calledNumbers, 'player', !loading);
+  const playSound = useCallSounds(calledNumbers, nextCallCountdown, !loading);
   const [playerId, setPlayerId] = useState<string | null>(null);
   const [currentPlayer, setCurrentPlayer] = useState<any>(null);
-  const [markedNumbers, setMarkedNumbers] = useState<number[]>([]);
+  // Marks per card, indexed like getPlayerCards() - updated optimistically
+  const [cardMarks, setCardMarks] = useState<number[][]>([]);
   const [showMobileNumbers, setShowMobileNumbers] = useState(false);
-  const [hasWon, setHasWon] = useState(false);
   const [confettiTriggered, setConfettiTriggered] = useState(false);
   const [gameCancelled, setGameCancelled] = useState(false);
   const [isLeavingGame, setIsLeavingGame] = useState(false);
   const [hasSetupCleanup, setHasSetupCleanup] = useState(false);
   const [presenceChannel, setPresenceChannel] = useState<any>(null);
   const [gameStats, setGameStats] = useState<any>(null);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [claimRejection, setClaimRejection] = useState<string | null>(null);
+  const [refusedMarks, setRefusedMarks] = useState<number[]>([]);
+  const [autoDaub, setAutoDaub] = useState(false);
+  const [autoClaim, setAutoClaim] = useState(false);
+  // No session in this tab - the player can reopen their card with a PIN
+  const [needsRejoin, setNeedsRejoin] = useState(false);
+  const [rejoinName, setRejoinName] = useState('');
+  const [rejoinPin, setRejoinPin] = useState('');
+  const [rejoinError, setRejoinError] = useState<string | null>(null);
+  const [isRejoining, setIsRejoining] = useState(false);
+  // The card was reopened on another device, so this tab can't play it any more
+  const [playingElsewhere, setPlayingElsewhere] = useState(false);
+  const autoClaimAttemptRef = useRef<string | null>(null);
+  const calledSetRef = useRef<Set<number> | null>(null);
+  const celebratedPrizeRef = useRef<string | null | undefined>(undefined);
 
   // Define leaveGame function early to prevent reference errors
   const leaveGame = useCallback(async () => {
@@ -38,7 +76,7 @@ export function PlayerGame() {
     // Clean up presence tracking first
     if (presenceChannel && currentPlayer) {
       try {
-        await SupabaseService.untrackPlayerPresence(presenceChannel, currentPlayer.id);
+        await backend.untrackPlayerPresence(presenceChannel, currentPlayer.id);
       } catch (error) {
         // Silent error handling
       }
@@ -46,7 +84,7 @@ export function PlayerGame() {
     
     if (playerId) {
       try {
-        await SupabaseService.removePlayer(playerId);
+        await backend.removePlayer(playerId);
       } catch (error) {
         // Silent error handling
       }
@@ -60,23 +98,54 @@ export function PlayerGame() {
     navigate('/');
   }, [playerId, roomCode, navigate, presenceChannel, currentPlayer]);
 
-  // Get or create player ID for this browser tab - only run once
+  // Reopen a card with its nickname and PIN - the device that had it loses it
+  const rejoin = useCallback(async (name: string, pin: string) => {
+    if (!roomCode) return;
+
+    setIsRejoining(true);
+    setRejoinError(null);
+
+    try {
+      const player = await backend.rejoinRoom(roomCode, name.trim(), pin.trim());
+      sessionStorage.setItem(`myngo_player_${roomCode}`, player.id);
+      setPlayerId(player.id);
+      setNeedsRejoin(false);
+      setPlayingElsewhere(false);
+    } catch (err) {
+      setRejoinName(name);
+      setRejoinPin(pin);
+      setRejoinError(err instanceof Error ? err.message : 'Could not rejoin this game');
+      setNeedsRejoin(true);
+    } finally {
+      setIsRejoining(false);
+    }
+  }, [roomCode]);
+
+  // Get the player ID for this browser tab - only run once
   useEffect(() => {
     if (!roomCode) return;
+
+    // Rejoin links carry the nickname and PIN in the fragment - use them,
+    // then drop them from the address bar so they aren't shared by accident
+    const linkRejoin = readRejoinFromHash(window.location.hash);
+    if (linkRejoin) {
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      rejoin(linkRejoin.name, linkRejoin.pin);
+      return;
+    }
     
     const tabPlayerId = sessionStorage.getItem(`myngo_player_${roomCode}`);
     
     if (tabPlayerId) {
       setPlayerId(tabPlayerId);
     } else {
-      // Small delay before redirecting to allow for any async operations
-      const timer = setTimeout(() => {
-        navigate('/join');
-      }, 1000);
-      
-      return () => clearTimeout(timer);
+      // Offer to rejoin, filled in with this browser's last card in the room
+      const [saved] = findRejoinDetails(roomCode);
+      setRejoinName(saved?.name ?? '');
+      setRejoinPin(saved?.pin ?? '');
+      setNeedsRejoin(true);
     }
-  }, [roomCode, navigate]);
+  }, [roomCode, rejoin]);
 
   // Find current player based on stored player ID - memoized to prevent unnecessary recalculations
   const foundPlayer = useMemo(() => {
@@ -85,11 +154,16 @@ export function PlayerGame() {
     return players.find(p => p.id === playerId) || null;
   }, [playerId, players]);
 
+  // The next-call countdown doubles as the wait after a rejected claim
+  const claimLockCountdown = useNextCallCountdown(foundPlayer?.claim_locked_until);
+
   // Update current player when found player changes
   useEffect(() => {
     if (foundPlayer && (!currentPlayer || currentPlayer.id !== foundPlayer.id)) {
       setCurrentPlayer(foundPlayer);
-      setMarkedNumbers(foundPlayer.marked_numbers || []);
+      setCardMarks(getPlayerCards(foundPlayer).map(playerCard => playerCard.markedNumbers));
+      setAutoDaub(!!foundPlayer.auto_daub);
+      setAutoClaim(!!foundPlayer.auto_claim);
     } else if (!foundPlayer && playerId && players.length > 0) {
       // Don't immediately redirect, wait a bit for real-time updates
       const timer = setTimeout(() => {
@@ -104,41 +178,73 @@ export function PlayerGame() {
     }
   }, [foundPlayer, currentPlayer, playerId, players, roomCode, navigate]);
 
-  // Synchronize markedNumbers with currentPlayer updates from real-time subscriptions
+  // A rejoin anywhere stamps rejoined_at - if it wasn't this tab, its token
+  // has been replaced and the card now belongs to the other device
   useEffect(() => {
-    if (!currentPlayer?.marked_numbers) return;
-    
-    // Only update if the arrays are actually different
-    const currentMarkedSet = new Set(markedNumbers);
-    const playerMarkedSet = new Set(currentPlayer.marked_numbers);
-    
-    const isDifferent = currentMarkedSet.size !== playerMarkedSet.size || 
-      [...currentMarkedSet].some(num => !playerMarkedSet.has(num)) ||
-      [...playerMarkedSet].some(num => !currentMarkedSet.has(num));
-    
-    if (isDifferent) {
-      setMarkedNumbers(currentPlayer.marked_numbers);
-    }
-  }, [currentPlayer?.marked_numbers, currentPlayer?.id]);
+    if (!playerId || !foundPlayer?.rejoined_at) return;
 
-  // Check for win whenever marked numbers change - use callback to prevent recreation
-  const checkForWin = useCallback(() => {
-    if (!currentPlayer?.card || markedNumbers.length === 0) return;
-    
-    try {
-      const winCheck = checkWin(currentPlayer.card, markedNumbers);
-      
-      if (winCheck.hasWin && !hasWon) {
-        setHasWon(true);
-      }
-    } catch (error) {
-      // Silent error handling
+    let cancelled = false;
+    backend.verifyPlayer(playerId)
+      .then(stillPlaying => {
+        if (!cancelled && !stillPlaying) setPlayingElsewhere(true);
+      })
+      .catch(() => {
+        // Silent error handling
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [playerId, foundPlayer?.rejoined_at]);
+
+  const rejoinDetails = useMemo(() => (playerId ? getRejoinDetails(playerId) : null), [playerId]);
+
+  // Stop watching a card that moved to another device, without removing the player
+  const leaveForOtherDevice = useCallback(() => {
+    if (roomCode) {
+      sessionStorage.removeItem(`myngo_player_${roomCode}`);
     }
-  }, [currentPlayer?.card, currentPlayer?.name, markedNumbers, hasWon]);
+    navigate('/');
+  }, [roomCode, navigate]);
 
+  // Synchronize card marks with currentPlayer updates from real-time subscriptions
   useEffect(() => {
-    checkForWin();
-  }, [checkForWin]);
+    if (!currentPlayer?.marked_numbers) return;
+
+    // Only update if the marks are actually different
+    const playerMarks = getPlayerCards(currentPlayer).map(playerCard => playerCard.markedNumbers);
+    setCardMarks(current => (sameMarks(current, playerMarks) ? current : playerMarks));
+  }, [currentPlayer]);
+
+  const winPattern = useMemo(() => getRoomWinPattern(room?.config), [room?.config]);
+  const prizes = useMemo(() => getRoomPrizes(room?.config), [room?.config]);
+  const currentPrizeIndex = getCurrentPrizeIndex(room?.config);
+  const prizeWinners = useMemo(() => getPrizeWinners(prizes, players), [prizes, players]);
+
+  // The player's cards with their latest local marks
+  const playerCards = useMemo(() => {
+    if (!currentPlayer?.card) return [];
+    return getPlayerCards(currentPlayer).map(playerCard => ({
+      ...playerCard,
+      markedNumbers: cardMarks[playerCard.index] ?? playerCard.markedNumbers
+    }));
+  }, [currentPlayer, cardMarks]);
+
+  // Check each card against the prize currently in play - re-evaluated when
+  // marks change or the room moves on to the next prize
+  const winningCards = useMemo(() => {
+    return new Set(playerCards
+      .filter(playerCard => {
+        if (playerCard.markedNumbers.length === 0) return false;
+        try {
+          return checkWin(playerCard.card, playerCard.markedNumbers, winPattern).hasWin;
+        } catch (error) {
+          // Silent error handling
+          return false;
+        }
+      })
+      .map(playerCard => playerCard.index));
+  }, [playerCards, winPattern]);
 
   // Set up browser navigation cleanup - only once per session
   useEffect(() => {
@@ -146,40 +252,20 @@ export function PlayerGame() {
     
     setHasSetupCleanup(true);
     
+    // Closing or hiding the tab no longer removes the player directly - the
+    // card has to survive for the player to rejoin it on another device
     const handleBeforeUnload = () => {
-      // Use sendBeacon for more reliable cleanup on page unload
-      if (navigator.sendBeacon && playerId) {
-        const formData = new FormData();
-        formData.append('action', 'remove_player');
-        formData.append('playerId', playerId);
-        navigator.sendBeacon('/cleanup', formData);
-      }
-      
-      // Also try direct cleanup (may not complete before page unloads)
-      try {
-        SupabaseService.removePlayer(playerId).catch(() => {});
-      } catch (error) {
-        // Silent error handling
-      }
-    };
-    
-    const handleVisibilityChange = () => {
-      if (document.hidden) {
-        // Set a timer to clean up if page stays hidden
-        setTimeout(() => {
-          if (document.hidden && playerId) {
-            SupabaseService.removePlayer(playerId).catch(() => {});
-          }
-        }, 30000); // 30 second delay
+      // Marks the player disconnected; the grace period removes them if they
+      // don't come back
+      if (playerId) {
+        backend.sendPlayerLeaving(playerId);
       }
     };
     
     window.addEventListener('beforeunload', handleBeforeUnload);
-    document.addEventListener('visibilitychange', handleVisibilityChange);
     
     return () => {
       window.removeEventListener('beforeunload', handleBeforeUnload);
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
   }, [playerId, roomCode, hasSetupCleanup]);
 
@@ -189,7 +275,7 @@ export function PlayerGame() {
     
     const setupPresence = async () => {
       try {
-        const channel = await SupabaseService.trackPlayerPresence(
+        const channel = await backend.trackPlayerPresence(
           room.id,
           currentPlayer.id,
           currentPlayer.name
@@ -205,75 +291,182 @@ export function PlayerGame() {
     
     return () => {
       if (presenceChannel && currentPlayer) {
-        SupabaseService.untrackPlayerPresence(presenceChannel, currentPlayer.id).catch(() => {});
+        backend.untrackPlayerPresence(presenceChannel, currentPlayer.id).catch(() => {});
       }
     };
   }, [currentPlayer?.id, room?.id]);
 
   // Check if game was cancelled
   useEffect(() => {
-    // Only show cancellation modal for actual cancellations, not finished games
+    // Only show cancellation modal for actual cancellations, not finished games.
+    // A host who lost connection only pauses the game until they are back.
     if (room?.status === 'cancelled' && !gameFinished && !gameCancelled && !isLeavingGame) {
       setGameCancelled(true);
+      playSound('gameCancelled');
     }
-    
-    // Also check for host disconnection
-    if (hostDisconnected && !gameFinished && !gameCancelled && !isLeavingGame) {
-      setGameCancelled(true);
-    }
-  }, [room?.status, gameFinished, hostDisconnected, gameCancelled, isLeavingGame]);
+  }, [room?.status, gameFinished, gameCancelled, isLeavingGame, playSound]);
 
-  const handleMarkNumber = useCallback((number: number) => {
-    if (markedNumbers.includes(number)) return;
+  const handleMarkNumber = useCallback((cardIndex: number, number: number) => {
+    const markedNumbers = playerCards[cardIndex]?.markedNumbers;
+    if (!markedNumbers || markedNumbers.includes(number)) return;
     if (!currentPlayer) return;
     
     const newMarkedNumbers = [...markedNumbers, number];
-    setMarkedNumbers(newMarkedNumbers);
+    playSound('numberMarked');
+    setCardMarks(playerCards.map(playerCard => (
+      playerCard.index === cardIndex ? newMarkedNumbers : playerCard.markedNumbers
+    )));
     
-    // Update player in Supabase
-    try {
-      SupabaseService.updatePlayerMarkedNumbers(currentPlayer.id, newMarkedNumbers);
-    } catch (error) {
+    // The server only keeps called numbers - anything it refuses comes back off the card
+    backend.updatePlayerMarkedNumbers(currentPlayer.id, newMarkedNumbers, cardIndex).then(rejected => {
+      if (rejected.length === 0) return;
+      setCardMarks(current => current.map((marks, index) => (
+        index === cardIndex ? marks.filter(marked => !rejected.includes(marked)) : marks
+      )));
+      setRefusedMarks(rejected);
+    }).catch(() => {
       // Silent error handling
-    }
-  }, [markedNumbers, currentPlayer]);
+    });
+  }, [playerCards, currentPlayer, playSound]);
 
-  const handleWin = useCallback(async () => {
-    if (!currentPlayer) return;
+  const handleWin = useCallback(async (cardIndex: number) => {
+    if (!currentPlayer || isClaiming) return;
 
-    // Celebrate with confetti
-    confetti({
-      particleCount: 100,
-      spread: 70,
-      origin: { y: 0.6 }
-    });
+    setIsClaiming(true);
+    setClaimRejection(null);
 
     try {
-      // Mark player as winner in Supabase
-      await SupabaseService.markPlayerAsWinner(currentPlayer.id, room?.id || '');
-      
+      // The server re-checks this card before anyone is declared winner
+      const claim = await backend.claimWin(currentPlayer.id, room?.id || '', cardIndex);
+
+      // A manual-claims room waits for the host before declaring anyone
+      if (claim.pending) return;
+
+      if (!claim.accepted) {
+        setClaimRejection(claim.reason || 'Your claim could not be verified');
+        return;
+      }
+
+      // Celebrate with confetti
+      confetti({
+        particleCount: 100,
+        spread: 70,
+        origin: { y: 0.6 }
+      });
+
       // Don't auto-navigate after winning - let players stay and see the celebration
     } catch (error) {
-      // Silent error handling
+      // Claims need this tab's player token - a rejoin elsewhere replaced it
+      const stillPlaying = await backend.verifyPlayer(currentPlayer.id).catch(() => true);
+      if (!stillPlaying) {
+        setPlayingElsewhere(true);
+        return;
+      }
+      setClaimRejection('Could not reach the server to verify your claim. Please try again.');
+    } finally {
+      setIsClaiming(false);
     }
-  }, [currentPlayer, navigate]);
+  }, [currentPlayer, room?.id, isClaiming]);
 
-  // Find winner - memoized to prevent unnecessary recalculations
-  const winner = useMemo(() => {
-    const winnerPlayer = players.find(p => p.is_winner === true);
-    return winnerPlayer;
-  }, [players]);
+  // Winners of the final prize end the game - memoized to prevent unnecessary recalculations
+  const finalWinners = useMemo(() => {
+    return prizeWinners[prizeWinners.length - 1]?.winners ?? [];
+  }, [prizeWinners]);
+
+  const winner = finalWinners[0];
 
   const isCurrentPlayerWinner = useMemo(() => {
-    const isWinner = currentPlayer && (currentPlayer.is_winner === true || hasWon);
-    return isWinner;
-  }, [currentPlayer, hasWon]);
+    return !!currentPlayer && finalWinners.some(p => p.id === currentPlayer.id);
+  }, [currentPlayer, finalWinners]);
+
+  const gameHasWinner = finalWinners.length > 0;
+
+  // Claims the host is checking, and whether this player may claim right now
+  const pendingClaims = room?.config?.pendingClaims ?? [];
+  const hasPendingClaim = pendingClaims.some(claim => claim.playerId === playerId);
+  const isClaimLocked = !!claimLockCountdown;
+  const claimsDisabled = hasTooManyFalseMarks(foundPlayer, room?.config);
+  const canClaim = !gameHasWinner && !isClaiming && !hasPendingClaim && !isClaimLocked && !claimsDisabled;
+
+  // The player's own cards, checked against the seed once it is revealed
+  const ownCards = useMemo(() => {
+    return currentPlayer
+      ? playerCards.map(playerCard => ({
+          playerId: getCardKey(currentPlayer.id, playerCard.index),
+          card: playerCard.card,
+          deal: playerCard.deal
+        }))
+      : [];
+  }, [currentPlayer, playerCards]);
+
+  // Auto-daub only runs while the host allows it
+  const allowAutoDaub = room?.config?.allowAutoDaub ?? false;
+  const autoDaubActive = allowAutoDaub && autoDaub;
+
+  const handleAutoDaubChange = useCallback((nextAutoDaub: boolean, nextAutoClaim: boolean) => {
+    if (!currentPlayer) return;
+
+    const nextClaim = nextAutoDaub && nextAutoClaim;
+    setAutoDaub(nextAutoDaub);
+    setAutoClaim(nextClaim);
+
+    backend.updatePlayerAutoDaub(currentPlayer.id, nextAutoDaub, nextClaim).catch(() => {
+      // Silent error handling
+    });
+  }, [currentPlayer]);
 
-  // Check for any winner in the game - memoized to prevent unnecessary recalculations
-  const gameHasWinner = useMemo(() => {
-    const hasWinner = players.some(p => p.is_winner === true);
-    return hasWinner;
-  }, [players]);
+  // A call the host took back is unmarked on the server too - drop it here so
+  // the next mark doesn't send it again as a false mark
+  useEffect(() => {
+    const called = new Set(calledNumbers.map(call => call.number));
+    const previous = calledSetRef.current;
+    calledSetRef.current = called;
+    if (!previous) return;
+
+    const undone = [...previous].filter(number => !called.has(number));
+    if (undone.length === 0) return;
+    setCardMarks(current => current.map(marks => marks.filter(number => !undone.includes(number))));
+  }, [calledNumbers]);
+
+  // Auto-daub: mark every called number on the player's cards, including
+  // numbers called before it was switched on
+  useEffect(() => {
+    if (!autoDaubActive || !currentPlayer || gameHasWinner) return;
+
+    const called = new Set(calledNumbers.map(call => call.number));
+    const updatedMarks = playerCards.map(({ card, markedNumbers }) => {
+      const missing = [...card.M, ...card.Y, ...card.N, ...card.G, ...card.O]
+        .filter(number => called.has(number) && !markedNumbers.includes(number));
+      return missing.length > 0 ? [...markedNumbers, ...missing] : null;
+    });
+
+    if (updatedMarks.every(marks => marks === null)) return;
+
+    setCardMarks(playerCards.map((playerCard, index) => updatedMarks[index] ?? playerCard.markedNumbers));
+    updatedMarks.forEach((marks, index) => {
+      if (!marks) return;
+      backend.updatePlayerMarkedNumbers(currentPlayer.id, marks, index).catch(() => {
+        // Silent error handling
+      });
+    });
+  }, [autoDaubActive, currentPlayer, calledNumbers, playerCards, gameHasWinner]);
+
+  // Auto-claim: claim the first completed card once per prize, leaving the
+  // MYNGO button for a manual retry if that claim is rejected
+  useEffect(() => {
+    if (!autoDaubActive || !autoClaim || !canClaim) return;
+
+    const [cardIndex] = [...winningCards];
+    if (cardIndex === undefined) return;
+
+    const attempt = `${currentPrizeIndex}:${cardIndex}`;
+    if (autoClaimAttemptRef.current === attempt) return;
+
+    autoClaimAttemptRef.current = attempt;
+    handleWin(cardIndex);
+  }, [autoDaubActive, autoClaim, canClaim, winningCards, currentPrizeIndex, handleWin]);
+
+  const latestPrizeWin = useMemo(() => getLatestPrizeWin(prizeWinners), [prizeWinners]);
 
   // Game Cancelled Modal
   const GameCancelledModal = () => (
@@ -287,14 +480,14 @@ export function PlayerGame() {
             Game Cancelled
           </h2>
           <p className="text-white/70 text-lg">
-            {hostDisconnected ? 'The host has disconnected.' : 'The host has left the game.'}
+            The host has left the game.
           </p>
         </div>
         
         <div className="space-y-4">
           <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4">
             <p className="text-red-300 text-sm">
-              {hostDisconnected ? 'The host has lost connection. The game has been cancelled.' : 'The host has disconnected or ended the game.'} Thank you for playing MYNGO!
+              The host has disconnected or ended the game. Thank you for playing MYNGO!
             </p>
           </div>
           
@@ -311,6 +504,69 @@ export function PlayerGame() {
     </div>
   );
 
+  // Card Opened Elsewhere Modal
+  const PlayingElsewhereModal = () => (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <GlassCard className="p-8 max-w-md w-full mx-4 text-center">
+        <div className="mb-6">
+          <div className="w-16 h-16 bg-purple-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Smartphone className="w-8 h-8 text-purple-300" />
+          </div>
+          <h2 className="text-2xl font-bold text-white mb-2">
+            Playing on Another Device
+          </h2>
+          <p className="text-white/70 text-lg">
+            Your card was opened on another device, so it can't be played here any more.
+          </p>
+        </div>
+
+        {rejoinError && (
+          <p className="text-red-300 text-sm mb-4">{rejoinError}</p>
+        )}
+
+        <div className="space-y-4">
+          {rejoinDetails && (
+            <GradientButton
+              variant="purple"
+              size="lg"
+              onClick={() => rejoin(rejoinDetails.name, rejoinDetails.pin)}
+              disabled={isRejoining}
+              className="w-full"
+            >
+              {isRejoining ? 'Moving Card...' : 'Play on This Device Instead'}
+            </GradientButton>
+          )}
+          <GradientButton
+            variant="red"
+            size="lg"
+            onClick={leaveForOtherDevice}
+            className="w-full"
+          >
+            Return to Home
+          </GradientButton>
+        </div>
+      </GlassCard>
+    </div>
+  );
+
+  // Winners of every prize - only shown for staged games
+  const PrizeResults = () => {
+    if (prizes.length <= 1) return null;
+
+    return (
+      <div className="space-y-1 mb-4">
+        {prizeWinners.map(({ prize, winners }) => (
+          <div key={prize.id} className="text-white">
+            <span className="text-white/70">{prize.name}:</span>{' '}
+            <span className="font-semibold">
+              {winners.map(w => (w.id === currentPlayer?.id ? 'You' : w.name)).join(', ') || '—'}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   // Winner Announcement Component
   const WinnerAnnouncement = () => {
     if (!gameHasWinner) return null;
@@ -329,6 +585,7 @@ export function PlayerGame() {
               <h2 className="text-4xl font-bold text-white mb-4 animate-pulse">
                 🎉 Congratulations {currentPlayer?.name} YOU WIN! 🎉
               </h2>
+              <PrizeResults />
               <div className="text-white/70 text-xl font-mono tracking-wider mb-4">
                 Room: {room?.code}
               </div>
@@ -371,6 +628,7 @@ export function PlayerGame() {
               <h3 className="text-2xl font-semibold text-gray-300 mb-2">
                 🎉 {winner.name} Wins! 🎉
               </h3>
+              <PrizeResults />
               <div className="text-white/70 text-xl font-mono tracking-wider mb-4">
                 Room: {room?.code}
               </div>
@@ -450,6 +708,54 @@ export function PlayerGame() {
     }
   }, [gameHasWinner, isCurrentPlayerWinner, confettiTriggered]);
 
+  // Celebrate each earlier prize as it is won - the claimant already got
+  // confetti from their own accepted claim, and prizes won before this page
+  // loaded are not replayed
+  useEffect(() => {
+    if (loading) return;
+
+    const prizeId = latestPrizeWin?.prize.id ?? null;
+    if (celebratedPrizeRef.current === undefined) {
+      celebratedPrizeRef.current = prizeId;
+      return;
+    }
+    if (!latestPrizeWin || celebratedPrizeRef.current === prizeId) return;
+
+    celebratedPrizeRef.current = prizeId;
+    if (latestPrizeWin.winners.some(w => w.id === currentPlayer?.id)) return;
+
+    confetti({
+      particleCount: 50,
+      spread: 45,
+      origin: { y: 0.7 },
+      colors: ['#8B5CF6', '#EC4899', '#06B6D4']
+    });
+  }, [loading, latestPrizeWin, currentPlayer?.id]);
+
+  // A card one number away from the prize in play
+  const isOneAway = useMemo(() => (
+    !gameHasWinner && playerCards.some(playerCard => (
+      !winningCards.has(playerCard.index) && isCloseToWin(playerCard.card, playerCard.markedNumbers, winPattern)
+    ))
+  ), [gameHasWinner, playerCards, winningCards, winPattern]);
+  const wonPrizeCount = prizeWinners.filter(stage => stage.winners.length > 0).length;
+  // Undefined until the page has loaded, so nothing plays for the state it loaded into
+  const soundStateRef = useRef<{ isOneAway: boolean; wonPrizeCount: number } | undefined>(undefined);
+
+  useEffect(() => {
+    if (loading) return;
+
+    const previous = soundStateRef.current;
+    soundStateRef.current = { isOneAway, wonPrizeCount };
+    if (!previous) return;
+
+    if (wonPrizeCount > previous.wonPrizeCount) {
+      playSound('winClaimed');
+    } else if (isOneAway && !previous.isOneAway) {
+      playSound('oneAway');
+    }
+  }, [loading, isOneAway, wonPrizeCount, playSound]);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-cyan-900 via-cyan-800 to-purple-900 flex items-center justify-center">
@@ -476,6 +782,62 @@ export function PlayerGame() {
     );
   }
 
+  // No session in this tab - rejoin with nickname and PIN, or join afresh
+  if (needsRejoin && !playerId) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-cyan-900 via-cyan-800 to-purple-900 flex items-center justify-center p-4">
+        <GlassCard className="p-8 max-w-md w-full space-y-5">
+          <div className="text-center">
+            <Smartphone className="w-12 h-12 text-purple-300 mx-auto mb-3" />
+            <h2 className="text-2xl font-bold text-white mb-2">Rejoin Game {roomCode}</h2>
+            <p className="text-white/70 text-sm">
+              Enter your nickname and the rejoin PIN you were given when you joined to get your card back.
+            </p>
+          </div>
+
+          <input
+            type="text"
+            value={rejoinName}
+            onChange={(e) => setRejoinName(e.target.value)}
+            placeholder="Your nickname"
+            maxLength={20}
+            className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+          />
+          <input
+            type="text"
+            inputMode="numeric"
+            value={rejoinPin}
+            onChange={(e) => setRejoinPin(e.target.value.replace(/\D/g, '').slice(0, 6))}
+            placeholder="6-digit PIN"
+            className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white text-center text-2xl font-mono tracking-widest focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+          />
+
+          {rejoinError && (
+            <p className="text-red-300 text-sm text-center">{rejoinError}</p>
+          )}
+
+          <GradientButton
+            variant="purple"
+            size="lg"
+            onClick={() => rejoin(rejoinName, rejoinPin)}
+            disabled={isRejoining || !rejoinName.trim() || rejoinPin.length !== 6}
+            className="w-full"
+          >
+            {isRejoining ? 'Rejoining...' : 'Rejoin Game'}
+          </GradientButton>
+          <GradientButton
+            variant="cyan"
+            size="md"
+            onClick={() => navigate('/join')}
+            className="w-full"
+          >
+            Join as a New Player
+          </GradientButton>
+        </GlassCard>
+      </div>
+    );
+  }
+
   // If no current player yet, show loading
   if (!currentPlayer) {
     return (
@@ -599,26 +961,207 @@ export function PlayerGame() {
           isGameActive={isGameActive}
           isAutoCalling={room?.config?.autoCall?.enabled ?? false}
           autoCallFrequency={room?.config?.callFrequency}
-          isHostDisconnected={gameCancelled || hostDisconnected}
+          nextCallIn={nextCallCountdown}
+          isHostDisconnected={hostDisconnected && !gameCancelled}
           isHostPaused={room?.config?.isPaused ?? false}
           roomStatus={room?.status}
           hasWinner={gameHasWinner}
         />
+        {hostDisconnected && !gameCancelled && (
+          <p className="text-white/60 text-sm text-center mt-2">
+            Your card and marks are safe - the game carries on when the host is back. If nobody returns
+            within {HOST_RECONNECT_GRACE_MINUTES} minutes, it is cancelled.
+          </p>
+        )}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
         {/* MYNGO Card - Main Area */}
         <div className="lg:col-span-3 flex justify-center">
           <div className="flex flex-col items-center w-full">
-            <MyngoCard
-              card={currentPlayer.card}
-              markedNumbers={markedNumbers}
-              calledNumbers={calledNumbers.map(c => c.number)}
-              onMarkNumber={handleMarkNumber}
-              canMark={!gameHasWinner}
-              showWinButton={hasWon && !gameHasWinner}
-              onWin={handleWin}
-            />
+            {/* Rejected Claim Notice */}
+            {/* Prize Won Notice - play continues for the next prize */}
+            {latestPrizeWin && !gameHasWinner && (
+              <div className="w-full max-w-xs sm:max-w-sm md:max-w-lg lg:max-w-xl mb-4 bg-green-500/20 border border-green-500/30 rounded-xl p-4 text-center">
+                <p className="text-green-300 font-semibold">
+                  {latestPrizeWin.winners.some(w => w.id === currentPlayer.id)
+                    ? `🎉 You won ${latestPrizeWin.prize.name}!`
+                    : `🎉 ${latestPrizeWin.winners.map(w => w.name).join(', ')} won ${latestPrizeWin.prize.name}!`}
+                </p>
+                <p className="text-green-200/80 text-sm mt-1">
+                  Keep playing - next up: {prizes[currentPrizeIndex].name} ({winPattern.name})
+                </p>
+              </div>
+            )}
+
+            {/* Claims Being Checked - the game is paused until the host decides */}
+            {pendingClaims.length > 0 && !gameHasWinner && (
+              <div className="w-full max-w-xs sm:max-w-sm md:max-w-lg lg:max-w-xl mb-4 bg-cyan-500/20 border border-cyan-500/30 rounded-xl p-4 text-center">
+                <p className="text-cyan-200 font-semibold">
+                  {hasPendingClaim
+                    ? 'Your MYNGO is waiting for the host to check your card'
+                    : `The host is checking ${pendingClaims.map(claim => claim.playerName).join(', ')}'s MYNGO`}
+                </p>
+                <p className="text-cyan-100/70 text-sm mt-1">The game is paused until the claim is decided.</p>
+              </div>
+            )}
+
+            {claimRejection && !gameHasWinner && (
+              <div className="w-full max-w-xs sm:max-w-sm md:max-w-lg lg:max-w-xl mb-4 bg-red-500/20 border border-red-500/30 rounded-xl p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="text-red-300 font-semibold">MYNGO claim rejected</p>
+                    <p className="text-red-200/80 text-sm mt-1">{claimRejection}</p>
+                  </div>
+                  <button
+                    onClick={() => setClaimRejection(null)}
+                    className="text-red-300/70 hover:text-red-200 transition-colors"
+                  >
+                    <X className="w-5 h-5" />
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {refusedMarks.length > 0 && !gameHasWinner && (
+              <div className="w-full max-w-xs sm:max-w-sm md:max-w-lg lg:max-w-xl mb-4 bg-red-500/20 border border-red-500/30 rounded-xl p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="text-red-300 font-semibold">
+                      {refusedMarks.join(', ')} {refusedMarks.length === 1 ? "hasn't" : "haven't"} been called
+                    </p>
+                    <p className="text-red-200/80 text-sm mt-1">
+                      The mark was taken off your card. Your host can see marks on numbers that weren't called.
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setRefusedMarks([])}
+                    className="text-red-300/70 hover:text-red-200 transition-colors"
+                  >
+                    <X className="w-5 h-5" />
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {claimsDisabled && !gameHasWinner && (
+              <div className="w-full max-w-xs sm:max-w-sm md:max-w-lg lg:max-w-xl mb-4 bg-orange-500/20 border border-orange-500/30 rounded-xl p-3 text-center">
+                <p className="text-orange-200 text-sm">
+                  MYNGO claims are switched off for you after {foundPlayer?.false_marks} marks on numbers that weren't called
+                </p>
+              </div>
+            )}
+
+            {isClaimLocked && !gameHasWinner && (
+              <div className="w-full max-w-xs sm:max-w-sm md:max-w-lg lg:max-w-xl mb-4 bg-orange-500/20 border border-orange-500/30 rounded-xl p-3 text-center">
+                <p className="text-orange-200 text-sm">
+                  After a rejected claim you can call MYNGO again in {claimLockCountdown}s
+                </p>
+              </div>
+            )}
+
+            {allowAutoDaub && !gameHasWinner && (
+              <GlassCard className="w-full max-w-xs sm:max-w-sm md:max-w-lg lg:max-w-xl mb-4 p-4">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                  <label className="flex items-center gap-3 text-white text-sm font-medium cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={autoDaub}
+                      onChange={(e) => handleAutoDaubChange(e.target.checked, autoClaim)}
+                      className="w-5 h-5 text-purple-500 rounded focus:ring-purple-500"
+                    />
+                    Auto-daub called numbers
+                  </label>
+                  <label className={`flex items-center gap-3 text-sm font-medium ${autoDaub ? 'text-white cursor-pointer' : 'text-white/40'}`}>
+                    <input
+                      type="checkbox"
+                      checked={autoClaim}
+                      disabled={!autoDaub}
+                      onChange={(e) => handleAutoDaubChange(autoDaub, e.target.checked)}
+                      className="w-5 h-5 text-purple-500 rounded focus:ring-purple-500"
+                    />
+                    Claim wins automatically
+                  </label>
+                </div>
+                {autoDaub && (
+                  <p className="text-white/50 text-xs mt-2">
+                    Your host will see that you played with auto-daub.
+                  </p>
+                )}
+              </GlassCard>
+            )}
+
+            {playerCards.length === 1 ? (
+              <MyngoCard
+                card={playerCards[0].card}
+                markedNumbers={playerCards[0].markedNumbers}
+                calledNumbers={calledNumbers.map(c => c.number)}
+                onMarkNumber={number => handleMarkNumber(0, number)}
+                canMark={!gameHasWinner}
+                showWinButton={winningCards.has(0) && canClaim}
+                onWin={() => handleWin(0)}
+                winPattern={winPattern}
+              />
+            ) : (
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 w-full">
+                {playerCards.map(playerCard => (
+                  <div key={playerCard.index} className="flex flex-col items-center gap-2">
+                    <div className="text-white/70 text-sm font-semibold">
+                      Card {playerCard.index + 1} of {playerCards.length}
+                    </div>
+                    <MyngoCard
+                      card={playerCard.card}
+                      markedNumbers={playerCard.markedNumbers}
+                      calledNumbers={calledNumbers.map(c => c.number)}
+                      onMarkNumber={number => handleMarkNumber(playerCard.index, number)}
+                      canMark={!gameHasWinner}
+                      showWinButton={winningCards.has(playerCard.index) && canClaim}
+                      onWin={() => handleWin(playerCard.index)}
+                      winPattern={winPattern}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {prizes.length > 1 && (
+              <PrizeLadder
+                prizes={prizes}
+                currentIndex={currentPrizeIndex}
+                players={players}
+                gameOver={gameHasWinner}
+                highlightPlayerId={currentPlayer.id}
+                className="w-full max-w-xs sm:max-w-sm md:max-w-lg lg:max-w-xl mt-6"
+              />
+            )}
+
+            {room && (
+              <FairnessPanel
+                room={room}
+                cards={ownCards}
+                calledNumbers={calledNumbers}
+                className="w-full max-w-xs sm:max-w-sm md:max-w-lg lg:max-w-xl mt-6"
+              />
+            )}
+
+            {!gameHasWinner && (
+              <AnnouncerPanel
+                settings={announcerSettings}
+                onChange={updateAnnouncerSettings}
+                className="w-full max-w-xs sm:max-w-sm md:max-w-lg lg:max-w-xl mt-6"
+              />
+            )}
+
+            {!gameHasWinner && (
+              <SoundPanel className="w-full max-w-xs sm:max-w-sm md:max-w-lg lg:max-w-xl mt-6" />
+            )}
+
+            {rejoinDetails && !gameHasWinner && (
+              <RejoinPanel
+                rejoin={rejoinDetails}
+                className="w-full max-w-xs sm:max-w-sm md:max-w-lg lg:max-w-xl mt-6"
+              />
+            )}
 
             {/* Mobile: Show Numbers Button */}
             <div className="lg:hidden mt-6">
@@ -637,8 +1180,7 @@ export function PlayerGame() {
         <div className="hidden lg:block">
           <CalledNumbersPanel
             calledNumbers={calledNumbers}
-            playerCard={currentPlayer.card}
-            markedNumbers={markedNumbers}
+            playerCards={playerCards}
             className="h-full"
           />
         </div>
@@ -662,8 +1204,7 @@ export function PlayerGame() {
             <div className="p-4 overflow-y-auto">
               <CalledNumbersPanel
                 calledNumbers={calledNumbers}
-                playerCard={currentPlayer.card}
-                markedNumbers={markedNumbers}
+                playerCards={playerCards}
               />
             </div>
           </div>
@@ -671,7 +1212,10 @@ export function PlayerGame() {
       )}
 
       {/* Game Cancelled Modal */}
-      {(gameCancelled || hostDisconnected) && <GameCancelledModal />}
+      {gameCancelled && <GameCancelledModal />}
+
+      {/* Card Opened Elsewhere Modal */}
+      {playingElsewhere && !gameCancelled && <PlayingElsewhereModal />}
 
       {/* Powered By Footer */}
       <div className="flex flex-col items-center gap-4 mt-16">
@@ -0,0 +1,160 @@
+// Stream Overlay Page - Transparent calls and winners for OBS browser sources
+// Created: Layout, position, size and theme come from the URL
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { useMyngoRoom } from '../hooks/use-myngo-room';
+import { formatCalledNumber, getLetterColor } from '../utils/myngo-utils';
+import { getRoomPrizes, getPrizeWinners } from '../utils/win-patterns';
+
+type OverlayPart = 'ball' | 'recent' | 'winner';
+type OverlayPosition = 'top-left' | 'top' | 'top-right' | 'left' | 'center' | 'right' | 'bottom-left' | 'bottom' | 'bottom-right';
+type OverlaySize = 'sm' | 'md' | 'lg';
+type OverlayTheme = 'dark' | 'light' | 'brand';
+
+interface OverlayOptions {
+  parts: Set<OverlayPart>;
+  position: OverlayPosition;
+  size: OverlaySize;
+  theme: OverlayTheme;
+  direction: 'row' | 'column';
+  recentCount: number;
+  toastSeconds: number;
+}
+
+const OVERLAY_PARTS: OverlayPart[] = ['ball', 'recent', 'winner'];
+
+const POSITION_CLASSES: Record<OverlayPosition, string> = {
+  'top-left': 'items-start justify-start',
+  top: 'items-start justify-center',
+  'top-right': 'items-start justify-end',
+  left: 'items-center justify-start',
+  center: 'items-center justify-center',
+  right: 'items-center justify-end',
+  'bottom-left': 'items-end justify-start',
+  bottom: 'items-end justify-center',
+  'bottom-right': 'items-end justify-end'
+};
+
+const SIZE_CLASSES: Record<OverlaySize, { ball: string; letter: string; number: string; recent: string; toast: string }> = {
+  sm: { ball: 'w-20 h-20 border-4', letter: 'text-lg', number: 'text-3xl', recent: 'w-10 h-10 text-xs', toast: 'text-lg px-4 py-2' },
+  md: { ball: 'w-32 h-32 border-[6px]', letter: 'text-2xl', number: 'text-5xl', recent: 'w-14 h-14 text-sm', toast: 'text-2xl px-6 py-3' },
+  lg: { ball: 'w-48 h-48 border-8', letter: 'text-4xl', number: 'text-7xl', recent: 'w-20 h-20 text-lg', toast: 'text-4xl px-8 py-4' }
+};
+
+const THEME_CLASSES: Record<OverlayTheme, string> = {
+  dark: 'bg-black/70 text-white',
+  light: 'bg-white/90 text-gray-900',
+  brand: 'bg-gradient-to-r from-purple-600/90 to-pink-600/90 text-white'
+};
+
+function pick<T extends string>(value: string | null, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+function clampNumber(value: string | null, min: number, max: number, fallback: number): number {
+  const parsed = value === null ? NaN : parseInt(value, 10);
+  return Number.isNaN(parsed) ? fallback : Math.max(min, Math.min(max, parsed));
+}
+
+// ?show=ball,recent,winner&position=bottom-right&size=md&theme=dark
+//  &layout=row&recent=5&toast=10 - anything missing or unknown uses the default
+function readOverlayOptions(params: URLSearchParams): OverlayOptions {
+  const shown = (params.get('show') ?? OVERLAY_PARTS.join(','))
+    .split(',')
+    .map(part => part.trim())
+    .filter((part): part is OverlayPart => OVERLAY_PARTS.includes(part as OverlayPart));
+
+  return {
+    parts: new Set(shown.length > 0 ? shown : OVERLAY_PARTS),
+    position: pick(params.get('position'), Object.keys(POSITION_CLASSES) as OverlayPosition[], 'bottom-right'),
+    size: pick(params.get('size'), ['sm', 'md', 'lg'] as const, 'md'),
+    theme: pick(params.get('theme'), ['dark', 'light', 'brand'] as const, 'dark'),
+    direction: pick(params.get('layout'), ['row', 'column'] as const, 'row'),
+    recentCount: clampNumber(params.get('recent'), 1, 10, 5),
+    toastSeconds: clampNumber(params.get('toast'), 3, 60, 10)
+  };
+}
+
+export function StreamOverlay() {
+  const { roomCode } = useParams<{ roomCode: string }>();
+  const [searchParams] = useSearchParams();
+  const options = useMemo(() => readOverlayOptions(searchParams), [searchParams]);
+  // Watch only, on the same room and called numbers subscriptions as the dashboard
+  const { room, players, calledNumbers, loading } = useMyngoRoom(roomCode || '', { readOnly: true });
+
+  const prizes = useMemo(() => getRoomPrizes(room?.config), [room?.config]);
+  const prizeWinners = useMemo(() => getPrizeWinners(prizes, players), [prizes, players]);
+
+  const [toast, setToast] = useState<string | null>(null);
+  const announcedPrizesRef = useRef<Set<string> | null>(null);
+
+  // Announce each prize as it is won; wins from before the overlay loaded
+  // aren't replayed when OBS reloads the source
+  useEffect(() => {
+    if (loading) return;
+
+    const won = prizeWinners.filter(stage => stage.winners.length > 0);
+    if (announcedPrizesRef.current === null) {
+      announcedPrizesRef.current = new Set(won.map(stage => stage.prize.id));
+      return;
+    }
+
+    const newWin = won.find(stage => !announcedPrizesRef.current?.has(stage.prize.id));
+    if (!newWin) return;
+    announcedPrizesRef.current.add(newWin.prize.id);
+
+    const names = newWin.winners.map(winner => winner.name).join(', ');
+    setToast(prizes.length > 1 ? `🎉 ${names} won ${newWin.prize.name}!` : `🎉 ${names} ${newWin.winners.length === 1 ? 'wins' : 'win'} MYNGO!`);
+  }, [loading, prizeWinners, prizes.length]);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), options.toastSeconds * 1000);
+    return () => clearTimeout(timer);
+  }, [toast, options.toastSeconds]);
+
+  // Nothing is drawn until the room is there - OBS shows the feed underneath
+  if (loading || !room) return null;
+
+  const sizes = SIZE_CLASSES[options.size];
+  const latestCall = calledNumbers[0];
+  const recentCalls = calledNumbers.slice(1, options.recentCount + 1);
+  const isColumn = options.direction === 'column';
+
+  return (
+    <div className={`fixed inset-0 p-6 flex pointer-events-none ${POSITION_CLASSES[options.position]}`}>
+      <div className={`flex gap-4 ${isColumn ? 'flex-col items-center' : 'flex-row items-center'}`}>
+        {options.parts.has('ball') && latestCall && (
+          <div
+            className={`${sizes.ball} rounded-full flex flex-col items-center justify-center border-white/90 shadow-2xl text-white font-bold`}
+            style={{ background: getLetterColor(latestCall.number) }}
+          >
+            <span className={`${sizes.letter} leading-none`}>{latestCall.letter}</span>
+            <span className={`${sizes.number} leading-none`}>{latestCall.number}</span>
+          </div>
+        )}
+
+        {options.parts.has('recent') && recentCalls.length > 0 && (
+          <div className={`flex gap-2 p-2 rounded-full ${THEME_CLASSES[options.theme]} ${isColumn ? 'flex-col' : 'flex-row'}`}>
+            {recentCalls.map(call => (
+              <div
+                key={call.id}
+                className={`${sizes.recent} rounded-full flex items-center justify-center text-white font-bold`}
+                style={{ background: getLetterColor(call.number) }}
+              >
+                {formatCalledNumber(call)}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {options.parts.has('winner') && toast && (
+          <div className={`${sizes.toast} rounded-xl font-bold shadow-2xl animate-bounce ${THEME_CLASSES[options.theme]}`}>
+            {toast}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
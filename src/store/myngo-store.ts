@@ -1,8 +1,11 @@
 // MYNGO Game Store - Zustand state management for real-time game state
 // Created: Complete game state management with real-time updates
+// Updated: Sound settings are kept in the browser across games
 
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
 import { MyngoRoom, MyngoPlayer, CalledNumber, GameStats, RoomConfig } from '../types/myngo';
+import { DEFAULT_SOUND_PACK } from '../lib/sound-player';
 
 interface MyngoStore {
   // Current game state
@@ -24,6 +27,10 @@ interface MyngoStore {
   isPaused: boolean;
   roomOpen: boolean;
   soundEnabled: boolean;
+  // 0-1
+  soundVolume: number;
+  // Folder name under public/sounds
+  soundPack: string;
   
   // Actions
   setCurrentRoom: (room: MyngoRoom | null) => void;
@@ -44,6 +51,8 @@ interface MyngoStore {
   setPaused: (paused: boolean) => void;
   setRoomOpen: (open: boolean) => void;
   setSoundEnabled: (enabled: boolean) => void;
+  setSoundVolume: (volume: number) => void;
+  setSoundPack: (pack: string) => void;
   reset: () => void;
 }
 
@@ -55,7 +64,7 @@ const initialGameStats: GameStats = {
   peakPlayers: 1247
 };
 
-export const useMyngoStore = create<MyngoStore>((set) => ({
+export const useMyngoStore = create<MyngoStore>()(persist((set) => ({
   // Initial state
   currentRoom: null,
   currentPlayer: null,
@@ -73,6 +82,8 @@ export const useMyngoStore = create<MyngoStore>((set) => ({
   isPaused: false,
   roomOpen: true,
   soundEnabled: true,
+  soundVolume: 0.7,
+  soundPack: DEFAULT_SOUND_PACK,
   
   // Actions
   setCurrentRoom: (room) => set({ currentRoom: room }),
@@ -103,6 +114,8 @@ export const useMyngoStore = create<MyngoStore>((set) => ({
   setPaused: (paused) => set({ isPaused: paused }),
   setRoomOpen: (open) => set({ roomOpen: open }),
   setSoundEnabled: (enabled) => set({ soundEnabled: enabled }),
+  setSoundVolume: (volume) => set({ soundVolume: Math.max(0, Math.min(1, volume)) }),
+  setSoundPack: (pack) => set({ soundPack: pack }),
   reset: () => set({
     currentRoom: null,
     currentPlayer: null,
@@ -116,4 +129,12 @@ export const useMyngoStore = create<MyngoStore>((set) => ({
     isPaused: false,
     roomOpen: true
   })
+}), {
+  // Only the sound settings outlive a game; reset() leaves them alone
+  name: 'myngo_sound_settings',
+  partialize: (state) => ({
+    soundEnabled: state.soundEnabled,
+    soundVolume: state.soundVolume,
+    soundPack: state.soundPack
+  })
 }));
\ No newline at end of file
@@ -1,5 +1,5 @@
 // MYNGO Game Types - Core type definitions for the MYNGO real-time webinar game
-// Created: Complete type system for rooms, players, cards, and game state
+// Updated: Rooms can take their numbers from a physical ball cage
 
 export interface MyngoRoom {
   id: string;
@@ -7,10 +7,37 @@ export interface MyngoRoom {
   host_id: string;
   config: RoomConfig;
   status: 'waiting' | 'active' | 'finished' | 'cancelled';
+  // When the backend will call the next number; null unless auto-calling
+  next_call_at?: string | null;
+  // sha256 of the room's secret seed, published up front; the seed itself
+  // is only filled in once the game is finished or cancelled
+  seed_hash?: string | null;
+  seed?: string | null;
+  // The last heartbeat from any host, and since when every host has been
+  // away - the game is paused until one of them comes back
+  host_seen_at?: string | null;
+  host_away_since?: string | null;
+  // The owner's own last heartbeat; co-hosts can take over once it is old
+  owner_seen_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Who a host token belongs to - the room's owner, or a co-host they invited.
+// Co-hosts share the controls; only the owner can cancel or end the game.
+export type HostRole = 'owner' | 'cohost';
+
+// Where called numbers come from - the room's seeded order, or balls the
+// host draws from a physical cage and enters on the dashboard
+export type CallingMode = 'seeded' | 'cage';
+
+// A co-host as the room's hosts see them
+export interface RoomCohost {
+  id: string;
+  name: string;
+  last_seen_at: string | null;
+}
+
 export interface RoomConfig {
   expectedPlayers: number;
   meetingDuration: number;
@@ -21,9 +48,59 @@ export interface RoomConfig {
   autoClose: boolean;
   autoCloseMinutes: number;
   callFrequency: number;
+  // Defaults to 'seeded'; cage rooms have no automatic calls
+  callingMode?: CallingMode;
   roomClosed?: boolean;
   maxPlayersEver?: number;
   isPaused?: boolean;
+  // The pause came from the host going away, so a returning host lifts it
+  pausedForHost?: boolean;
+  // Claims that check out wait for a host to approve or reject them
+  manualClaims?: boolean;
+  // Seconds a player can't claim again after a rejected claim (0-600, default 0)
+  claimLockoutSeconds?: number;
+  // False marks after which a player can no longer claim (0-50, 0 = no limit)
+  falseMarkLimit?: number;
+  // Claims waiting for a host, oldest first; the game is paused meanwhile
+  // and pausedForClaim says whether deciding the last one resumes it
+  pendingClaims?: PendingClaim[];
+  pausedForClaim?: boolean;
+  winPattern?: WinPattern;
+  prizes?: PrizeStage[];
+  currentPrizeIndex?: number;
+  // Every new card must differ from each card already in the room by at
+  // least this many numbers (default 1 = no identical cards)
+  minCardDifference?: number;
+  // How many cards each player may pick when joining (1-4, default 1)
+  maxCardsPerPlayer?: number;
+  // Players may opt in to having called numbers marked for them
+  allowAutoDaub?: boolean;
+  // Minutes a disconnected player keeps their seat before being removed
+  // (1-60, default 3)
+  disconnectGraceMinutes?: number;
+}
+
+// A claim in a manual-claims room, with the card's marks as they were when
+// the player claimed - the prize is the one in play at that moment
+export interface PendingClaim {
+  id: string;
+  playerId: string;
+  playerName: string;
+  cardIndex: number;
+  prizeIndex: number;
+  prizeId: string;
+  line?: number;
+  markedNumbers: number[];
+  ballsCalled: number;
+  claimedAt: string;
+}
+
+// One prize in a staged game (e.g. first line, two lines, full house).
+// The game carries on after each prize until the last one is won.
+export interface PrizeStage {
+  id: string;
+  name: string;
+  winPattern: WinPattern;
 }
 
 export interface MyngoPlayer {
@@ -31,10 +108,47 @@ export interface MyngoPlayer {
   room_id: string;
   name: string;
   card: MyngoCard;
+  // Canonical card numbers, unique within the room
+  card_fingerprint?: string;
+  // Seeded deal attempt the card came from (redealt when too close to another)
+  card_deal?: number;
   marked_numbers: number[];
+  // Cards after the first - `card` and `marked_numbers` are card 1
+  card_count?: number;
+  extra_cards?: ExtraCard[];
+  extra_marked_numbers?: number[][];
+  // Auto-daub marks called numbers for the player; auto-claim also claims
+  // completed cards. used_auto_daub stays true once auto-daub was switched on.
+  auto_daub?: boolean;
+  auto_claim?: boolean;
+  used_auto_daub?: boolean;
   is_bot: boolean;
   is_winner: boolean;
+  prizes_won?: string[];
   joined_at: string;
+  // Last time the card was reopened with the rejoin PIN
+  rejoined_at?: string | null;
+  // Set while the player is missing from the room's presence channel
+  disconnected_at?: string | null;
+  // A rejected claim stops the player claiming again until then
+  claim_locked_until?: string | null;
+  // Marks the server refused because the number hadn't been called
+  false_marks?: number;
+}
+
+// A player's second, third or fourth card, dealt from the seed like the first
+export interface ExtraCard {
+  card: MyngoCard;
+  deal: number;
+  fingerprint: string;
+}
+
+// One of a player's cards with its own marks; index 0 is the first card
+export interface PlayerCard {
+  index: number;
+  card: MyngoCard;
+  deal: number;
+  markedNumbers: number[];
 }
 
 export interface MyngoCard {
@@ -59,15 +173,30 @@ export interface GameHistory {
   players_start: number;
   players_end: number | null;
   players_drop?: number;
-  winner_name?: string;
+  winners?: GameWinner[];
   duration?: number;
   ending_status: string;
   balls_called_count?: number;
   is_demo_game?: boolean;
   room_code?: string;
+  seed_hash?: string | null;
+  seed?: string | null;
   created_at: string;
 }
 
+export interface GameWinner {
+  prize_id: string;
+  prize_name: string;
+  player_id: string;
+  player_name: string;
+  // Which of the player's cards won (0 = first)
+  card_index?: number;
+  // Won with auto-daub switched on at some point in the game
+  auto_daub?: boolean;
+  balls_called_count: number;
+  won_at: string;
+}
+
 export interface GameStats {
   activeGames: number;
   playersOnline: number;
@@ -76,10 +205,36 @@ export interface GameStats {
   peakPlayers: number;
 }
 
-export type WinPattern = 'row' | 'column' | 'diagonal';
+// A win pattern is a set of 5x5 masks - completing `required` distinct
+// masks wins (default 1). Each mask lists card cell indices
+// (row * 5 + col, WILD centre is 12).
+export interface WinPattern {
+  id: string;
+  name: string;
+  description: string;
+  masks: number[][];
+  required?: number;
+}
 
 export interface WinCheck {
   hasWin: boolean;
-  pattern?: WinPattern;
+  pattern?: string;
+  line?: number;
+  cells?: number[];
+}
+
+export interface WinClaimResult {
+  accepted: boolean;
+  reason?: string;
+  pattern?: string;
   line?: number;
+  prize?: string;
+  card?: number;
+  gameOver?: boolean;
+  // The card checked out and is waiting for a host to approve it
+  pending?: boolean;
+  // Set when the rejection locked the player out of claiming for a while
+  lockedUntil?: string | null;
+  // The player reached the room's false mark limit
+  claimsDisabled?: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,42 @@
+// Call Phrases - What the announcer says for each called number
+// Created: Numbers in words and the traditional bingo call for each of 1-75
+
+import { CalledNumber } from '../types/myngo';
+
+const ONES = ['', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy'];
+
+// Traditional hall calls, kept to the numbers a MYNGO game uses
+export const CALL_PHRASES: Record<number, string> = {
+  1: "Kelly's eye", 2: 'One little duck', 3: 'Cup of tea', 4: 'Knock at the door', 5: 'Man alive',
+  6: 'Half a dozen', 7: 'Lucky seven', 8: 'Garden gate', 9: "Doctor's orders", 10: 'Cock and hen',
+  11: 'Legs eleven', 12: 'One dozen', 13: 'Unlucky for some', 14: "Valentine's day", 15: 'Young and keen',
+  16: 'Sweet sixteen', 17: 'Dancing queen', 18: 'Coming of age', 19: 'Goodbye teens', 20: 'One score',
+  21: 'Key of the door', 22: 'Two little ducks', 23: 'Thee and me', 24: 'Two dozen', 25: 'Duck and dive',
+  26: 'Pick and mix', 27: 'Gateway to heaven', 28: 'Overweight', 29: 'Rise and shine', 30: 'Dirty Gertie',
+  31: 'Get up and run', 32: 'Buckle my shoe', 33: 'All the threes', 34: 'Ask for more', 35: 'Jump and jive',
+  36: 'Three dozen', 37: 'More than eleven', 38: 'Christmas cake', 39: 'Steps', 40: 'Naughty forty',
+  41: 'Time for fun', 42: 'Winnie the Pooh', 43: 'Down on your knees', 44: 'Droopy drawers', 45: 'Halfway there',
+  46: 'Up to tricks', 47: 'Four and seven', 48: 'Four dozen', 49: 'P.C.', 50: 'Half a century',
+  51: 'Tweak of the thumb', 52: 'Danny La Rue', 53: 'Stuck in the tree', 54: 'Clean the floor', 55: 'Snakes alive',
+  56: 'Was she worth it?', 57: 'Heinz varieties', 58: 'Make them wait', 59: 'Brighton line', 60: 'Five dozen',
+  61: "Baker's bun", 62: 'Tickety-boo', 63: 'Tickle me', 64: 'Red raw', 65: 'Old age pension',
+  66: 'Clickety click', 67: 'Stairway to heaven', 68: 'Saving grace', 69: 'Either way up', 70: 'Three score and ten',
+  71: 'Bang on the drum', 72: 'Six dozen', 73: 'Queen bee', 74: 'Candy store', 75: 'Strive and strive'
+};
+
+// 52 -> 'fifty-two'
+export function numberToWords(number: number): string {
+  if (number < 20) return ONES[number];
+  const ones = ONES[number % 10];
+  return ones ? `${TENS[Math.floor(number / 10)]}-${ones}` : TENS[Math.floor(number / 10)];
+}
+
+// What is read out for a call: 'G… fifty-two', or with the phrase first
+// 'Danny La Rue. G… fifty-two'
+export function getCallAnnouncement(call: Pick<CalledNumber, 'number' | 'letter'>, usePhrases: boolean): string {
+  const spoken = `${call.letter}… ${numberToWords(call.number)}`;
+  const phrase = usePhrases ? CALL_PHRASES[call.number] : undefined;
+  return phrase ? `${phrase}. ${spoken}` : spoken;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createGameSeed,
+  dealUniqueCard,
+  deriveCard,
+  getCallOrder,
+  getCardFingerprint,
+  getNextSeededNumber,
+  hashSeed,
+  sha256Hex,
+  verifyGame
+} from './fairness';
+
+// Expected values below were worked out separately from the app, the way the
+// database does it: encode(sha256(convert_to(seed || ':' || purpose || ':' || n, 'UTF8')), 'hex')
+const SEED = '3f1c0d9a5b7e2468ace0fdb97531eca86420fdb97531eca86420fdb97531eca8';
+
+describe('sha256Hex', () => {
+  it('matches the standard test vectors', () => {
+    expect(sha256Hex('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(sha256Hex('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))
+      .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  it('hashes the UTF-8 bytes of the string', () => {
+    expect(sha256Hex('é MYNGO ✓')).toBe('05e85511ef6e197166a7c916c1febb6bd73f66831f549c3cf02e8b6b04d3c161');
+  });
+});
+
+describe('seeded game', () => {
+  it('commits to the seed with its hash', () => {
+    expect(hashSeed(SEED)).toBe('845c44175b74ca2f30e84b8db908428bb6e93e8eb4c3b70c2d237c37a9efaedc');
+  });
+
+  it('calls the numbers in the same order as the database', () => {
+    const order = getCallOrder(SEED);
+    expect(order.slice(0, 10)).toEqual([67, 57, 66, 73, 52, 12, 25, 17, 48, 51]);
+    expect([...order].sort((a, b) => a - b)).toEqual(Array.from({ length: 75 }, (_, index) => index + 1));
+    expect(getNextSeededNumber(SEED, [67, 57])).toBe(66);
+  });
+
+  it('deals the same card as the database', () => {
+    expect(deriveCard(SEED, 'player-1')).toEqual({
+      M: [5, 9, 11, 12, 15],
+      Y: [21, 23, 24, 27, 29],
+      N: [33, 34, 35, 36],
+      G: [47, 52, 56, 57, 59],
+      O: [64, 65, 70, 74, 75]
+    });
+  });
+
+  it('redeals until the card is far enough from the cards already dealt', () => {
+    const first = deriveCard(SEED, 'player-2');
+    const dealt = dealUniqueCard(SEED, 'player-2', [first]);
+    expect(dealt.deal).toBeGreaterThan(0);
+    expect(dealt.fingerprint).not.toBe(getCardFingerprint(first));
+    expect(dealt.card).toEqual(deriveCard(SEED, 'player-2', dealt.deal));
+  });
+});
+
+describe('verifyGame', () => {
+  const seed = createGameSeed();
+  const seedHash = hashSeed(seed);
+  const cards = [
+    { playerId: 'player-1', card: deriveCard(seed, 'player-1') },
+    { playerId: 'player-1#1', card: deriveCard(seed, 'player-1#1', 2), deal: 2 }
+  ];
+  const calls = getCallOrder(seed).slice(0, 20);
+
+  it('passes a game played from its seed', () => {
+    expect(seed).toMatch(/^[0-9a-f]{64}$/);
+    expect(verifyGame(seed, seedHash, cards, calls).isFair).toBe(true);
+  });
+
+  it('catches a seed that does not match the commitment', () => {
+    const report = verifyGame(createGameSeed(), seedHash, [], calls);
+    expect(report.seedMatchesCommitment).toBe(false);
+    expect(report.isFair).toBe(false);
+  });
+
+  it('catches a swapped card and an off-order call', () => {
+    const swapped = [{ playerId: 'player-1', card: deriveCard(seed, 'someone-else') }];
+    const offOrder = [calls[0], calls[2], calls[1]];
+    const report = verifyGame(seed, seedHash, swapped, offOrder);
+    expect(report.mismatchedCards).toEqual(['player-1']);
+    expect(report.firstOffOrderCall).toBe(1);
+    expect(report.isFair).toBe(false);
+  });
+
+  it('skips the call order for ball cage games', () => {
+    expect(verifyGame(seed, seedHash, cards, null).firstOffOrderCall).toBeNull();
+  });
+});
@@ -0,0 +1,232 @@
+// Fairness Utilities - Seeded, verifiable card and call generation
+// Updated: Ball cage games skip the call order check
+
+import { MyngoCard } from '../types/myngo';
+
+// Each room gets a secret seed. Its SHA-256 hash is published when the room
+// is created and the seed itself is revealed once the game ends, so anyone
+// can re-derive the cards and call order and check nothing was changed.
+//
+// Derivation (kept identical to the myngo_seed_digest SQL functions):
+//   digest(purpose, n) = hex(sha256(`${seed}:${purpose}:${n}`))
+//   call order         = 1..75 sorted by digest('call', n)
+//   card column        = column range sorted by digest(`card:${playerId}`, n),
+//                        first 5 (4 for N), then sorted ascending
+//   redeal k (k >= 1)  = same, with purpose `card:${playerId}:${k}`, used when
+//                        a card is too close to one already in the room
+//   extra card i       = same, with `${playerId}#${i}` in place of the player
+//                        id (i = 1 for a player's second card, ...)
+
+const CARD_COLUMNS: { letter: keyof MyngoCard; min: number; count: number }[] = [
+  { letter: 'M', min: 1, count: 5 },
+  { letter: 'Y', min: 16, count: 5 },
+  { letter: 'N', min: 31, count: 4 },
+  { letter: 'G', min: 46, count: 5 },
+  { letter: 'O', min: 61, count: 5 }
+];
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+// Synchronous SHA-256 of a UTF-8 string, as lowercase hex. Web Crypto's
+// digest is async-only, which doesn't suit card generation during render.
+export function sha256Hex(message: string): string {
+  const bytes = new TextEncoder().encode(message);
+  const bitLength = bytes.length * 8;
+  const paddedLength = Math.ceil((bytes.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + choice + SHA256_K[i] + w[i]) >>> 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + majority) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
+    }
+
+    hash[0] += a;
+    hash[1] += b;
+    hash[2] += c;
+    hash[3] += d;
+    hash[4] += e;
+    hash[5] += f;
+    hash[6] += g;
+    hash[7] += h;
+  }
+
+  return Array.from(hash, word => word.toString(16).padStart(8, '0')).join('');
+}
+
+// New random 256-bit value as 64 hex characters - room seeds and the host
+// and player tokens
+export function createRandomHex(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// New 256-bit room seed
+export function createGameSeed(): string {
+  return createRandomHex();
+}
+
+// The commitment published before the game starts
+export function hashSeed(seed: string): string {
+  return sha256Hex(seed);
+}
+
+// Numbers ordered by their digest for one purpose; ties fall back to the number
+function seededOrder(seed: string, purpose: string, numbers: number[]): number[] {
+  return numbers
+    .map(number => ({ number, digest: sha256Hex(`${seed}:${purpose}:${number}`) }))
+    .sort((a, b) => (a.digest < b.digest ? -1 : a.digest > b.digest ? 1 : a.number - b.number))
+    .map(entry => entry.number);
+}
+
+// The full order in which the room's 75 numbers are called
+export function getCallOrder(seed: string): number[] {
+  return seededOrder(seed, 'call', Array.from({ length: 75 }, (_, index) => index + 1));
+}
+
+// Next number in the call order that hasn't been called yet
+export function getNextSeededNumber(seed: string, calledNumbers: number[]): number | null {
+  const called = new Set(calledNumbers);
+  return getCallOrder(seed).find(number => !called.has(number)) ?? null;
+}
+
+// Key a player's card is derived from - the player id for their first card
+export function getCardKey(playerId: string, cardIndex: number = 0): string {
+  return cardIndex === 0 ? playerId : `${playerId}#${cardIndex}`;
+}
+
+// The card dealt to one player (or bot) in the room on a given deal attempt
+export function deriveCard(seed: string, playerId: string, deal: number = 0): MyngoCard {
+  const card: MyngoCard = { M: [], Y: [], N: [], G: [], O: [] };
+  const purpose = deal === 0 ? `card:${playerId}` : `card:${playerId}:${deal}`;
+
+  CARD_COLUMNS.forEach(({ letter, min, count }) => {
+    const range = Array.from({ length: 15 }, (_, index) => min + index);
+    card[letter] = seededOrder(seed, purpose, range)
+      .slice(0, count)
+      .sort((a, b) => a - b);
+  });
+
+  return card;
+}
+
+// Canonical form of a card - matches myngo_card_fingerprint() and is unique
+// per room in players.card_fingerprint
+export function getCardFingerprint(card: MyngoCard): string {
+  return CARD_COLUMNS
+    .map(({ letter }) => `${letter}:${[...card[letter]].sort((a, b) => a - b).join(',')}`)
+    .join('|');
+}
+
+// How many numbers on `card` are not on `other` (0 = identical)
+export function countCardDifference(card: MyngoCard, other: MyngoCard): number {
+  const otherNumbers = new Set(CARD_COLUMNS.flatMap(({ letter }) => other[letter]));
+  return CARD_COLUMNS
+    .flatMap(({ letter }) => card[letter])
+    .filter(number => !otherNumbers.has(number))
+    .length;
+}
+
+const MAX_CARD_DEALS = 50;
+
+// Deal the first seeded card that differs from every card already in the
+// room by at least `minDifference` numbers - same rules as the database
+export function dealUniqueCard(
+  seed: string,
+  playerId: string,
+  existingCards: MyngoCard[],
+  minDifference: number = 1
+): { card: MyngoCard; deal: number; fingerprint: string } {
+  const required = Math.min(Math.max(minDifference, 1), 24);
+
+  for (let deal = 0; deal < MAX_CARD_DEALS; deal++) {
+    const card = deriveCard(seed, playerId, deal);
+    if (existingCards.every(existing => countCardDifference(card, existing) >= required)) {
+      return { card, deal, fingerprint: getCardFingerprint(card) };
+    }
+  }
+
+  throw new Error('Could not deal a unique card in this room - it is too full for the card spread setting');
+}
+
+export interface FairnessReport {
+  seedMatchesCommitment: boolean;
+  // Card keys (see getCardKey) whose card differs from the one derived from the seed
+  mismatchedCards: string[];
+  // Index of the first call that strays from the seeded order, or null
+  firstOffOrderCall: number | null;
+  isFair: boolean;
+}
+
+// Check a finished game against its revealed seed. Calls are given oldest
+// first, or null when they came from a ball cage rather than the seed; cards
+// can be just the viewer's own or the whole room's, each given with its card
+// key as `playerId`.
+export function verifyGame(
+  seed: string,
+  seedHash: string,
+  cards: { playerId: string; card: MyngoCard; deal?: number }[],
+  callsInOrder: number[] | null
+): FairnessReport {
+  const seedMatchesCommitment = hashSeed(seed) === seedHash.toLowerCase();
+
+  const mismatchedCards = cards
+    .filter(({ playerId, card, deal }) => (
+      getCardFingerprint(deriveCard(seed, playerId, deal ?? 0)) !== getCardFingerprint(card)
+    ))
+    .map(({ playerId }) => playerId);
+
+  const order = getCallOrder(seed);
+  const offOrderIndex = callsInOrder ? callsInOrder.findIndex((number, index) => order[index] !== number) : -1;
+  const firstOffOrderCall = offOrderIndex === -1 ? null : offOrderIndex;
+
+  return {
+    seedMatchesCommitment,
+    mismatchedCards,
+    firstOffOrderCall,
+    isFair: seedMatchesCommitment && mismatchedCards.length === 0 && firstOffOrderCall === null
+  };
+}
@@ -1,51 +1,15 @@
 // MYNGO Game Utilities - Core game logic and card generation
-// Created: Card generation, win detection, and game calculations
-
-import { MyngoCard, WinCheck, CalledNumber } from '../types/myngo';
-
-// Generate a random MYNGO card with proper column ranges
-export function generateMyngoCard(): MyngoCard {
-  const card: MyngoCard = {
-    M: [],
-    Y: [],
-    N: [],
-    G: [],
-    O: []
-  };
+// Updated: Join links carry the room code
 
-  // M column: 1-15
-  card.M = getRandomNumbers(1, 15, 5);
-  
-  // Y column: 16-30
-  card.Y = getRandomNumbers(16, 30, 5);
-  
-  // N column: 31-45 (only 4 numbers, WILD in center)
-  card.N = getRandomNumbers(31, 45, 4);
-  
-  // G column: 46-60
-  card.G = getRandomNumbers(46, 60, 5);
-  
-  // O column: 61-75
-  card.O = getRandomNumbers(61, 75, 5);
-
-  return card;
-}
+import { MyngoCard, WinCheck, CalledNumber, WinPattern, MyngoPlayer, MyngoRoom, PlayerCard, RoomConfig } from '../types/myngo';
+import { getRequiredMasks, getWinPattern } from './win-patterns';
 
-// Get random numbers from a range without duplicates
-function getRandomNumbers(min: number, max: number, count: number): number[] {
-  const numbers: number[] = [];
-  const available = Array.from({ length: max - min + 1 }, (_, i) => min + i);
-  
-  for (let i = 0; i < count; i++) {
-    const randomIndex = Math.floor(Math.random() * available.length);
-    numbers.push(available.splice(randomIndex, 1)[0]);
-  }
-  
-  return numbers.sort((a, b) => a - b);
-}
-
-// Check if a card has a winning pattern
-export function checkWin(card: MyngoCard, markedNumbers: number[]): WinCheck {
+// Check if a card has completed any mask of the active win pattern
+export function checkWin(
+  card: MyngoCard,
+  markedNumbers: number[],
+  pattern: WinPattern = getWinPattern()
+): WinCheck {
   // Reduced logging for bot checks to avoid spam
   const isVerbose = markedNumbers?.length <= 5; // Only log details for first few checks
   
@@ -53,6 +17,7 @@ export function checkWin(card: MyngoCard, markedNumbers: number[]): WinCheck {
     console.log('🔍 checkWin called with:', {
       cardExists: !!card,
       markedCount: markedNumbers?.length || 0,
+      pattern: pattern.id,
       markedNumbers: markedNumbers?.slice(0, 10) // Log first 10 for debugging
     });
   }
@@ -63,67 +28,25 @@ export function checkWin(card: MyngoCard, markedNumbers: number[]): WinCheck {
   }
   
   try {
-    const cardArray = cardToArray(card);
+    const cells = cardToCells(card);
     const marked = new Set(markedNumbers);
-    
-    if (isVerbose) {
-      console.log('🔍 checkWin processing card array and marked set');
-      console.log('🔍 Card array structure:', cardArray);
-      console.log('🔍 Marked numbers set:', Array.from(marked));
-    }
-  
-    // Check rows
-    for (let row = 0; row < 5; row++) {
-      if (checkLine(cardArray, marked, row, 'row')) {
-        console.log('🏆 WIN DETECTED - Row:', row);
-        if (isVerbose) {
-          console.log('🏆 Winning row cells:', cardArray[row]);
-          console.log('🏆 Marked status for row:', cardArray[row].map(cell => 
-            cell === 'WILD' ? 'WILD' : marked.has(cell as number) ? 'MARKED' : 'UNMARKED'
-          ));
-        }
-        return { hasWin: true, pattern: 'row', line: row };
-      }
-    }
-  
-    // Check columns
-    for (let col = 0; col < 5; col++) {
-      if (checkLine(cardArray, marked, col, 'column')) {
-        console.log('🏆 WIN DETECTED - Column:', col);
-        if (isVerbose) {
-          const columnCells = cardArray.map(row => row[col]);
-          console.log('🏆 Winning column cells:', columnCells);
-          console.log('🏆 Marked status for column:', columnCells.map(cell => 
-            cell === 'WILD' ? 'WILD' : marked.has(cell as number) ? 'MARKED' : 'UNMARKED'
-          ));
-        }
-        return { hasWin: true, pattern: 'column', line: col };
-      }
-    }
-  
-    // Check diagonals
-    if (checkDiagonal(cardArray, marked, 'main')) {
-      console.log('🏆 WIN DETECTED - Main diagonal');
-      if (isVerbose) {
-        const diagonalCells = cardArray.map((row, i) => row[i]);
-        console.log('🏆 Winning main diagonal cells:', diagonalCells);
-        console.log('🏆 Marked status for main diagonal:', diagonalCells.map(cell => 
-          cell === 'WILD' ? 'WILD' : marked.has(cell as number) ? 'MARKED' : 'UNMARKED'
-        ));
+    const required = getRequiredMasks(pattern);
+    const completed: number[] = [];
+
+    for (let maskIndex = 0; maskIndex < pattern.masks.length; maskIndex++) {
+      if (countUnmarked(cells, marked, pattern.masks[maskIndex]) === 0) {
+        completed.push(maskIndex);
       }
-      return { hasWin: true, pattern: 'diagonal', line: 0 };
     }
-  
-    if (checkDiagonal(cardArray, marked, 'anti')) {
-      console.log('🏆 WIN DETECTED - Anti diagonal');
+
+    if (completed.length >= required) {
+      const winningMasks = completed.slice(0, required);
+      const winningCells = Array.from(new Set(winningMasks.flatMap(index => pattern.masks[index])));
+      console.log('🏆 WIN DETECTED - Pattern:', pattern.id, 'masks:', winningMasks);
       if (isVerbose) {
-        const diagonalCells = cardArray.map((row, i) => row[4 - i]);
-        console.log('🏆 Winning anti diagonal cells:', diagonalCells);
-        console.log('🏆 Marked status for anti diagonal:', diagonalCells.map(cell => 
-          cell === 'WILD' ? 'WILD' : marked.has(cell as number) ? 'MARKED' : 'UNMARKED'
-        ));
+        console.log('🏆 Winning cells:', winningCells.map(index => cells[index]));
       }
-      return { hasWin: true, pattern: 'diagonal', line: 1 };
+      return { hasWin: true, pattern: pattern.id, line: winningMasks[0], cells: winningCells };
     }
     
     if (isVerbose) console.log('🔍 checkWin - No win detected');
@@ -135,7 +58,7 @@ export function checkWin(card: MyngoCard, markedNumbers: number[]): WinCheck {
 }
 
 // Convert card object to 2D array for easier processing
-function cardToArray(card: MyngoCard): (number | 'WILD')[][] {
+export function cardToArray(card: MyngoCard): (number | 'WILD')[][] {
   if (!card || !card.M || !card.Y || !card.N || !card.G || !card.O) {
     console.error('Invalid card structure:', card);
     throw new Error('Invalid card structure');
@@ -163,57 +86,17 @@ function cardToArray(card: MyngoCard): (number | 'WILD')[][] {
   return array;
 }
 
-// Check if a line (row or column) is complete
-function checkLine(
-  cardArray: (number | 'WILD')[][],
-  marked: Set<number>,
-  index: number,
-  type: 'row' | 'column'
-): boolean {
-  // Reduced logging for performance
-  const isVerbose = false; // Set to true for debugging
-  
-  if (isVerbose) console.log(`🔍 Checking ${type} ${index}:`);
-  
-  for (let i = 0; i < 5; i++) {
-    const cell = type === 'row' ? cardArray[index][i] : cardArray[i][index];
-    if (isVerbose) console.log(`  Cell ${i}: ${cell} (${cell === 'WILD' ? 'WILD' : marked.has(cell as number) ? 'MARKED' : 'UNMARKED'})`);
-    
-    if (cell === 'WILD') continue;
-    if (!marked.has(cell as number)) {
-      if (isVerbose) console.log(`  ❌ ${type} ${index} incomplete - cell ${i} (${cell}) not marked`);
-      return false;
-    }
-  }
-  
-  if (isVerbose) console.log(`  ✅ ${type} ${index} COMPLETE!`);
-  return true;
+// Flatten the card into 25 cells indexed row * 5 + col, matching pattern masks
+function cardToCells(card: MyngoCard): (number | 'WILD')[] {
+  return cardToArray(card).flat();
 }
 
-// Check diagonal patterns
-function checkDiagonal(
-  cardArray: (number | 'WILD')[][],
-  marked: Set<number>,
-  type: 'main' | 'anti'
-): boolean {
-  // Reduced logging for performance
-  const isVerbose = false; // Set to true for debugging
-  
-  if (isVerbose) console.log(`🔍 Checking ${type} diagonal:`);
-  
-  for (let i = 0; i < 5; i++) {
-    const cell = type === 'main' ? cardArray[i][i] : cardArray[i][4 - i];
-    if (isVerbose) console.log(`  Cell ${i}: ${cell} (${cell === 'WILD' ? 'WILD' : marked.has(cell as number) ? 'MARKED' : 'UNMARKED'})`);
-    
-    if (cell === 'WILD') continue;
-    if (!marked.has(cell as number)) {
-      if (isVerbose) console.log(`  ❌ ${type} diagonal incomplete - cell ${i} (${cell}) not marked`);
-      return false;
-    }
-  }
-  
-  if (isVerbose) console.log(`  ✅ ${type} diagonal COMPLETE!`);
-  return true;
+// Count the cells of a mask that still need daubing (WILD is always daubed)
+function countUnmarked(cells: (number | 'WILD')[], marked: Set<number>, mask: number[]): number {
+  return mask.filter(index => {
+    const cell = cells[index];
+    return cell !== 'WILD' && !marked.has(cell);
+  }).length;
 }
 
 // Calculate optimal call frequency based on players and duration
@@ -261,6 +144,11 @@ export function generateRoomCode(): string {
   return code;
 }
 
+// Opens the join page with the room code filled in (/join?code=ABC234)
+export function getJoinLink(roomCode: string): string {
+  return `${window.location.origin}/join?code=${encodeURIComponent(roomCode)}`;
+}
+
 // Get letter for a number
 export function getLetterForNumber(num: number): 'M' | 'Y' | 'N' | 'G' | 'O' {
   if (num >= 1 && num <= 15) return 'M';
@@ -271,120 +159,147 @@ export function getLetterForNumber(num: number): 'M' | 'Y' | 'N' | 'G' | 'O' {
   throw new Error(`Invalid MYNGO number: ${num}`);
 }
 
+// The five letters with their numbers and the card's header colours
+export const MYNGO_COLUMNS = [
+  { letter: 'M', color: '#8B5CF6', numbers: Array.from({ length: 15 }, (_, i) => i + 1) },
+  { letter: 'Y', color: '#06B6D4', numbers: Array.from({ length: 15 }, (_, i) => i + 16) },
+  { letter: 'N', color: '#EC4899', numbers: Array.from({ length: 15 }, (_, i) => i + 31) },
+  { letter: 'G', color: '#10B981', numbers: Array.from({ length: 15 }, (_, i) => i + 46) },
+  { letter: 'O', color: '#F59E0B', numbers: Array.from({ length: 15 }, (_, i) => i + 61) }
+] as const;
+
+// The colour of a number's column, for balls and chips outside the card
+export function getLetterColor(num: number): string {
+  const letter = getLetterForNumber(num);
+  return MYNGO_COLUMNS.find(column => column.letter === letter)?.color ?? '#8B5CF6';
+}
+
 // Format called number display
 export function formatCalledNumber(number: CalledNumber): string {
   return `${number.letter}-${number.number}`;
 }
 
-// Check if player is close to winning (1 number away)
-export function isCloseToWin(card: MyngoCard, markedNumbers: number[]): boolean {
+// Cells that would complete the active pattern if daubed next - the last
+// missing square of a mask, once all other required masks are complete
+export function getNearWinCells(
+  card: MyngoCard,
+  markedNumbers: number[],
+  pattern: WinPattern = getWinPattern()
+): number[] {
   if (!card || !markedNumbers || markedNumbers.length === 0) {
-    return false;
+    return [];
   }
-  
+
   try {
-    const cardArray = cardToArray(card);
+    const cells = cardToCells(card);
     const marked = new Set(markedNumbers);
-    
-    // Check each possible winning line
-    const lines = [
-      // Rows
-      ...Array.from({ length: 5 }, (_, i) => ({ type: 'row' as const, index: i })),
-      // Columns
-      ...Array.from({ length: 5 }, (_, i) => ({ type: 'column' as const, index: i })),
-      // Diagonals
-      { type: 'diagonal' as const, index: 0 }, // main diagonal
-      { type: 'diagonal' as const, index: 1 }  // anti diagonal
-    ];
-    
-    for (const line of lines) {
-      let unmarkedCount = 0;
-      
-      if (line.type === 'row') {
-        for (let col = 0; col < 5; col++) {
-          const cell = cardArray[line.index][col];
-          if (cell !== 'WILD' && !marked.has(cell as number)) {
-            unmarkedCount++;
-          }
-        }
-      } else if (line.type === 'column') {
-        for (let row = 0; row < 5; row++) {
-          const cell = cardArray[row][line.index];
-          if (cell !== 'WILD' && !marked.has(cell as number)) {
-            unmarkedCount++;
-          }
-        }
-      } else if (line.type === 'diagonal') {
-        for (let i = 0; i < 5; i++) {
-          const cell = line.index === 0 ? cardArray[i][i] : cardArray[i][4 - i];
-          if (cell !== 'WILD' && !marked.has(cell as number)) {
-            unmarkedCount++;
-          }
-        }
-      }
-      
-      if (unmarkedCount === 1) {
-        return true;
+    const nearWin = new Set<number>();
+    const completedMasks = pattern.masks.filter(mask => countUnmarked(cells, marked, mask) === 0).length;
+
+    if (completedMasks < getRequiredMasks(pattern) - 1) {
+      return [];
+    }
+
+    for (const mask of pattern.masks) {
+      const missing = mask.filter(index => {
+        const cell = cells[index];
+        return cell !== 'WILD' && !marked.has(cell);
+      });
+      if (missing.length === 1) {
+        nearWin.add(missing[0]);
       }
     }
-    
-    return false;
+
+    return Array.from(nearWin);
   } catch (error) {
-    console.error('Error in isCloseToWin:', error);
-    return false;
+    console.error('Error in getNearWinCells:', error);
+    return [];
   }
 }
 
-// Legacy function for backward compatibility - remove after refactor
-export function isCloseToWinLegacy(card: MyngoCard, markedNumbers: number[]): boolean {
-  if (!card || !markedNumbers || markedNumbers.length === 0) return false;
-  
-  const cardArray = cardToArray(card);
-  const marked = new Set(markedNumbers);
-  
-  // Check each possible winning line
-  const lines = [
-    // Rows
-    ...Array.from({ length: 5 }, (_, i) => ({ type: 'row' as const, index: i })),
-    // Columns
-    ...Array.from({ length: 5 }, (_, i) => ({ type: 'column' as const, index: i })),
-    // Diagonals
-    { type: 'diagonal' as const, index: 0 }, // main diagonal
-    { type: 'diagonal' as const, index: 1 }  // anti diagonal
-  ];
-  
-  for (const line of lines) {
-    let unmarkedCount = 0;
-    
-    if (line.type === 'row') {
-      for (let col = 0; col < 5; col++) {
-        const cell = cardArray[line.index][col];
-        if (cell !== 'WILD' && !marked.has(cell as number)) {
-          unmarkedCount++;
-        }
-      }
-    } else if (line.type === 'column') {
-      for (let row = 0; row < 5; row++) {
-        const cell = cardArray[row][line.index];
-        if (cell !== 'WILD' && !marked.has(cell as number)) {
-          unmarkedCount++;
-        }
-      }
-    } else if (line.type === 'diagonal') {
-      for (let i = 0; i < 5; i++) {
-        const cell = line.index === 0 ? cardArray[i][i] : cardArray[i][4 - i];
-        if (cell !== 'WILD' && !marked.has(cell as number)) {
-          unmarkedCount++;
-        }
-      }
-    }
-    
-    if (unmarkedCount === 1) {
-      return true;
-    }
-  }
-  
-  return false;
+// Check if player is close to winning (1 number away from any mask)
+export function isCloseToWin(
+  card: MyngoCard,
+  markedNumbers: number[],
+  pattern: WinPattern = getWinPattern()
+): boolean {
+  return getNearWinCells(card, markedNumbers, pattern).length > 0;
+}
+
+export const MAX_CARDS_PER_PLAYER = 4;
+
+// How many cards a player may pick in this room - same clamp as the database
+export function getMaxCardsPerPlayer(config?: RoomConfig | null): number {
+  return Math.min(Math.max(config?.maxCardsPerPlayer ?? 1, 1), MAX_CARDS_PER_PLAYER);
+}
+
+export const DEFAULT_DISCONNECT_GRACE_MINUTES = 3;
+// Grace periods offered to the host
+export const DISCONNECT_GRACE_OPTIONS = [1, 3, 5, 10];
+
+// How long a disconnected player keeps their seat - same clamp as the database
+export function getDisconnectGraceMinutes(config?: RoomConfig | null): number {
+  return Math.min(Math.max(config?.disconnectGraceMinutes ?? DEFAULT_DISCONNECT_GRACE_MINUTES, 1), 60);
+}
+
+// Lockouts offered to the host for rejected claims, in seconds
+export const CLAIM_LOCKOUT_OPTIONS = [0, 30, 60, 120];
+
+// How long a rejected claim locks the player out - same clamp as the database
+export function getClaimLockoutSeconds(config?: RoomConfig | null): number {
+  return Math.min(Math.max(config?.claimLockoutSeconds ?? 0, 0), 600);
+}
+
+// False mark limits offered to the host; 0 never stops anyone claiming
+export const FALSE_MARK_LIMIT_OPTIONS = [0, 3, 5, 10];
+
+// Same clamp as myngo_false_mark_limit() in the database
+export function getFalseMarkLimit(config?: RoomConfig | null): number {
+  return Math.min(Math.max(config?.falseMarkLimit ?? 0, 0), 50);
+}
+
+// Whether the player has made too many false marks to claim
+export function hasTooManyFalseMarks(player: MyngoPlayer | null | undefined, config?: RoomConfig | null): boolean {
+  const limit = getFalseMarkLimit(config);
+  return limit > 0 && (player?.false_marks ?? 0) >= limit;
+}
+
+// How long after a call the host can still undo it - same as host_undo_last_call()
+export const UNDO_CALL_WINDOW_SECONDS = 15;
+
+// When the latest call stops being undoable
+export function getUndoDeadline(call?: CalledNumber | null): string | null {
+  return call ? new Date(new Date(call.called_at).getTime() + UNDO_CALL_WINDOW_SECONDS * 1000).toISOString() : null;
+}
+
+// A host with no heartbeat for this long is marked away and the game paused;
+// hidden tabs may only run their timers once a minute - same as the database
+export const HOST_AWAY_AFTER_SECONDS = 90;
+// How long players wait for the host, or a co-host taking over, before the
+// game is cancelled
+export const HOST_RECONNECT_GRACE_MINUTES = 5;
+
+// Whether co-hosts can take the game over - same check as take_over_room()
+export function isOwnerAway(room?: MyngoRoom | null): boolean {
+  if (!room?.owner_seen_at) return false;
+  return Date.now() - new Date(room.owner_seen_at).getTime() > HOST_AWAY_AFTER_SECONDS * 1000;
+}
+
+// All of a player's cards with their own marks, first card first
+export function getPlayerCards(player: MyngoPlayer): PlayerCard[] {
+  const first: PlayerCard = {
+    index: 0,
+    card: player.card,
+    deal: player.card_deal ?? 0,
+    markedNumbers: player.marked_numbers || []
+  };
+
+  return [first, ...(player.extra_cards || []).map((extra, position) => ({
+    index: position + 1,
+    card: extra.card,
+    deal: extra.deal,
+    markedNumbers: player.extra_marked_numbers?.[position] || []
+  }))];
 }
 
 // Get random MYNGO call for floating bubbles
@@ -403,6 +318,35 @@ export function getRandomMyngoCall(): string {
   return `${range.letter}-${number}`;
 }
 
+// Whether the host enters numbers drawn from a physical cage - same as myngo_is_cage_calling()
+export function isCageCalling(config?: RoomConfig | null): boolean {
+  return config?.callingMode === 'cage';
+}
+
+// Reads a ball the host typed ("G-52", "g52" or "52") and checks it can be
+// called: a real MYNGO number, with the right letter, not called already
+export function parseBallEntry(input: string, calledNumbers: CalledNumber[]): { number: number } | { error: string } {
+  const match = input.trim().toUpperCase().match(/^([MYNGO])?\s*-?\s*(\d{1,2})$/);
+  if (!match) {
+    return { error: 'Enter a ball like G-52' };
+  }
+
+  const number = Number(match[2]);
+  if (number < 1 || number > 75) {
+    return { error: 'Numbers go from 1 to 75' };
+  }
+
+  const letter = getLetterForNumber(number);
+  if (match[1] && match[1] !== letter) {
+    return { error: `${number} is under ${letter}, not ${match[1]}` };
+  }
+  if (calledNumbers.some(call => call.number === number)) {
+    return { error: `${letter}-${number} has already been called` };
+  }
+
+  return { number };
+}
+
 // Get available numbers that haven't been called yet
 export function getAvailableNumbers(calledNumbers: CalledNumber[]): number[] {
   const allNumbers = Array.from({ length: 75 }, (_, i) => i + 1);
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { MyngoCard } from '../types/myngo';
+import { checkWin } from './myngo-utils';
+import { getRequiredMasks, getWinPattern, parsePatternMask, WIN_PATTERNS } from './win-patterns';
+
+// Rows read across the columns: row 0 is M1 Y16 N31 G46 O61
+const CARD: MyngoCard = {
+  M: [1, 2, 3, 4, 5],
+  Y: [16, 17, 18, 19, 20],
+  N: [31, 32, 34, 35],
+  G: [46, 47, 48, 49, 50],
+  O: [61, 62, 63, 64, 65]
+};
+
+describe('parsePatternMask', () => {
+  it('turns X cells into row * 5 + col indices', () => {
+    expect(parsePatternMask(['X...X', '.....', '..X..', '.....', 'X...X'])).toEqual([0, 4, 12, 20, 24]);
+  });
+
+  it('refuses masks that are not 5 by 5', () => {
+    expect(() => parsePatternMask(['XXXXX'])).toThrow('Invalid win pattern mask');
+    expect(() => parsePatternMask(['XXXX', '.....', '.....', '.....', '.....'])).toThrow('Invalid win pattern mask');
+  });
+});
+
+describe('WIN_PATTERNS', () => {
+  it('has a unique id and in-range cells for every pattern', () => {
+    const ids = WIN_PATTERNS.map(pattern => pattern.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    WIN_PATTERNS.forEach(pattern => {
+      expect(pattern.masks.length).toBeGreaterThan(0);
+      pattern.masks.flat().forEach(cell => {
+        expect(cell).toBeGreaterThanOrEqual(0);
+        expect(cell).toBeLessThan(25);
+      });
+    });
+  });
+
+  it('falls back to any line for unknown ids', () => {
+    expect(getWinPattern('no-such-pattern').id).toBe('line');
+  });
+});
+
+describe('checkWin', () => {
+  it('wins a row, with the free centre counting as daubed', () => {
+    const result = checkWin(CARD, [3, 18, 48, 63], getWinPattern('line'));
+    expect(result.hasWin).toBe(true);
+    expect(result.line).toBe(2);
+  });
+
+  it('wins a column', () => {
+    expect(checkWin(CARD, [16, 17, 18, 19, 20], getWinPattern('line')).hasWin).toBe(true);
+  });
+
+  it('does not win one short of a line', () => {
+    expect(checkWin(CARD, [1, 16, 31, 46], getWinPattern('line')).hasWin).toBe(false);
+  });
+
+  it('ignores marks that are not on the card', () => {
+    expect(checkWin(CARD, [1, 16, 31, 46, 75], getWinPattern('line')).hasWin).toBe(false);
+  });
+
+  it('needs every required mask of a multi-mask pattern', () => {
+    const pattern = getWinPattern('two-lines');
+    expect(getRequiredMasks(pattern)).toBe(2);
+
+    const firstRow = [1, 16, 31, 46, 61];
+    expect(checkWin(CARD, firstRow, pattern).hasWin).toBe(false);
+    expect(checkWin(CARD, [...firstRow, 5, 20, 35, 50, 65], pattern).hasWin).toBe(true);
+  });
+
+  it('only needs the corners for four corners', () => {
+    const pattern = getWinPattern('four-corners');
+    expect(checkWin(CARD, [1, 61, 5, 65], pattern).hasWin).toBe(true);
+    expect(checkWin(CARD, [1, 61, 5], pattern).hasWin).toBe(false);
+  });
+
+  it('needs all 24 numbers for a blackout', () => {
+    const pattern = getWinPattern('blackout');
+    const allNumbers = [...CARD.M, ...CARD.Y, ...CARD.N, ...CARD.G, ...CARD.O];
+    expect(checkWin(CARD, allNumbers, pattern).hasWin).toBe(true);
+    expect(checkWin(CARD, allNumbers.slice(1), pattern).hasWin).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+// MYNGO Win Patterns - Loads the data-driven win pattern catalogue
+// Updated: Patterns can require several masks and rooms can stage multiple prizes
+
+import patternData from '../data/win-patterns.json';
+import { MyngoPlayer, PrizeStage, RoomConfig, WinPattern } from '../types/myngo';
+
+// Raw shape of an entry in win-patterns.json - masks are 5 strings of 5
+// characters where 'X' marks a cell that must be daubed
+interface WinPatternSource {
+  id: string;
+  name: string;
+  description: string;
+  masks: string[][];
+  required?: number;
+}
+
+export const DEFAULT_WIN_PATTERN_ID = 'line';
+
+// Convert a row-string mask into card cell indices (row * 5 + col)
+export function parsePatternMask(rows: string[]): number[] {
+  if (rows.length !== 5 || rows.some(row => row.length !== 5)) {
+    throw new Error(`Invalid win pattern mask: ${JSON.stringify(rows)}`);
+  }
+
+  const cells: number[] = [];
+  rows.forEach((row, rowIndex) => {
+    for (let col = 0; col < 5; col++) {
+      if (row[col] === 'X') cells.push(rowIndex * 5 + col);
+    }
+  });
+  return cells;
+}
+
+export function parseWinPattern(source: WinPatternSource): WinPattern {
+  return {
+    id: source.id,
+    name: source.name,
+    description: source.description,
+    masks: source.masks.map(parsePatternMask),
+    ...(source.required && source.required > 1 ? { required: source.required } : {})
+  };
+}
+
+export const WIN_PATTERNS: WinPattern[] = (patternData as WinPatternSource[]).map(parseWinPattern);
+
+// Look up a pattern by id, falling back to the classic any-line pattern
+export function getWinPattern(id?: string): WinPattern {
+  return WIN_PATTERNS.find(pattern => pattern.id === id)
+    || WIN_PATTERNS.find(pattern => pattern.id === DEFAULT_WIN_PATTERN_ID)!;
+}
+
+// Number of distinct masks a card must complete to win the pattern
+export function getRequiredMasks(pattern: WinPattern): number {
+  return Math.max(1, Math.min(pattern.required ?? 1, pattern.masks.length));
+}
+
+export function createPrizeStage(index: number, name: string, pattern: WinPattern): PrizeStage {
+  return { id: `prize-${index + 1}`, name: name.trim() || pattern.name, winPattern: pattern };
+}
+
+// Rooms without staged prizes play a single prize on their win pattern;
+// rooms created before patterns existed play the classic any-line game
+export function getRoomPrizes(config?: RoomConfig | null): PrizeStage[] {
+  if (config?.prizes && config.prizes.length > 0) {
+    return config.prizes;
+  }
+  return [createPrizeStage(0, 'MYNGO', config?.winPattern ?? getWinPattern(DEFAULT_WIN_PATTERN_ID))];
+}
+
+export function getCurrentPrizeIndex(config?: RoomConfig | null): number {
+  const prizes = getRoomPrizes(config);
+  return Math.max(0, Math.min(config?.currentPrizeIndex ?? 0, prizes.length - 1));
+}
+
+export function getCurrentPrize(config?: RoomConfig | null): PrizeStage {
+  return getRoomPrizes(config)[getCurrentPrizeIndex(config)];
+}
+
+// Rooms carry a full copy of every prize pattern so the server can judge
+// claims - this is the pattern for the prize currently being played for
+export function getRoomWinPattern(config?: RoomConfig | null): WinPattern {
+  return getCurrentPrize(config).winPattern;
+}
+
+// Pair each prize with the players who won it, in stage order
+export function getPrizeWinners(
+  prizes: PrizeStage[],
+  players: MyngoPlayer[]
+): { prize: PrizeStage; winners: MyngoPlayer[] }[] {
+  return prizes.map(prize => ({
+    prize,
+    winners: players.filter(player => player.prizes_won?.includes(prize.id))
+  }));
+}
+
+// Most recent prize won while the game carries on - the final prize ends
+// the game, so it never counts here
+export function getLatestPrizeWin(
+  prizeWinners: { prize: PrizeStage; winners: MyngoPlayer[] }[]
+): { prize: PrizeStage; winners: MyngoPlayer[] } | null {
+  const won = prizeWinners.slice(0, -1).filter(stage => stage.winners.length > 0);
+  return won[won.length - 1] ?? null;
+}
+
+// Union of every cell used by a pattern - used for previews and highlighting
+export function getPatternCells(pattern: WinPattern): Set<number> {
+  return new Set(pattern.masks.flat());
+}
@@ -0,0 +1,93 @@
+// Cleanup Edge Function - Receives the beacon a MYNGO tab sends as it closes
+// Created: Departures are recorded even when the page dies before a normal request finishes
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+// sendBeacon can't set headers, so the function is deployed with
+// --no-verify-jwt and the tokens in the form are the only credentials
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'content-type'
+};
+
+function respond(status: number, body?: Record<string, unknown>): Response {
+  return new Response(body ? JSON.stringify(body) : null, {
+    status,
+    headers: { ...corsHeaders, ...(body ? { 'Content-Type': 'application/json' } : {}) }
+  });
+}
+
+// The database functions check the tokens, so the anon key is enough
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+  auth: { persistSession: false }
+});
+
+async function handleLeave(form: FormData): Promise<Response> {
+  const field = (name: string) => {
+    const value = form.get(name);
+    return typeof value === 'string' && value ? value : null;
+  };
+
+  const action = field('action');
+
+  if (action === 'player_left') {
+    const playerId = field('playerId');
+    const playerToken = field('playerToken');
+    if (!playerId || !playerToken) {
+      return respond(400, { error: 'playerId and playerToken are required' });
+    }
+
+    const { error } = await supabase.rpc('player_left', { p_player_id: playerId, p_player_token: playerToken });
+    if (error) {
+      console.error('❌ Failed to record player leaving:', error);
+      return respond(error.code === '42501' ? 403 : 400, { error: error.message });
+    }
+
+    console.log('👋 Player left:', playerId);
+    return respond(204);
+  }
+
+  if (action === 'host_left') {
+    const roomId = field('roomId');
+    const hostToken = field('hostToken');
+    if (!roomId || !hostToken) {
+      return respond(400, { error: 'roomId and hostToken are required' });
+    }
+
+    // Pauses the game for the reconnect grace period rather than cancelling it
+    const { error } = await supabase.rpc('host_left', { p_room_id: roomId, p_host_token: hostToken });
+    if (error) {
+      console.error('❌ Failed to record host leaving:', error);
+      return respond(error.code === '42501' ? 403 : 400, { error: error.message });
+    }
+
+    console.log('👋 Host left, game paused:', roomId);
+    return respond(204);
+  }
+
+  return respond(400, { error: `Unknown action: ${action}` });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return respond(204);
+  }
+  if (req.method !== 'POST') {
+    return respond(405, { error: 'Method not allowed' });
+  }
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return respond(400, { error: 'Expected a form body' });
+  }
+
+  try {
+    return await handleLeave(form);
+  } catch (error) {
+    console.error('❌ Cleanup request failed:', error);
+    return respond(500, { error: 'Cleanup failed' });
+  }
+});
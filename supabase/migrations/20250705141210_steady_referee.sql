@@ -0,0 +1,211 @@
+/*
+  # Server-Authoritative Win Claims
+
+  1. New Tables
+    - `win_claims` records every MYNGO claim, accepted or rejected, with the
+      reason, the winning pattern and a snapshot of the claimant's marks
+
+  2. Functions
+    - `claim_win(p_player_id)` re-runs the win check against the stored card
+      and the room's called numbers, rejects marks that were never called,
+      and only then flips `is_winner` and finishes the room
+
+  3. Data Integrity
+    - A trigger on `players` refuses any change to `is_winner` that does not
+      come from `claim_win`, so browsers can no longer declare themselves winner
+*/
+
+CREATE TABLE IF NOT EXISTS win_claims (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE,
+  player_id uuid REFERENCES players(id) ON DELETE CASCADE,
+  player_name text,
+  accepted boolean NOT NULL,
+  reason text,
+  pattern text,
+  line integer,
+  marked_numbers integer[] DEFAULT '{}',
+  balls_called_count integer DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_win_claims_room_id ON win_claims(room_id);
+
+ALTER TABLE win_claims ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow reading win_claims" ON win_claims;
+
+CREATE POLICY "Allow reading win_claims"
+  ON win_claims
+  FOR SELECT
+  TO public
+  USING (true);
+
+-- Card cell lookup: row/col 0-4, NULL for the WILD centre square
+CREATE OR REPLACE FUNCTION myngo_card_cell(p_card jsonb, p_row integer, p_col integer)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_col = 2 AND p_row = 2 THEN NULL
+    WHEN p_col = 2 THEN (p_card->'N'->>(CASE WHEN p_row < 2 THEN p_row ELSE p_row - 1 END))::integer
+    ELSE (p_card->(ARRAY['M', 'Y', 'N', 'G', 'O'])[p_col + 1]->>p_row)::integer
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_win(p_player_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_player players%ROWTYPE;
+  v_room rooms%ROWTYPE;
+  v_called integer[];
+  v_daubed integer[];
+  v_uncalled integer[];
+  v_pattern text;
+  v_line integer;
+  v_cell integer;
+  v_complete boolean;
+  i integer;
+  j integer;
+BEGIN
+  SELECT * INTO v_player FROM players WHERE id = p_player_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'Player not found');
+  END IF;
+
+  -- Lock the room so two simultaneous claims are judged one after the other
+  SELECT * INTO v_room FROM rooms WHERE id = v_player.room_id FOR UPDATE;
+
+  IF v_player.is_winner THEN
+    RETURN jsonb_build_object('accepted', true, 'reason', 'Already declared winner');
+  END IF;
+
+  SELECT coalesce(array_agg(number), '{}') INTO v_called
+  FROM called_numbers
+  WHERE room_id = v_room.id;
+
+  IF v_room.status IN ('finished', 'cancelled') THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false, 'The game is already over', v_player.marked_numbers, cardinality(v_called));
+    RETURN jsonb_build_object('accepted', false, 'reason', 'The game is already over');
+  END IF;
+
+  SELECT coalesce(array_agg(m ORDER BY m), '{}') INTO v_uncalled
+  FROM unnest(v_player.marked_numbers) AS m
+  WHERE NOT (m = ANY (v_called));
+
+  IF cardinality(v_uncalled) > 0 THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false,
+            'Marked numbers that were never called: ' || array_to_string(v_uncalled, ', '),
+            v_player.marked_numbers, cardinality(v_called));
+    RETURN jsonb_build_object('accepted', false,
+      'reason', 'Marked numbers that were never called: ' || array_to_string(v_uncalled, ', '));
+  END IF;
+
+  v_daubed := v_player.marked_numbers;
+
+  -- Rows, then columns, then the two diagonals - same order as checkWin()
+  FOR i IN 0..4 LOOP
+    v_complete := true;
+    FOR j IN 0..4 LOOP
+      v_cell := myngo_card_cell(v_player.card, i, j);
+      IF v_cell IS NOT NULL AND NOT (v_cell = ANY (v_daubed)) THEN
+        v_complete := false;
+      END IF;
+    END LOOP;
+    IF v_complete THEN
+      v_pattern := 'row';
+      v_line := i;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF v_pattern IS NULL THEN
+    FOR j IN 0..4 LOOP
+      v_complete := true;
+      FOR i IN 0..4 LOOP
+        v_cell := myngo_card_cell(v_player.card, i, j);
+        IF v_cell IS NOT NULL AND NOT (v_cell = ANY (v_daubed)) THEN
+          v_complete := false;
+        END IF;
+      END LOOP;
+      IF v_complete THEN
+        v_pattern := 'column';
+        v_line := j;
+        EXIT;
+      END IF;
+    END LOOP;
+  END IF;
+
+  IF v_pattern IS NULL THEN
+    FOR j IN 0..1 LOOP
+      v_complete := true;
+      FOR i IN 0..4 LOOP
+        v_cell := myngo_card_cell(v_player.card, i, CASE WHEN j = 0 THEN i ELSE 4 - i END);
+        IF v_cell IS NOT NULL AND NOT (v_cell = ANY (v_daubed)) THEN
+          v_complete := false;
+        END IF;
+      END LOOP;
+      IF v_complete THEN
+        v_pattern := 'diagonal';
+        v_line := j;
+        EXIT;
+      END IF;
+    END LOOP;
+  END IF;
+
+  IF v_pattern IS NULL THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false, 'No winning pattern on this card yet', v_player.marked_numbers, cardinality(v_called));
+    RETURN jsonb_build_object('accepted', false, 'reason', 'No winning pattern on this card yet');
+  END IF;
+
+  PERFORM set_config('myngo.trusted_write', 'on', true);
+  UPDATE players SET is_winner = true WHERE id = v_player.id;
+  PERFORM set_config('myngo.trusted_write', 'off', true);
+
+  UPDATE rooms SET status = 'finished' WHERE id = v_room.id;
+
+  INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, pattern, line, marked_numbers, balls_called_count)
+  VALUES (v_room.id, v_player.id, v_player.name, true, 'Winner declared', v_pattern, v_line, v_player.marked_numbers, cardinality(v_called));
+
+  RETURN jsonb_build_object('accepted', true, 'pattern', v_pattern, 'line', v_line);
+END;
+$$;
+
+-- Only claim_win() may set or clear the winner flag
+CREATE OR REPLACE FUNCTION guard_player_winner_flag()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF coalesce(current_setting('myngo.trusted_write', true), 'off') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.is_winner THEN
+    RAISE EXCEPTION 'Winners can only be declared through claim_win()';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.is_winner IS DISTINCT FROM OLD.is_winner THEN
+    RAISE EXCEPTION 'Winners can only be declared through claim_win()';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS players_guard_winner_flag ON players;
+
+CREATE TRIGGER players_guard_winner_flag
+  BEFORE INSERT OR UPDATE ON players
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_player_winner_flag();
+
+GRANT EXECUTE ON FUNCTION claim_win(uuid) TO anon, authenticated;
@@ -0,0 +1,119 @@
+/*
+  # Data-Driven Win Patterns for Claims
+
+  1. Functions
+    - `myngo_default_win_masks()` returns the classic 12 line masks, used for
+      rooms created before win patterns were configurable
+    - `myngo_mask_complete(card, mask, daubed)` checks one 5x5 mask, where a
+      mask is a jsonb array of cell indices (row * 5 + col, WILD is 12)
+    - `claim_win(p_player_id)` now judges claims against the masks stored in
+      `rooms.config->'winPattern'` instead of hardcoded rows/columns/diagonals
+
+  2. Notes
+    - The response keeps the same shape: `pattern` is the pattern id and
+      `line` is the index of the completed mask
+*/
+
+CREATE OR REPLACE FUNCTION myngo_default_win_masks()
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '[
+    [0, 1, 2, 3, 4], [5, 6, 7, 8, 9], [10, 11, 12, 13, 14], [15, 16, 17, 18, 19], [20, 21, 22, 23, 24],
+    [0, 5, 10, 15, 20], [1, 6, 11, 16, 21], [2, 7, 12, 17, 22], [3, 8, 13, 18, 23], [4, 9, 14, 19, 24],
+    [0, 6, 12, 18, 24], [4, 8, 12, 16, 20]
+  ]'::jsonb;
+$$;
+
+CREATE OR REPLACE FUNCTION myngo_mask_complete(p_card jsonb, p_mask jsonb, p_daubed integer[])
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(bool_and(cell IS NULL OR cell = ANY (p_daubed)), false)
+  FROM (
+    SELECT myngo_card_cell(p_card, idx::integer / 5, idx::integer % 5) AS cell
+    FROM jsonb_array_elements_text(p_mask) AS m(idx)
+  ) AS cells;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_win(p_player_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_player players%ROWTYPE;
+  v_room rooms%ROWTYPE;
+  v_called integer[];
+  v_uncalled integer[];
+  v_pattern_id text;
+  v_masks jsonb;
+  v_line integer;
+  i integer;
+BEGIN
+  SELECT * INTO v_player FROM players WHERE id = p_player_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'Player not found');
+  END IF;
+
+  -- Lock the room so two simultaneous claims are judged one after the other
+  SELECT * INTO v_room FROM rooms WHERE id = v_player.room_id FOR UPDATE;
+
+  IF v_player.is_winner THEN
+    RETURN jsonb_build_object('accepted', true, 'reason', 'Already declared winner');
+  END IF;
+
+  SELECT coalesce(array_agg(number), '{}') INTO v_called
+  FROM called_numbers
+  WHERE room_id = v_room.id;
+
+  IF v_room.status IN ('finished', 'cancelled') THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false, 'The game is already over', v_player.marked_numbers, cardinality(v_called));
+    RETURN jsonb_build_object('accepted', false, 'reason', 'The game is already over');
+  END IF;
+
+  SELECT coalesce(array_agg(m ORDER BY m), '{}') INTO v_uncalled
+  FROM unnest(v_player.marked_numbers) AS m
+  WHERE NOT (m = ANY (v_called));
+
+  IF cardinality(v_uncalled) > 0 THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false,
+            'Marked numbers that were never called: ' || array_to_string(v_uncalled, ', '),
+            v_player.marked_numbers, cardinality(v_called));
+    RETURN jsonb_build_object('accepted', false,
+      'reason', 'Marked numbers that were never called: ' || array_to_string(v_uncalled, ', '));
+  END IF;
+
+  v_pattern_id := coalesce(v_room.config->'winPattern'->>'id', 'line');
+  v_masks := coalesce(v_room.config->'winPattern'->'masks', myngo_default_win_masks());
+
+  FOR i IN 0 .. jsonb_array_length(v_masks) - 1 LOOP
+    IF myngo_mask_complete(v_player.card, v_masks->i, v_player.marked_numbers) THEN
+      v_line := i;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF v_line IS NULL THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, pattern, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false, 'No winning pattern on this card yet', v_pattern_id, v_player.marked_numbers, cardinality(v_called));
+    RETURN jsonb_build_object('accepted', false, 'reason', 'No winning pattern on this card yet');
+  END IF;
+
+  PERFORM set_config('myngo.trusted_write', 'on', true);
+  UPDATE players SET is_winner = true WHERE id = v_player.id;
+  PERFORM set_config('myngo.trusted_write', 'off', true);
+
+  UPDATE rooms SET status = 'finished' WHERE id = v_room.id;
+
+  INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, pattern, line, marked_numbers, balls_called_count)
+  VALUES (v_room.id, v_player.id, v_player.name, true, 'Winner declared', v_pattern_id, v_line, v_player.marked_numbers, cardinality(v_called));
+
+  RETURN jsonb_build_object('accepted', true, 'pattern', v_pattern_id, 'line', v_line);
+END;
+$$;
@@ -0,0 +1,232 @@
+/*
+  # Staged Prizes Within a Single Game
+
+  1. Schema Changes
+    - `players.prizes_won` (text[]) lists the prize stage ids a player has won
+    - `game_history.winners` (jsonb) stores every prize winner in order,
+      replacing the single `winner_name` column (existing rows are backfilled)
+    - `win_claims.prize_id` records which prize a claim was judged against
+
+  2. Functions
+    - `myngo_room_prizes(config)` returns the room's prize stages, wrapping
+      single-pattern rooms in a one-stage list
+    - `claim_win(p_player_id)` judges a claim against the current prize only,
+      records the winner for that stage and advances
+      `config->'currentPrizeIndex'`; the room is only `finished` once the
+      last prize has been won
+    - Patterns may set `required` to need several distinct masks (two lines)
+    - `guard_player_winner_flag()` also protects `prizes_won`
+*/
+
+-- Prizes won per player
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'players' AND column_name = 'prizes_won'
+  ) THEN
+    ALTER TABLE players ADD COLUMN prizes_won text[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
+
+UPDATE players SET prizes_won = ARRAY['prize-1'] WHERE is_winner AND cardinality(prizes_won) = 0;
+
+-- Winner list per game
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'game_history' AND column_name = 'winners'
+  ) THEN
+    ALTER TABLE game_history ADD COLUMN winners jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'game_history' AND column_name = 'winner_name'
+  ) THEN
+    UPDATE game_history
+    SET winners = jsonb_build_array(jsonb_build_object(
+      'prize_id', 'prize-1',
+      'prize_name', 'MYNGO',
+      'player_id', NULL,
+      'player_name', winner_name,
+      'balls_called_count', balls_called_count,
+      'won_at', created_at
+    ))
+    WHERE winner_name IS NOT NULL AND winners = '[]'::jsonb;
+
+    ALTER TABLE game_history DROP COLUMN winner_name;
+  END IF;
+END $$;
+
+ALTER TABLE win_claims ADD COLUMN IF NOT EXISTS prize_id text;
+
+CREATE OR REPLACE FUNCTION myngo_room_prizes(p_config jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_config->'prizes') = 'array' AND jsonb_array_length(p_config->'prizes') > 0
+      THEN p_config->'prizes'
+    ELSE jsonb_build_array(jsonb_build_object(
+      'id', 'prize-1',
+      'name', 'MYNGO',
+      'winPattern', coalesce(
+        p_config->'winPattern',
+        jsonb_build_object('id', 'line', 'masks', myngo_default_win_masks())
+      )
+    ))
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_win(p_player_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_player players%ROWTYPE;
+  v_room rooms%ROWTYPE;
+  v_called integer[];
+  v_uncalled integer[];
+  v_prizes jsonb;
+  v_prize_index integer;
+  v_prize jsonb;
+  v_prize_id text;
+  v_pattern_id text;
+  v_masks jsonb;
+  v_required integer;
+  v_completed integer := 0;
+  v_line integer;
+  v_game_over boolean;
+  i integer;
+BEGIN
+  SELECT * INTO v_player FROM players WHERE id = p_player_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'Player not found');
+  END IF;
+
+  -- Lock the room so two simultaneous claims are judged one after the other
+  SELECT * INTO v_room FROM rooms WHERE id = v_player.room_id FOR UPDATE;
+
+  v_prizes := myngo_room_prizes(v_room.config);
+  v_prize_index := least(greatest(coalesce((v_room.config->>'currentPrizeIndex')::integer, 0), 0),
+                         jsonb_array_length(v_prizes) - 1);
+  v_prize := v_prizes->v_prize_index;
+  v_prize_id := coalesce(v_prize->>'id', 'prize-' || (v_prize_index + 1));
+
+  IF v_prize_id = ANY (v_player.prizes_won) THEN
+    RETURN jsonb_build_object('accepted', true, 'reason', 'Already won this prize', 'prize', v_prize_id);
+  END IF;
+
+  SELECT coalesce(array_agg(number), '{}') INTO v_called
+  FROM called_numbers
+  WHERE room_id = v_room.id;
+
+  IF v_room.status IN ('finished', 'cancelled') THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, prize_id, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false, 'The game is already over', v_prize_id, v_player.marked_numbers, cardinality(v_called));
+    RETURN jsonb_build_object('accepted', false, 'reason', 'The game is already over');
+  END IF;
+
+  SELECT coalesce(array_agg(m ORDER BY m), '{}') INTO v_uncalled
+  FROM unnest(v_player.marked_numbers) AS m
+  WHERE NOT (m = ANY (v_called));
+
+  IF cardinality(v_uncalled) > 0 THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, prize_id, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false,
+            'Marked numbers that were never called: ' || array_to_string(v_uncalled, ', '),
+            v_prize_id, v_player.marked_numbers, cardinality(v_called));
+    RETURN jsonb_build_object('accepted', false,
+      'reason', 'Marked numbers that were never called: ' || array_to_string(v_uncalled, ', '));
+  END IF;
+
+  v_pattern_id := coalesce(v_prize->'winPattern'->>'id', 'line');
+  v_masks := coalesce(v_prize->'winPattern'->'masks', myngo_default_win_masks());
+  v_required := least(greatest(coalesce((v_prize->'winPattern'->>'required')::integer, 1), 1),
+                      jsonb_array_length(v_masks));
+
+  FOR i IN 0 .. jsonb_array_length(v_masks) - 1 LOOP
+    IF myngo_mask_complete(v_player.card, v_masks->i, v_player.marked_numbers) THEN
+      v_line := coalesce(v_line, i);
+      v_completed := v_completed + 1;
+      EXIT WHEN v_completed >= v_required;
+    END IF;
+  END LOOP;
+
+  IF v_completed < v_required THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, pattern, prize_id, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false, 'No winning pattern on this card yet', v_pattern_id, v_prize_id, v_player.marked_numbers, cardinality(v_called));
+    RETURN jsonb_build_object('accepted', false, 'reason', 'No winning pattern on this card yet');
+  END IF;
+
+  PERFORM set_config('myngo.trusted_write', 'on', true);
+  UPDATE players
+  SET is_winner = true,
+      prizes_won = array_append(prizes_won, v_prize_id)
+  WHERE id = v_player.id;
+  PERFORM set_config('myngo.trusted_write', 'off', true);
+
+  v_game_over := v_prize_index >= jsonb_array_length(v_prizes) - 1;
+
+  IF v_game_over THEN
+    UPDATE rooms SET status = 'finished' WHERE id = v_room.id;
+  ELSE
+    UPDATE rooms
+    SET config = jsonb_set(config, '{currentPrizeIndex}', to_jsonb(v_prize_index + 1))
+    WHERE id = v_room.id;
+  END IF;
+
+  UPDATE game_history
+  SET winners = winners || jsonb_build_array(jsonb_build_object(
+    'prize_id', v_prize_id,
+    'prize_name', coalesce(v_prize->>'name', 'MYNGO'),
+    'player_id', v_player.id,
+    'player_name', v_player.name,
+    'balls_called_count', cardinality(v_called),
+    'won_at', now()
+  ))
+  WHERE room_code = v_room.code AND ending_status = 'active';
+
+  INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, pattern, prize_id, line, marked_numbers, balls_called_count)
+  VALUES (v_room.id, v_player.id, v_player.name, true, 'Winner declared', v_pattern_id, v_prize_id, v_line, v_player.marked_numbers, cardinality(v_called));
+
+  RETURN jsonb_build_object(
+    'accepted', true,
+    'pattern', v_pattern_id,
+    'line', v_line,
+    'prize', v_prize_id,
+    'gameOver', v_game_over
+  );
+END;
+$$;
+
+-- Only claim_win() may set or clear the winner flag and prizes won
+CREATE OR REPLACE FUNCTION guard_player_winner_flag()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF coalesce(current_setting('myngo.trusted_write', true), 'off') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND (NEW.is_winner OR cardinality(NEW.prizes_won) > 0) THEN
+    RAISE EXCEPTION 'Winners can only be declared through claim_win()';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (NEW.is_winner IS DISTINCT FROM OLD.is_winner
+                           OR NEW.prizes_won IS DISTINCT FROM OLD.prizes_won) THEN
+    RAISE EXCEPTION 'Winners can only be declared through claim_win()';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,234 @@
+/*
+  # Server-Driven Auto-Caller
+
+  1. Schema Changes
+    - `rooms.next_call_at` (timestamptz) is when the next number will be
+      called automatically; NULL while auto-calling is off or paused. Every
+      client counts down to this one timestamp.
+
+  2. Functions
+    - `myngo_call_frequency(config)` reads `callFrequency` (seconds, min 5)
+    - `myngo_call_next_number(room_id)` calls a random uncalled number
+    - `myngo_run_auto_caller()` calls a number in every open room whose
+      `next_call_at` has passed; scheduled with pg_cron once a second
+    - `start_auto_caller`, `stop_auto_caller`, `pause_auto_caller` and
+      `resume_auto_caller` (p_room_id) update `config->'autoCall'`,
+      `config->'isPaused'` and `next_call_at` together
+
+  3. Triggers
+    - Calling any number (auto or manual) pushes `next_call_at` back by the
+      room's call frequency, and clears it once the game is over or all 75
+      numbers are out
+
+  4. Notes
+    - The host dashboard only sends start/stop/pause/resume, so numbers keep
+      coming after the host closes the tab
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS next_call_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_rooms_next_call_at ON rooms(next_call_at) WHERE next_call_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION myngo_call_frequency(p_config jsonb)
+RETURNS interval
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT make_interval(secs => greatest(coalesce((p_config->>'callFrequency')::integer, 20), 5));
+$$;
+
+CREATE OR REPLACE FUNCTION myngo_letter_for_number(p_number integer)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_number <= 15 THEN 'M'
+    WHEN p_number <= 30 THEN 'Y'
+    WHEN p_number <= 45 THEN 'N'
+    WHEN p_number <= 60 THEN 'G'
+    ELSE 'O'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION myngo_call_next_number(p_room_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_number integer;
+BEGIN
+  SELECT n INTO v_number
+  FROM generate_series(1, 75) AS n
+  WHERE NOT EXISTS (
+    SELECT 1 FROM called_numbers WHERE room_id = p_room_id AND number = n
+  )
+  ORDER BY random()
+  LIMIT 1;
+
+  IF v_number IS NULL THEN
+    UPDATE rooms SET next_call_at = NULL WHERE id = p_room_id;
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO called_numbers (room_id, number, letter)
+  VALUES (p_room_id, v_number, myngo_letter_for_number(v_number));
+
+  RETURN v_number;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION myngo_run_auto_caller()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+  v_called integer := 0;
+BEGIN
+  FOR v_room IN
+    SELECT * FROM rooms
+    WHERE next_call_at IS NOT NULL AND next_call_at <= now()
+    ORDER BY next_call_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF v_room.status NOT IN ('waiting', 'active')
+       OR coalesce((v_room.config->'autoCall'->>'enabled')::boolean, false) = false
+       OR coalesce((v_room.config->>'isPaused')::boolean, false) THEN
+      UPDATE rooms SET next_call_at = NULL WHERE id = v_room.id;
+      CONTINUE;
+    END IF;
+
+    IF myngo_call_next_number(v_room.id) IS NOT NULL THEN
+      v_called := v_called + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_called;
+END;
+$$;
+
+-- Keep the schedule running whenever a number is called, by the server or by hand
+CREATE OR REPLACE FUNCTION myngo_reschedule_auto_caller()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE rooms
+  SET next_call_at = CASE
+    WHEN status IN ('waiting', 'active')
+      AND (SELECT count(*) FROM called_numbers WHERE room_id = NEW.room_id) < 75
+      THEN now() + myngo_call_frequency(config)
+    ELSE NULL
+  END
+  WHERE id = NEW.room_id AND next_call_at IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reschedule_auto_caller ON called_numbers;
+CREATE TRIGGER reschedule_auto_caller
+  AFTER INSERT ON called_numbers
+  FOR EACH ROW
+  EXECUTE FUNCTION myngo_reschedule_auto_caller();
+
+-- A finished game stops the countdown on every client
+CREATE OR REPLACE FUNCTION myngo_clear_auto_caller_on_finish()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IN ('finished', 'cancelled') THEN
+    NEW.next_call_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS clear_auto_caller_on_finish ON rooms;
+CREATE TRIGGER clear_auto_caller_on_finish
+  BEFORE UPDATE OF status ON rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION myngo_clear_auto_caller_on_finish();
+
+CREATE OR REPLACE FUNCTION start_auto_caller(p_room_id uuid)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_next_call_at timestamptz;
+BEGIN
+  UPDATE rooms
+  SET config = config || jsonb_build_object(
+        'autoCall', coalesce(config->'autoCall', '{}'::jsonb) || '{"enabled": true}'::jsonb,
+        'isPaused', false
+      ),
+      next_call_at = now() + myngo_call_frequency(config)
+  WHERE id = p_room_id AND status IN ('waiting', 'active')
+  RETURNING next_call_at INTO v_next_call_at;
+
+  RETURN v_next_call_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION stop_auto_caller(p_room_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE rooms
+  SET config = config || jsonb_build_object(
+        'autoCall', coalesce(config->'autoCall', '{}'::jsonb) || '{"enabled": false}'::jsonb
+      ),
+      next_call_at = NULL
+  WHERE id = p_room_id;
+$$;
+
+CREATE OR REPLACE FUNCTION pause_auto_caller(p_room_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE rooms
+  SET config = config || '{"isPaused": true}'::jsonb,
+      next_call_at = NULL
+  WHERE id = p_room_id;
+$$;
+
+CREATE OR REPLACE FUNCTION resume_auto_caller(p_room_id uuid)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_next_call_at timestamptz;
+BEGIN
+  UPDATE rooms
+  SET config = config || '{"isPaused": false}'::jsonb,
+      next_call_at = CASE
+        WHEN coalesce((config->'autoCall'->>'enabled')::boolean, false) THEN now() + myngo_call_frequency(config)
+        ELSE NULL
+      END
+  WHERE id = p_room_id AND status IN ('waiting', 'active')
+  RETURNING next_call_at INTO v_next_call_at;
+
+  RETURN v_next_call_at;
+END;
+$$;
+
+-- Re-scheduling under the same name replaces the existing job
+SELECT cron.schedule('myngo-auto-caller', '1 seconds', 'SELECT myngo_run_auto_caller()');
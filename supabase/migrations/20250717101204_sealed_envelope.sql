@@ -0,0 +1,260 @@
+/*
+  # Seeded, Verifiable Cards and Calls
+
+  1. New Tables
+    - `room_seeds` holds each room's secret seed (64 hex characters). RLS is
+      enabled with no policies, so clients can never read it directly.
+
+  2. Schema Changes
+    - `rooms.seed_hash` is sha256(seed), published when the room is created
+    - `rooms.seed` stays NULL until the room is finished or cancelled, then
+      reveals the seed so players can verify the game
+    - `game_history.seed_hash` and `game_history.seed` keep both for replays
+
+  3. Derivation (matches src/utils/fairness.ts)
+    - `myngo_seed_digest(seed, purpose, n)` = hex(sha256(seed:purpose:n))
+    - Digests are compared bytewise (COLLATE "C"), like JavaScript strings
+    - Call order: 1..75 sorted by digest('call', n)
+    - Card: each column range sorted by digest('card:' || player_id, n),
+      first 5 (4 for N) taken and sorted ascending
+
+  4. Triggers and Functions
+    - New rooms get a seed and commitment; both are read-only afterwards
+    - Finishing, cancelling or deleting a room copies the seed into its
+      `game_history` row
+    - New players (and bots) are dealt their card from the seed, whatever card
+      the client sent; cards can't be changed later
+    - `myngo_call_next_number(room_id)` now calls the next number in the
+      seeded order, for both the auto-caller and the host's button
+*/
+
+CREATE TABLE IF NOT EXISTS room_seeds (
+  room_id uuid PRIMARY KEY REFERENCES rooms(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  seed text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE room_seeds ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS seed_hash text;
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS seed text;
+ALTER TABLE game_history ADD COLUMN IF NOT EXISTS seed_hash text;
+ALTER TABLE game_history ADD COLUMN IF NOT EXISTS seed text;
+
+CREATE OR REPLACE FUNCTION myngo_seed_digest(p_seed text, p_purpose text, p_number integer)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT encode(sha256(convert_to(p_seed || ':' || p_purpose || ':' || p_number, 'UTF8')), 'hex');
+$$;
+
+CREATE OR REPLACE FUNCTION myngo_seeded_card(p_seed text, p_player_id text)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_object_agg(columns.letter, (
+    SELECT jsonb_agg(picked.n ORDER BY picked.n)
+    FROM (
+      SELECT n
+      FROM generate_series(columns.low, columns.low + 14) AS n
+      ORDER BY myngo_seed_digest(p_seed, 'card:' || p_player_id, n) COLLATE "C", n
+      LIMIT columns.pick
+    ) AS picked
+  ))
+  FROM (VALUES ('M', 1, 5), ('Y', 16, 5), ('N', 31, 4), ('G', 46, 5), ('O', 61, 5))
+    AS columns(letter, low, pick);
+$$;
+
+-- Two random UUIDs give 244 random bits without needing pgcrypto
+CREATE OR REPLACE FUNCTION myngo_new_seed()
+RETURNS text
+LANGUAGE sql
+VOLATILE
+AS $$
+  SELECT replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+$$;
+
+CREATE OR REPLACE FUNCTION myngo_room_seed(p_room_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT seed FROM room_seeds WHERE room_id = p_room_id;
+$$;
+
+REVOKE ALL ON FUNCTION myngo_room_seed(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Seed every new room and publish only the hash
+CREATE OR REPLACE FUNCTION myngo_seed_new_room()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_seed text := myngo_new_seed();
+BEGIN
+  INSERT INTO room_seeds (room_id, seed) VALUES (NEW.id, v_seed);
+  NEW.seed_hash := encode(sha256(convert_to(v_seed, 'UTF8')), 'hex');
+  NEW.seed := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS seed_new_room ON rooms;
+CREATE TRIGGER seed_new_room
+  BEFORE INSERT ON rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION myngo_seed_new_room();
+
+-- The commitment never changes; the seed is revealed once the game is over
+CREATE OR REPLACE FUNCTION myngo_guard_room_seed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.seed_hash := OLD.seed_hash;
+
+  IF NEW.status IN ('finished', 'cancelled') THEN
+    NEW.seed := myngo_room_seed(NEW.id);
+
+    IF OLD.seed IS NULL AND NEW.seed IS NOT NULL THEN
+      UPDATE game_history
+      SET seed = NEW.seed
+      WHERE room_code = NEW.code AND seed_hash = NEW.seed_hash;
+    END IF;
+  ELSE
+    NEW.seed := OLD.seed;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_room_seed ON rooms;
+CREATE TRIGGER guard_room_seed
+  BEFORE UPDATE ON rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION myngo_guard_room_seed();
+
+-- Rooms the host ends are deleted outright - keep their seed in the history
+CREATE OR REPLACE FUNCTION myngo_reveal_seed_on_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE game_history
+  SET seed = myngo_room_seed(OLD.id)
+  WHERE room_code = OLD.code AND seed_hash = OLD.seed_hash AND seed IS NULL;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reveal_seed_on_delete ON rooms;
+CREATE TRIGGER reveal_seed_on_delete
+  BEFORE DELETE ON rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION myngo_reveal_seed_on_delete();
+
+-- History rows are created by the client right after the room
+CREATE OR REPLACE FUNCTION myngo_history_seed_hash()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  SELECT seed_hash INTO NEW.seed_hash
+  FROM rooms
+  WHERE code = NEW.room_code AND status IN ('waiting', 'active')
+  ORDER BY created_at DESC
+  LIMIT 1;
+  NEW.seed := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS history_seed_hash ON game_history;
+CREATE TRIGGER history_seed_hash
+  BEFORE INSERT ON game_history
+  FOR EACH ROW
+  EXECUTE FUNCTION myngo_history_seed_hash();
+
+-- Cards are dealt from the seed and can't be swapped afterwards
+CREATE OR REPLACE FUNCTION myngo_deal_seeded_card()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.card := myngo_seeded_card(myngo_room_seed(NEW.room_id), NEW.id::text);
+    IF NEW.card IS NULL THEN
+      RAISE EXCEPTION 'Room % has no seed', NEW.room_id;
+    END IF;
+  ELSE
+    NEW.card := OLD.card;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS deal_seeded_card ON players;
+CREATE TRIGGER deal_seeded_card
+  BEFORE INSERT OR UPDATE OF card ON players
+  FOR EACH ROW
+  EXECUTE FUNCTION myngo_deal_seeded_card();
+
+CREATE OR REPLACE FUNCTION myngo_call_next_number(p_room_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_seed text := myngo_room_seed(p_room_id);
+  v_number integer;
+BEGIN
+  IF v_seed IS NULL THEN
+    RAISE EXCEPTION 'Room % has no seed', p_room_id;
+  END IF;
+
+  SELECT n INTO v_number
+  FROM generate_series(1, 75) AS n
+  WHERE NOT EXISTS (
+    SELECT 1 FROM called_numbers WHERE room_id = p_room_id AND number = n
+  )
+  ORDER BY myngo_seed_digest(v_seed, 'call', n) COLLATE "C", n
+  LIMIT 1;
+
+  IF v_number IS NULL THEN
+    UPDATE rooms SET next_call_at = NULL WHERE id = p_room_id;
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO called_numbers (room_id, number, letter)
+  VALUES (p_room_id, v_number, myngo_letter_for_number(v_number));
+
+  RETURN v_number;
+END;
+$$;
+
+-- Rooms created before seeding get one now; their existing cards and calls
+-- predate it, so only games started from here on are verifiable
+INSERT INTO room_seeds (room_id, seed)
+SELECT id, myngo_new_seed() FROM rooms
+WHERE id NOT IN (SELECT room_id FROM room_seeds);
+
+ALTER TABLE rooms DISABLE TRIGGER guard_room_seed;
+UPDATE rooms
+SET seed_hash = encode(sha256(convert_to(room_seeds.seed, 'UTF8')), 'hex')
+FROM room_seeds
+WHERE room_seeds.room_id = rooms.id AND rooms.seed_hash IS NULL;
+ALTER TABLE rooms ENABLE TRIGGER guard_room_seed;
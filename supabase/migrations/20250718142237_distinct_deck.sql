@@ -0,0 +1,150 @@
+/*
+  # Unique Cards Within a Room
+
+  1. Schema Changes
+    - `players.card_fingerprint` is the card's numbers in canonical form
+      ("M:1,4,7,10,12|Y:...|N:...|G:...|O:..."), unique per room
+    - `players.card_deal` is the deal attempt the card came from, so seeded
+      cards can still be re-derived and verified (0 for the first attempt)
+
+  2. Functions
+    - `myngo_card_fingerprint(card)` builds the fingerprint
+    - `myngo_card_difference(a, b)` counts the numbers on card `a` that are
+      not on card `b` (0 means identical, 24 means nothing shared)
+
+  3. Triggers
+    - `myngo_deal_seeded_card()` now redeals (attempt 1, 2, ... using the
+      key 'card:' || player_id || ':' || attempt) until the card differs from
+      every other card in the room by at least
+      `config->'minCardDifference'` numbers (default 1 = not identical).
+      Joins to one room are serialized by locking the room row.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'players' AND column_name = 'card_fingerprint'
+  ) THEN
+    ALTER TABLE players ADD COLUMN card_fingerprint text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'players' AND column_name = 'card_deal'
+  ) THEN
+    ALTER TABLE players ADD COLUMN card_deal integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION myngo_card_fingerprint(p_card jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT string_agg(
+    letters.letter || ':' || (
+      SELECT string_agg(value::text, ',' ORDER BY value::integer)
+      FROM jsonb_array_elements_text(p_card->letters.letter) AS value
+    ),
+    '|' ORDER BY letters.position
+  )
+  FROM (VALUES ('M', 1), ('Y', 2), ('N', 3), ('G', 4), ('O', 5)) AS letters(letter, position);
+$$;
+
+CREATE OR REPLACE FUNCTION myngo_card_difference(p_card jsonb, p_other jsonb)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT count(*)::integer
+  FROM (
+    SELECT jsonb_array_elements_text(p_card->letter)::integer AS n
+    FROM unnest(ARRAY['M', 'Y', 'N', 'G', 'O']) AS letter
+  ) AS mine
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM unnest(ARRAY['M', 'Y', 'N', 'G', 'O']) AS letter
+    WHERE p_other->letter @> to_jsonb(mine.n)
+  );
+$$;
+
+-- Existing players keep their cards; clear clashing fingerprints so the
+-- unique index can be built (those rooms predate the guarantee)
+UPDATE players SET card_fingerprint = myngo_card_fingerprint(card) WHERE card_fingerprint IS NULL;
+
+UPDATE players
+SET card_fingerprint = NULL
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, row_number() OVER (PARTITION BY room_id, card_fingerprint ORDER BY joined_at) AS copy
+    FROM players
+  ) AS ranked
+  WHERE copy > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_players_room_card_fingerprint
+  ON players(room_id, card_fingerprint);
+
+CREATE OR REPLACE FUNCTION myngo_deal_seeded_card()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_seed text;
+  v_min_difference integer;
+  v_card jsonb;
+  v_attempt integer := 0;
+  v_max_attempts constant integer := 50;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.card := OLD.card;
+    NEW.card_fingerprint := OLD.card_fingerprint;
+    NEW.card_deal := OLD.card_deal;
+    RETURN NEW;
+  END IF;
+
+  -- One deal at a time per room, so two joins can't both pass the checks
+  SELECT least(greatest(coalesce((config->>'minCardDifference')::integer, 1), 1), 24)
+  INTO v_min_difference
+  FROM rooms
+  WHERE id = NEW.room_id
+  FOR UPDATE;
+
+  v_seed := myngo_room_seed(NEW.room_id);
+  IF v_seed IS NULL THEN
+    RAISE EXCEPTION 'Room % has no seed', NEW.room_id;
+  END IF;
+
+  LOOP
+    v_card := myngo_seeded_card(
+      v_seed,
+      CASE WHEN v_attempt = 0 THEN NEW.id::text ELSE NEW.id::text || ':' || v_attempt END
+    );
+
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM players
+      WHERE room_id = NEW.room_id
+        AND myngo_card_difference(v_card, card) < v_min_difference
+    );
+
+    v_attempt := v_attempt + 1;
+    IF v_attempt >= v_max_attempts THEN
+      RAISE EXCEPTION 'Could not deal a unique card in this room - it is too full for the card spread setting';
+    END IF;
+  END LOOP;
+
+  NEW.card := v_card;
+  NEW.card_deal := v_attempt;
+  NEW.card_fingerprint := myngo_card_fingerprint(v_card);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS deal_seeded_card ON players;
+CREATE TRIGGER deal_seeded_card
+  BEFORE INSERT OR UPDATE OF card, card_fingerprint, card_deal ON players
+  FOR EACH ROW
+  EXECUTE FUNCTION myngo_deal_seeded_card();
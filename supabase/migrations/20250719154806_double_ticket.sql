@@ -0,0 +1,324 @@
+/*
+  # Several Cards per Player
+
+  1. Schema Changes
+    - `players.card_count` is how many cards the player asked for (1 by
+      default), capped by `config->'maxCardsPerPlayer'` (1-4, default 1)
+    - `players.extra_cards` holds cards 2..n as
+      `[{ "card": {...}, "deal": 0, "fingerprint": "M:..." }, ...]`; card 1
+      stays in `players.card`
+    - `players.extra_marked_numbers` holds the marks for cards 2..n, one
+      number array per extra card
+    - `win_claims.card_index` records which card a claim was made on
+      (0 = `players.card`, 1 = `extra_cards[0]`, ...)
+
+  2. Functions
+    - `myngo_room_cards(room_id)` lists every card in the room, extras included
+    - `myngo_deal_unique_card(...)` deals the first seeded card that is far
+      enough from every card in the room and those already dealt to the row
+    - `claim_win(p_player_id, p_card_index)` judges the given card; the
+      one-argument version is replaced
+
+  3. Triggers
+    - `myngo_deal_seeded_card()` deals `card_count` cards. Extra card i uses
+      the key player_id || '#' || i (plus ':' || attempt on a redeal), so
+      every card can still be verified against the revealed seed.
+      Card count and extra cards can't be changed after joining.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'players' AND column_name = 'card_count'
+  ) THEN
+    ALTER TABLE players ADD COLUMN card_count integer NOT NULL DEFAULT 1;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'players' AND column_name = 'extra_cards'
+  ) THEN
+    ALTER TABLE players ADD COLUMN extra_cards jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'players' AND column_name = 'extra_marked_numbers'
+  ) THEN
+    ALTER TABLE players ADD COLUMN extra_marked_numbers jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'win_claims' AND column_name = 'card_index'
+  ) THEN
+    ALTER TABLE win_claims ADD COLUMN card_index integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION myngo_room_cards(p_room_id uuid)
+RETURNS SETOF jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT card FROM players WHERE room_id = p_room_id
+  UNION ALL
+  SELECT extra->'card'
+  FROM players, jsonb_array_elements(players.extra_cards) AS extra
+  WHERE players.room_id = p_room_id;
+$$;
+
+CREATE OR REPLACE FUNCTION myngo_deal_unique_card(
+  p_seed text,
+  p_room_id uuid,
+  p_key text,
+  p_min_difference integer,
+  p_dealt jsonb,
+  OUT dealt_card jsonb,
+  OUT dealt_attempt integer
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_max_attempts constant integer := 50;
+BEGIN
+  dealt_attempt := 0;
+
+  LOOP
+    dealt_card := myngo_seeded_card(
+      p_seed,
+      CASE WHEN dealt_attempt = 0 THEN p_key ELSE p_key || ':' || dealt_attempt END
+    );
+
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM myngo_room_cards(p_room_id) AS existing(card)
+      WHERE myngo_card_difference(dealt_card, existing.card) < p_min_difference
+    ) AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_dealt) AS dealt(card)
+      WHERE myngo_card_difference(dealt_card, dealt.card) < p_min_difference
+    );
+
+    dealt_attempt := dealt_attempt + 1;
+    IF dealt_attempt >= v_max_attempts THEN
+      RAISE EXCEPTION 'Could not deal a unique card in this room - it is too full for the card spread setting';
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION myngo_deal_seeded_card()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_seed text;
+  v_min_difference integer;
+  v_max_cards integer;
+  v_dealt jsonb := '[]'::jsonb;
+  v_extra_cards jsonb := '[]'::jsonb;
+  v_extra_marks jsonb := '[]'::jsonb;
+  v_deal record;
+  i integer;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.card := OLD.card;
+    NEW.card_fingerprint := OLD.card_fingerprint;
+    NEW.card_deal := OLD.card_deal;
+    NEW.card_count := OLD.card_count;
+    NEW.extra_cards := OLD.extra_cards;
+    RETURN NEW;
+  END IF;
+
+  -- One deal at a time per room, so two joins can't both pass the checks
+  SELECT least(greatest(coalesce((config->>'minCardDifference')::integer, 1), 1), 24),
+         least(greatest(coalesce((config->>'maxCardsPerPlayer')::integer, 1), 1), 4)
+  INTO v_min_difference, v_max_cards
+  FROM rooms
+  WHERE id = NEW.room_id
+  FOR UPDATE;
+
+  v_seed := myngo_room_seed(NEW.room_id);
+  IF v_seed IS NULL THEN
+    RAISE EXCEPTION 'Room % has no seed', NEW.room_id;
+  END IF;
+
+  NEW.card_count := least(greatest(coalesce(NEW.card_count, 1), 1), v_max_cards);
+
+  SELECT * INTO v_deal
+  FROM myngo_deal_unique_card(v_seed, NEW.room_id, NEW.id::text, v_min_difference, v_dealt);
+  NEW.card := v_deal.dealt_card;
+  NEW.card_deal := v_deal.dealt_attempt;
+  NEW.card_fingerprint := myngo_card_fingerprint(v_deal.dealt_card);
+  v_dealt := jsonb_build_array(v_deal.dealt_card);
+
+  FOR i IN 1 .. NEW.card_count - 1 LOOP
+    SELECT * INTO v_deal
+    FROM myngo_deal_unique_card(v_seed, NEW.room_id, NEW.id::text || '#' || i, v_min_difference, v_dealt);
+    v_dealt := v_dealt || jsonb_build_array(v_deal.dealt_card);
+    v_extra_cards := v_extra_cards || jsonb_build_array(jsonb_build_object(
+      'card', v_deal.dealt_card,
+      'deal', v_deal.dealt_attempt,
+      'fingerprint', myngo_card_fingerprint(v_deal.dealt_card)
+    ));
+    v_extra_marks := v_extra_marks || jsonb_build_array('[]'::jsonb);
+  END LOOP;
+
+  NEW.extra_cards := v_extra_cards;
+  NEW.extra_marked_numbers := v_extra_marks;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS deal_seeded_card ON players;
+CREATE TRIGGER deal_seeded_card
+  BEFORE INSERT OR UPDATE OF card, card_fingerprint, card_deal, card_count, extra_cards ON players
+  FOR EACH ROW
+  EXECUTE FUNCTION myngo_deal_seeded_card();
+
+DROP FUNCTION IF EXISTS claim_win(uuid);
+
+CREATE OR REPLACE FUNCTION claim_win(p_player_id uuid, p_card_index integer DEFAULT 0)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_player players%ROWTYPE;
+  v_room rooms%ROWTYPE;
+  v_card jsonb;
+  v_marked integer[];
+  v_called integer[];
+  v_uncalled integer[];
+  v_prizes jsonb;
+  v_prize_index integer;
+  v_prize jsonb;
+  v_prize_id text;
+  v_pattern_id text;
+  v_masks jsonb;
+  v_required integer;
+  v_completed integer := 0;
+  v_line integer;
+  v_game_over boolean;
+  i integer;
+BEGIN
+  SELECT * INTO v_player FROM players WHERE id = p_player_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'Player not found');
+  END IF;
+
+  IF p_card_index IS NULL OR p_card_index < 0 OR p_card_index >= v_player.card_count THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'Card not found');
+  END IF;
+
+  IF p_card_index = 0 THEN
+    v_card := v_player.card;
+    v_marked := v_player.marked_numbers;
+  ELSE
+    v_card := v_player.extra_cards->(p_card_index - 1)->'card';
+    SELECT coalesce(array_agg(value::integer), '{}') INTO v_marked
+    FROM jsonb_array_elements_text(coalesce(v_player.extra_marked_numbers->(p_card_index - 1), '[]'::jsonb)) AS value;
+  END IF;
+
+  -- Lock the room so two simultaneous claims are judged one after the other
+  SELECT * INTO v_room FROM rooms WHERE id = v_player.room_id FOR UPDATE;
+
+  v_prizes := myngo_room_prizes(v_room.config);
+  v_prize_index := least(greatest(coalesce((v_room.config->>'currentPrizeIndex')::integer, 0), 0),
+                         jsonb_array_length(v_prizes) - 1);
+  v_prize := v_prizes->v_prize_index;
+  v_prize_id := coalesce(v_prize->>'id', 'prize-' || (v_prize_index + 1));
+
+  IF v_prize_id = ANY (v_player.prizes_won) THEN
+    RETURN jsonb_build_object('accepted', true, 'reason', 'Already won this prize', 'prize', v_prize_id);
+  END IF;
+
+  SELECT coalesce(array_agg(number), '{}') INTO v_called
+  FROM called_numbers
+  WHERE room_id = v_room.id;
+
+  IF v_room.status IN ('finished', 'cancelled') THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, prize_id, card_index, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false, 'The game is already over', v_prize_id, p_card_index, v_marked, cardinality(v_called));
+    RETURN jsonb_build_object('accepted', false, 'reason', 'The game is already over');
+  END IF;
+
+  SELECT coalesce(array_agg(m ORDER BY m), '{}') INTO v_uncalled
+  FROM unnest(v_marked) AS m
+  WHERE NOT (m = ANY (v_called));
+
+  IF cardinality(v_uncalled) > 0 THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, prize_id, card_index, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false,
+            'Marked numbers that were never called: ' || array_to_string(v_uncalled, ', '),
+            v_prize_id, p_card_index, v_marked, cardinality(v_called));
+    RETURN jsonb_build_object('accepted', false,
+      'reason', 'Marked numbers that were never called: ' || array_to_string(v_uncalled, ', '));
+  END IF;
+
+  v_pattern_id := coalesce(v_prize->'winPattern'->>'id', 'line');
+  v_masks := coalesce(v_prize->'winPattern'->'masks', myngo_default_win_masks());
+  v_required := least(greatest(coalesce((v_prize->'winPattern'->>'required')::integer, 1), 1),
+                      jsonb_array_length(v_masks));
+
+  FOR i IN 0 .. jsonb_array_length(v_masks) - 1 LOOP
+    IF myngo_mask_complete(v_card, v_masks->i, v_marked) THEN
+      v_line := coalesce(v_line, i);
+      v_completed := v_completed + 1;
+      EXIT WHEN v_completed >= v_required;
+    END IF;
+  END LOOP;
+
+  IF v_completed < v_required THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, pattern, prize_id, card_index, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false, 'No winning pattern on this card yet', v_pattern_id, v_prize_id, p_card_index, v_marked, cardinality(v_called));
+    RETURN jsonb_build_object('accepted', false, 'reason', 'No winning pattern on this card yet');
+  END IF;
+
+  PERFORM set_config('myngo.trusted_write', 'on', true);
+  UPDATE players
+  SET is_winner = true,
+      prizes_won = array_append(prizes_won, v_prize_id)
+  WHERE id = v_player.id;
+  PERFORM set_config('myngo.trusted_write', 'off', true);
+
+  v_game_over := v_prize_index >= jsonb_array_length(v_prizes) - 1;
+
+  IF v_game_over THEN
+    UPDATE rooms SET status = 'finished' WHERE id = v_room.id;
+  ELSE
+    UPDATE rooms
+    SET config = jsonb_set(config, '{currentPrizeIndex}', to_jsonb(v_prize_index + 1))
+    WHERE id = v_room.id;
+  END IF;
+
+  UPDATE game_history
+  SET winners = winners || jsonb_build_array(jsonb_build_object(
+    'prize_id', v_prize_id,
+    'prize_name', coalesce(v_prize->>'name', 'MYNGO'),
+    'player_id', v_player.id,
+    'player_name', v_player.name,
+    'card_index', p_card_index,
+    'balls_called_count', cardinality(v_called),
+    'won_at', now()
+  ))
+  WHERE room_code = v_room.code AND ending_status = 'active';
+
+  INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, pattern, prize_id, line, card_index, marked_numbers, balls_called_count)
+  VALUES (v_room.id, v_player.id, v_player.name, true, 'Winner declared', v_pattern_id, v_prize_id, v_line, p_card_index, v_marked, cardinality(v_called));
+
+  RETURN jsonb_build_object(
+    'accepted', true,
+    'pattern', v_pattern_id,
+    'line', v_line,
+    'prize', v_prize_id,
+    'card', p_card_index,
+    'gameOver', v_game_over
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_win(uuid, integer) TO anon, authenticated;
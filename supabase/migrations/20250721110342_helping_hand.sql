@@ -0,0 +1,229 @@
+/*
+  # Auto-Daub
+
+  1. Schema Changes
+    - `rooms.config->'allowAutoDaub'` lets the host offer auto-daub (off by
+      default)
+    - `players.auto_daub` marks called numbers on the player's cards for them
+    - `players.auto_claim` also claims a win as soon as a card completes
+    - `players.used_auto_daub` stays true once auto-daub has been switched
+      on, so turning it off just before claiming doesn't hide it
+    - `win_claims.auto_daub` and `auto_daub` in `game_history.winners` tell
+      hosts which prizes were won with auto-daub
+
+  2. Triggers
+    - `myngo_guard_auto_daub()` clears both options when the room doesn't
+      allow auto-daub, only allows auto-claim with auto-daub, and keeps
+      `used_auto_daub` set
+
+  3. Functions
+    - `claim_win()` records whether the winner used auto-daub
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'players' AND column_name = 'auto_daub'
+  ) THEN
+    ALTER TABLE players ADD COLUMN auto_daub boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'players' AND column_name = 'auto_claim'
+  ) THEN
+    ALTER TABLE players ADD COLUMN auto_claim boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'players' AND column_name = 'used_auto_daub'
+  ) THEN
+    ALTER TABLE players ADD COLUMN used_auto_daub boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'win_claims' AND column_name = 'auto_daub'
+  ) THEN
+    ALTER TABLE win_claims ADD COLUMN auto_daub boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION myngo_guard_auto_daub()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_allowed boolean;
+BEGIN
+  SELECT coalesce((config->>'allowAutoDaub')::boolean, false) INTO v_allowed
+  FROM rooms
+  WHERE id = NEW.room_id;
+
+  IF NOT coalesce(v_allowed, false) THEN
+    NEW.auto_daub := false;
+  END IF;
+
+  NEW.auto_claim := NEW.auto_claim AND NEW.auto_daub;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.used_auto_daub := OLD.used_auto_daub OR NEW.auto_daub;
+  ELSE
+    NEW.used_auto_daub := NEW.auto_daub;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_auto_daub ON players;
+CREATE TRIGGER guard_auto_daub
+  BEFORE INSERT OR UPDATE OF auto_daub, auto_claim, used_auto_daub ON players
+  FOR EACH ROW
+  EXECUTE FUNCTION myngo_guard_auto_daub();
+
+CREATE OR REPLACE FUNCTION claim_win(p_player_id uuid, p_card_index integer DEFAULT 0)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_player players%ROWTYPE;
+  v_room rooms%ROWTYPE;
+  v_card jsonb;
+  v_marked integer[];
+  v_called integer[];
+  v_uncalled integer[];
+  v_prizes jsonb;
+  v_prize_index integer;
+  v_prize jsonb;
+  v_prize_id text;
+  v_pattern_id text;
+  v_masks jsonb;
+  v_required integer;
+  v_completed integer := 0;
+  v_line integer;
+  v_game_over boolean;
+  i integer;
+BEGIN
+  SELECT * INTO v_player FROM players WHERE id = p_player_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'Player not found');
+  END IF;
+
+  IF p_card_index IS NULL OR p_card_index < 0 OR p_card_index >= v_player.card_count THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'Card not found');
+  END IF;
+
+  IF p_card_index = 0 THEN
+    v_card := v_player.card;
+    v_marked := v_player.marked_numbers;
+  ELSE
+    v_card := v_player.extra_cards->(p_card_index - 1)->'card';
+    SELECT coalesce(array_agg(value::integer), '{}') INTO v_marked
+    FROM jsonb_array_elements_text(coalesce(v_player.extra_marked_numbers->(p_card_index - 1), '[]'::jsonb)) AS value;
+  END IF;
+
+  -- Lock the room so two simultaneous claims are judged one after the other
+  SELECT * INTO v_room FROM rooms WHERE id = v_player.room_id FOR UPDATE;
+
+  v_prizes := myngo_room_prizes(v_room.config);
+  v_prize_index := least(greatest(coalesce((v_room.config->>'currentPrizeIndex')::integer, 0), 0),
+                         jsonb_array_length(v_prizes) - 1);
+  v_prize := v_prizes->v_prize_index;
+  v_prize_id := coalesce(v_prize->>'id', 'prize-' || (v_prize_index + 1));
+
+  IF v_prize_id = ANY (v_player.prizes_won) THEN
+    RETURN jsonb_build_object('accepted', true, 'reason', 'Already won this prize', 'prize', v_prize_id);
+  END IF;
+
+  SELECT coalesce(array_agg(number), '{}') INTO v_called
+  FROM called_numbers
+  WHERE room_id = v_room.id;
+
+  IF v_room.status IN ('finished', 'cancelled') THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, prize_id, card_index, auto_daub, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false, 'The game is already over', v_prize_id, p_card_index, v_player.used_auto_daub, v_marked, cardinality(v_called));
+    RETURN jsonb_build_object('accepted', false, 'reason', 'The game is already over');
+  END IF;
+
+  SELECT coalesce(array_agg(m ORDER BY m), '{}') INTO v_uncalled
+  FROM unnest(v_marked) AS m
+  WHERE NOT (m = ANY (v_called));
+
+  IF cardinality(v_uncalled) > 0 THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, prize_id, card_index, auto_daub, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false,
+            'Marked numbers that were never called: ' || array_to_string(v_uncalled, ', '),
+            v_prize_id, p_card_index, v_player.used_auto_daub, v_marked, cardinality(v_called));
+    RETURN jsonb_build_object('accepted', false,
+      'reason', 'Marked numbers that were never called: ' || array_to_string(v_uncalled, ', '));
+  END IF;
+
+  v_pattern_id := coalesce(v_prize->'winPattern'->>'id', 'line');
+  v_masks := coalesce(v_prize->'winPattern'->'masks', myngo_default_win_masks());
+  v_required := least(greatest(coalesce((v_prize->'winPattern'->>'required')::integer, 1), 1),
+                      jsonb_array_length(v_masks));
+
+  FOR i IN 0 .. jsonb_array_length(v_masks) - 1 LOOP
+    IF myngo_mask_complete(v_card, v_masks->i, v_marked) THEN
+      v_line := coalesce(v_line, i);
+      v_completed := v_completed + 1;
+      EXIT WHEN v_completed >= v_required;
+    END IF;
+  END LOOP;
+
+  IF v_completed < v_required THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, pattern, prize_id, card_index, auto_daub, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false, 'No winning pattern on this card yet', v_pattern_id, v_prize_id, p_card_index, v_player.used_auto_daub, v_marked, cardinality(v_called));
+    RETURN jsonb_build_object('accepted', false, 'reason', 'No winning pattern on this card yet');
+  END IF;
+
+  PERFORM set_config('myngo.trusted_write', 'on', true);
+  UPDATE players
+  SET is_winner = true,
+      prizes_won = array_append(prizes_won, v_prize_id)
+  WHERE id = v_player.id;
+  PERFORM set_config('myngo.trusted_write', 'off', true);
+
+  v_game_over := v_prize_index >= jsonb_array_length(v_prizes) - 1;
+
+  IF v_game_over THEN
+    UPDATE rooms SET status = 'finished' WHERE id = v_room.id;
+  ELSE
+    UPDATE rooms
+    SET config = jsonb_set(config, '{currentPrizeIndex}', to_jsonb(v_prize_index + 1))
+    WHERE id = v_room.id;
+  END IF;
+
+  UPDATE game_history
+  SET winners = winners || jsonb_build_array(jsonb_build_object(
+    'prize_id', v_prize_id,
+    'prize_name', coalesce(v_prize->>'name', 'MYNGO'),
+    'player_id', v_player.id,
+    'player_name', v_player.name,
+    'card_index', p_card_index,
+    'auto_daub', v_player.used_auto_daub,
+    'balls_called_count', cardinality(v_called),
+    'won_at', now()
+  ))
+  WHERE room_code = v_room.code AND ending_status = 'active';
+
+  INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, pattern, prize_id, line, card_index, auto_daub, marked_numbers, balls_called_count)
+  VALUES (v_room.id, v_player.id, v_player.name, true, 'Winner declared', v_pattern_id, v_prize_id, v_line, p_card_index, v_player.used_auto_daub, v_marked, cardinality(v_called));
+
+  RETURN jsonb_build_object(
+    'accepted', true,
+    'pattern', v_pattern_id,
+    'line', v_line,
+    'prize', v_prize_id,
+    'card', p_card_index,
+    'gameOver', v_game_over
+  );
+END;
+$$;
@@ -0,0 +1,285 @@
+/*
+  # Host Tokens
+
+  1. New Tables
+    - `room_host_tokens` keeps sha256 of each room's host token. RLS is
+      enabled with no policies, so clients can never read it.
+
+  2. Schema Changes
+    - `rooms.host_token` is write-only: the client sends a new random token
+      when it creates the room, the `store_host_token` trigger moves its hash
+      into `room_host_tokens` and the column is always stored as NULL
+
+  3. Host-Only Functions
+    Each takes the room id and the host token, and raises unless the token
+    matches:
+    - `verify_host_token(room_id, token)` returns whether the token is valid
+    - `host_call_number(room_id, token, number)`
+    - `host_call_next_number(room_id, token)` (seeded order)
+    - `host_update_room_config(room_id, token, config)`
+    - `host_update_room_status(room_id, token, status)`
+    - `host_touch_room(room_id, token)` records host activity
+    - `host_delete_room(room_id, token)` for games the host ends
+    - `start_auto_caller`, `stop_auto_caller`, `pause_auto_caller` and
+      `resume_auto_caller` now also take the token; the previous versions
+      are kept as internal `myngo_*_auto_caller` functions
+
+  4. Triggers
+    - `record_peak_players` keeps `config->'maxPlayersEver'` up to date when
+      players join, so players no longer write room config themselves
+
+  5. Notes
+    - Rooms created before this migration have no token and can no longer be
+      controlled from the dashboard
+    - `myngo_call_next_number` is no longer callable by clients
+*/
+
+CREATE TABLE IF NOT EXISTS room_host_tokens (
+  room_id uuid PRIMARY KEY REFERENCES rooms(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  token_hash text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE room_host_tokens ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS host_token text;
+
+CREATE OR REPLACE FUNCTION myngo_token_hash(p_token text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT encode(sha256(convert_to(p_token, 'UTF8')), 'hex');
+$$;
+
+CREATE OR REPLACE FUNCTION myngo_store_host_token()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.host_token IS NULL OR length(NEW.host_token) < 32 THEN
+      RAISE EXCEPTION 'A host token is required to create a room';
+    END IF;
+
+    INSERT INTO room_host_tokens (room_id, token_hash)
+    VALUES (NEW.id, myngo_token_hash(NEW.host_token));
+  END IF;
+
+  NEW.host_token := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS store_host_token ON rooms;
+CREATE TRIGGER store_host_token
+  BEFORE INSERT OR UPDATE OF host_token ON rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION myngo_store_host_token();
+
+CREATE OR REPLACE FUNCTION verify_host_token(p_room_id uuid, p_host_token text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM room_host_tokens
+    WHERE room_id = p_room_id AND token_hash = myngo_token_hash(coalesce(p_host_token, ''))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION myngo_require_host(p_room_id uuid, p_host_token text)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT verify_host_token(p_room_id, p_host_token) THEN
+    RAISE EXCEPTION 'Only the host of this room can do that' USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_call_number(p_room_id uuid, p_host_token text, p_number integer)
+RETURNS called_numbers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_call called_numbers%ROWTYPE;
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+
+  INSERT INTO called_numbers (room_id, number, letter)
+  VALUES (p_room_id, p_number, myngo_letter_for_number(p_number))
+  RETURNING * INTO v_call;
+
+  RETURN v_call;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_call_next_number(p_room_id uuid, p_host_token text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+  RETURN myngo_call_next_number(p_room_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_update_room_config(p_room_id uuid, p_host_token text, p_config jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+  UPDATE rooms SET config = p_config WHERE id = p_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_update_room_status(p_room_id uuid, p_host_token text, p_status text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+  UPDATE rooms SET status = p_status WHERE id = p_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_touch_room(p_room_id uuid, p_host_token text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+  UPDATE rooms SET updated_at = now() WHERE id = p_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_delete_room(p_room_id uuid, p_host_token text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+  DELETE FROM rooms WHERE id = p_room_id;
+END;
+$$;
+
+-- Keep the auto-caller controls as internal functions and gate the public ones
+ALTER FUNCTION start_auto_caller(uuid) RENAME TO myngo_start_auto_caller;
+ALTER FUNCTION stop_auto_caller(uuid) RENAME TO myngo_stop_auto_caller;
+ALTER FUNCTION pause_auto_caller(uuid) RENAME TO myngo_pause_auto_caller;
+ALTER FUNCTION resume_auto_caller(uuid) RENAME TO myngo_resume_auto_caller;
+
+CREATE OR REPLACE FUNCTION start_auto_caller(p_room_id uuid, p_host_token text)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+  RETURN myngo_start_auto_caller(p_room_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION stop_auto_caller(p_room_id uuid, p_host_token text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+  PERFORM myngo_stop_auto_caller(p_room_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION pause_auto_caller(p_room_id uuid, p_host_token text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+  PERFORM myngo_pause_auto_caller(p_room_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION resume_auto_caller(p_room_id uuid, p_host_token text)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+  RETURN myngo_resume_auto_caller(p_room_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION myngo_call_next_number(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION myngo_start_auto_caller(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION myngo_stop_auto_caller(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION myngo_pause_auto_caller(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION myngo_resume_auto_caller(uuid) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION verify_host_token(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION host_call_number(uuid, text, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION host_call_next_number(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION host_update_room_config(uuid, text, jsonb) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION host_update_room_status(uuid, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION host_touch_room(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION host_delete_room(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION start_auto_caller(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION stop_auto_caller(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION pause_auto_caller(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION resume_auto_caller(uuid, text) TO anon, authenticated;
+
+-- Peak player count, previously written by each joining player
+CREATE OR REPLACE FUNCTION myngo_record_peak_players()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  SELECT count(*) INTO v_count FROM players WHERE room_id = NEW.room_id;
+
+  UPDATE rooms
+  SET config = jsonb_set(config, '{maxPlayersEver}', to_jsonb(v_count))
+  WHERE id = NEW.room_id
+    AND coalesce((config->>'maxPlayersEver')::integer, 0) < v_count;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_peak_players ON players;
+CREATE TRIGGER record_peak_players
+  AFTER INSERT ON players
+  FOR EACH ROW
+  EXECUTE FUNCTION myngo_record_peak_players();
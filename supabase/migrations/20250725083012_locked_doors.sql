@@ -0,0 +1,547 @@
+/*
+  # Row Level Security Policies
+
+  1. Policies
+    - The "Allow all operations" policies on `rooms`, `players`,
+      `called_numbers` and `game_history` are replaced
+    - Everyone can still read all four tables (lobby, player lists, calls
+      and stats are public)
+    - `rooms`: anyone can create a waiting room - the store_host_token
+      trigger requires a host token
+    - `players`: anyone can join an open room as a human player with a
+      player token, no marks and no prizes
+    - No other direct inserts, updates or deletes: host changes go through
+      the `host_*` functions, player changes through the functions below and
+      `game_history` is only written by trusted functions and triggers
+
+  2. New Tables
+    - `player_tokens` keeps sha256 of each player's token (RLS, no policies)
+
+  3. Schema Changes
+    - `players.player_token` is write-only like `rooms.host_token`; bots
+      have no token
+
+  4. Player Functions (player id + player token)
+    - `update_player_marks(player_id, token, marked_numbers, card_index)`
+    - `update_player_auto_daub(player_id, token, auto_daub, auto_claim)`
+    - `leave_room(player_id, token)`
+
+  5. Host Functions (room id + host token)
+    - `host_update_room_status(room_id, token, status, reason)` now closes
+      out the history and deletes the room when cancelling
+    - `host_end_game(room_id, token)` replaces `host_delete_room`
+    - `host_add_demo_bots(room_id, token)`
+    - `host_mark_bots(room_id, token, number)` marks a called number on the
+      bots' cards and returns the bots that marked it
+
+  6. Housekeeping - safe for any client, the database picks the rooms
+    - `close_inactive_rooms()` cancels rooms open for over 2 hours
+    - `cancel_rooms_with_inactive_hosts()` cancels rooms idle for 6 hours
+    - `cleanup_demo_rooms()` deletes demo rooms older than an hour
+
+  7. History Triggers
+    - `record_room_history` creates the history row with the room
+    - `record_peak_players` also raises the history's `players_start`
+    - `record_final_stats` fills in the stats once the last prize is won
+*/
+
+-- Player tokens
+
+CREATE TABLE IF NOT EXISTS player_tokens (
+  player_id uuid PRIMARY KEY REFERENCES players(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  token_hash text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE player_tokens ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE players ADD COLUMN IF NOT EXISTS player_token text;
+
+CREATE OR REPLACE FUNCTION myngo_store_player_token()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NOT NEW.is_bot THEN
+    IF NEW.player_token IS NULL OR length(NEW.player_token) < 32 THEN
+      RAISE EXCEPTION 'A player token is required to join a room';
+    END IF;
+
+    INSERT INTO player_tokens (player_id, token_hash)
+    VALUES (NEW.id, myngo_token_hash(NEW.player_token));
+  END IF;
+
+  NEW.player_token := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS store_player_token ON players;
+CREATE TRIGGER store_player_token
+  BEFORE INSERT OR UPDATE OF player_token ON players
+  FOR EACH ROW
+  EXECUTE FUNCTION myngo_store_player_token();
+
+CREATE OR REPLACE FUNCTION myngo_require_player(p_player_id uuid, p_player_token text)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM player_tokens
+    WHERE player_id = p_player_id AND token_hash = myngo_token_hash(coalesce(p_player_token, ''))
+  ) THEN
+    RAISE EXCEPTION 'Only this player can do that' USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+-- Policies
+
+ALTER TABLE rooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE players ENABLE ROW LEVEL SECURITY;
+ALTER TABLE called_numbers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE game_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on rooms" ON rooms;
+DROP POLICY IF EXISTS "Allow all operations on players" ON players;
+DROP POLICY IF EXISTS "Allow all operations on called_numbers" ON called_numbers;
+DROP POLICY IF EXISTS "Allow all operations on game_history" ON game_history;
+
+DROP POLICY IF EXISTS "Allow reading rooms" ON rooms;
+CREATE POLICY "Allow reading rooms"
+  ON rooms
+  FOR SELECT
+  TO public
+  USING (true);
+
+DROP POLICY IF EXISTS "Allow creating waiting rooms" ON rooms;
+CREATE POLICY "Allow creating waiting rooms"
+  ON rooms
+  FOR INSERT
+  TO public
+  WITH CHECK (status = 'waiting' AND next_call_at IS NULL);
+
+DROP POLICY IF EXISTS "Allow reading players" ON players;
+CREATE POLICY "Allow reading players"
+  ON players
+  FOR SELECT
+  TO public
+  USING (true);
+
+DROP POLICY IF EXISTS "Allow joining open rooms" ON players;
+CREATE POLICY "Allow joining open rooms"
+  ON players
+  FOR INSERT
+  TO public
+  WITH CHECK (
+    NOT is_bot
+    AND NOT is_winner
+    AND cardinality(marked_numbers) = 0
+    AND EXISTS (
+      SELECT 1 FROM rooms
+      WHERE rooms.id = players.room_id
+        AND rooms.status IN ('waiting', 'active')
+        AND NOT coalesce((rooms.config->>'roomClosed')::boolean, false)
+    )
+  );
+
+DROP POLICY IF EXISTS "Allow reading called_numbers" ON called_numbers;
+CREATE POLICY "Allow reading called_numbers"
+  ON called_numbers
+  FOR SELECT
+  TO public
+  USING (true);
+
+DROP POLICY IF EXISTS "Allow reading game_history" ON game_history;
+CREATE POLICY "Allow reading game_history"
+  ON game_history
+  FOR SELECT
+  TO public
+  USING (true);
+
+-- Player functions
+
+CREATE OR REPLACE FUNCTION update_player_marks(
+  p_player_id uuid,
+  p_player_token text,
+  p_marked_numbers integer[],
+  p_card_index integer DEFAULT 0
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_card_count integer;
+BEGIN
+  PERFORM myngo_require_player(p_player_id, p_player_token);
+
+  SELECT card_count INTO v_card_count FROM players WHERE id = p_player_id FOR UPDATE;
+  IF p_card_index IS NULL OR p_card_index < 0 OR p_card_index >= v_card_count THEN
+    RAISE EXCEPTION 'Player has no card %', coalesce(p_card_index, 0) + 1;
+  END IF;
+
+  IF p_card_index = 0 THEN
+    UPDATE players SET marked_numbers = coalesce(p_marked_numbers, '{}') WHERE id = p_player_id;
+  ELSE
+    UPDATE players
+    SET extra_marked_numbers = (
+      SELECT jsonb_agg(
+        CASE WHEN slot = p_card_index - 1
+          THEN to_jsonb(coalesce(p_marked_numbers, '{}'))
+          ELSE coalesce(extra_marked_numbers->slot, '[]'::jsonb)
+        END
+        ORDER BY slot
+      )
+      FROM generate_series(0, card_count - 2) AS slot
+    )
+    WHERE id = p_player_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_player_auto_daub(
+  p_player_id uuid,
+  p_player_token text,
+  p_auto_daub boolean,
+  p_auto_claim boolean
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_player(p_player_id, p_player_token);
+  -- guard_auto_daub still applies the room's setting
+  UPDATE players SET auto_daub = p_auto_daub, auto_claim = p_auto_claim WHERE id = p_player_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION leave_room(p_player_id uuid, p_player_token text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_player(p_player_id, p_player_token);
+  DELETE FROM players WHERE id = p_player_id;
+END;
+$$;
+
+-- Closing a room: finish its history, then delete it (players, calls and
+-- tokens go with it; reveal_seed_on_delete publishes the seed)
+
+CREATE OR REPLACE FUNCTION myngo_close_room(p_room_id uuid, p_ending_status text, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+  v_players integer;
+  v_calls integer;
+BEGIN
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT count(*) INTO v_players FROM players WHERE room_id = p_room_id;
+  SELECT count(*) INTO v_calls FROM called_numbers WHERE room_id = p_room_id;
+
+  -- Games already closed out by a final winner are marked completed as well
+  UPDATE game_history
+  SET players_start = greatest(coalesce(players_start, 0), v_players),
+      players_end = v_players,
+      players_drop = greatest(0, greatest(coalesce(players_start, 0), v_players) - v_players),
+      duration = round(extract(epoch FROM now() - v_room.created_at) / 60)::integer,
+      ending_status = p_ending_status || coalesce(' (' || p_reason || ')', ''),
+      balls_called_count = v_calls
+  WHERE room_code = v_room.code
+    AND seed_hash IS NOT DISTINCT FROM v_room.seed_hash
+    AND ending_status IN ('active', 'Winner Declared');
+
+  DELETE FROM rooms WHERE id = p_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION myngo_cancel_room(p_room_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Players see the cancellation before the room disappears
+  UPDATE rooms SET status = 'cancelled' WHERE id = p_room_id;
+  PERFORM myngo_close_room(p_room_id, 'cancelled', p_reason);
+END;
+$$;
+
+-- Host functions
+
+DROP FUNCTION IF EXISTS host_update_room_status(uuid, text, text);
+DROP FUNCTION IF EXISTS host_delete_room(uuid, text);
+
+CREATE OR REPLACE FUNCTION host_update_room_status(
+  p_room_id uuid,
+  p_host_token text,
+  p_status text,
+  p_reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+
+  IF p_status = 'cancelled' THEN
+    PERFORM myngo_cancel_room(p_room_id, p_reason);
+  ELSE
+    UPDATE rooms SET status = p_status WHERE id = p_room_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_end_game(p_room_id uuid, p_host_token text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+  PERFORM myngo_close_room(p_room_id, 'Completed Game', 'Host ended game');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_add_demo_bots(p_room_id uuid, p_host_token text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_name text;
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+
+  -- One at a time, so each bot's card is dealt against the ones before it
+  FOREACH v_name IN ARRAY ARRAY['MYNGO', 'LuckyCharm', 'MainPlay'] LOOP
+    INSERT INTO players (room_id, name, marked_numbers, is_bot, is_winner)
+    VALUES (p_room_id, v_name, '{}', true, false);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_mark_bots(p_room_id uuid, p_host_token text, p_number integer)
+RETURNS SETOF players
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+
+  IF NOT EXISTS (SELECT 1 FROM called_numbers WHERE room_id = p_room_id AND number = p_number) THEN
+    RAISE EXCEPTION 'Number % has not been called', p_number;
+  END IF;
+
+  RETURN QUERY
+  WITH marked AS (
+    UPDATE players
+    SET marked_numbers = array_append(marked_numbers, p_number)
+    WHERE room_id = p_room_id
+      AND is_bot
+      AND NOT (p_number = ANY (marked_numbers))
+      AND EXISTS (
+        SELECT 1 FROM unnest(ARRAY['M', 'Y', 'N', 'G', 'O']) AS letter
+        WHERE players.card->letter @> to_jsonb(p_number)
+      )
+    RETURNING players.*
+  )
+  SELECT * FROM marked ORDER BY joined_at;
+END;
+$$;
+
+-- Housekeeping
+
+CREATE OR REPLACE FUNCTION close_inactive_rooms()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room_id uuid;
+  v_closed integer := 0;
+BEGIN
+  FOR v_room_id IN
+    SELECT id FROM rooms
+    WHERE status IN ('waiting', 'active') AND created_at < now() - interval '2 hours'
+  LOOP
+    PERFORM myngo_cancel_room(v_room_id, 'Auto-closed due to inactivity');
+    v_closed := v_closed + 1;
+  END LOOP;
+
+  RETURN v_closed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_rooms_with_inactive_hosts()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room_id uuid;
+  v_cancelled integer := 0;
+BEGIN
+  FOR v_room_id IN
+    SELECT id FROM rooms
+    WHERE status IN ('waiting', 'active') AND updated_at < now() - interval '6 hours'
+  LOOP
+    PERFORM myngo_cancel_room(v_room_id, 'Host inactive for 6+ hours (backup cleanup)');
+    v_cancelled := v_cancelled + 1;
+  END LOOP;
+
+  RETURN v_cancelled;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cleanup_demo_rooms()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted integer;
+BEGIN
+  DELETE FROM rooms
+  WHERE coalesce((config->>'demoMode')::boolean, false)
+    AND created_at < now() - interval '1 hour';
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+-- History, kept by the database instead of the client
+
+CREATE OR REPLACE FUNCTION myngo_record_room_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- history_seed_hash copies the room's seed hash onto the row
+  INSERT INTO game_history (room_code, players_start, players_end, players_drop, ending_status, balls_called_count, is_demo_game)
+  VALUES (NEW.code, 0, NULL, 0, 'active', 0, coalesce((NEW.config->>'demoMode')::boolean, false));
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_room_history ON rooms;
+CREATE TRIGGER record_room_history
+  AFTER INSERT ON rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION myngo_record_room_history();
+
+CREATE OR REPLACE FUNCTION myngo_record_peak_players()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+  v_count integer;
+BEGIN
+  SELECT count(*) INTO v_count FROM players WHERE room_id = NEW.room_id;
+
+  UPDATE rooms
+  SET config = jsonb_set(config, '{maxPlayersEver}', to_jsonb(v_count))
+  WHERE id = NEW.room_id
+    AND coalesce((config->>'maxPlayersEver')::integer, 0) < v_count;
+
+  SELECT * INTO v_room FROM rooms WHERE id = NEW.room_id;
+
+  UPDATE game_history
+  SET players_start = v_count
+  WHERE room_code = v_room.code
+    AND seed_hash IS NOT DISTINCT FROM v_room.seed_hash
+    AND ending_status = 'active'
+    AND coalesce(players_start, 0) < v_count;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION myngo_record_final_stats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_players integer;
+  v_calls integer;
+  v_peak integer;
+BEGIN
+  SELECT count(*) INTO v_players FROM players WHERE room_id = NEW.id;
+  SELECT count(*) INTO v_calls FROM called_numbers WHERE room_id = NEW.id;
+  v_peak := coalesce((NEW.config->>'maxPlayersEver')::integer, v_players);
+
+  UPDATE game_history
+  SET players_start = greatest(coalesce(players_start, 0), v_peak),
+      players_end = v_players,
+      players_drop = greatest(0, v_peak - v_players),
+      duration = round(extract(epoch FROM now() - NEW.created_at) / 60)::integer,
+      ending_status = 'Winner Declared',
+      balls_called_count = v_calls
+  WHERE room_code = NEW.code
+    AND seed_hash IS NOT DISTINCT FROM NEW.seed_hash
+    AND ending_status = 'active';
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_final_stats ON rooms;
+CREATE TRIGGER record_final_stats
+  AFTER UPDATE OF status ON rooms
+  FOR EACH ROW
+  WHEN (NEW.status = 'finished' AND OLD.status IS DISTINCT FROM 'finished')
+  EXECUTE FUNCTION myngo_record_final_stats();
+
+-- Grants
+
+REVOKE ALL ON FUNCTION myngo_require_player(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION myngo_close_room(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION myngo_cancel_room(uuid, text) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION update_player_marks(uuid, text, integer[], integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION update_player_auto_daub(uuid, text, boolean, boolean) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION leave_room(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION host_update_room_status(uuid, text, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION host_end_game(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION host_add_demo_bots(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION host_mark_bots(uuid, text, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION close_inactive_rooms() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION cancel_rooms_with_inactive_hosts() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION cleanup_demo_rooms() TO anon, authenticated;
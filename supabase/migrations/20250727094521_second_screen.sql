@@ -0,0 +1,135 @@
+/*
+  # Player Rejoin
+
+  1. Schema Changes
+    - `players.rejoin_pin` is write-only like `player_token`: a 6-digit PIN
+      chosen at join, kept only as a hash in `player_tokens.rejoin_hash`
+    - `players.rejoined_at` is set whenever the card is opened on another
+      device, so the previous device can notice it lost the card
+    - `player_tokens.rejoin_failures` / `rejoin_locked_until` lock a player's
+      PIN for 10 minutes after 5 wrong guesses
+
+  2. New Functions
+    - `verify_player_token(player_id, token)` - does this device still hold
+      the player's current token
+    - `rejoin_room(room_code, player_name, rejoin_pin, player_token)` -
+      checks the PIN and replaces the player's token with the new device's,
+      so the old device can no longer mark, claim or leave for the player.
+      Returns `{ accepted, reason }` or `{ accepted, player }`.
+
+  3. Security
+    - Human players need a PIN to join (bots have none); the PIN is hashed
+      with the player id, and the hashes stay unreadable to clients
+*/
+
+ALTER TABLE players ADD COLUMN IF NOT EXISTS rejoin_pin text;
+ALTER TABLE players ADD COLUMN IF NOT EXISTS rejoined_at timestamptz;
+
+ALTER TABLE player_tokens ADD COLUMN IF NOT EXISTS rejoin_hash text;
+ALTER TABLE player_tokens ADD COLUMN IF NOT EXISTS rejoin_failures integer NOT NULL DEFAULT 0;
+ALTER TABLE player_tokens ADD COLUMN IF NOT EXISTS rejoin_locked_until timestamptz;
+
+CREATE OR REPLACE FUNCTION myngo_store_player_token()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NOT NEW.is_bot THEN
+    IF NEW.player_token IS NULL OR length(NEW.player_token) < 32 THEN
+      RAISE EXCEPTION 'A player token is required to join a room';
+    END IF;
+    IF NEW.rejoin_pin IS NULL OR NEW.rejoin_pin !~ '^[0-9]{6}$' THEN
+      RAISE EXCEPTION 'A 6-digit rejoin PIN is required to join a room';
+    END IF;
+
+    INSERT INTO player_tokens (player_id, token_hash, rejoin_hash)
+    VALUES (NEW.id, myngo_token_hash(NEW.player_token), myngo_token_hash(NEW.id || ':' || NEW.rejoin_pin));
+  END IF;
+
+  NEW.player_token := NULL;
+  NEW.rejoin_pin := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS store_player_token ON players;
+CREATE TRIGGER store_player_token
+  BEFORE INSERT OR UPDATE OF player_token, rejoin_pin ON players
+  FOR EACH ROW
+  EXECUTE FUNCTION myngo_store_player_token();
+
+CREATE OR REPLACE FUNCTION verify_player_token(p_player_id uuid, p_player_token text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM player_tokens
+    WHERE player_id = p_player_id AND token_hash = myngo_token_hash(coalesce(p_player_token, ''))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION rejoin_room(
+  p_room_code text,
+  p_player_name text,
+  p_rejoin_pin text,
+  p_player_token text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_player players%ROWTYPE;
+  v_tokens player_tokens%ROWTYPE;
+BEGIN
+  IF p_player_token IS NULL OR length(p_player_token) < 32 THEN
+    RAISE EXCEPTION 'A player token is required to rejoin a room';
+  END IF;
+
+  SELECT players.* INTO v_player
+  FROM players
+  JOIN rooms ON rooms.id = players.room_id
+  WHERE rooms.code = p_room_code AND players.name = p_player_name AND NOT players.is_bot;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'Nobody with that nickname is playing in this room');
+  END IF;
+
+  SELECT * INTO v_tokens FROM player_tokens WHERE player_id = v_player.id FOR UPDATE;
+
+  IF v_tokens.rejoin_locked_until > now() THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'Too many wrong PINs - try again in a few minutes');
+  END IF;
+
+  -- Wrong guesses are counted rather than raised, so the count survives
+  IF v_tokens.rejoin_hash IS DISTINCT FROM myngo_token_hash(v_player.id || ':' || coalesce(p_rejoin_pin, '')) THEN
+    UPDATE player_tokens
+    SET rejoin_failures = CASE WHEN rejoin_failures + 1 >= 5 THEN 0 ELSE rejoin_failures + 1 END,
+        rejoin_locked_until = CASE WHEN rejoin_failures + 1 >= 5 THEN now() + interval '10 minutes' END
+    WHERE player_id = v_player.id;
+
+    RETURN jsonb_build_object('accepted', false, 'reason', 'That PIN is not right');
+  END IF;
+
+  -- The new device's token replaces the old one
+  UPDATE player_tokens
+  SET token_hash = myngo_token_hash(p_player_token),
+      rejoin_failures = 0,
+      rejoin_locked_until = NULL
+  WHERE player_id = v_player.id;
+
+  UPDATE players SET rejoined_at = now() WHERE id = v_player.id
+  RETURNING * INTO v_player;
+
+  RETURN jsonb_build_object('accepted', true, 'player', to_jsonb(v_player));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION verify_player_token(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION rejoin_room(text, text, text, text) TO anon, authenticated;
@@ -0,0 +1,181 @@
+/*
+  # Presence-Driven Player Cleanup
+
+  1. Schema Changes
+    - `players.disconnected_at` is set while a player is missing from the
+      room's presence channel and cleared when they come back
+
+  2. New Functions (room id + host token)
+    - `host_set_players_presence(room_id, token, online_player_ids)` - the
+      host's dashboard reports who is on the presence channel; everyone else
+      is marked disconnected
+    - `host_remove_stale_players(room_id, token)` - removes players who have
+      been disconnected for longer than `config.disconnectGraceMinutes`
+      (default 3, 1 to 60); winners stay
+
+  3. History
+    - `record_player_drop` counts every departure (leaving or being removed
+      as stale) in the active history's `players_drop`; rooms being deleted
+      don't count
+    - Closing a room and recording the final stats keep that count instead
+      of estimating it from the peak
+*/
+
+ALTER TABLE players ADD COLUMN IF NOT EXISTS disconnected_at timestamptz;
+
+-- Same clamp as getDisconnectGraceMinutes() in the client
+CREATE OR REPLACE FUNCTION myngo_disconnect_grace_minutes(p_config jsonb)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT least(greatest(coalesce((p_config->>'disconnectGraceMinutes')::integer, 3), 1), 60);
+$$;
+
+CREATE OR REPLACE FUNCTION host_set_players_presence(
+  p_room_id uuid,
+  p_host_token text,
+  p_online_player_ids uuid[]
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+
+  UPDATE players
+  SET disconnected_at = now()
+  WHERE room_id = p_room_id
+    AND NOT is_bot
+    AND disconnected_at IS NULL
+    AND NOT (id = ANY (coalesce(p_online_player_ids, '{}')));
+
+  UPDATE players
+  SET disconnected_at = NULL
+  WHERE room_id = p_room_id
+    AND disconnected_at IS NOT NULL
+    AND id = ANY (coalesce(p_online_player_ids, '{}'));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_remove_stale_players(p_room_id uuid, p_host_token text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_grace integer;
+  v_removed integer;
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+
+  SELECT myngo_disconnect_grace_minutes(config) INTO v_grace FROM rooms WHERE id = p_room_id;
+
+  DELETE FROM players
+  WHERE room_id = p_room_id
+    AND NOT is_bot
+    AND NOT is_winner
+    AND disconnected_at < now() - make_interval(mins => v_grace);
+
+  GET DIAGNOSTICS v_removed = ROW_COUNT;
+  RETURN v_removed;
+END;
+$$;
+
+-- Departures, counted as they happen
+
+CREATE OR REPLACE FUNCTION myngo_record_player_drop()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- A cascade from a deleted room finds no room and counts nothing
+  UPDATE game_history
+  SET players_drop = coalesce(players_drop, 0) + 1
+  FROM rooms
+  WHERE rooms.id = OLD.room_id
+    AND game_history.room_code = rooms.code
+    AND game_history.seed_hash IS NOT DISTINCT FROM rooms.seed_hash
+    AND game_history.ending_status = 'active';
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_player_drop ON players;
+CREATE TRIGGER record_player_drop
+  AFTER DELETE ON players
+  FOR EACH ROW
+  EXECUTE FUNCTION myngo_record_player_drop();
+
+CREATE OR REPLACE FUNCTION myngo_close_room(p_room_id uuid, p_ending_status text, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+  v_players integer;
+  v_calls integer;
+BEGIN
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT count(*) INTO v_players FROM players WHERE room_id = p_room_id;
+  SELECT count(*) INTO v_calls FROM called_numbers WHERE room_id = p_room_id;
+
+  -- Games already closed out by a final winner are marked completed as well;
+  -- players_drop is kept by record_player_drop
+  UPDATE game_history
+  SET players_start = greatest(coalesce(players_start, 0), v_players),
+      players_end = v_players,
+      duration = round(extract(epoch FROM now() - v_room.created_at) / 60)::integer,
+      ending_status = p_ending_status || coalesce(' (' || p_reason || ')', ''),
+      balls_called_count = v_calls
+  WHERE room_code = v_room.code
+    AND seed_hash IS NOT DISTINCT FROM v_room.seed_hash
+    AND ending_status IN ('active', 'Winner Declared');
+
+  DELETE FROM rooms WHERE id = p_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION myngo_record_final_stats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_players integer;
+  v_calls integer;
+  v_peak integer;
+BEGIN
+  SELECT count(*) INTO v_players FROM players WHERE room_id = NEW.id;
+  SELECT count(*) INTO v_calls FROM called_numbers WHERE room_id = NEW.id;
+  v_peak := coalesce((NEW.config->>'maxPlayersEver')::integer, v_players);
+
+  UPDATE game_history
+  SET players_start = greatest(coalesce(players_start, 0), v_peak),
+      players_end = v_players,
+      duration = round(extract(epoch FROM now() - NEW.created_at) / 60)::integer,
+      ending_status = 'Winner Declared',
+      balls_called_count = v_calls
+  WHERE room_code = NEW.code
+    AND seed_hash IS NOT DISTINCT FROM NEW.seed_hash
+    AND ending_status = 'active';
+
+  RETURN NEW;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION host_set_players_presence(uuid, text, uuid[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION host_remove_stale_players(uuid, text) TO anon, authenticated;
@@ -0,0 +1,49 @@
+/*
+  # Leaving Beacons
+
+  1. New Functions
+    - `player_left(player_id, token)` - the player's tab is closing: marks
+      them disconnected straight away instead of waiting for the host's
+      presence sync, and removes anyone in the room already past the grace
+      period. A reload or rejoin brings the player back before they are
+      removed, so the card survives.
+
+  2. Notes
+    - The `cleanup` edge function (supabase/functions/cleanup) receives the
+      `navigator.sendBeacon` sent when a tab closes and calls `player_left`
+      with the token carried in the beacon
+    - For a closing host dashboard it first cancelled the game with
+      `host_update_room_status`; since 20250802103017_spare_keys it calls
+      `host_left` instead, which only marks the host away so they can
+      reconnect or a co-host can take over
+*/
+
+CREATE OR REPLACE FUNCTION player_left(p_player_id uuid, p_player_token text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room_id uuid;
+  v_grace integer;
+BEGIN
+  PERFORM myngo_require_player(p_player_id, p_player_token);
+
+  UPDATE players
+  SET disconnected_at = coalesce(disconnected_at, now())
+  WHERE id = p_player_id
+  RETURNING room_id INTO v_room_id;
+
+  SELECT myngo_disconnect_grace_minutes(config) INTO v_grace FROM rooms WHERE id = v_room_id;
+
+  -- Same rules as host_remove_stale_players()
+  DELETE FROM players
+  WHERE room_id = v_room_id
+    AND NOT is_bot
+    AND NOT is_winner
+    AND disconnected_at < now() - make_interval(mins => v_grace);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION player_left(uuid, text) TO anon, authenticated;
@@ -0,0 +1,240 @@
+/*
+  # Host Reconnection and Handoff
+
+  1. Schema Changes
+    - `rooms.host_seen_at` is the host's last heartbeat (`host_touch_room`)
+    - `rooms.host_away_since` is set while the host is gone; players see
+      "host reconnecting" and the game is paused
+    - `room_host_tokens.cohost_hash` keeps sha256 of the room's co-host
+      token, the one secret that can take the game over
+
+  2. Host Away
+    - The auto-caller job now also checks hosts every second: a host with no
+      heartbeat for 90 seconds is marked away (a hidden tab's timers can be
+      held back to once a minute, so less would be flaky), and a room whose
+      host has been away for 5 minutes is cancelled
+    - `host_left(room_id, token)` marks the host away straight away; the
+      cleanup edge function calls it when the dashboard closes, so a reload
+      no longer cancels the game
+    - Going away pauses the game (`config.pausedForHost`); the heartbeat of
+      the returning host, or of a co-host taking over, resumes it
+
+  3. Handoff
+    - `host_set_cohost_token(room_id, token, cohost_token)` - the host issues
+      a co-host link, replacing any earlier one
+    - `take_over_room(room_id, cohost_token, host_token, host_id)` - while
+      the host is away, the co-host's token makes the caller the new host:
+      the host token is replaced, so the old dashboard loses its controls,
+      and called numbers, auto-calling settings and players stay as they are
+*/
+
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS host_seen_at timestamptz DEFAULT now();
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS host_away_since timestamptz;
+
+ALTER TABLE room_host_tokens ADD COLUMN IF NOT EXISTS cohost_hash text;
+
+-- Same values as HOST_AWAY_AFTER_SECONDS / HOST_RECONNECT_GRACE_MINUTES in the client
+
+CREATE OR REPLACE FUNCTION myngo_set_host_away(p_room_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE rooms
+  SET host_away_since = now(),
+      config = config || jsonb_build_object(
+        'isPaused', true,
+        'pausedForHost', NOT coalesce((config->>'isPaused')::boolean, false)
+      ),
+      next_call_at = NULL
+  WHERE id = p_room_id
+    AND host_away_since IS NULL
+    AND status IN ('waiting', 'active');
+$$;
+
+-- Only lifts a pause that going away put there
+CREATE OR REPLACE FUNCTION myngo_set_host_back(p_room_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE rooms
+  SET host_away_since = NULL,
+      config = CASE
+        WHEN coalesce((config->>'pausedForHost')::boolean, false)
+          THEN (config - 'pausedForHost') || '{"isPaused": false}'::jsonb
+        ELSE config - 'pausedForHost'
+      END,
+      next_call_at = CASE
+        WHEN coalesce((config->>'pausedForHost')::boolean, false)
+          AND coalesce((config->'autoCall'->>'enabled')::boolean, false)
+          THEN now() + myngo_call_frequency(config)
+        ELSE next_call_at
+      END
+  WHERE id = p_room_id
+    AND host_away_since IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION myngo_check_hosts()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room_id uuid;
+BEGIN
+  FOR v_room_id IN
+    SELECT id FROM rooms
+    WHERE status IN ('waiting', 'active')
+      AND host_away_since IS NULL
+      AND host_seen_at < now() - interval '90 seconds'
+  LOOP
+    PERFORM myngo_set_host_away(v_room_id);
+  END LOOP;
+
+  FOR v_room_id IN
+    SELECT id FROM rooms
+    WHERE status IN ('waiting', 'active')
+      AND host_away_since < now() - interval '5 minutes'
+  LOOP
+    PERFORM myngo_cancel_room(v_room_id, 'Host did not return');
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION myngo_run_auto_caller()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+  v_called integer := 0;
+BEGIN
+  PERFORM myngo_check_hosts();
+
+  FOR v_room IN
+    SELECT * FROM rooms
+    WHERE next_call_at IS NOT NULL AND next_call_at <= now()
+    ORDER BY next_call_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF v_room.status NOT IN ('waiting', 'active')
+       OR coalesce((v_room.config->'autoCall'->>'enabled')::boolean, false) = false
+       OR coalesce((v_room.config->>'isPaused')::boolean, false) THEN
+      UPDATE rooms SET next_call_at = NULL WHERE id = v_room.id;
+      CONTINUE;
+    END IF;
+
+    IF myngo_call_next_number(v_room.id) IS NOT NULL THEN
+      v_called := v_called + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_called;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_touch_room(p_room_id uuid, p_host_token text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+  UPDATE rooms SET updated_at = now(), host_seen_at = now() WHERE id = p_room_id;
+  PERFORM myngo_set_host_back(p_room_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_left(p_room_id uuid, p_host_token text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+  PERFORM myngo_set_host_away(p_room_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_set_cohost_token(p_room_id uuid, p_host_token text, p_cohost_token text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+
+  IF p_cohost_token IS NULL OR length(p_cohost_token) < 32 THEN
+    RAISE EXCEPTION 'A co-host token needs at least 32 characters';
+  END IF;
+
+  UPDATE room_host_tokens SET cohost_hash = myngo_token_hash(p_cohost_token) WHERE room_id = p_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION take_over_room(
+  p_room_id uuid,
+  p_cohost_token text,
+  p_host_token text,
+  p_host_id text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+BEGIN
+  IF p_host_token IS NULL OR length(p_host_token) < 32 THEN
+    RAISE EXCEPTION 'A host token is required to take over a room';
+  END IF;
+
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+  IF NOT FOUND OR v_room.status NOT IN ('waiting', 'active') THEN
+    RAISE EXCEPTION 'This game is no longer running';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_host_tokens
+    WHERE room_id = p_room_id AND cohost_hash = myngo_token_hash(coalesce(p_cohost_token, ''))
+  ) THEN
+    RAISE EXCEPTION 'Only the co-host of this room can do that' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_room.host_away_since IS NULL THEN
+    RAISE EXCEPTION 'The host is still running this game';
+  END IF;
+
+  -- The co-host link is used up and the old host token stops working
+  UPDATE room_host_tokens
+  SET token_hash = myngo_token_hash(p_host_token),
+      cohost_hash = NULL
+  WHERE room_id = p_room_id;
+
+  UPDATE rooms
+  SET host_id = coalesce(p_host_id, host_id),
+      host_seen_at = now(),
+      updated_at = now()
+  WHERE id = p_room_id;
+
+  PERFORM myngo_set_host_back(p_room_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION myngo_set_host_away(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION myngo_set_host_back(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION myngo_check_hosts() FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION host_left(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION host_set_cohost_token(uuid, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION take_over_room(uuid, text, text, text) TO anon, authenticated;
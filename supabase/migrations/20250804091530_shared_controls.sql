@@ -0,0 +1,341 @@
+/*
+  # Co-host Roles
+
+  1. New Tables
+    - `room_cohosts` - one row per co-host with their own token's hash, their
+      name and their last heartbeat. RLS is enabled with no policies; hosts
+      read the list through `host_list_cohosts`.
+
+  2. Schema Changes
+    - `room_host_tokens.cohost_hash` is renamed `invite_hash`: the co-host
+      link is now an invite that any number of co-hosts can join with
+    - `rooms.owner_seen_at` is the owner's own heartbeat, so co-hosts can see
+      when the owner is gone; `rooms.host_seen_at` is now any host's
+
+  3. Roles
+    - The token that created the room belongs to the owner; co-hosts hold
+      their own. `host_role(room_id, token)` returns 'owner', 'cohost' or
+      NULL, and `verify_host_token` accepts either role, so every host
+      function (calling, pausing, auto-calling, config, bots, presence) is
+      shared
+    - Only the owner can cancel or finish the game (`host_update_room_status`
+      with 'cancelled' or 'finished', `host_end_game`), invite co-hosts or
+      remove them
+
+  4. New Functions
+    - `host_set_cohost_invite(room_id, token, invite_token)` replaces
+      `host_set_cohost_token`
+    - `join_as_cohost(room_id, invite_token, cohost_token, name)`
+    - `host_list_cohosts(room_id, token)` / `host_remove_cohost(room_id, token, cohost_id)`
+    - `take_over_room(room_id, cohost_token, host_token, host_id)` now makes
+      a co-host the owner once the owner has been gone for 90 seconds
+
+  5. Host Away
+    - The game only pauses when no host at all is left: a co-host's
+      heartbeat keeps it running, and `host_left` only marks the room away
+      when nobody else has been seen in the last 90 seconds
+*/
+
+CREATE TABLE IF NOT EXISTS room_cohosts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  token_hash text NOT NULL,
+  last_seen_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS room_cohosts_room_id_idx ON room_cohosts (room_id);
+
+ALTER TABLE room_cohosts ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE room_host_tokens RENAME COLUMN cohost_hash TO invite_hash;
+
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS owner_seen_at timestamptz DEFAULT now();
+
+DROP FUNCTION IF EXISTS host_set_cohost_token(uuid, text, text);
+
+-- Roles
+
+CREATE OR REPLACE FUNCTION host_role(p_room_id uuid, p_host_token text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM room_host_tokens
+      WHERE room_id = p_room_id AND token_hash = myngo_token_hash(coalesce(p_host_token, ''))
+    ) THEN 'owner'
+    WHEN EXISTS (
+      SELECT 1 FROM room_cohosts
+      WHERE room_id = p_room_id AND token_hash = myngo_token_hash(coalesce(p_host_token, ''))
+    ) THEN 'cohost'
+  END;
+$$;
+
+-- Any host; myngo_require_host() goes through this
+CREATE OR REPLACE FUNCTION verify_host_token(p_room_id uuid, p_host_token text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT host_role(p_room_id, p_host_token) IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION myngo_require_owner(p_room_id uuid, p_host_token text)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF host_role(p_room_id, p_host_token) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the owner of this room can do that' USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+-- Owner-only functions
+
+CREATE OR REPLACE FUNCTION host_update_room_status(
+  p_room_id uuid,
+  p_host_token text,
+  p_status text,
+  p_reason text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_status IN ('cancelled', 'finished') THEN
+    PERFORM myngo_require_owner(p_room_id, p_host_token);
+  ELSE
+    PERFORM myngo_require_host(p_room_id, p_host_token);
+  END IF;
+
+  IF p_status = 'cancelled' THEN
+    PERFORM myngo_cancel_room(p_room_id, p_reason);
+  ELSE
+    UPDATE rooms SET status = p_status WHERE id = p_room_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_end_game(p_room_id uuid, p_host_token text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_owner(p_room_id, p_host_token);
+  PERFORM myngo_close_room(p_room_id, 'Completed Game', 'Host ended game');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_set_cohost_invite(p_room_id uuid, p_host_token text, p_invite_token text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_owner(p_room_id, p_host_token);
+
+  IF p_invite_token IS NULL OR length(p_invite_token) < 32 THEN
+    RAISE EXCEPTION 'A co-host invite needs at least 32 characters';
+  END IF;
+
+  UPDATE room_host_tokens SET invite_hash = myngo_token_hash(p_invite_token) WHERE room_id = p_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_remove_cohost(p_room_id uuid, p_host_token text, p_cohost_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_owner(p_room_id, p_host_token);
+  DELETE FROM room_cohosts WHERE id = p_cohost_id AND room_id = p_room_id;
+END;
+$$;
+
+-- Co-hosts
+
+CREATE OR REPLACE FUNCTION join_as_cohost(
+  p_room_id uuid,
+  p_invite_token text,
+  p_cohost_token text,
+  p_name text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cohost_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM room_host_tokens
+    WHERE room_id = p_room_id AND invite_hash = myngo_token_hash(coalesce(p_invite_token, ''))
+  ) THEN
+    RAISE EXCEPTION 'This co-host invite is not valid any more' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND status IN ('waiting', 'active')) THEN
+    RAISE EXCEPTION 'This game is no longer running';
+  END IF;
+
+  IF p_cohost_token IS NULL OR length(p_cohost_token) < 32 THEN
+    RAISE EXCEPTION 'A host token is required to co-host a room';
+  END IF;
+
+  IF length(trim(coalesce(p_name, ''))) NOT BETWEEN 1 AND 30 THEN
+    RAISE EXCEPTION 'Co-host names need 1 to 30 characters';
+  END IF;
+
+  INSERT INTO room_cohosts (room_id, name, token_hash)
+  VALUES (p_room_id, trim(p_name), myngo_token_hash(p_cohost_token))
+  RETURNING id INTO v_cohost_id;
+
+  RETURN v_cohost_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_list_cohosts(p_room_id uuid, p_host_token text)
+RETURNS TABLE (id uuid, name text, last_seen_at timestamptz)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+
+  RETURN QUERY
+    SELECT room_cohosts.id, room_cohosts.name, room_cohosts.last_seen_at
+    FROM room_cohosts
+    WHERE room_cohosts.room_id = p_room_id
+    ORDER BY room_cohosts.created_at;
+END;
+$$;
+
+-- Heartbeats from any host keep the game going
+
+CREATE OR REPLACE FUNCTION host_touch_room(p_room_id uuid, p_host_token text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+
+  IF host_role(p_room_id, p_host_token) = 'owner' THEN
+    UPDATE rooms SET updated_at = now(), host_seen_at = now(), owner_seen_at = now() WHERE id = p_room_id;
+  ELSE
+    UPDATE rooms SET updated_at = now(), host_seen_at = now() WHERE id = p_room_id;
+    UPDATE room_cohosts
+    SET last_seen_at = now()
+    WHERE room_id = p_room_id AND token_hash = myngo_token_hash(p_host_token);
+  END IF;
+
+  PERFORM myngo_set_host_back(p_room_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_left(p_room_id uuid, p_host_token text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_others_seen_at timestamptz;
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+
+  -- The last heartbeat from any other host; greatest() skips NULLs
+  SELECT greatest(
+    CASE WHEN host_role(p_room_id, p_host_token) = 'owner' THEN NULL ELSE rooms.owner_seen_at END,
+    (
+      SELECT max(last_seen_at) FROM room_cohosts
+      WHERE room_id = p_room_id AND token_hash <> myngo_token_hash(p_host_token)
+    )
+  )
+  INTO v_others_seen_at
+  FROM rooms
+  WHERE rooms.id = p_room_id;
+
+  IF v_others_seen_at IS NULL OR v_others_seen_at < now() - interval '90 seconds' THEN
+    PERFORM myngo_set_host_away(p_room_id);
+  END IF;
+END;
+$$;
+
+-- Handoff: a co-host becomes the owner
+
+CREATE OR REPLACE FUNCTION take_over_room(
+  p_room_id uuid,
+  p_cohost_token text,
+  p_host_token text,
+  p_host_id text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+BEGIN
+  IF p_host_token IS NULL OR length(p_host_token) < 32 THEN
+    RAISE EXCEPTION 'A host token is required to take over a room';
+  END IF;
+
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+  IF NOT FOUND OR v_room.status NOT IN ('waiting', 'active') THEN
+    RAISE EXCEPTION 'This game is no longer running';
+  END IF;
+
+  IF host_role(p_room_id, p_cohost_token) IS DISTINCT FROM 'cohost' THEN
+    RAISE EXCEPTION 'Only a co-host of this room can do that' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_room.owner_seen_at > now() - interval '90 seconds' THEN
+    RAISE EXCEPTION 'The owner is still running this game';
+  END IF;
+
+  -- The old owner's token stops working; the co-host's seat becomes the owner's
+  UPDATE room_host_tokens SET token_hash = myngo_token_hash(p_host_token) WHERE room_id = p_room_id;
+  DELETE FROM room_cohosts WHERE room_id = p_room_id AND token_hash = myngo_token_hash(p_cohost_token);
+
+  UPDATE rooms
+  SET host_id = coalesce(p_host_id, host_id),
+      host_seen_at = now(),
+      owner_seen_at = now(),
+      updated_at = now()
+  WHERE id = p_room_id;
+
+  PERFORM myngo_set_host_back(p_room_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION myngo_require_owner(uuid, text) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION host_role(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION host_set_cohost_invite(uuid, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION host_remove_cohost(uuid, text, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION join_as_cohost(uuid, text, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION host_list_cohosts(uuid, text) TO anon, authenticated;
@@ -0,0 +1,400 @@
+/*
+  # Manual Claim Verification
+
+  1. Schema Changes
+    - `rooms.config->'manualClaims'` makes claims wait for a host to approve
+      or reject them (off by default, claims are decided straight away)
+    - `rooms.config->'claimLockoutSeconds'` (0-600, default 0) stops a player
+      from claiming again for a while after a rejected claim
+    - `rooms.config->'pendingClaims'` lists the claims waiting for a host,
+      with the card's marks as they were when the player claimed
+    - `rooms.config->'pausedForClaim'` is set when a waiting claim paused the
+      game, so deciding the last one resumes it
+    - `players.claim_locked_until` is set by a rejected claim
+
+  2. Functions
+    - `claim_win()` still checks the card first: marks that were never called
+      and cards without the pattern are rejected (and locked out) as before.
+      A card that checks out in a manual-claims room waits in
+      `pendingClaims` and the game pauses
+    - `host_resolve_claim(room_id, token, claim_id, approve)` - any host,
+      co-hosts included, approves (the prize is declared as if claimed then)
+      or rejects (the player is locked out) a waiting claim
+    - `myngo_award_prize()` declares a winner for both
+
+  3. Notes
+    - Two players who claim the same prize before the host decides can both
+      be approved and share it; approving the last prize ends the game and
+      drops any claims still waiting
+*/
+
+ALTER TABLE players ADD COLUMN IF NOT EXISTS claim_locked_until timestamptz;
+
+-- Same clamp as getClaimLockoutSeconds() in the client
+CREATE OR REPLACE FUNCTION myngo_claim_lockout_seconds(p_config jsonb)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT least(greatest(coalesce((p_config->>'claimLockoutSeconds')::integer, 0), 0), 600);
+$$;
+
+-- The penalty for a rejected claim, when the room has one
+CREATE OR REPLACE FUNCTION myngo_lock_claims(p_player_id uuid, p_config jsonb)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_locked_until timestamptz;
+BEGIN
+  IF myngo_claim_lockout_seconds(p_config) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE players
+  SET claim_locked_until = now() + make_interval(secs => myngo_claim_lockout_seconds(p_config))
+  WHERE id = p_player_id
+  RETURNING claim_locked_until INTO v_locked_until;
+
+  RETURN v_locked_until;
+END;
+$$;
+
+-- Declares the player the winner of one prize; the caller holds the room lock
+CREATE OR REPLACE FUNCTION myngo_award_prize(
+  p_room_id uuid,
+  p_player_id uuid,
+  p_prize_index integer,
+  p_card_index integer,
+  p_marked integer[],
+  p_balls_called integer,
+  p_line integer,
+  p_reason text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+  v_player players%ROWTYPE;
+  v_prizes jsonb;
+  v_prize jsonb;
+  v_prize_id text;
+  v_pattern_id text;
+  v_game_over boolean;
+BEGIN
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id;
+  SELECT * INTO v_player FROM players WHERE id = p_player_id;
+
+  v_prizes := myngo_room_prizes(v_room.config);
+  v_prize := v_prizes->p_prize_index;
+  v_prize_id := coalesce(v_prize->>'id', 'prize-' || (p_prize_index + 1));
+  v_pattern_id := coalesce(v_prize->'winPattern'->>'id', 'line');
+
+  IF v_prize_id = ANY (v_player.prizes_won) THEN
+    RETURN jsonb_build_object('accepted', true, 'reason', 'Already won this prize', 'prize', v_prize_id);
+  END IF;
+
+  PERFORM set_config('myngo.trusted_write', 'on', true);
+  UPDATE players
+  SET is_winner = true,
+      prizes_won = array_append(prizes_won, v_prize_id)
+  WHERE id = p_player_id;
+  PERFORM set_config('myngo.trusted_write', 'off', true);
+
+  v_game_over := p_prize_index >= jsonb_array_length(v_prizes) - 1;
+
+  -- A second winner of a shared prize doesn't move the game on again
+  IF v_game_over THEN
+    UPDATE rooms SET status = 'finished' WHERE id = p_room_id;
+  ELSIF coalesce((v_room.config->>'currentPrizeIndex')::integer, 0) <= p_prize_index THEN
+    UPDATE rooms
+    SET config = jsonb_set(config, '{currentPrizeIndex}', to_jsonb(p_prize_index + 1))
+    WHERE id = p_room_id;
+  END IF;
+
+  UPDATE game_history
+  SET winners = winners || jsonb_build_array(jsonb_build_object(
+    'prize_id', v_prize_id,
+    'prize_name', coalesce(v_prize->>'name', 'MYNGO'),
+    'player_id', v_player.id,
+    'player_name', v_player.name,
+    'card_index', p_card_index,
+    'auto_daub', v_player.used_auto_daub,
+    'balls_called_count', p_balls_called,
+    'won_at', now()
+  ))
+  WHERE room_code = v_room.code AND ending_status = 'active';
+
+  INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, pattern, prize_id, line, card_index, auto_daub, marked_numbers, balls_called_count)
+  VALUES (p_room_id, v_player.id, v_player.name, true, p_reason, v_pattern_id, v_prize_id, p_line, p_card_index, v_player.used_auto_daub, p_marked, p_balls_called);
+
+  RETURN jsonb_build_object(
+    'accepted', true,
+    'pattern', v_pattern_id,
+    'line', p_line,
+    'prize', v_prize_id,
+    'card', p_card_index,
+    'gameOver', v_game_over
+  );
+END;
+$$;
+
+-- Takes a decided claim off the list; the last one resumes a game it paused
+CREATE OR REPLACE FUNCTION myngo_drop_pending_claim(p_room_id uuid, p_claim_id text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+  v_remaining jsonb;
+  v_resume boolean;
+BEGIN
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id;
+
+  SELECT coalesce(jsonb_agg(claim), '[]'::jsonb) INTO v_remaining
+  FROM jsonb_array_elements(coalesce(v_room.config->'pendingClaims', '[]'::jsonb)) AS claim
+  WHERE claim->>'id' <> p_claim_id;
+
+  IF jsonb_array_length(v_remaining) > 0 THEN
+    UPDATE rooms SET config = jsonb_set(config, '{pendingClaims}', v_remaining) WHERE id = p_room_id;
+    RETURN;
+  END IF;
+
+  v_resume := coalesce((v_room.config->>'pausedForClaim')::boolean, false);
+
+  UPDATE rooms
+  SET config = CASE
+        WHEN v_resume THEN (config - 'pendingClaims' - 'pausedForClaim') || '{"isPaused": false}'::jsonb
+        ELSE config - 'pendingClaims' - 'pausedForClaim'
+      END,
+      next_call_at = CASE
+        WHEN v_resume
+          AND status IN ('waiting', 'active')
+          AND coalesce((config->'autoCall'->>'enabled')::boolean, false)
+          THEN now() + myngo_call_frequency(config)
+        ELSE next_call_at
+      END
+  WHERE id = p_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_win(p_player_id uuid, p_card_index integer DEFAULT 0)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_player players%ROWTYPE;
+  v_room rooms%ROWTYPE;
+  v_card jsonb;
+  v_marked integer[];
+  v_called integer[];
+  v_uncalled integer[];
+  v_prizes jsonb;
+  v_prize_index integer;
+  v_prize jsonb;
+  v_prize_id text;
+  v_pattern_id text;
+  v_masks jsonb;
+  v_required integer;
+  v_completed integer := 0;
+  v_line integer;
+  v_reason text;
+  v_locked_until timestamptz;
+  i integer;
+BEGIN
+  SELECT * INTO v_player FROM players WHERE id = p_player_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'Player not found');
+  END IF;
+
+  IF p_card_index IS NULL OR p_card_index < 0 OR p_card_index >= v_player.card_count THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'Card not found');
+  END IF;
+
+  IF p_card_index = 0 THEN
+    v_card := v_player.card;
+    v_marked := v_player.marked_numbers;
+  ELSE
+    v_card := v_player.extra_cards->(p_card_index - 1)->'card';
+    SELECT coalesce(array_agg(value::integer), '{}') INTO v_marked
+    FROM jsonb_array_elements_text(coalesce(v_player.extra_marked_numbers->(p_card_index - 1), '[]'::jsonb)) AS value;
+  END IF;
+
+  -- Lock the room so two simultaneous claims are judged one after the other
+  SELECT * INTO v_room FROM rooms WHERE id = v_player.room_id FOR UPDATE;
+
+  v_prizes := myngo_room_prizes(v_room.config);
+  v_prize_index := least(greatest(coalesce((v_room.config->>'currentPrizeIndex')::integer, 0), 0),
+                         jsonb_array_length(v_prizes) - 1);
+  v_prize := v_prizes->v_prize_index;
+  v_prize_id := coalesce(v_prize->>'id', 'prize-' || (v_prize_index + 1));
+
+  IF v_prize_id = ANY (v_player.prizes_won) THEN
+    RETURN jsonb_build_object('accepted', true, 'reason', 'Already won this prize', 'prize', v_prize_id);
+  END IF;
+
+  IF v_player.claim_locked_until > now() THEN
+    RETURN jsonb_build_object('accepted', false,
+      'reason', 'You can claim again in ' || ceil(extract(epoch FROM v_player.claim_locked_until - now()))::integer || ' seconds',
+      'lockedUntil', v_player.claim_locked_until);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(coalesce(v_room.config->'pendingClaims', '[]'::jsonb)) AS claim
+    WHERE claim->>'playerId' = v_player.id::text
+  ) THEN
+    RETURN jsonb_build_object('accepted', false, 'pending', true, 'reason', 'Your claim is waiting for the host');
+  END IF;
+
+  SELECT coalesce(array_agg(number), '{}') INTO v_called
+  FROM called_numbers
+  WHERE room_id = v_room.id;
+
+  IF v_room.status IN ('finished', 'cancelled') THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, prize_id, card_index, auto_daub, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false, 'The game is already over', v_prize_id, p_card_index, v_player.used_auto_daub, v_marked, cardinality(v_called));
+    RETURN jsonb_build_object('accepted', false, 'reason', 'The game is already over');
+  END IF;
+
+  v_pattern_id := coalesce(v_prize->'winPattern'->>'id', 'line');
+
+  SELECT coalesce(array_agg(m ORDER BY m), '{}') INTO v_uncalled
+  FROM unnest(v_marked) AS m
+  WHERE NOT (m = ANY (v_called));
+
+  IF cardinality(v_uncalled) > 0 THEN
+    v_reason := 'Marked numbers that were never called: ' || array_to_string(v_uncalled, ', ');
+  ELSE
+    v_masks := coalesce(v_prize->'winPattern'->'masks', myngo_default_win_masks());
+    v_required := least(greatest(coalesce((v_prize->'winPattern'->>'required')::integer, 1), 1),
+                        jsonb_array_length(v_masks));
+
+    FOR i IN 0 .. jsonb_array_length(v_masks) - 1 LOOP
+      IF myngo_mask_complete(v_card, v_masks->i, v_marked) THEN
+        v_line := coalesce(v_line, i);
+        v_completed := v_completed + 1;
+        EXIT WHEN v_completed >= v_required;
+      END IF;
+    END LOOP;
+
+    IF v_completed < v_required THEN
+      v_reason := 'No winning pattern on this card yet';
+    END IF;
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, pattern, prize_id, card_index, auto_daub, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false, v_reason, v_pattern_id, v_prize_id, p_card_index, v_player.used_auto_daub, v_marked, cardinality(v_called));
+    v_locked_until := myngo_lock_claims(v_player.id, v_room.config);
+    RETURN jsonb_build_object('accepted', false, 'reason', v_reason, 'lockedUntil', v_locked_until);
+  END IF;
+
+  -- The card checks out; in a manual-claims room it waits for a host
+  IF coalesce((v_room.config->>'manualClaims')::boolean, false) THEN
+    UPDATE rooms
+    SET config = config || jsonb_build_object(
+          'pendingClaims', coalesce(config->'pendingClaims', '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+            'id', gen_random_uuid()::text,
+            'playerId', v_player.id,
+            'playerName', v_player.name,
+            'cardIndex', p_card_index,
+            'prizeIndex', v_prize_index,
+            'prizeId', v_prize_id,
+            'line', v_line,
+            'markedNumbers', to_jsonb(v_marked),
+            'ballsCalled', cardinality(v_called),
+            'claimedAt', now()
+          )),
+          'isPaused', true,
+          'pausedForClaim', coalesce((config->>'pausedForClaim')::boolean,
+                                     NOT coalesce((config->>'isPaused')::boolean, false))
+        ),
+        next_call_at = NULL
+    WHERE id = v_room.id;
+
+    RETURN jsonb_build_object('accepted', false, 'pending', true,
+      'reason', 'Waiting for the host to check your card', 'prize', v_prize_id);
+  END IF;
+
+  RETURN myngo_award_prize(v_room.id, v_player.id, v_prize_index, p_card_index, v_marked,
+                           cardinality(v_called), v_line, 'Winner declared');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_resolve_claim(
+  p_room_id uuid,
+  p_host_token text,
+  p_claim_id text,
+  p_approve boolean
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+  v_claim jsonb;
+  v_player players%ROWTYPE;
+  v_marked integer[];
+  v_result jsonb;
+  v_locked_until timestamptz;
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+
+  SELECT claim INTO v_claim
+  FROM jsonb_array_elements(coalesce(v_room.config->'pendingClaims', '[]'::jsonb)) AS claim
+  WHERE claim->>'id' = p_claim_id;
+
+  IF v_claim IS NULL THEN
+    RAISE EXCEPTION 'This claim has already been decided';
+  END IF;
+
+  PERFORM myngo_drop_pending_claim(p_room_id, p_claim_id);
+
+  SELECT * INTO v_player FROM players WHERE id = (v_claim->>'playerId')::uuid;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'Player not found');
+  END IF;
+
+  SELECT coalesce(array_agg(value::integer), '{}') INTO v_marked
+  FROM jsonb_array_elements_text(coalesce(v_claim->'markedNumbers', '[]'::jsonb)) AS value;
+
+  IF NOT p_approve THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, prize_id, card_index, auto_daub, marked_numbers, balls_called_count)
+    VALUES (p_room_id, v_player.id, v_player.name, false, 'Rejected by the host', v_claim->>'prizeId',
+            (v_claim->>'cardIndex')::integer, v_player.used_auto_daub, v_marked, (v_claim->>'ballsCalled')::integer);
+    v_locked_until := myngo_lock_claims(v_player.id, v_room.config);
+    RETURN jsonb_build_object('accepted', false, 'reason', 'Rejected by the host', 'lockedUntil', v_locked_until);
+  END IF;
+
+  v_result := myngo_award_prize(p_room_id, v_player.id, (v_claim->>'prizeIndex')::integer,
+                                (v_claim->>'cardIndex')::integer, v_marked,
+                                (v_claim->>'ballsCalled')::integer, (v_claim->>'line')::integer,
+                                'Approved by the host');
+
+  -- Claims still waiting can't win once the last prize is gone
+  IF coalesce((v_result->>'gameOver')::boolean, false) THEN
+    UPDATE rooms SET config = config - 'pendingClaims' - 'pausedForClaim' WHERE id = p_room_id;
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION myngo_lock_claims(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION myngo_award_prize(uuid, uuid, integer, integer, integer[], integer, integer, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION myngo_drop_pending_claim(uuid, text) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION host_resolve_claim(uuid, text, text, boolean) TO anon, authenticated;
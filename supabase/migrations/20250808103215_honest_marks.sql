@@ -0,0 +1,261 @@
+/*
+  # False Mark Detection
+
+  1. Schema Changes
+    - `players.false_marks` counts the marks a player tried to make on
+      numbers that had not been called
+    - `rooms.config->'falseMarkLimit'` (0-50, default 0 for no limit) stops a
+      player claiming once they reach that many false marks
+
+  2. Functions
+    - `update_player_marks()` now only stores marks on called numbers. Any
+      others are dropped, counted in `false_marks` and returned, so the
+      player's tab can take them back off the card
+    - `claim_win()` refuses players who reached the room's false mark limit
+
+  3. Security
+    - `false_marks` can only be raised by `update_player_marks()`; new
+      players start at zero
+*/
+
+ALTER TABLE players ADD COLUMN IF NOT EXISTS false_marks integer NOT NULL DEFAULT 0;
+
+-- Same clamp as getFalseMarkLimit() in the client
+CREATE OR REPLACE FUNCTION myngo_false_mark_limit(p_config jsonb)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT least(greatest(coalesce((p_config->>'falseMarkLimit')::integer, 0), 0), 50);
+$$;
+
+-- Joining players can't pick their own count
+CREATE OR REPLACE FUNCTION myngo_reset_false_marks()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.false_marks := 0;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reset_false_marks ON players;
+CREATE TRIGGER reset_false_marks
+  BEFORE INSERT ON players
+  FOR EACH ROW
+  EXECUTE FUNCTION myngo_reset_false_marks();
+
+-- Returns the numbers it refused, so the caller can unmark them
+DROP FUNCTION IF EXISTS update_player_marks(uuid, text, integer[], integer);
+
+CREATE FUNCTION update_player_marks(
+  p_player_id uuid,
+  p_player_token text,
+  p_marked_numbers integer[],
+  p_card_index integer DEFAULT 0
+)
+RETURNS integer[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_player players%ROWTYPE;
+  v_called integer[];
+  v_marked integer[];
+  v_rejected integer[];
+BEGIN
+  PERFORM myngo_require_player(p_player_id, p_player_token);
+
+  SELECT * INTO v_player FROM players WHERE id = p_player_id FOR UPDATE;
+  IF p_card_index IS NULL OR p_card_index < 0 OR p_card_index >= v_player.card_count THEN
+    RAISE EXCEPTION 'Player has no card %', coalesce(p_card_index, 0) + 1;
+  END IF;
+
+  SELECT coalesce(array_agg(number), '{}') INTO v_called
+  FROM called_numbers
+  WHERE room_id = v_player.room_id;
+
+  SELECT
+    coalesce(array_agg(m ORDER BY position) FILTER (WHERE m = ANY (v_called)), '{}'),
+    coalesce(array_agg(m ORDER BY position) FILTER (WHERE NOT (m = ANY (v_called))), '{}')
+  INTO v_marked, v_rejected
+  FROM unnest(coalesce(p_marked_numbers, '{}')) WITH ORDINALITY AS marks(m, position);
+
+  IF cardinality(v_rejected) > 0 THEN
+    UPDATE players SET false_marks = false_marks + cardinality(v_rejected) WHERE id = p_player_id;
+  END IF;
+
+  IF p_card_index = 0 THEN
+    UPDATE players SET marked_numbers = v_marked WHERE id = p_player_id;
+  ELSE
+    UPDATE players
+    SET extra_marked_numbers = (
+      SELECT jsonb_agg(
+        CASE WHEN slot = p_card_index - 1
+          THEN to_jsonb(v_marked)
+          ELSE coalesce(extra_marked_numbers->slot, '[]'::jsonb)
+        END
+        ORDER BY slot
+      )
+      FROM generate_series(0, card_count - 2) AS slot
+    )
+    WHERE id = p_player_id;
+  END IF;
+
+  RETURN v_rejected;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_win(p_player_id uuid, p_card_index integer DEFAULT 0)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_player players%ROWTYPE;
+  v_room rooms%ROWTYPE;
+  v_card jsonb;
+  v_marked integer[];
+  v_called integer[];
+  v_uncalled integer[];
+  v_prizes jsonb;
+  v_prize_index integer;
+  v_prize jsonb;
+  v_prize_id text;
+  v_pattern_id text;
+  v_masks jsonb;
+  v_required integer;
+  v_completed integer := 0;
+  v_line integer;
+  v_reason text;
+  v_locked_until timestamptz;
+  i integer;
+BEGIN
+  SELECT * INTO v_player FROM players WHERE id = p_player_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'Player not found');
+  END IF;
+
+  IF p_card_index IS NULL OR p_card_index < 0 OR p_card_index >= v_player.card_count THEN
+    RETURN jsonb_build_object('accepted', false, 'reason', 'Card not found');
+  END IF;
+
+  IF p_card_index = 0 THEN
+    v_card := v_player.card;
+    v_marked := v_player.marked_numbers;
+  ELSE
+    v_card := v_player.extra_cards->(p_card_index - 1)->'card';
+    SELECT coalesce(array_agg(value::integer), '{}') INTO v_marked
+    FROM jsonb_array_elements_text(coalesce(v_player.extra_marked_numbers->(p_card_index - 1), '[]'::jsonb)) AS value;
+  END IF;
+
+  -- Lock the room so two simultaneous claims are judged one after the other
+  SELECT * INTO v_room FROM rooms WHERE id = v_player.room_id FOR UPDATE;
+
+  v_prizes := myngo_room_prizes(v_room.config);
+  v_prize_index := least(greatest(coalesce((v_room.config->>'currentPrizeIndex')::integer, 0), 0),
+                         jsonb_array_length(v_prizes) - 1);
+  v_prize := v_prizes->v_prize_index;
+  v_prize_id := coalesce(v_prize->>'id', 'prize-' || (v_prize_index + 1));
+
+  IF v_prize_id = ANY (v_player.prizes_won) THEN
+    RETURN jsonb_build_object('accepted', true, 'reason', 'Already won this prize', 'prize', v_prize_id);
+  END IF;
+
+  IF v_player.claim_locked_until > now() THEN
+    RETURN jsonb_build_object('accepted', false,
+      'reason', 'You can claim again in ' || ceil(extract(epoch FROM v_player.claim_locked_until - now()))::integer || ' seconds',
+      'lockedUntil', v_player.claim_locked_until);
+  END IF;
+
+  IF myngo_false_mark_limit(v_room.config) > 0 AND v_player.false_marks >= myngo_false_mark_limit(v_room.config) THEN
+    RETURN jsonb_build_object('accepted', false, 'claimsDisabled', true,
+      'reason', 'Claiming is disabled after ' || v_player.false_marks || ' marks on numbers that were never called');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(coalesce(v_room.config->'pendingClaims', '[]'::jsonb)) AS claim
+    WHERE claim->>'playerId' = v_player.id::text
+  ) THEN
+    RETURN jsonb_build_object('accepted', false, 'pending', true, 'reason', 'Your claim is waiting for the host');
+  END IF;
+
+  SELECT coalesce(array_agg(number), '{}') INTO v_called
+  FROM called_numbers
+  WHERE room_id = v_room.id;
+
+  IF v_room.status IN ('finished', 'cancelled') THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, prize_id, card_index, auto_daub, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false, 'The game is already over', v_prize_id, p_card_index, v_player.used_auto_daub, v_marked, cardinality(v_called));
+    RETURN jsonb_build_object('accepted', false, 'reason', 'The game is already over');
+  END IF;
+
+  v_pattern_id := coalesce(v_prize->'winPattern'->>'id', 'line');
+
+  SELECT coalesce(array_agg(m ORDER BY m), '{}') INTO v_uncalled
+  FROM unnest(v_marked) AS m
+  WHERE NOT (m = ANY (v_called));
+
+  IF cardinality(v_uncalled) > 0 THEN
+    v_reason := 'Marked numbers that were never called: ' || array_to_string(v_uncalled, ', ');
+  ELSE
+    v_masks := coalesce(v_prize->'winPattern'->'masks', myngo_default_win_masks());
+    v_required := least(greatest(coalesce((v_prize->'winPattern'->>'required')::integer, 1), 1),
+                        jsonb_array_length(v_masks));
+
+    FOR i IN 0 .. jsonb_array_length(v_masks) - 1 LOOP
+      IF myngo_mask_complete(v_card, v_masks->i, v_marked) THEN
+        v_line := coalesce(v_line, i);
+        v_completed := v_completed + 1;
+        EXIT WHEN v_completed >= v_required;
+      END IF;
+    END LOOP;
+
+    IF v_completed < v_required THEN
+      v_reason := 'No winning pattern on this card yet';
+    END IF;
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    INSERT INTO win_claims (room_id, player_id, player_name, accepted, reason, pattern, prize_id, card_index, auto_daub, marked_numbers, balls_called_count)
+    VALUES (v_room.id, v_player.id, v_player.name, false, v_reason, v_pattern_id, v_prize_id, p_card_index, v_player.used_auto_daub, v_marked, cardinality(v_called));
+    v_locked_until := myngo_lock_claims(v_player.id, v_room.config);
+    RETURN jsonb_build_object('accepted', false, 'reason', v_reason, 'lockedUntil', v_locked_until);
+  END IF;
+
+  -- The card checks out; in a manual-claims room it waits for a host
+  IF coalesce((v_room.config->>'manualClaims')::boolean, false) THEN
+    UPDATE rooms
+    SET config = config || jsonb_build_object(
+          'pendingClaims', coalesce(config->'pendingClaims', '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+            'id', gen_random_uuid()::text,
+            'playerId', v_player.id,
+            'playerName', v_player.name,
+            'cardIndex', p_card_index,
+            'prizeIndex', v_prize_index,
+            'prizeId', v_prize_id,
+            'line', v_line,
+            'markedNumbers', to_jsonb(v_marked),
+            'ballsCalled', cardinality(v_called),
+            'claimedAt', now()
+          )),
+          'isPaused', true,
+          'pausedForClaim', coalesce((config->>'pausedForClaim')::boolean,
+                                     NOT coalesce((config->>'isPaused')::boolean, false))
+        ),
+        next_call_at = NULL
+    WHERE id = v_room.id;
+
+    RETURN jsonb_build_object('accepted', false, 'pending', true,
+      'reason', 'Waiting for the host to check your card', 'prize', v_prize_id);
+  END IF;
+
+  RETURN myngo_award_prize(v_room.id, v_player.id, v_prize_index, p_card_index, v_marked,
+                           cardinality(v_called), v_line, 'Winner declared');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_player_marks(uuid, text, integer[], integer) TO anon, authenticated;
@@ -0,0 +1,130 @@
+/*
+  # Undo Last Call
+
+  1. New Tables
+    - `call_corrections` records every call a host took back: the number,
+      when it was called and undone, and which host undid it
+
+  2. Functions
+    - `host_undo_last_call(room_id, token)` - any host, co-hosts included,
+      deletes the room's most recent call if it is less than 15 seconds old
+      (`UNDO_CALL_WINDOW_SECONDS` in the client). The number comes off every
+      card, bots and players alike, and the next automatic call is pushed
+      back as it is after a call
+    - A call can't be undone once a prize was won after it, or while claims
+      are waiting for a host
+
+  3. Notes
+    - The deleted row reaches players through the called numbers
+      subscription as a DELETE
+    - Numbers come from the room's seeded order, so the next call after an
+      undo is the same number again
+*/
+
+CREATE TABLE IF NOT EXISTS call_corrections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE,
+  number integer NOT NULL,
+  letter text NOT NULL,
+  called_at timestamptz NOT NULL,
+  undone_at timestamptz DEFAULT now(),
+  host_role text NOT NULL,
+  host_name text
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_corrections_room_id ON call_corrections(room_id);
+
+ALTER TABLE call_corrections ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow reading call_corrections" ON call_corrections;
+
+CREATE POLICY "Allow reading call_corrections"
+  ON call_corrections
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE OR REPLACE FUNCTION host_undo_last_call(p_room_id uuid, p_host_token text)
+RETURNS called_numbers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+  v_call called_numbers%ROWTYPE;
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+
+  -- Lock the room so a claim or another call can't slip in meanwhile
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+  IF v_room.status NOT IN ('waiting', 'active') THEN
+    RAISE EXCEPTION 'The game is over';
+  END IF;
+
+  SELECT * INTO v_call
+  FROM called_numbers
+  WHERE room_id = p_room_id
+  ORDER BY called_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No number has been called yet';
+  END IF;
+
+  IF v_call.called_at < now() - interval '15 seconds' THEN
+    RAISE EXCEPTION 'Only a call from the last 15 seconds can be undone';
+  END IF;
+
+  IF jsonb_array_length(coalesce(v_room.config->'pendingClaims', '[]'::jsonb)) > 0 THEN
+    RAISE EXCEPTION 'Decide the waiting claims before undoing a call';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM win_claims
+    WHERE room_id = p_room_id AND accepted AND created_at >= v_call.called_at
+  ) THEN
+    RAISE EXCEPTION 'A prize was won after %-% was called', v_call.letter, v_call.number;
+  END IF;
+
+  DELETE FROM called_numbers WHERE id = v_call.id;
+
+  -- Marks must stay on called numbers, so the number comes off every card
+  UPDATE players
+  SET marked_numbers = array_remove(marked_numbers, v_call.number),
+      extra_marked_numbers = CASE
+        WHEN extra_marked_numbers IS NULL THEN NULL
+        ELSE (
+          SELECT coalesce(jsonb_agg(
+            coalesce((
+              SELECT jsonb_agg(mark ORDER BY position)
+              FROM jsonb_array_elements(card_marks) WITH ORDINALITY AS marks(mark, position)
+              WHERE mark <> to_jsonb(v_call.number)
+            ), '[]'::jsonb)
+            ORDER BY slot
+          ), '[]'::jsonb)
+          FROM jsonb_array_elements(extra_marked_numbers) WITH ORDINALITY AS cards(card_marks, slot)
+        )
+      END
+  WHERE room_id = p_room_id
+    AND (v_call.number = ANY (marked_numbers)
+         OR extra_marked_numbers @> jsonb_build_array(jsonb_build_array(v_call.number)));
+
+  INSERT INTO call_corrections (room_id, number, letter, called_at, host_role, host_name)
+  VALUES (
+    p_room_id, v_call.number, v_call.letter, v_call.called_at,
+    host_role(p_room_id, p_host_token),
+    (SELECT name FROM room_cohosts
+     WHERE room_id = p_room_id AND token_hash = myngo_token_hash(coalesce(p_host_token, '')))
+  );
+
+  -- Same as after a call: the auto-caller waits a full interval
+  UPDATE rooms
+  SET next_call_at = now() + myngo_call_frequency(config)
+  WHERE id = p_room_id AND next_call_at IS NOT NULL;
+
+  RETURN v_call;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION host_undo_last_call(uuid, text) TO anon, authenticated;
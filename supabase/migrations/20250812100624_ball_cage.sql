@@ -0,0 +1,94 @@
+/*
+  # Ball Cage Calling
+
+  1. Schema Changes
+    - `rooms.config->'callingMode'` is 'seeded' (default) or 'cage'. In a
+      cage room the host draws balls from a physical cage and enters each
+      number on the dashboard
+
+  2. Functions
+    - `host_call_number()` refuses numbers outside 1-75, numbers already
+      called and calls once the game is over, with a message the host can read
+    - `host_call_next_number()` and `start_auto_caller()` refuse cage rooms:
+      their numbers never come from the seed
+
+  3. Notes
+    - Cage calls don't follow the seeded order, so the fairness check after
+      the game only covers the seed and the cards
+*/
+
+CREATE OR REPLACE FUNCTION myngo_is_cage_calling(p_config jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(p_config->>'callingMode', 'seeded') = 'cage';
+$$;
+
+CREATE OR REPLACE FUNCTION host_call_number(p_room_id uuid, p_host_token text, p_number integer)
+RETURNS called_numbers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+  v_call called_numbers%ROWTYPE;
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+
+  IF p_number IS NULL OR p_number < 1 OR p_number > 75 THEN
+    RAISE EXCEPTION 'Numbers go from 1 to 75';
+  END IF;
+
+  -- Lock the room so the same ball entered twice is only called once
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+  IF v_room.status NOT IN ('waiting', 'active') THEN
+    RAISE EXCEPTION 'The game is over';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM called_numbers WHERE room_id = p_room_id AND number = p_number) THEN
+    RAISE EXCEPTION '%-% has already been called', myngo_letter_for_number(p_number), p_number;
+  END IF;
+
+  INSERT INTO called_numbers (room_id, number, letter)
+  VALUES (p_room_id, p_number, myngo_letter_for_number(p_number))
+  RETURNING * INTO v_call;
+
+  RETURN v_call;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_call_next_number(p_room_id uuid, p_host_token text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+
+  IF myngo_is_cage_calling((SELECT config FROM rooms WHERE id = p_room_id)) THEN
+    RAISE EXCEPTION 'This room draws its numbers from a ball cage';
+  END IF;
+
+  RETURN myngo_call_next_number(p_room_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION start_auto_caller(p_room_id uuid, p_host_token text)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+
+  IF myngo_is_cage_calling((SELECT config FROM rooms WHERE id = p_room_id)) THEN
+    RAISE EXCEPTION 'This room draws its numbers from a ball cage';
+  END IF;
+
+  RETURN myngo_start_auto_caller(p_room_id);
+END;
+$$;
@@ -0,0 +1,53 @@
+/*
+  # Signed Claims
+
+  1. Functions
+    - `claim_win(player_id, player_token, card_index)` now checks the player
+      token like `update_player_marks()`. Anyone could read a player's id,
+      so anyone could claim for them, fill `win_claims` and set off their
+      claim lockout
+    - `host_claim_bot_win(room_id, host_token, bot_id, card_index)` - the
+      host claims for a demo bot, which has no player token
+    - The previous `claim_win(player_id, card_index)` is kept as the
+      internal `myngo_claim_win()` that both of them judge claims with
+
+  2. Notes
+    - After a rejoin only the new device's token is accepted, so the old
+      device can no longer claim on the card
+*/
+
+ALTER FUNCTION claim_win(uuid, integer) RENAME TO myngo_claim_win;
+
+CREATE OR REPLACE FUNCTION claim_win(p_player_id uuid, p_player_token text, p_card_index integer DEFAULT 0)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_player(p_player_id, p_player_token);
+  RETURN myngo_claim_win(p_player_id, p_card_index);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION host_claim_bot_win(p_room_id uuid, p_host_token text, p_bot_id uuid, p_card_index integer DEFAULT 0)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+
+  IF NOT EXISTS (SELECT 1 FROM players WHERE id = p_bot_id AND room_id = p_room_id AND is_bot) THEN
+    RAISE EXCEPTION 'No such bot in this room';
+  END IF;
+
+  RETURN myngo_claim_win(p_bot_id, p_card_index);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION myngo_claim_win(uuid, integer) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION claim_win(uuid, text, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION host_claim_bot_win(uuid, text, uuid, integer) TO anon, authenticated;
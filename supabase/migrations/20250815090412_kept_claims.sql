@@ -0,0 +1,38 @@
+/*
+  # Server-Owned Room Config
+
+  1. Functions
+    - `host_update_room_config(room_id, token, config)` now merges the host's
+      config into the stored one instead of replacing it, and ignores the
+      keys only the server writes (`myngo_server_config_keys()`): claims
+      waiting for a host, and the pauses and auto-caller state around them.
+      A host sending back an old copy of the config, as the call frequency
+      slider does while it is dragged, can no longer drop a waiting claim
+      or undo a pause
+
+  2. Notes
+    - Keys the host leaves out keep their stored value
+*/
+
+-- Same list as SERVER_CONFIG_KEYS in the local backend
+CREATE OR REPLACE FUNCTION myngo_server_config_keys()
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY['pendingClaims', 'pausedForClaim', 'isPaused', 'autoCall'];
+$$;
+
+CREATE OR REPLACE FUNCTION host_update_room_config(p_room_id uuid, p_host_token text, p_config jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM myngo_require_host(p_room_id, p_host_token);
+  UPDATE rooms
+  SET config = coalesce(config, '{}'::jsonb) || (coalesce(p_config, '{}'::jsonb) - myngo_server_config_keys())
+  WHERE id = p_room_id;
+END;
+$$;
@@ -0,0 +1,20 @@
+/*
+  # Server-Owned Prize and Presence Config
+
+  1. Functions
+    - `myngo_server_config_keys()` now also lists `currentPrizeIndex`
+      (moved on by `myngo_award_prize()`), `pausedForHost` (the host away
+      pause) and `maxPlayersEver` (kept by the `record_peak_players`
+      trigger). A host config update sent with an older copy can no longer
+      roll the game back to a prize that was already won
+*/
+
+-- Same list as SERVER_CONFIG_KEYS in the local backend
+CREATE OR REPLACE FUNCTION myngo_server_config_keys()
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY['pendingClaims', 'pausedForClaim', 'isPaused', 'autoCall',
+               'currentPrizeIndex', 'pausedForHost', 'maxPlayersEver'];
+$$;
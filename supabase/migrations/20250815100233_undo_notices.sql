@@ -0,0 +1,25 @@
+/*
+  # Undo Notices Over Realtime
+
+  1. Realtime
+    - `call_corrections` joins the `supabase_realtime` publication. Realtime
+      can't filter DELETE events by room, so clients never heard about the
+      `called_numbers` row an undo removes; they now watch for the
+      correction INSERT, filtered by `room_id`, instead
+
+  2. Notes
+    - Numbers are never called twice in a room, so the correction's number
+      is enough to find the call it takes back
+*/
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+     AND NOT EXISTS (
+       SELECT 1 FROM pg_publication_tables
+       WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'call_corrections'
+     ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE call_corrections;
+  END IF;
+END;
+$$;